@@ -1,3 +1,5 @@
+import { VIBRATION_CONSTANTS } from '@fremen/shared';
+
 export class InputManager {
   private keys: Map<string, boolean> = new Map();
   private mouseX = 0;
@@ -7,6 +9,7 @@ export class InputManager {
   private isPointerLocked = false;
   private thumperRequested = false;
   private mountRequested = false;
+  private inventoryToggleRequested = false;
 
   constructor() {
     this.setupEventListeners();
@@ -21,6 +24,10 @@ export class InputManager {
           this.mountRequested = true;
         }
       }
+
+      if (e.code === 'KeyI') {
+        this.inventoryToggleRequested = true;
+      }
     });
 
     window.addEventListener('keyup', (e) => {
@@ -60,9 +67,19 @@ export class InputManager {
     if (this.isKeyPressed('KeyD')) right += 1;
     if (this.isKeyPressed('KeyA')) right -= 1;
 
+    if (this.isSandwalking()) {
+      forward *= VIBRATION_CONSTANTS.SANDWALK_SPEED_SCALE;
+      right *= VIBRATION_CONSTANTS.SANDWALK_SPEED_SCALE;
+    }
+
     return { forward, right };
   }
 
+  /** Holding C breaks the walking rhythm: slower, but far quieter to worms */
+  isSandwalking(): boolean {
+    return this.isKeyPressed('KeyC');
+  }
+
   getMouseDelta(): { x: number; y: number } {
     const delta = { x: this.mouseDeltaX, y: this.mouseDeltaY };
     this.mouseDeltaX = 0;
@@ -94,6 +111,14 @@ export class InputManager {
     return false;
   }
 
+  shouldToggleInventory(): boolean {
+    if (this.inventoryToggleRequested) {
+      this.inventoryToggleRequested = false;
+      return true;
+    }
+    return false;
+  }
+
   resetMountRequest() {
     this.mountRequested = false;
   }
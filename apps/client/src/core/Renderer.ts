@@ -1,9 +1,30 @@
 import * as THREE from 'three';
+import { getDaylight, getSunElevation } from '@fremen/shared';
+
+const DAY_SKY = new THREE.Color(0xd4a574);
+const DUSK_SKY = new THREE.Color(0xc8644a);
+const NIGHT_SKY = new THREE.Color(0x141a2a);
+const DAY_SUN = new THREE.Color(0xffffff);
+const DUSK_SUN = new THREE.Color(0xff9a5a);
+const NIGHT_AMBIENT = new THREE.Color(0x6a7aa8);
+const STORM_HAZE = new THREE.Color(0xa87a4e);
+const SUN_DISTANCE = 100;
+const FOG_NEAR = 100;
+const FOG_FAR = 500;
+// Fog distances at the heart of a sandstorm
+const STORM_FOG_NEAR = 2;
+const STORM_FOG_FAR = 40;
 
 export class Renderer {
   private renderer: THREE.WebGLRenderer;
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
+  private ambientLight: THREE.AmbientLight;
+  private sunLight: THREE.DirectionalLight;
+  private skyColor = DAY_SKY.clone();
+  private hazeColor = DAY_SKY.clone();
+  private fog: THREE.Fog;
+  private storm = 0;
 
   constructor(canvas: HTMLCanvasElement) {
     this.renderer = new THREE.WebGLRenderer({ canvas, antialias: true });
@@ -11,8 +32,9 @@ export class Renderer {
     this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
 
     this.scene = new THREE.Scene();
-    this.scene.background = new THREE.Color(0xd4a574);
-    this.scene.fog = new THREE.Fog(0xd4a574, 100, 500);
+    this.scene.background = this.skyColor;
+    this.fog = new THREE.Fog(this.skyColor, FOG_NEAR, FOG_FAR);
+    this.scene.fog = this.fog;
 
     this.camera = new THREE.PerspectiveCamera(
       75,
@@ -22,16 +44,58 @@ export class Renderer {
     );
     this.camera.position.set(0, 5, 10);
 
-    const ambientLight = new THREE.AmbientLight(0xffffff, 0.6);
-    this.scene.add(ambientLight);
+    this.ambientLight = new THREE.AmbientLight(0xffffff, 0.6);
+    this.scene.add(this.ambientLight);
 
-    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
-    directionalLight.position.set(10, 20, 10);
-    this.scene.add(directionalLight);
+    this.sunLight = new THREE.DirectionalLight(0xffffff, 0.8);
+    this.sunLight.position.set(10, 20, 10);
+    this.scene.add(this.sunLight);
 
     window.addEventListener('resize', () => this.onResize());
   }
 
+  /**
+   * Move the sun and relight the sky for the server's time of day
+   * (0 = midnight, 0.5 = noon).
+   */
+  setTimeOfDay(timeOfDay: number) {
+    const elevation = getSunElevation(timeOfDay);
+    const daylight = getDaylight(timeOfDay);
+    // Strongest orange glow with the sun on the horizon
+    const dusk = Math.max(0, 1 - Math.abs(elevation) * 4);
+    const angle = 2 * Math.PI * (timeOfDay - 0.25);
+
+    this.sunLight.position.set(
+      Math.cos(angle) * SUN_DISTANCE,
+      Math.max(elevation, 0.05) * SUN_DISTANCE,
+      SUN_DISTANCE * 0.3
+    );
+    this.sunLight.intensity = 0.8 * daylight + 0.1 * dusk;
+    this.sunLight.color.copy(DAY_SUN).lerp(DUSK_SUN, dusk);
+
+    this.ambientLight.intensity = 0.25 + 0.35 * daylight;
+    this.ambientLight.color.copy(NIGHT_AMBIENT).lerp(DAY_SUN, Math.min(1, daylight * 2));
+
+    this.skyColor.copy(NIGHT_SKY).lerp(DAY_SKY, Math.min(1, daylight * 2)).lerp(DUSK_SKY, dusk * 0.5);
+    this.hazeColor.copy(STORM_HAZE).multiplyScalar(0.3 + 0.7 * Math.min(1, daylight * 2));
+    this.applyFog();
+  }
+
+  /**
+   * Close the fog in around the camera while inside a sandstorm
+   * (0 = clear, 1 = heart of a full-strength storm).
+   */
+  setStormIntensity(intensity: number) {
+    this.storm = Math.max(0, Math.min(1, intensity));
+    this.applyFog();
+  }
+
+  private applyFog() {
+    this.fog.near = THREE.MathUtils.lerp(FOG_NEAR, STORM_FOG_NEAR, this.storm);
+    this.fog.far = THREE.MathUtils.lerp(FOG_FAR, STORM_FOG_FAR, this.storm);
+    this.fog.color.copy(this.skyColor).lerp(this.hazeColor, this.storm);
+  }
+
   private onResize() {
     this.camera.aspect = window.innerWidth / window.innerHeight;
     this.camera.updateProjectionMatrix();
@@ -0,0 +1,64 @@
+import * as THREE from 'three';
+import type { CorpseMarker as CorpseMarkerState } from '@fremen/shared';
+
+export class CorpseMarker {
+  private group: THREE.Group;
+  private body: THREE.Mesh;
+  private beacon: THREE.Mesh;
+  private pulseTime = 0;
+  private state: CorpseMarkerState;
+  public id: string;
+
+  constructor(state: CorpseMarkerState, position: THREE.Vector3) {
+    this.id = state.id;
+    this.state = state;
+    this.group = new THREE.Group();
+    this.group.position.copy(position);
+
+    const bodyGeometry = new THREE.BoxGeometry(0.6, 0.3, 1.8);
+    const bodyMaterial = new THREE.MeshStandardMaterial({ color: 0x5a4030, flatShading: true });
+    this.body = new THREE.Mesh(bodyGeometry, bodyMaterial);
+    this.body.position.y = 0.15;
+    this.body.castShadow = true;
+    this.group.add(this.body);
+
+    const beaconGeometry = new THREE.CylinderGeometry(0.2, 0.2, 8, 6);
+    const beaconMaterial = new THREE.MeshStandardMaterial({
+      color: 0xff8800,
+      emissive: 0xff6600,
+      emissiveIntensity: 0.5,
+      transparent: true,
+      opacity: 0.6,
+    });
+    this.beacon = new THREE.Mesh(beaconGeometry, beaconMaterial);
+    this.beacon.position.y = 4;
+    this.group.add(this.beacon);
+  }
+
+  getState(): CorpseMarkerState {
+    return this.state;
+  }
+
+  getPosition(): THREE.Vector3 {
+    return this.group.position;
+  }
+
+  update(deltaTime: number) {
+    this.pulseTime += deltaTime;
+
+    const pulse = (Math.sin(this.pulseTime * 2) + 1) / 2;
+    const material = this.beacon.material as THREE.MeshStandardMaterial;
+    material.emissiveIntensity = 0.3 + pulse * 0.5;
+  }
+
+  getGroup(): THREE.Group {
+    return this.group;
+  }
+
+  dispose() {
+    this.body.geometry.dispose();
+    (this.body.material as THREE.Material).dispose();
+    this.beacon.geometry.dispose();
+    (this.beacon.material as THREE.Material).dispose();
+  }
+}
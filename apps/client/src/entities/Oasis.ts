@@ -0,0 +1,86 @@
+import * as THREE from 'three';
+import type { OasisSnapshot } from '@fremen/protocol';
+
+export class Oasis {
+  private group: THREE.Group;
+  private pool: THREE.Mesh;
+  private palms: THREE.Mesh[] = [];
+  private shimmerTime = 0;
+  private cooldownEndsAt = 0;
+  public id: string;
+  public radius: number;
+
+  constructor(state: OasisSnapshot, position: THREE.Vector3) {
+    this.id = state.id;
+    this.radius = state.radius;
+    this.group = new THREE.Group();
+    this.group.position.copy(position);
+
+    const poolGeometry = new THREE.CircleGeometry(state.radius * 0.6, 32);
+    const poolMaterial = new THREE.MeshStandardMaterial({
+      color: 0x2a7fb8,
+      emissive: 0x0a3a5a,
+      emissiveIntensity: 0.3,
+      transparent: true,
+      opacity: 0.85,
+      metalness: 0.2,
+      roughness: 0.1,
+    });
+    this.pool = new THREE.Mesh(poolGeometry, poolMaterial);
+    this.pool.rotation.x = -Math.PI / 2;
+    this.pool.position.y = 0.1;
+    this.group.add(this.pool);
+
+    const trunkGeometry = new THREE.CylinderGeometry(0.15, 0.25, 4, 6);
+    const trunkMaterial = new THREE.MeshStandardMaterial({ color: 0x7a5a3a, flatShading: true });
+    const palmCount = 5;
+    for (let i = 0; i < palmCount; i++) {
+      const angle = (i / palmCount) * Math.PI * 2;
+      const palm = new THREE.Mesh(trunkGeometry, trunkMaterial);
+      palm.position.set(Math.cos(angle) * state.radius * 0.8, 2, Math.sin(angle) * state.radius * 0.8);
+      palm.rotation.z = Math.sin(angle) * 0.15;
+      palm.castShadow = true;
+      this.palms.push(palm);
+      this.group.add(palm);
+    }
+
+    this.setCooldown(state.cooldownRemaining);
+  }
+
+  setCooldown(remainingMs: number) {
+    this.cooldownEndsAt = Date.now() + remainingMs;
+  }
+
+  getCooldownRemaining(): number {
+    return Math.max(0, this.cooldownEndsAt - Date.now());
+  }
+
+  contains(position: THREE.Vector3): boolean {
+    const dx = position.x - this.group.position.x;
+    const dz = position.z - this.group.position.z;
+    return Math.sqrt(dx * dx + dz * dz) <= this.radius;
+  }
+
+  update(deltaTime: number) {
+    this.shimmerTime += deltaTime;
+
+    const material = this.pool.material as THREE.MeshStandardMaterial;
+    const available = this.getCooldownRemaining() === 0;
+    material.emissiveIntensity = available ? 0.3 + (Math.sin(this.shimmerTime * 2) + 1) * 0.1 : 0.05;
+  }
+
+  getGroup(): THREE.Group {
+    return this.group;
+  }
+
+  dispose() {
+    this.pool.geometry.dispose();
+    (this.pool.material as THREE.Material).dispose();
+
+    const palm = this.palms[0];
+    if (palm) {
+      palm.geometry.dispose();
+      (palm.material as THREE.Material).dispose();
+    }
+  }
+}
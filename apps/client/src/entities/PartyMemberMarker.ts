@@ -0,0 +1,70 @@
+import * as THREE from 'three';
+
+const MEMBER_COLOR = 0x33ccff;
+const DOWNED_COLOR = 0x777777;
+
+/**
+ * Floating diamond over a party member, with a faint beam to the ground so
+ * they stay findable across the dunes. Leaders get a larger diamond.
+ */
+export class PartyMemberMarker {
+  private group: THREE.Group;
+  private diamond: THREE.Mesh;
+  private beam: THREE.Mesh;
+  private bobTime = 0;
+
+  constructor(position: THREE.Vector3, leader: boolean) {
+    this.group = new THREE.Group();
+    this.group.position.copy(position);
+
+    const diamondGeometry = new THREE.OctahedronGeometry(leader ? 0.8 : 0.5);
+    const diamondMaterial = new THREE.MeshStandardMaterial({
+      color: MEMBER_COLOR,
+      emissive: MEMBER_COLOR,
+      emissiveIntensity: 0.6,
+      flatShading: true,
+    });
+    this.diamond = new THREE.Mesh(diamondGeometry, diamondMaterial);
+    this.diamond.position.y = 4;
+    this.group.add(this.diamond);
+
+    const beamGeometry = new THREE.CylinderGeometry(0.05, 0.05, 3.5, 4);
+    const beamMaterial = new THREE.MeshBasicMaterial({
+      color: MEMBER_COLOR,
+      transparent: true,
+      opacity: 0.4,
+    });
+    this.beam = new THREE.Mesh(beamGeometry, beamMaterial);
+    this.beam.position.y = 1.75;
+    this.group.add(this.beam);
+  }
+
+  setPosition(x: number, y: number, z: number) {
+    this.group.position.set(x, y, z);
+  }
+
+  setAlive(alive: boolean) {
+    const color = alive ? MEMBER_COLOR : DOWNED_COLOR;
+    const material = this.diamond.material as THREE.MeshStandardMaterial;
+    material.color.setHex(color);
+    material.emissive.setHex(color);
+    (this.beam.material as THREE.MeshBasicMaterial).color.setHex(color);
+  }
+
+  update(deltaTime: number) {
+    this.bobTime += deltaTime;
+    this.diamond.position.y = 4 + Math.sin(this.bobTime * 2) * 0.2;
+    this.diamond.rotation.y += deltaTime * 1.5;
+  }
+
+  getGroup(): THREE.Group {
+    return this.group;
+  }
+
+  dispose() {
+    this.diamond.geometry.dispose();
+    (this.diamond.material as THREE.Material).dispose();
+    this.beam.geometry.dispose();
+    (this.beam.material as THREE.Material).dispose();
+  }
+}
@@ -0,0 +1,91 @@
+import * as THREE from 'three';
+import type { StormState } from '@fremen/shared';
+
+const WALL_HEIGHT = 60;
+const PARTICLE_COUNT = 2000;
+const SWIRL_SPEED = 0.3; // rad/s
+
+/**
+ * A sandstorm front: a hazy wall of sand with dust blowing through it.
+ */
+export class Sandstorm {
+  private group: THREE.Group;
+  private wall: THREE.Mesh;
+  private dust: THREE.Points;
+  private velocity = new THREE.Vector3();
+  private target = new THREE.Vector3();
+  private radius: number;
+
+  constructor(state: StormState) {
+    this.radius = state.radius;
+    this.group = new THREE.Group();
+    this.group.position.set(state.position.x, 0, state.position.z);
+    this.target.copy(this.group.position);
+
+    const wallGeometry = new THREE.CylinderGeometry(state.radius, state.radius, WALL_HEIGHT, 48, 1, true);
+    const wallMaterial = new THREE.MeshBasicMaterial({
+      color: 0xb8865a,
+      transparent: true,
+      opacity: 0,
+      side: THREE.DoubleSide,
+      depthWrite: false,
+    });
+    this.wall = new THREE.Mesh(wallGeometry, wallMaterial);
+    this.wall.position.y = WALL_HEIGHT / 2;
+    this.group.add(this.wall);
+
+    // Dust scattered through the whole volume, denser towards the ground
+    const positions = new Float32Array(PARTICLE_COUNT * 3);
+    for (let i = 0; i < PARTICLE_COUNT; i++) {
+      const angle = Math.random() * Math.PI * 2;
+      const dist = Math.sqrt(Math.random()) * state.radius;
+      positions[i * 3] = Math.cos(angle) * dist;
+      positions[i * 3 + 1] = Math.pow(Math.random(), 2) * WALL_HEIGHT;
+      positions[i * 3 + 2] = Math.sin(angle) * dist;
+    }
+    const dustGeometry = new THREE.BufferGeometry();
+    dustGeometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    const dustMaterial = new THREE.PointsMaterial({
+      color: 0xd2a56e,
+      size: 0.8,
+      transparent: true,
+      opacity: 0,
+      depthWrite: false,
+    });
+    this.dust = new THREE.Points(dustGeometry, dustMaterial);
+    this.group.add(this.dust);
+
+    this.updateFromState(state);
+  }
+
+  updateFromState(state: StormState) {
+    this.target.set(state.position.x, 0, state.position.z);
+    this.velocity.set(state.velocity.x, 0, state.velocity.z);
+    (this.wall.material as THREE.MeshBasicMaterial).opacity = 0.35 * state.intensity;
+    (this.dust.material as THREE.PointsMaterial).opacity = 0.8 * state.intensity;
+  }
+
+  update(deltaTime: number) {
+    // Drift with the wind between updates and ease onto the server position
+    this.target.addScaledVector(this.velocity, deltaTime);
+    this.group.position.lerp(this.target, Math.min(1, deltaTime * 2));
+
+    this.dust.rotation.y += SWIRL_SPEED * deltaTime;
+    this.wall.rotation.y -= SWIRL_SPEED * 0.5 * deltaTime;
+  }
+
+  getRadius(): number {
+    return this.radius;
+  }
+
+  getGroup(): THREE.Group {
+    return this.group;
+  }
+
+  dispose() {
+    this.wall.geometry.dispose();
+    (this.wall.material as THREE.Material).dispose();
+    this.dust.geometry.dispose();
+    (this.dust.material as THREE.Material).dispose();
+  }
+}
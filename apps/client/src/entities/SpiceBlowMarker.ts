@@ -0,0 +1,73 @@
+import * as THREE from 'three';
+import type { SpiceBlowPhase } from '@fremen/shared';
+
+export class SpiceBlowMarker {
+  private group: THREE.Group;
+  private plume: THREE.Mesh;
+  private ring: THREE.Mesh;
+  private phase: SpiceBlowPhase = 'warning';
+  private pulseTime = 0;
+
+  constructor(position: THREE.Vector3, radius: number) {
+    this.group = new THREE.Group();
+    this.group.position.copy(position);
+
+    // A thin column of haze marks the blow site; it swells once the blow erupts
+    const plumeGeometry = new THREE.CylinderGeometry(1, 3, 40, 12, 1, true);
+    const plumeMaterial = new THREE.MeshStandardMaterial({
+      color: 0xd2691e,
+      emissive: 0xff6600,
+      emissiveIntensity: 0.4,
+      transparent: true,
+      opacity: 0.5,
+      side: THREE.DoubleSide,
+      flatShading: true,
+    });
+    this.plume = new THREE.Mesh(plumeGeometry, plumeMaterial);
+    this.plume.position.y = 20;
+    this.group.add(this.plume);
+
+    const ringGeometry = new THREE.RingGeometry(radius - 1, radius, 48);
+    const ringMaterial = new THREE.MeshBasicMaterial({
+      color: 0xff6600,
+      side: THREE.DoubleSide,
+      transparent: true,
+      opacity: 0.4,
+    });
+    this.ring = new THREE.Mesh(ringGeometry, ringMaterial);
+    this.ring.rotation.x = -Math.PI / 2;
+    this.ring.position.y = 0.1;
+    this.group.add(this.ring);
+  }
+
+  setPhase(phase: SpiceBlowPhase) {
+    this.phase = phase;
+    if (phase === 'erupted') {
+      this.plume.scale.set(4, 1.5, 4);
+      this.plume.position.y = 30;
+    }
+  }
+
+  update(deltaTime: number) {
+    this.pulseTime += deltaTime;
+
+    // The countdown pulses faster than the settled field
+    const rate = this.phase === 'warning' ? 6 : 2;
+    const pulse = (Math.sin(this.pulseTime * rate) + 1) / 2;
+    const material = this.plume.material as THREE.MeshStandardMaterial;
+    material.emissiveIntensity = 0.3 + pulse * 0.7;
+
+    this.plume.rotation.y += deltaTime * 0.5;
+  }
+
+  getGroup(): THREE.Group {
+    return this.group;
+  }
+
+  dispose() {
+    this.plume.geometry.dispose();
+    (this.plume.material as THREE.Material).dispose();
+    this.ring.geometry.dispose();
+    (this.ring.material as THREE.Material).dispose();
+  }
+}
@@ -0,0 +1,112 @@
+import * as THREE from 'three';
+import { ECONOMY_CONSTANTS, SpiceNodeState } from '@fremen/shared';
+import type { SpiceNodeSnapshot } from '@fremen/protocol';
+
+const ACTIVE_COLOR = new THREE.Color(0xe8782a);
+const DEPLETED_COLOR = new THREE.Color(0x6b5a48);
+
+export class SpiceNode {
+  private group: THREE.Group;
+  private mound: THREE.Mesh;
+  private respawnRing: THREE.Mesh;
+  private glowTime = Math.random() * Math.PI * 2;
+  private state: SpiceNodeSnapshot;
+  public id: string;
+
+  constructor(state: SpiceNodeSnapshot, position: THREE.Vector3) {
+    this.id = state.id;
+    this.state = state;
+    this.group = new THREE.Group();
+    this.group.position.copy(position);
+
+    const moundGeometry = new THREE.ConeGeometry(0.8, 0.6, 7);
+    const moundMaterial = new THREE.MeshStandardMaterial({
+      color: ACTIVE_COLOR.clone(),
+      emissive: ACTIVE_COLOR.clone(),
+      emissiveIntensity: 0.4,
+      flatShading: true,
+    });
+    this.mound = new THREE.Mesh(moundGeometry, moundMaterial);
+    this.mound.position.y = 0.3;
+    this.mound.castShadow = true;
+    this.group.add(this.mound);
+
+    const ringGeometry = new THREE.RingGeometry(0.9, 1.1, 24);
+    const ringMaterial = new THREE.MeshBasicMaterial({
+      color: ACTIVE_COLOR.clone(),
+      side: THREE.DoubleSide,
+      transparent: true,
+      opacity: 0.5,
+    });
+    this.respawnRing = new THREE.Mesh(ringGeometry, ringMaterial);
+    this.respawnRing.rotation.x = -Math.PI / 2;
+    this.respawnRing.position.y = 0.05;
+    this.group.add(this.respawnRing);
+
+    this.applyState(state);
+  }
+
+  applyState(state: SpiceNodeSnapshot) {
+    this.state = state;
+
+    const depleted = state.state !== SpiceNodeState.ACTIVE;
+    const material = this.mound.material as THREE.MeshStandardMaterial;
+    material.color.copy(depleted ? DEPLETED_COLOR : ACTIVE_COLOR);
+    material.emissive.copy(depleted ? DEPLETED_COLOR : ACTIVE_COLOR);
+
+    const supplyRatio = state.maxSupply > 0 ? state.supply / state.maxSupply : 0;
+    const height = depleted ? 0.15 : 0.3 + supplyRatio * 0.7;
+    const width = depleted ? 0.6 : 0.6 + supplyRatio * 0.4;
+    this.mound.scale.set(width, height, width);
+    this.mound.position.y = 0.3 * height;
+
+    this.respawnRing.visible = depleted;
+  }
+
+  update(deltaTime: number) {
+    const material = this.mound.material as THREE.MeshStandardMaterial;
+
+    if (this.state.state === SpiceNodeState.ACTIVE) {
+      this.glowTime += deltaTime;
+      const supplyRatio = this.state.maxSupply > 0 ? this.state.supply / this.state.maxSupply : 0;
+      const pulse = (Math.sin(this.glowTime * 2) + 1) / 2;
+      material.emissiveIntensity = (0.2 + pulse * 0.4) * (0.4 + supplyRatio * 0.6);
+      return;
+    }
+
+    material.emissiveIntensity = 0.05;
+
+    // Ring fills in as the node approaches its respawn time
+    const progress = this.getRespawnProgress();
+    const ringMaterial = this.respawnRing.material as THREE.MeshBasicMaterial;
+    ringMaterial.color.copy(DEPLETED_COLOR).lerp(ACTIVE_COLOR, progress);
+    this.respawnRing.scale.setScalar(0.3 + progress * 0.7);
+  }
+
+  getRespawnProgress(): number {
+    if (this.state.state === SpiceNodeState.ACTIVE) return 1;
+    if (!this.state.respawnAt) return 0;
+
+    const remaining = this.state.respawnAt - Date.now();
+    return THREE.MathUtils.clamp(1 - remaining / ECONOMY_CONSTANTS.SPICE_NODE_RESPAWN, 0, 1);
+  }
+
+  getState(): SpiceNodeSnapshot {
+    return this.state;
+  }
+
+  getPosition(): THREE.Vector3 {
+    return this.group.position;
+  }
+
+  getGroup(): THREE.Group {
+    return this.group;
+  }
+
+  dispose() {
+    this.mound.geometry.dispose();
+    (this.mound.material as THREE.Material).dispose();
+    this.respawnRing.geometry.dispose();
+    (this.respawnRing.material as THREE.Material).dispose();
+  }
+}
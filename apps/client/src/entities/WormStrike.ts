@@ -0,0 +1,71 @@
+import * as THREE from 'three';
+
+const STRIKE_DURATION = 2; // seconds
+
+/**
+ * Short-lived eruption of sand where a worm broke the surface.
+ */
+export class WormStrike {
+  private group: THREE.Group;
+  private maw: THREE.Mesh;
+  private ring: THREE.Mesh;
+  private age = 0;
+
+  constructor(position: THREE.Vector3, radius: number) {
+    this.group = new THREE.Group();
+    this.group.position.copy(position);
+
+    const mawGeometry = new THREE.CylinderGeometry(radius * 0.4, radius * 0.6, 6, 12, 1, true);
+    const mawMaterial = new THREE.MeshStandardMaterial({
+      color: 0x8b6914,
+      flatShading: true,
+      side: THREE.DoubleSide,
+      transparent: true,
+      opacity: 1,
+    });
+    this.maw = new THREE.Mesh(mawGeometry, mawMaterial);
+    this.maw.position.y = -3;
+    this.group.add(this.maw);
+
+    const ringGeometry = new THREE.RingGeometry(radius * 0.8, radius, 32);
+    const ringMaterial = new THREE.MeshBasicMaterial({
+      color: 0xd2b48c,
+      side: THREE.DoubleSide,
+      transparent: true,
+      opacity: 0.8,
+    });
+    this.ring = new THREE.Mesh(ringGeometry, ringMaterial);
+    this.ring.rotation.x = -Math.PI / 2;
+    this.ring.position.y = 0.1;
+    this.group.add(this.ring);
+  }
+
+  /** Returns false once the effect has finished playing */
+  update(deltaTime: number): boolean {
+    this.age += deltaTime;
+    const t = Math.min(1, this.age / STRIKE_DURATION);
+
+    // Rise out of the sand in the first third, then sink back
+    const rise = t < 0.33 ? t / 0.33 : 1 - (t - 0.33) / 0.67;
+    this.maw.position.y = -3 + rise * 6;
+
+    const ringScale = 1 + t * 2;
+    this.ring.scale.set(ringScale, ringScale, 1);
+
+    (this.maw.material as THREE.MeshStandardMaterial).opacity = 1 - t;
+    (this.ring.material as THREE.MeshBasicMaterial).opacity = 0.8 * (1 - t);
+
+    return this.age < STRIKE_DURATION;
+  }
+
+  getGroup(): THREE.Group {
+    return this.group;
+  }
+
+  dispose() {
+    this.maw.geometry.dispose();
+    (this.maw.material as THREE.Material).dispose();
+    this.ring.geometry.dispose();
+    (this.ring.material as THREE.Material).dispose();
+  }
+}
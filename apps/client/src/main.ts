@@ -7,7 +7,13 @@ import { FPSCounter } from './ui/FPSCounter';
 import { ChatUI } from './ui/ChatUI';
 import { InteractionPrompt } from './ui/InteractionPrompt';
 import { ObjectiveTracker } from './ui/ObjectiveTracker';
+import { PartyPanel } from './ui/PartyPanel';
 import { RidingHUD } from './ui/RidingHUD';
+import { MerchantPanel } from './ui/MerchantPanel';
+import { InventoryPanel } from './ui/InventoryPanel';
+import { ResourceHUD } from './ui/ResourceHUD';
+import { SpiceBlowBanner } from './ui/SpiceBlowBanner';
+import type { SpiceBlowInfo } from './ui/SpiceBlowBanner';
 import { NetworkManager } from './networking/NetworkManager';
 import { PredictionManager } from './core/PredictionManager';
 import * as THREE from 'three';
@@ -27,34 +33,119 @@ const fpsCounter = new FPSCounter();
 const chatUI = new ChatUI();
 const interactionPrompt = new InteractionPrompt();
 const objectiveTracker = new ObjectiveTracker();
+const partyPanel = new PartyPanel();
 const ridingHUD = new RidingHUD();
+const merchantPanel = new MerchantPanel();
+const inventoryPanel = new InventoryPanel();
+const resourceHUD = new ResourceHUD(canvas);
+const spiceBlowBanner = new SpiceBlowBanner();
 const predictionManager = new PredictionManager();
 
 chatUI.onSend((message) => {
+  if (message.startsWith('/')) {
+    handleChatCommand(message);
+    return;
+  }
   network.sendChat(message);
 });
 
+merchantPanel.onBuy((itemId) => {
+  network.sendTradeBuy(itemId);
+});
+
+merchantPanel.onSell((itemId) => {
+  network.sendTradeSell(itemId);
+});
+
+inventoryPanel.onEquip((itemId) => {
+  network.sendEquip(itemId);
+});
+
+inventoryPanel.onUnequip((slot) => {
+  network.sendUnequip(slot);
+});
+
+objectiveTracker.onAccept((objectiveId) => {
+  network.sendObjectiveAccept(objectiveId);
+});
+
+objectiveTracker.onAbandon((objectiveId) => {
+  network.sendObjectiveAbandon(objectiveId);
+});
+
+partyPanel.onAccept((inviterId) => {
+  network.sendPartyAccept(inviterId);
+});
+
+partyPanel.onLeave(() => {
+  network.sendPartyLeave();
+});
+
+partyPanel.onKick((playerId) => {
+  network.sendPartyKick(playerId);
+});
+
 const serverUrl = 'http://localhost:3000';
 const network = new NetworkManager(serverUrl);
 
 import { Worm } from './entities/Worm';
 import { Thumper } from './entities/Thumper';
 import { ObjectiveMarker } from './entities/ObjectiveMarker';
-import { PlayerStateEnum } from '@fremen/shared';
+import { PartyMemberMarker } from './entities/PartyMemberMarker';
+import { SpiceNode } from './entities/SpiceNode';
+import { Oasis } from './entities/Oasis';
+import { CorpseMarker } from './entities/CorpseMarker';
+import { WormStrike } from './entities/WormStrike';
+import { SpiceBlowMarker } from './entities/SpiceBlowMarker';
+import { Sandstorm } from './entities/Sandstorm';
+import { ECONOMY_CONSTANTS, PlayerStateEnum, SpiceNodeState, getStrongestStorm } from '@fremen/shared';
+import type { Equipment, EquipmentStats, StormState } from '@fremen/shared';
+import type {
+  EntityRef,
+  ObjectiveEventData,
+  ObjectiveSnapshot,
+  PartySnapshot,
+  SpiceBlowEventData,
+  SpiceNodeSnapshot,
+  WormStrikeEventData,
+} from '@fremen/protocol';
 
 let localPlayerId: string | null = null;
 let localPlayerState: PlayerStateEnum = PlayerStateEnum.ACTIVE;
-let currentObjective: any = null;
-let objectiveMarker: ObjectiveMarker | null = null;
+let objectives: ObjectiveSnapshot[] = [];
+const objectiveMarkers = new Map<string, ObjectiveMarker>();
+let party: PartySnapshot | undefined;
+const partyMarkers = new Map<string, { marker: PartyMemberMarker; leader: boolean }>();
 const players = new Map<string, Player>();
 const worms = new Map<string, Worm>();
 const wormStates = new Map<string, any>();
 const thumpers = new Map<string, Thumper>();
+const spiceNodes = new Map<string, SpiceNode>();
+const oases = new Map<string, Oasis>();
+const corpses = new Map<string, CorpseMarker>();
+const wormStrikes: WormStrike[] = [];
+const storms = new Map<string, Sandstorm>();
+const stormStates = new Map<string, StormState>();
+let spiceBlow: (SpiceBlowInfo & { id: string }) | null = null;
+let spiceBlowMarker: SpiceBlowMarker | null = null;
+let harvestProgress: number | null = null;
+let localMaxSpeed: number = GAME_CONSTANTS.PLAYER_MAX_SPEED;
+let equipment: Equipment = {};
+let equipmentStats: EquipmentStats = {};
+let sietchZone: { position: { x: number; z: number }; radius: number } | null = null;
 
 network.onWelcome((data) => {
   localPlayerId = data.playerId;
   console.log(`Welcome! Player ID: ${localPlayerId}`);
-  
+
+  network.requestCatalog();
+
+  // A resumed session keeps its world; the server follows up with a full snapshot
+  if (data.resumed && terrainManager) {
+    console.log('Resumed previous session');
+    return;
+  }
+
   terrainManager = new TerrainManager(scene, data.seed);
   terrainManager.update(0, 0);
   
@@ -62,39 +153,331 @@ network.onWelcome((data) => {
 });
 
 network.onChat((data) => {
-  chatUI.addMessage(data.playerName, data.message);
+  chatUI.addMessage(data.playerName, data.message, data.channel === 'party');
 });
 
-network.onState((data) => {
-  if (data.objective) {
-    if (currentObjective?.status === 'ACTIVE' && data.objective.status === 'COMPLETED') {
-      objectiveTracker.showCompletion();
-      if (objectiveMarker) {
-        scene.remove(objectiveMarker.getGroup());
-        objectiveMarker.dispose();
-        objectiveMarker = null;
+network.onHarvest((data) => {
+  if (data.type === 'S_HARVEST_PROGRESS') {
+    harvestProgress = data.progress;
+    return;
+  }
+
+  harvestProgress = null;
+  merchantPanel.setSpice(data.spice);
+  if (data.success) {
+    chatUI.addMessage('System', `Harvested ${data.amount} spice (total: ${data.spice})`);
+  } else if (data.reason) {
+    console.log(`Harvest failed: ${data.reason}`);
+  }
+});
+
+network.onTrade((data) => {
+  if (data.type === 'S_CATALOG') {
+    sietchZone = { position: data.sietchPosition, radius: data.safeZoneRadius };
+    merchantPanel.setCatalog(data.items);
+    return;
+  }
+
+  merchantPanel.showResult(data);
+  inventoryPanel.update(equipment, data.inventory, equipmentStats);
+});
+
+network.onEquipment((data) => {
+  equipment = data.equipment;
+  equipmentStats = data.stats;
+  inventoryPanel.update(data.equipment, data.inventory, data.stats);
+
+  if (data.type === 'S_EQUIP_RESULT' && !data.success && data.reason) {
+    inventoryPanel.showError(data.reason);
+  }
+});
+
+network.onOasis((data) => {
+  if (data.type === 'S_OASES') {
+    for (const oasisState of data.oases) {
+      if (oases.has(oasisState.id)) {
+        oases.get(oasisState.id)!.setCooldown(oasisState.cooldownRemaining);
+        continue;
       }
+
+      const y = heightSampler ? heightSampler.getHeight(oasisState.position.x, oasisState.position.z) : oasisState.position.y;
+      const oasis = new Oasis(oasisState, new THREE.Vector3(oasisState.position.x, y, oasisState.position.z));
+      oases.set(oasisState.id, oasis);
+      scene.add(oasis.getGroup());
     }
-    
-    if (data.objective.status === 'ACTIVE' && (!currentObjective || currentObjective.id !== data.objective.id)) {
-      if (objectiveMarker) {
-        scene.remove(objectiveMarker.getGroup());
-        objectiveMarker.dispose();
+    return;
+  }
+
+  if (data.oasisId) {
+    oases.get(data.oasisId)?.setCooldown(data.cooldownRemaining);
+  }
+
+  if (data.success) {
+    chatUI.addMessage('System', `Refilled water (now ${Math.round(data.water)})`);
+  } else if (data.reason) {
+    console.log(`Refill failed: ${data.reason}`);
+  }
+});
+
+network.onCorpse((data) => {
+  if (data.type === 'S_CORPSES') {
+    const activeIds = new Set(data.corpses.map(c => c.id));
+    for (const [corpseId, corpse] of corpses) {
+      if (!activeIds.has(corpseId)) {
+        scene.remove(corpse.getGroup());
+        corpse.dispose();
+        corpses.delete(corpseId);
       }
-      
-      const pos = new THREE.Vector3(
-        data.objective.targetPosition.x,
-        data.objective.targetPosition.y,
-        data.objective.targetPosition.z
-      );
-      objectiveMarker = new ObjectiveMarker(pos, data.objective.radius);
-      scene.add(objectiveMarker.getGroup());
-      console.log('Spawned objective marker at', pos);
     }
-    
-    currentObjective = data.objective;
+
+    for (const corpseState of data.corpses) {
+      if (corpses.has(corpseState.id)) continue;
+
+      const y = heightSampler ? heightSampler.getHeight(corpseState.position.x, corpseState.position.z) : corpseState.position.y;
+      const corpse = new CorpseMarker(corpseState, new THREE.Vector3(corpseState.position.x, y, corpseState.position.z));
+      corpses.set(corpseState.id, corpse);
+      scene.add(corpse.getGroup());
+    }
+    return;
+  }
+
+  merchantPanel.setSpice(data.spice);
+  if (data.success) {
+    chatUI.addMessage('System', `Recovered ${data.spiceRecovered} spice from your corpse (total: ${data.spice})`);
+  } else if (data.reason) {
+    console.log(`Corpse recovery failed: ${data.reason}`);
+  }
+});
+
+network.onEvent((data) => {
+  if (data.eventType === 'worm_strike') {
+    handleWormStrike(data.data as WormStrikeEventData);
+  } else if (data.eventType === 'spice_blow') {
+    handleSpiceBlow(data.data as SpiceBlowEventData);
+  } else if (data.eventType === 'objective') {
+    objectiveTracker.showOutcome(data.data as ObjectiveEventData);
+  }
+});
+
+network.onObjective((data) => {
+  objectiveTracker.showResult(data);
+});
+
+network.onParty((data) => {
+  if (data.type === 'S_PARTY_INVITE') {
+    partyPanel.addInvite(data);
+    chatUI.addMessage('System', `${data.inviterName} invited you to their party - /accept to join`);
+    return;
+  }
+
+  partyPanel.showResult(data);
+  if (!data.success) {
+    chatUI.addMessage('System', data.reason ?? 'Party action failed');
+  }
+});
+
+/** Party commands typed into chat: /invite, /accept, /leave, /kick and /p for party chat */
+function handleChatCommand(input: string) {
+  const [command, ...rest] = input.slice(1).split(' ');
+  const argument = rest.join(' ').trim();
+
+  switch (command.toLowerCase()) {
+    case 'p':
+    case 'party':
+      if (argument) {
+        network.sendChat(argument, 'party');
+      }
+      break;
+    case 'invite':
+      if (argument) {
+        network.sendPartyInvite(argument);
+      } else {
+        chatUI.addMessage('System', 'Usage: /invite <name>');
+      }
+      break;
+    case 'accept': {
+      const invite = partyPanel.getLatestInvite();
+      if (invite) {
+        network.sendPartyAccept(invite.inviterId);
+      } else {
+        chatUI.addMessage('System', 'No pending party invites');
+      }
+      break;
+    }
+    case 'leave':
+      network.sendPartyLeave();
+      break;
+    case 'kick': {
+      const member = party?.members.find(m => m.username.toLowerCase() === argument.toLowerCase());
+      if (member) {
+        network.sendPartyKick(member.playerId);
+      } else {
+        chatUI.addMessage('System', `${argument || 'That player'} is not in your party`);
+      }
+      break;
+    }
+    default:
+      chatUI.addMessage('System', `Unknown command /${command}`);
+  }
+}
+
+/** One marker over each other party member, wherever they are on the map */
+function updatePartyMarkers(snapshot: PartySnapshot | undefined) {
+  const others = (snapshot?.members ?? []).filter(member => member.playerId !== localPlayerId);
+  const otherIds = new Set(others.map(member => member.playerId));
+
+  for (const [id, entry] of partyMarkers) {
+    const leader = snapshot?.leaderId === id;
+    if (!otherIds.has(id) || entry.leader !== leader) {
+      scene.remove(entry.marker.getGroup());
+      entry.marker.dispose();
+      partyMarkers.delete(id);
+    }
+  }
+
+  for (const member of others) {
+    let entry = partyMarkers.get(member.playerId);
+    if (!entry) {
+      const { x, y, z } = member.position;
+      entry = {
+        marker: new PartyMemberMarker(new THREE.Vector3(x, y, z), member.playerId === snapshot?.leaderId),
+        leader: member.playerId === snapshot?.leaderId,
+      };
+      partyMarkers.set(member.playerId, entry);
+      scene.add(entry.marker.getGroup());
+    }
+
+    // Follow the rendered player when they're in view, the replicated position otherwise
+    const { x, y, z } = players.get(member.playerId)?.getPosition() ?? member.position;
+    entry.marker.setPosition(x, y, z);
+    entry.marker.setAlive(member.alive);
+  }
+}
+
+/** One marker per accepted objective; escort checkpoints advance and storm targets drift */
+function updateObjectiveMarkers(board: ObjectiveSnapshot[]) {
+  const active = board.filter(objective => objective.status === 'ACTIVE');
+  const activeIds = new Set(active.map(objective => objective.id));
+
+  for (const [id, marker] of objectiveMarkers) {
+    if (!activeIds.has(id)) {
+      scene.remove(marker.getGroup());
+      marker.dispose();
+      objectiveMarkers.delete(id);
+    }
+  }
+
+  for (const objective of active) {
+    const { x, y, z } = objective.targetPosition;
+    const marker = objectiveMarkers.get(objective.id);
+    if (marker) {
+      marker.getGroup().position.set(x, y, z);
+      continue;
+    }
+
+    const created = new ObjectiveMarker(new THREE.Vector3(x, y, z), objective.radius);
+    objectiveMarkers.set(objective.id, created);
+    scene.add(created.getGroup());
+  }
+}
+
+function handleWormStrike(strike: WormStrikeEventData) {
+  const y = heightSampler ? heightSampler.getHeight(strike.position.x, strike.position.z) : strike.position.y;
+  const effect = new WormStrike(new THREE.Vector3(strike.position.x, y, strike.position.z), GAME_CONSTANTS.WORM_STRIKE_RADIUS);
+  wormStrikes.push(effect);
+  scene.add(effect.getGroup());
+
+  if (localPlayerId && strike.victimIds.includes(localPlayerId)) {
+    chatUI.addMessage('System', 'You were swallowed by a sandworm');
+  }
+}
+
+function clearSpiceBlow() {
+  if (spiceBlowMarker) {
+    scene.remove(spiceBlowMarker.getGroup());
+    spiceBlowMarker.dispose();
+    spiceBlowMarker = null;
+  }
+  spiceBlow = null;
+}
+
+function handleSpiceBlow(event: SpiceBlowEventData) {
+  if (event.phase === 'decayed') {
+    clearSpiceBlow();
+    chatUI.addMessage('System', 'The spice blow has decayed');
+    return;
   }
 
+  if (!spiceBlowMarker || spiceBlow?.id !== event.id) {
+    clearSpiceBlow();
+    const y = heightSampler ? heightSampler.getHeight(event.position.x, event.position.z) : event.position.y;
+    spiceBlowMarker = new SpiceBlowMarker(new THREE.Vector3(event.position.x, y, event.position.z), event.radius);
+    scene.add(spiceBlowMarker.getGroup());
+  }
+  spiceBlowMarker.setPhase(event.phase);
+
+  const now = Date.now();
+  spiceBlow = {
+    id: event.id,
+    phase: event.phase,
+    position: event.position,
+    eruptsAt: now + event.eruptsIn,
+    decaysAt: now + event.decaysIn,
+  };
+
+  if (event.phase === 'warning') {
+    chatUI.addMessage('System', `Spice blow sighted! It erupts in ${Math.ceil(event.eruptsIn / 1000)}s`);
+  } else {
+    chatUI.addMessage('System', 'The spice blow has erupted - beware of worms');
+  }
+}
+
+function upsertSpiceNode(state: SpiceNodeSnapshot) {
+  const existing = spiceNodes.get(state.id);
+  if (existing) {
+    existing.applyState(state);
+    return;
+  }
+
+  const y = heightSampler ? heightSampler.getHeight(state.position.x, state.position.z) : state.position.y;
+  const node = new SpiceNode(state, new THREE.Vector3(state.position.x, y, state.position.z));
+  spiceNodes.set(state.id, node);
+  scene.add(node.getGroup());
+}
+
+network.onSpiceNodes((data) => {
+  if (data.type === 'S_SPICE_NODE_UPDATE') {
+    if (spiceNodes.has(data.node.id)) {
+      upsertSpiceNode(data.node);
+    }
+    return;
+  }
+
+  for (const nodeState of data.nodes) {
+    upsertSpiceNode(nodeState);
+  }
+
+  for (const nodeId of data.removed) {
+    const node = spiceNodes.get(nodeId);
+    if (node) {
+      scene.remove(node.getGroup());
+      node.dispose();
+      spiceNodes.delete(nodeId);
+    }
+  }
+});
+
+network.onState((data) => {
+  renderer.setTimeOfDay(data.worldTime.timeOfDay);
+  resourceHUD.update(data.resources);
+  localMaxSpeed = data.resources.maxSpeed;
+
+  objectives = data.objectives;
+  updateObjectiveMarkers(objectives);
+
+  party = data.party;
+  updatePartyMarkers(party);
+
   for (const playerState of data.players) {
     let player = players.get(playerState.id);
     
@@ -121,7 +504,7 @@ network.onState((data) => {
         playerState.position,
         data.lastProcessedInputSeq,
         player.getPosition(),
-        5,
+        localMaxSpeed,
         0.016
       );
       
@@ -142,15 +525,6 @@ network.onState((data) => {
     player.setRotation(playerState.rotation);
   }
 
-  const currentPlayerIds = new Set(data.players.map((p) => p.id));
-  for (const [id, player] of players) {
-    if (!currentPlayerIds.has(id)) {
-      scene.remove(player.getMesh());
-      players.delete(id);
-      console.log(`Removed player: ${id}`);
-    }
-  }
-
   for (const wormState of data.worms) {
     wormStates.set(wormState.id, wormState);
     
@@ -166,16 +540,6 @@ network.onState((data) => {
     worm.updateFromState(wormState, currentDeltaTime);
   }
 
-  const currentWormIds = new Set(data.worms.map((w) => w.id));
-  for (const [id, worm] of worms) {
-    if (!currentWormIds.has(id)) {
-      scene.remove(worm.getGroup());
-      worm.dispose();
-      worms.delete(id);
-      console.log(`Removed worm: ${id}`);
-    }
-  }
-
   for (const thumperState of data.thumpers) {
     let thumper = thumpers.get(thumperState.id);
     
@@ -190,17 +554,73 @@ network.onState((data) => {
     thumper.update(0.016, thumperState);
   }
 
-  const currentThumperIds = new Set(data.thumpers.map((t) => t.id));
-  for (const [id, thumper] of thumpers) {
-    if (!currentThumperIds.has(id)) {
-      scene.remove(thumper.getGroup());
-      thumper.dispose();
-      thumpers.delete(id);
-      console.log(`Removed thumper: ${id}`);
+  for (const stormState of data.storms) {
+    stormStates.set(stormState.id, stormState);
+
+    let storm = storms.get(stormState.id);
+    if (!storm) {
+      storm = new Sandstorm(stormState);
+      storms.set(stormState.id, storm);
+      scene.add(storm.getGroup());
+      console.log(`Sandstorm ${stormState.id} approaching`);
     }
+
+    storm.updateFromState(stormState);
+  }
+
+  for (const ref of data.despawned) {
+    despawnEntity(ref);
   }
 });
 
+function despawnEntity(ref: EntityRef) {
+  switch (ref.kind) {
+    case 'player': {
+      const player = players.get(ref.id);
+      if (player) {
+        scene.remove(player.getMesh());
+        players.delete(ref.id);
+        console.log(`Removed player: ${ref.id}`);
+      }
+      break;
+    }
+    case 'worm': {
+      const worm = worms.get(ref.id);
+      if (worm) {
+        scene.remove(worm.getGroup());
+        worm.dispose();
+        worms.delete(ref.id);
+        console.log(`Removed worm: ${ref.id}`);
+      }
+      wormStates.delete(ref.id);
+      break;
+    }
+    case 'thumper': {
+      const thumper = thumpers.get(ref.id);
+      if (thumper) {
+        scene.remove(thumper.getGroup());
+        thumper.dispose();
+        thumpers.delete(ref.id);
+        console.log(`Removed thumper: ${ref.id}`);
+      }
+      break;
+    }
+    case 'outpost':
+      break;
+    case 'storm': {
+      const storm = storms.get(ref.id);
+      if (storm) {
+        scene.remove(storm.getGroup());
+        storm.dispose();
+        storms.delete(ref.id);
+        console.log(`Sandstorm ${ref.id} died out`);
+      }
+      stormStates.delete(ref.id);
+      break;
+    }
+  }
+}
+
 network.connect().catch(console.error);
 
 import { TerrainManager } from './terrain/TerrainManager';
@@ -245,11 +665,89 @@ function animate() {
     }
   }
 
-  if (nearestMountableWorm) {
+  let nearestOasis: Oasis | null = null;
+  if (localPlayerId && localPlayerState === PlayerStateEnum.ACTIVE) {
+    const localPlayer = players.get(localPlayerId);
+    if (localPlayer) {
+      for (const oasis of oases.values()) {
+        if (oasis.contains(localPlayer.getPosition())) {
+          nearestOasis = oasis;
+          break;
+        }
+      }
+    }
+  }
+
+  let nearestCorpse: CorpseMarker | null = null;
+  if (localPlayerId && localPlayerState === PlayerStateEnum.ACTIVE) {
+    const localPlayer = players.get(localPlayerId);
+    if (localPlayer) {
+      let closestDist: number = ECONOMY_CONSTANTS.CORPSE_RECOVERY_DISTANCE;
+
+      for (const corpse of corpses.values()) {
+        const dist = Math.sqrt(
+          (localPlayer.getPosition().x - corpse.getPosition().x) ** 2 +
+          (localPlayer.getPosition().z - corpse.getPosition().z) ** 2
+        );
+
+        if (dist < closestDist) {
+          closestDist = dist;
+          nearestCorpse = corpse;
+        }
+      }
+    }
+  }
+
+  let nearestSpiceNode: SpiceNode | null = null;
+  if (localPlayerId && localPlayerState === PlayerStateEnum.ACTIVE) {
+    const localPlayer = players.get(localPlayerId);
+    if (localPlayer) {
+      let closestDist: number = ECONOMY_CONSTANTS.HARVEST_DISTANCE;
+
+      for (const node of spiceNodes.values()) {
+        if (node.getState().state !== SpiceNodeState.ACTIVE) continue;
+
+        const dist = Math.sqrt(
+          (localPlayer.getPosition().x - node.getPosition().x) ** 2 +
+          (localPlayer.getPosition().z - node.getPosition().z) ** 2
+        );
+
+        if (dist < closestDist) {
+          closestDist = dist;
+          nearestSpiceNode = node;
+        }
+      }
+    }
+  }
+
+  if (harvestProgress !== null) {
+    interactionPrompt.show(`Harvesting spice... ${Math.round(harvestProgress * 100)}%`);
+  } else if (nearestMountableWorm) {
     interactionPrompt.show('Press E to Mount');
     if (inputManager.shouldMount()) {
       network.sendMountAttempt(nearestMountableWorm);
     }
+  } else if (nearestOasis) {
+    const remaining = nearestOasis.getCooldownRemaining();
+    if (remaining > 0) {
+      interactionPrompt.show(`Oasis refills in ${Math.ceil(remaining / 1000)}s`);
+    } else {
+      interactionPrompt.show('Press E to Refill Water');
+      if (inputManager.shouldMount()) {
+        network.sendOasisRefill(nearestOasis.id);
+      }
+    }
+  } else if (nearestCorpse) {
+    interactionPrompt.show(`Press E to Recover corpse (${nearestCorpse.getState().spiceAmount} spice)`);
+    if (inputManager.shouldMount()) {
+      network.sendCorpseRecover(nearestCorpse.id);
+    }
+  } else if (nearestSpiceNode) {
+    const { supply, maxSupply } = nearestSpiceNode.getState();
+    interactionPrompt.show(`Press E to Harvest spice (${supply}/${maxSupply})`);
+    if (inputManager.shouldMount()) {
+      network.sendHarvestStart(nearestSpiceNode.id);
+    }
   } else if (localPlayerState === PlayerStateEnum.RIDING) {
     interactionPrompt.show('Press E to Dismount');
     if (inputManager.shouldMount()) {
@@ -291,7 +789,7 @@ function animate() {
       const shouldDeployThumper = inputManager.shouldDeployThumper();
 
       if (network.isConnected() && ((movement.forward !== 0 || movement.right !== 0) || shouldDeployThumper)) {
-        const speed = 5;
+        const speed = localMaxSpeed;
         const dx = movement.right * speed * deltaTime;
         const dz = -movement.forward * speed * deltaTime;
         
@@ -309,7 +807,7 @@ function animate() {
           predictedPos.y = groundY;
         }
         
-        const seq = network.sendInput(movement, rotation, shouldDeployThumper);
+        const seq = network.sendInput(movement, rotation, shouldDeployThumper, undefined, inputManager.isSandwalking());
         predictionManager.addInput(seq, movement, rotation, {
           x: predictedPos.x,
           y: predictedPos.y,
@@ -325,17 +823,72 @@ function animate() {
     }
   }
 
-  if (objectiveMarker) {
-    objectiveMarker.update(deltaTime);
+  for (const marker of objectiveMarkers.values()) {
+    marker.update(deltaTime);
+  }
+
+  for (const { marker } of partyMarkers.values()) {
+    marker.update(deltaTime);
+  }
+
+  for (const node of spiceNodes.values()) {
+    node.update(deltaTime);
+  }
+
+  for (const oasis of oases.values()) {
+    oasis.update(deltaTime);
   }
 
+  for (const corpse of corpses.values()) {
+    corpse.update(deltaTime);
+  }
+
+  for (let i = wormStrikes.length - 1; i >= 0; i--) {
+    if (!wormStrikes[i].update(deltaTime)) {
+      scene.remove(wormStrikes[i].getGroup());
+      wormStrikes[i].dispose();
+      wormStrikes.splice(i, 1);
+    }
+  }
+
+  if (spiceBlowMarker) {
+    spiceBlowMarker.update(deltaTime);
+  }
+
+  for (const storm of storms.values()) {
+    storm.update(deltaTime);
+  }
+
+  if (inputManager.shouldToggleInventory() && !chatUI.isOpen()) {
+    inventoryPanel.toggle();
+  }
+
+  const localPlayer = localPlayerId ? players.get(localPlayerId) : undefined;
+  if (sietchZone && localPlayer && localPlayerState === PlayerStateEnum.ACTIVE) {
+    const dx = localPlayer.getPosition().x - sietchZone.position.x;
+    const dz = localPlayer.getPosition().z - sietchZone.position.z;
+    if (Math.sqrt(dx * dx + dz * dz) <= sietchZone.radius) {
+      merchantPanel.show();
+    } else {
+      merchantPanel.hide();
+    }
+  } else {
+    merchantPanel.hide();
+  }
+
+  spiceBlowBanner.update(spiceBlow, localPlayer ? localPlayer.getPosition() : null);
+
+  const insideStorm = localPlayer ? getStrongestStorm(stormStates.values(), localPlayer.getPosition()) : null;
+  renderer.setStormIntensity(insideStorm?.strength ?? 0);
+
   cameraController.update(deltaTime);
   fpsCounter.update();
 
-  if (currentObjective && localPlayerId) {
+  if (localPlayerId) {
     const localPlayer = players.get(localPlayerId);
     if (localPlayer) {
-      objectiveTracker.update(currentObjective, localPlayer.getPosition());
+      objectiveTracker.update(objectives, localPlayer.getPosition());
+      partyPanel.update(party, localPlayerId, localPlayer.getPosition());
     }
   }
 
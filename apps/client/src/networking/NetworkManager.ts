@@ -1,15 +1,51 @@
 import { io, Socket } from 'socket.io-client';
-import type { S_WELCOME, S_STATE, S_CHAT } from '@fremen/protocol';
+import type {
+  S_WELCOME,
+  S_STATE,
+  S_SNAPSHOT,
+  S_CHAT,
+  S_HARVEST_PROGRESS,
+  S_HARVEST_RESULT,
+  S_SPICE_NODES,
+  S_SPICE_NODE_UPDATE,
+  S_CATALOG,
+  S_TRADE_RESULT,
+  S_INVENTORY,
+  S_EQUIP_RESULT,
+  S_OASES,
+  S_OASIS_REFILL_RESULT,
+  S_CORPSES,
+  S_CORPSE_RECOVER_RESULT,
+  S_EVENT,
+  S_OBJECTIVE_RESULT,
+  S_PARTY_INVITE,
+  S_PARTY_RESULT,
+  ChatChannel,
+  WorldState,
+} from '@fremen/protocol';
+import type { EquipmentSlot } from '@fremen/shared';
+import { SnapshotDecoder } from './SnapshotDecoder';
 
 export class NetworkManager {
   private socket: Socket | null = null;
   private serverUrl: string;
   private token: string | null = null;
+  private resumeToken: string | null = null;
   private inputSeq = 0;
   private connected = false;
+  private decoder = new SnapshotDecoder();
   private onWelcomeCallback?: (data: S_WELCOME) => void;
-  private onStateCallback?: (data: S_STATE) => void;
+  private onStateCallback?: (data: WorldState) => void;
   private onChatCallback?: (data: S_CHAT) => void;
+  private onHarvestCallback?: (data: S_HARVEST_PROGRESS | S_HARVEST_RESULT) => void;
+  private onSpiceNodesCallback?: (data: S_SPICE_NODES | S_SPICE_NODE_UPDATE) => void;
+  private onTradeCallback?: (data: S_CATALOG | S_TRADE_RESULT) => void;
+  private onEquipmentCallback?: (data: S_INVENTORY | S_EQUIP_RESULT) => void;
+  private onOasisCallback?: (data: S_OASES | S_OASIS_REFILL_RESULT) => void;
+  private onCorpseCallback?: (data: S_CORPSES | S_CORPSE_RECOVER_RESULT) => void;
+  private onEventCallback?: (data: S_EVENT) => void;
+  private onObjectiveCallback?: (data: S_OBJECTIVE_RESULT) => void;
+  private onPartyCallback?: (data: S_PARTY_INVITE | S_PARTY_RESULT) => void;
 
   constructor(serverUrl: string) {
     this.serverUrl = serverUrl;
@@ -21,6 +57,15 @@ export class NetworkManager {
     return data.token;
   }
 
+  async joinRoom(token: string, roomId?: string): Promise<{ roomId: string; seed: number; playerCount: number }> {
+    const response = await fetch(`${this.serverUrl}/rooms/join`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token, roomId }),
+    });
+    return response.json();
+  }
+
   async connect(): Promise<void> {
     if (this.connected) {
       console.warn('Already connected');
@@ -31,13 +76,21 @@ export class NetworkManager {
       this.token = await this.fetchToken();
     }
 
+    const { roomId } = await this.joinRoom(this.token);
+    console.log(`Assigned to room ${roomId}`);
+
+    this.closeSocket();
+
     return new Promise((resolve, reject) => {
+      // socket.io reconnects on its own after a drop; reading auth on every
+      // attempt hands the server the latest resume token
       this.socket = io(this.serverUrl, {
-        auth: { token: this.token },
+        auth: (cb) => cb({ token: this.token, resumeToken: this.resumeToken }),
       });
 
       this.socket.on('connect', () => {
         this.connected = true;
+        this.decoder.reset();
         console.log('Connected to server');
         resolve();
       });
@@ -49,21 +102,26 @@ export class NetworkManager {
 
       this.socket.on('welcome', (data: S_WELCOME) => {
         console.log('Received welcome:', data);
+        this.resumeToken = data.resumeToken;
         if (this.onWelcomeCallback) {
           this.onWelcomeCallback(data);
         }
       });
 
+      this.socket.on('snapshot', (data: S_SNAPSHOT) => {
+        this.deliverState(this.decoder.decodeSnapshot(data));
+      });
+
       this.socket.on('state', (data: S_STATE) => {
-        if (this.onStateCallback) {
-          this.onStateCallback(data);
+        const decoded = this.decoder.decodeState(data);
+        if (decoded) {
+          this.deliverState(decoded);
         }
       });
 
-      this.socket.on('disconnect', () => {
+      this.socket.on('disconnect', (reason) => {
         this.connected = false;
-        console.log('Disconnected from server');
-        this.attemptReconnect();
+        console.log(`Disconnected from server (${reason})`);
       });
 
       this.socket.on('error', (error) => {
@@ -75,19 +133,84 @@ export class NetworkManager {
           this.onChatCallback(data);
         }
       });
+
+      this.socket.on('harvest', (data: S_HARVEST_PROGRESS | S_HARVEST_RESULT) => {
+        if (this.onHarvestCallback) {
+          this.onHarvestCallback(data);
+        }
+      });
+
+      this.socket.on('spice', (data: S_SPICE_NODES | S_SPICE_NODE_UPDATE) => {
+        if (this.onSpiceNodesCallback) {
+          this.onSpiceNodesCallback(data);
+        }
+      });
+
+      this.socket.on('trade', (data: S_CATALOG | S_TRADE_RESULT) => {
+        if (this.onTradeCallback) {
+          this.onTradeCallback(data);
+        }
+      });
+
+      this.socket.on('equipment', (data: S_INVENTORY | S_EQUIP_RESULT) => {
+        if (this.onEquipmentCallback) {
+          this.onEquipmentCallback(data);
+        }
+      });
+
+      this.socket.on('oasis', (data: S_OASES | S_OASIS_REFILL_RESULT) => {
+        if (this.onOasisCallback) {
+          this.onOasisCallback(data);
+        }
+      });
+
+      this.socket.on('corpse', (data: S_CORPSES | S_CORPSE_RECOVER_RESULT) => {
+        if (this.onCorpseCallback) {
+          this.onCorpseCallback(data);
+        }
+      });
+
+      this.socket.on('event', (data: S_EVENT) => {
+        if (this.onEventCallback) {
+          this.onEventCallback(data);
+        }
+      });
+
+      this.socket.on('objective', (data: S_OBJECTIVE_RESULT) => {
+        if (this.onObjectiveCallback) {
+          this.onObjectiveCallback(data);
+        }
+      });
+
+      this.socket.on('party', (data: S_PARTY_INVITE | S_PARTY_RESULT) => {
+        if (this.onPartyCallback) {
+          this.onPartyCallback(data);
+        }
+      });
     });
   }
 
-  private attemptReconnect() {
-    console.log('Attempting to reconnect...');
-    setTimeout(() => {
-      if (!this.connected) {
-        this.connect().catch(console.error);
-      }
-    }, 2000);
+  private deliverState(state: WorldState) {
+    this.socket?.emit('ack', {
+      type: 'C_STATE_ACK' as const,
+      seq: state.seq,
+    });
+
+    if (this.onStateCallback) {
+      this.onStateCallback(state);
+    }
   }
 
-  sendInput(movement: { forward: number; right: number }, rotation: number, deployThumper = false, wormControl?: { direction: number; speedIntent: number }): number {
+  private closeSocket() {
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.disconnect();
+      this.socket = null;
+      this.connected = false;
+    }
+  }
+
+  sendInput(movement: { forward: number; right: number }, rotation: number, deployThumper = false, wormControl?: { direction: number; speedIntent: number }, sandwalk = false): number {
     if (!this.socket || !this.connected) return this.inputSeq;
 
     this.inputSeq++;
@@ -99,6 +222,7 @@ export class NetworkManager {
       rotation,
       action: deployThumper ? { type: 'deployThumper' as const } : undefined,
       wormControl,
+      sandwalk: sandwalk || undefined,
     };
 
     this.socket.emit('input', inputMessage);
@@ -109,7 +233,7 @@ export class NetworkManager {
     this.onWelcomeCallback = callback;
   }
 
-  onState(callback: (data: S_STATE) => void) {
+  onState(callback: (data: WorldState) => void) {
     this.onStateCallback = callback;
   }
 
@@ -117,12 +241,49 @@ export class NetworkManager {
     this.onChatCallback = callback;
   }
 
-  sendChat(message: string) {
+  onHarvest(callback: (data: S_HARVEST_PROGRESS | S_HARVEST_RESULT) => void) {
+    this.onHarvestCallback = callback;
+  }
+
+  onSpiceNodes(callback: (data: S_SPICE_NODES | S_SPICE_NODE_UPDATE) => void) {
+    this.onSpiceNodesCallback = callback;
+  }
+
+  onTrade(callback: (data: S_CATALOG | S_TRADE_RESULT) => void) {
+    this.onTradeCallback = callback;
+  }
+
+  onEquipment(callback: (data: S_INVENTORY | S_EQUIP_RESULT) => void) {
+    this.onEquipmentCallback = callback;
+  }
+
+  onOasis(callback: (data: S_OASES | S_OASIS_REFILL_RESULT) => void) {
+    this.onOasisCallback = callback;
+  }
+
+  onCorpse(callback: (data: S_CORPSES | S_CORPSE_RECOVER_RESULT) => void) {
+    this.onCorpseCallback = callback;
+  }
+
+  onEvent(callback: (data: S_EVENT) => void) {
+    this.onEventCallback = callback;
+  }
+
+  onObjective(callback: (data: S_OBJECTIVE_RESULT) => void) {
+    this.onObjectiveCallback = callback;
+  }
+
+  onParty(callback: (data: S_PARTY_INVITE | S_PARTY_RESULT) => void) {
+    this.onPartyCallback = callback;
+  }
+
+  sendChat(message: string, channel: ChatChannel = 'global') {
     if (!this.socket || !this.connected) return;
 
     const chatMessage = {
       type: 'C_CHAT' as const,
       message,
+      channel,
     };
 
     this.socket.emit('chat', chatMessage);
@@ -160,12 +321,140 @@ export class NetworkManager {
     this.socket.emit('input', inputMessage);
   }
 
+  sendHarvestStart(nodeId: string) {
+    if (!this.socket || !this.connected) return;
+
+    this.socket.emit('harvest', {
+      type: 'C_HARVEST_START' as const,
+      nodeId,
+    });
+  }
+
+  sendHarvestCancel() {
+    if (!this.socket || !this.connected) return;
+
+    this.socket.emit('harvest', {
+      type: 'C_HARVEST_CANCEL' as const,
+    });
+  }
+
+  requestCatalog() {
+    if (!this.socket || !this.connected) return;
+
+    this.socket.emit('trade', {
+      type: 'C_CATALOG_REQUEST' as const,
+    });
+  }
+
+  sendTradeBuy(itemId: string) {
+    if (!this.socket || !this.connected) return;
+
+    this.socket.emit('trade', {
+      type: 'C_TRADE_BUY' as const,
+      itemId,
+    });
+  }
+
+  sendTradeSell(itemId: string) {
+    if (!this.socket || !this.connected) return;
+
+    this.socket.emit('trade', {
+      type: 'C_TRADE_SELL' as const,
+      itemId,
+    });
+  }
+
+  sendOasisRefill(oasisId: string) {
+    if (!this.socket || !this.connected) return;
+
+    this.socket.emit('oasis', {
+      type: 'C_OASIS_REFILL' as const,
+      oasisId,
+    });
+  }
+
+  sendCorpseRecover(corpseId: string) {
+    if (!this.socket || !this.connected) return;
+
+    this.socket.emit('corpse', {
+      type: 'C_CORPSE_RECOVER' as const,
+      corpseId,
+    });
+  }
+
+  sendEquip(itemId: string) {
+    if (!this.socket || !this.connected) return;
+
+    this.socket.emit('equipment', {
+      type: 'C_EQUIP' as const,
+      itemId,
+    });
+  }
+
+  sendUnequip(slot: EquipmentSlot) {
+    if (!this.socket || !this.connected) return;
+
+    this.socket.emit('equipment', {
+      type: 'C_UNEQUIP' as const,
+      slot,
+    });
+  }
+
+  sendObjectiveAccept(objectiveId: string) {
+    if (!this.socket || !this.connected) return;
+
+    this.socket.emit('objective', {
+      type: 'C_OBJECTIVE_ACCEPT' as const,
+      objectiveId,
+    });
+  }
+
+  sendObjectiveAbandon(objectiveId: string) {
+    if (!this.socket || !this.connected) return;
+
+    this.socket.emit('objective', {
+      type: 'C_OBJECTIVE_ABANDON' as const,
+      objectiveId,
+    });
+  }
+
+  sendPartyInvite(targetName: string) {
+    if (!this.socket || !this.connected) return;
+
+    this.socket.emit('party', {
+      type: 'C_PARTY_INVITE' as const,
+      targetName,
+    });
+  }
+
+  sendPartyAccept(inviterId: string) {
+    if (!this.socket || !this.connected) return;
+
+    this.socket.emit('party', {
+      type: 'C_PARTY_ACCEPT' as const,
+      inviterId,
+    });
+  }
+
+  sendPartyLeave() {
+    if (!this.socket || !this.connected) return;
+
+    this.socket.emit('party', {
+      type: 'C_PARTY_LEAVE' as const,
+    });
+  }
+
+  sendPartyKick(targetId: string) {
+    if (!this.socket || !this.connected) return;
+
+    this.socket.emit('party', {
+      type: 'C_PARTY_KICK' as const,
+      targetId,
+    });
+  }
+
   disconnect() {
-    if (this.socket) {
-      this.socket.disconnect();
-      this.socket = null;
-      this.connected = false;
-    }
+    this.closeSocket();
   }
 
   isConnected(): boolean {
@@ -0,0 +1,161 @@
+import { GAME_CONSTANTS, applyEntityDelta } from '@fremen/shared';
+import type {
+  EntityDelta,
+  OutpostState,
+  PlayerState,
+  StormState,
+  ThumperState,
+  WormState,
+} from '@fremen/shared';
+import type {
+  EntityRef,
+  ReplicatedEntityKind,
+  S_SNAPSHOT,
+  S_STATE,
+  WorldState,
+} from '@fremen/protocol';
+
+interface DecodedFrame {
+  players: Map<string, PlayerState>;
+  worms: Map<string, WormState>;
+  thumpers: Map<string, ThumperState>;
+  outposts: Map<string, OutpostState>;
+  storms: Map<string, StormState>;
+}
+
+// Matches the server's window for how stale an acknowledged baseline may get.
+const MAX_RETAINED_FRAMES = GAME_CONSTANTS.TICK_RATE * 2;
+
+function toMap<T extends { id: string }>(entities: T[]): Map<string, T> {
+  return new Map(entities.map((entity) => [entity.id, entity]));
+}
+
+function applyDeltas<T extends { id: string }>(
+  baseline: Map<string, T>,
+  deltas: EntityDelta<T>[],
+  removed: Set<string>
+): Map<string, T> {
+  const result = new Map<string, T>();
+
+  for (const [id, entity] of baseline) {
+    if (!removed.has(id)) {
+      result.set(id, entity);
+    }
+  }
+
+  for (const delta of deltas) {
+    result.set(delta.id, applyEntityDelta(baseline.get(delta.id), delta));
+  }
+
+  return result;
+}
+
+/**
+ * Rebuilds full world state from S_SNAPSHOT keyframes and S_STATE deltas.
+ *
+ * Decoded frames are kept by sequence number until the server moves its
+ * baseline past them, since any acknowledged frame may be referenced.
+ */
+export class SnapshotDecoder {
+  private frames = new Map<number, DecodedFrame>();
+  private latest: DecodedFrame | null = null;
+
+  decodeSnapshot(message: S_SNAPSHOT): WorldState {
+    const frame: DecodedFrame = {
+      players: toMap(message.players),
+      worms: toMap(message.worms),
+      thumpers: toMap(message.thumpers),
+      outposts: toMap(message.outposts),
+      storms: toMap(message.storms ?? []),
+    };
+
+    return this.commit(message.seq, frame, message);
+  }
+
+  /**
+   * Returns null when the baseline is unknown; the server falls back to a
+   * keyframe once the acknowledged baseline goes stale.
+   */
+  decodeState(message: S_STATE): WorldState | null {
+    const baseline = this.frames.get(message.baselineSeq);
+    if (!baseline) {
+      console.warn(`Missing baseline ${message.baselineSeq} for state ${message.seq}`);
+      return null;
+    }
+
+    const removed = new Map<ReplicatedEntityKind, Set<string>>();
+    for (const ref of message.despawned ?? []) {
+      const ids = removed.get(ref.kind) ?? new Set<string>();
+      ids.add(ref.id);
+      removed.set(ref.kind, ids);
+    }
+
+    const frame: DecodedFrame = {
+      players: applyDeltas(baseline.players, message.players, removed.get('player') ?? new Set()),
+      worms: applyDeltas(baseline.worms, message.worms, removed.get('worm') ?? new Set()),
+      thumpers: applyDeltas(baseline.thumpers, message.thumpers, removed.get('thumper') ?? new Set()),
+      outposts: applyDeltas(baseline.outposts, message.outposts ?? [], removed.get('outpost') ?? new Set()),
+      storms: applyDeltas(baseline.storms, message.storms ?? [], removed.get('storm') ?? new Set()),
+    };
+
+    for (const seq of this.frames.keys()) {
+      if (seq < message.baselineSeq) {
+        this.frames.delete(seq);
+      }
+    }
+
+    return this.commit(message.seq, frame, message);
+  }
+
+  reset() {
+    this.frames.clear();
+    this.latest = null;
+  }
+
+  private commit(seq: number, frame: DecodedFrame, message: S_SNAPSHOT | S_STATE): WorldState {
+    const spawned: EntityRef[] = [];
+    const despawned: EntityRef[] = [];
+    const previous = this.latest;
+
+    const compare = (kind: ReplicatedEntityKind, before: Map<string, unknown> | undefined, after: Map<string, unknown>) => {
+      for (const id of after.keys()) {
+        if (!before?.has(id)) spawned.push({ kind, id });
+      }
+      for (const id of before?.keys() ?? []) {
+        if (!after.has(id)) despawned.push({ kind, id });
+      }
+    };
+
+    compare('player', previous?.players, frame.players);
+    compare('worm', previous?.worms, frame.worms);
+    compare('thumper', previous?.thumpers, frame.thumpers);
+    compare('outpost', previous?.outposts, frame.outposts);
+    compare('storm', previous?.storms, frame.storms);
+
+    this.frames.set(seq, frame);
+    this.latest = frame;
+
+    for (const storedSeq of this.frames.keys()) {
+      if (seq - storedSeq > MAX_RETAINED_FRAMES) {
+        this.frames.delete(storedSeq);
+      }
+    }
+
+    return {
+      seq,
+      timestamp: message.timestamp,
+      lastProcessedInputSeq: message.lastProcessedInputSeq,
+      players: Array.from(frame.players.values()),
+      worms: Array.from(frame.worms.values()),
+      thumpers: Array.from(frame.thumpers.values()),
+      outposts: Array.from(frame.outposts.values()),
+      storms: Array.from(frame.storms.values()),
+      worldTime: message.worldTime,
+      objectives: message.objectives,
+      party: message.party,
+      resources: message.resources,
+      spawned,
+      despawned,
+    };
+  }
+}
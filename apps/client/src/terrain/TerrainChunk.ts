@@ -1,5 +1,10 @@
 import * as THREE from 'three';
-import { TerrainGenerator } from '@fremen/shared';
+import { SurfaceMap, SurfaceType, TerrainGenerator } from '@fremen/shared';
+
+const SAND_LIGHT = new THREE.Color(0xe8c896);
+const SAND_DARK = new THREE.Color(0xb89968);
+const DUNE_TINT = new THREE.Color(0xc8824a);
+const ROCK_COLOR = new THREE.Color(0x7a6a5a);
 
 export class TerrainChunk {
   private mesh: THREE.Mesh;
@@ -13,6 +18,7 @@ export class TerrainChunk {
     chunkZ: number,
     size: number,
     generator: TerrainGenerator,
+    surface: SurfaceMap,
     lod = 0
   ) {
     this.chunkX = chunkX;
@@ -32,6 +38,13 @@ export class TerrainChunk {
       segments + 1,
       resolution
     );
+    const surfaces = surface.generateSurfaceMap(
+      worldX,
+      worldZ,
+      segments + 1,
+      segments + 1,
+      resolution
+    );
 
     const geometry = new THREE.PlaneGeometry(size, size, segments, segments);
     const positionAttribute = geometry.getAttribute('position');
@@ -48,10 +61,13 @@ export class TerrainChunk {
       const height = this.heightmap[i];
       const normalizedHeight = (height + 10) / 30;
       
-      const sandLight = new THREE.Color(0xe8c896);
-      const sandDark = new THREE.Color(0xb89968);
-      const color = sandLight.lerp(sandDark, normalizedHeight);
-      
+      const color = surfaces[i] === SurfaceType.ROCK
+        ? ROCK_COLOR.clone()
+        : SAND_LIGHT.clone().lerp(SAND_DARK, normalizedHeight);
+      if (surfaces[i] === SurfaceType.DUNES) {
+        color.lerp(DUNE_TINT, 0.35);
+      }
+
       colors[i * 3] = color.r;
       colors[i * 3 + 1] = color.g;
       colors[i * 3 + 2] = color.b;
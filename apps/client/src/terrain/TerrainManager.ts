@@ -1,10 +1,11 @@
 import * as THREE from 'three';
-import { TerrainGenerator, GAME_CONSTANTS } from '@fremen/shared';
+import { SurfaceMap, TerrainGenerator, GAME_CONSTANTS } from '@fremen/shared';
 import { TerrainChunk } from './TerrainChunk';
 
 export class TerrainManager {
   private chunks = new Map<string, TerrainChunk>();
   private generator: TerrainGenerator;
+  private surface: SurfaceMap;
   private scene: THREE.Scene;
   private chunkSize = GAME_CONSTANTS.TERRAIN_CHUNK_SIZE;
   private renderDistance = 3;
@@ -12,6 +13,7 @@ export class TerrainManager {
   constructor(scene: THREE.Scene, seed: number) {
     this.scene = scene;
     this.generator = new TerrainGenerator({ seed });
+    this.surface = new SurfaceMap({ seed }, this.generator);
   }
 
   update(playerX: number, playerZ: number) {
@@ -40,7 +42,7 @@ export class TerrainManager {
 
   private loadChunk(chunkX: number, chunkZ: number) {
     const key = `${chunkX},${chunkZ}`;
-    const chunk = new TerrainChunk(chunkX, chunkZ, this.chunkSize, this.generator);
+    const chunk = new TerrainChunk(chunkX, chunkZ, this.chunkSize, this.generator, this.surface);
     this.chunks.set(key, chunk);
     this.scene.add(chunk.getMesh());
   }
@@ -32,7 +32,7 @@ export class ChatUI {
 
     this.input = document.createElement('input');
     this.input.type = 'text';
-    this.input.placeholder = 'Type message... (Enter to send, Esc to close)';
+    this.input.placeholder = 'Type message... (/p for party, Enter to send, Esc to close)';
     this.input.maxLength = 200;
     this.input.style.cssText = `
       padding: 8px;
@@ -85,10 +85,11 @@ export class ChatUI {
     this.input.blur();
   }
 
-  addMessage(playerName: string, message: string) {
+  addMessage(playerName: string, message: string, party = false) {
     const messageEl = document.createElement('div');
     messageEl.style.cssText = 'margin-bottom: 5px;';
-    messageEl.innerHTML = `<span style="color: #4a90e2">${this.escapeHtml(playerName)}:</span> ${this.escapeHtml(message)}`;
+    const name = party ? `[Party] ${playerName}` : playerName;
+    messageEl.innerHTML = `<span style="color: ${party ? '#33ccff' : '#4a90e2'}">${this.escapeHtml(name)}:</span> ${this.escapeHtml(message)}`;
     
     this.messages.appendChild(messageEl);
     this.messages.scrollTop = this.messages.scrollHeight;
@@ -102,6 +103,10 @@ export class ChatUI {
     this.onSendCallback = callback;
   }
 
+  isOpen(): boolean {
+    return this.isVisible;
+  }
+
   private escapeHtml(text: string): string {
     const div = document.createElement('div');
     div.textContent = text;
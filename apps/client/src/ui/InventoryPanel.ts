@@ -0,0 +1,170 @@
+import { EQUIPMENT_CATALOG, EquipmentSlot } from '@fremen/shared';
+import type { Equipment, EquipmentItem, EquipmentStats, InventoryItem } from '@fremen/shared';
+
+const SLOT_KEYS: Record<EquipmentSlot, keyof Equipment> = {
+  [EquipmentSlot.HEAD]: 'head',
+  [EquipmentSlot.BODY]: 'body',
+  [EquipmentSlot.FEET]: 'feet',
+};
+
+function findCatalogItem(entry: InventoryItem): EquipmentItem | undefined {
+  return Object.values(EQUIPMENT_CATALOG).find(
+    item => item.type === entry.type && item.tier === entry.tier
+  );
+}
+
+export class InventoryPanel {
+  private container: HTMLDivElement;
+  private slots: HTMLDivElement;
+  private items: HTMLDivElement;
+  private stats: HTMLDivElement;
+  private status: HTMLDivElement;
+  private visible = false;
+  private onEquipCallback?: (itemId: string) => void;
+  private onUnequipCallback?: (slot: EquipmentSlot) => void;
+
+  constructor() {
+    this.container = document.createElement('div');
+    this.container.style.cssText = `
+      position: fixed;
+      top: 50%;
+      left: 50%;
+      transform: translate(-50%, -50%);
+      background: rgba(0, 0, 0, 0.85);
+      color: white;
+      padding: 15px;
+      border-radius: 8px;
+      font-family: monospace;
+      font-size: 14px;
+      min-width: 360px;
+      display: none;
+      z-index: 1001;
+      border: 2px solid #4a90e2;
+    `;
+
+    const title = document.createElement('div');
+    title.style.cssText = 'font-weight: bold; margin-bottom: 10px; color: #4a90e2;';
+    title.textContent = 'Inventory (I to close)';
+
+    this.slots = document.createElement('div');
+    this.slots.style.cssText = 'display: flex; flex-direction: column; align-items: center; gap: 6px; margin-bottom: 12px;';
+
+    this.stats = document.createElement('div');
+    this.stats.style.cssText = 'margin-bottom: 10px; color: #aaa;';
+
+    this.items = document.createElement('div');
+
+    this.status = document.createElement('div');
+    this.status.style.cssText = 'margin-top: 10px; min-height: 1em; color: #ff4444;';
+
+    this.container.appendChild(title);
+    this.container.appendChild(this.slots);
+    this.container.appendChild(this.stats);
+    this.container.appendChild(this.items);
+    this.container.appendChild(this.status);
+    document.body.appendChild(this.container);
+
+    // Keep clicks on the panel from re-capturing the pointer
+    this.container.addEventListener('click', (e) => e.stopPropagation());
+
+    this.update({}, [], {});
+  }
+
+  onEquip(callback: (itemId: string) => void) {
+    this.onEquipCallback = callback;
+  }
+
+  onUnequip(callback: (slot: EquipmentSlot) => void) {
+    this.onUnequipCallback = callback;
+  }
+
+  update(equipment: Equipment, inventory: InventoryItem[], stats: EquipmentStats) {
+    this.slots.replaceChildren();
+    for (const slot of [EquipmentSlot.HEAD, EquipmentSlot.BODY, EquipmentSlot.FEET]) {
+      const item = equipment[SLOT_KEYS[slot]];
+      const box = document.createElement('div');
+      box.style.cssText = `
+        width: 220px;
+        padding: 6px;
+        border: 1px solid ${item ? '#4a90e2' : '#444'};
+        border-radius: 4px;
+        text-align: center;
+        cursor: ${item ? 'pointer' : 'default'};
+      `;
+      box.textContent = `${slot}: ${item ? item.name : 'empty'}`;
+      if (item) {
+        box.title = 'Click to unequip';
+        box.addEventListener('click', () => this.onUnequipCallback?.(slot));
+      }
+      this.slots.appendChild(box);
+    }
+
+    const water = Math.round((stats.waterReduction ?? 0) * 100);
+    const noise = Math.round((stats.noiseReduction ?? 0) * 100);
+    this.stats.textContent = `Water loss -${water}%  Noise -${noise}%  Speed +${stats.speedBoost ?? 0}  Health +${stats.healthBoost ?? 0}`;
+
+    this.items.replaceChildren();
+    if (inventory.length === 0) {
+      this.items.textContent = 'No items';
+    }
+
+    for (const entry of inventory) {
+      const item = findCatalogItem(entry);
+      const row = document.createElement('div');
+      row.style.cssText = 'display: flex; align-items: center; gap: 8px; margin-bottom: 6px;';
+
+      const name = document.createElement('span');
+      name.style.cssText = 'flex: 1;';
+      name.textContent = `${item?.name ?? `${entry.tier} ${entry.type}`} x${entry.quantity}`;
+      row.appendChild(name);
+
+      if (item) {
+        const equip = document.createElement('button');
+        equip.textContent = 'Equip';
+        equip.style.cssText = `
+          background: #333;
+          color: white;
+          border: 1px solid #4a90e2;
+          border-radius: 4px;
+          padding: 2px 8px;
+          font-family: monospace;
+          cursor: pointer;
+        `;
+        equip.addEventListener('click', () => this.onEquipCallback?.(item.id));
+        row.appendChild(equip);
+      }
+
+      this.items.appendChild(row);
+    }
+  }
+
+  showError(message: string) {
+    this.status.textContent = message;
+  }
+
+  toggle() {
+    if (this.visible) {
+      this.hide();
+    } else {
+      this.show();
+    }
+  }
+
+  show() {
+    this.container.style.display = 'block';
+    this.visible = true;
+    if (document.pointerLockElement) {
+      document.exitPointerLock();
+    }
+  }
+
+  hide() {
+    this.container.style.display = 'none';
+    this.status.textContent = '';
+    this.visible = false;
+  }
+
+  isVisible(): boolean {
+    return this.visible;
+  }
+}
@@ -0,0 +1,127 @@
+import type { MerchantCatalogEntry, S_TRADE_RESULT } from '@fremen/protocol';
+
+export class MerchantPanel {
+  private container: HTMLDivElement;
+  private spice: HTMLDivElement;
+  private list: HTMLDivElement;
+  private status: HTMLDivElement;
+  private visible = false;
+  private onBuyCallback?: (itemId: string) => void;
+  private onSellCallback?: (itemId: string) => void;
+
+  constructor() {
+    this.container = document.createElement('div');
+    this.container.style.cssText = `
+      position: fixed;
+      top: 80px;
+      left: 20px;
+      background: rgba(0, 0, 0, 0.85);
+      color: white;
+      padding: 15px;
+      border-radius: 8px;
+      font-family: monospace;
+      font-size: 14px;
+      min-width: 320px;
+      display: none;
+      z-index: 1000;
+      border-left: 4px solid #e8a23a;
+    `;
+
+    const title = document.createElement('div');
+    title.style.cssText = 'font-weight: bold; margin-bottom: 10px; color: #e8a23a;';
+    title.textContent = 'Sietch Merchant';
+
+    this.spice = document.createElement('div');
+    this.spice.style.cssText = 'margin-bottom: 10px;';
+
+    this.list = document.createElement('div');
+
+    this.status = document.createElement('div');
+    this.status.style.cssText = 'margin-top: 10px; min-height: 1em;';
+
+    this.container.appendChild(title);
+    this.container.appendChild(this.spice);
+    this.container.appendChild(this.list);
+    this.container.appendChild(this.status);
+    document.body.appendChild(this.container);
+  }
+
+  onBuy(callback: (itemId: string) => void) {
+    this.onBuyCallback = callback;
+  }
+
+  onSell(callback: (itemId: string) => void) {
+    this.onSellCallback = callback;
+  }
+
+  setCatalog(items: MerchantCatalogEntry[]) {
+    this.list.replaceChildren();
+
+    for (const entry of items) {
+      const row = document.createElement('div');
+      row.style.cssText = 'display: flex; align-items: center; gap: 8px; margin-bottom: 6px;';
+      row.title = entry.item.description;
+
+      const name = document.createElement('span');
+      name.style.cssText = 'flex: 1;';
+      name.textContent = entry.item.name;
+
+      const buy = this.createButton(`Buy ${entry.price}`, () => this.onBuyCallback?.(entry.item.id));
+      const sell = this.createButton(`Sell ${entry.sellPrice}`, () => this.onSellCallback?.(entry.item.id));
+
+      row.appendChild(name);
+      row.appendChild(buy);
+      row.appendChild(sell);
+      this.list.appendChild(row);
+    }
+  }
+
+  setSpice(amount: number) {
+    this.spice.textContent = `Spice: ${amount}`;
+  }
+
+  showResult(result: S_TRADE_RESULT) {
+    this.setSpice(result.spice);
+
+    if (result.success) {
+      this.status.style.color = '#00ff00';
+      this.status.textContent = `${result.action === 'buy' ? 'Bought' : 'Sold'} ${result.itemId}`;
+    } else {
+      this.status.style.color = '#ff4444';
+      this.status.textContent = result.reason ?? 'Trade failed';
+    }
+  }
+
+  show() {
+    if (this.visible) return;
+    this.container.style.display = 'block';
+    this.visible = true;
+  }
+
+  hide() {
+    if (!this.visible) return;
+    this.container.style.display = 'none';
+    this.status.textContent = '';
+    this.visible = false;
+  }
+
+  isVisible(): boolean {
+    return this.visible;
+  }
+
+  private createButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = label;
+    button.style.cssText = `
+      background: #333;
+      color: white;
+      border: 1px solid #e8a23a;
+      border-radius: 4px;
+      padding: 2px 8px;
+      font-family: monospace;
+      cursor: pointer;
+    `;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+}
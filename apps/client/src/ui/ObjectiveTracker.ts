@@ -1,10 +1,28 @@
-import type { Vector3 } from '@fremen/shared';
+import type { ObjectiveEventData, ObjectiveSnapshot, S_OBJECTIVE_RESULT } from '@fremen/protocol';
+import type { ObjectiveReward, Vector3 } from '@fremen/shared';
+
+const OBJECTIVE_TITLES: Record<string, string> = {
+  SHEPHERD_WORM: 'Shepherd Worm to Marker',
+  DELIVER_SPICE: 'Deliver Spice to the Sietch',
+  ESCORT: 'Ride Through the Checkpoints',
+  SABOTAGE_OUTPOST: 'Jam the Harkonnen Outpost',
+  SURVIVE_STORM: 'Survive the Sandstorm',
+};
+
+interface ObjectiveRow {
+  row: HTMLDivElement;
+  details: HTMLDivElement;
+  status: string;
+}
 
 export class ObjectiveTracker {
   private container: HTMLDivElement;
-  private title: HTMLDivElement;
-  private distance: HTMLDivElement;
-  private timer: HTMLDivElement;
+  private list: HTMLDivElement;
+  private status: HTMLDivElement;
+  private rows = new Map<string, ObjectiveRow>();
+  private onAcceptCallback?: (objectiveId: string) => void;
+  private onAbandonCallback?: (objectiveId: string) => void;
+  private statusTimeout?: ReturnType<typeof setTimeout>;
 
   constructor() {
     this.container = document.createElement('div');
@@ -19,59 +37,166 @@ export class ObjectiveTracker {
       font-family: monospace;
       font-size: 14px;
       min-width: 250px;
+      max-width: 320px;
       display: none;
       z-index: 1000;
       border-left: 4px solid #4a90e2;
     `;
 
-    this.title = document.createElement('div');
-    this.title.style.cssText = 'font-weight: bold; margin-bottom: 10px; color: #4a90e2;';
-    
-    this.distance = document.createElement('div');
-    this.distance.style.cssText = 'margin-bottom: 5px;';
-    
-    this.timer = document.createElement('div');
-    this.timer.style.cssText = 'color: #ffaa00;';
-
-    this.container.appendChild(this.title);
-    this.container.appendChild(this.distance);
-    this.container.appendChild(this.timer);
+    const title = document.createElement('div');
+    title.style.cssText = 'font-weight: bold; margin-bottom: 10px; color: #4a90e2;';
+    title.textContent = 'Objectives';
+
+    this.list = document.createElement('div');
+
+    this.status = document.createElement('div');
+    this.status.style.cssText = 'margin-top: 5px; min-height: 1em;';
+
+    this.container.appendChild(title);
+    this.container.appendChild(this.list);
+    this.container.appendChild(this.status);
     document.body.appendChild(this.container);
   }
 
-  update(objective: any, playerPosition: Vector3) {
-    if (!objective || objective.status !== 'ACTIVE') {
-      this.container.style.display = 'none';
+  onAccept(callback: (objectiveId: string) => void) {
+    this.onAcceptCallback = callback;
+  }
+
+  onAbandon(callback: (objectiveId: string) => void) {
+    this.onAbandonCallback = callback;
+  }
+
+  update(objectives: ObjectiveSnapshot[], playerPosition: Vector3) {
+    this.container.style.display = objectives.length > 0 || this.status.textContent ? 'block' : 'none';
+
+    const ids = new Set(objectives.map(objective => objective.id));
+    for (const [id, row] of this.rows) {
+      if (!ids.has(id)) {
+        row.row.remove();
+        this.rows.delete(id);
+      }
+    }
+
+    for (const objective of objectives) {
+      let row = this.rows.get(objective.id);
+      // Rows are only rebuilt when an offer is accepted, so buttons stay put under the cursor
+      if (!row || row.status !== objective.status) {
+        row?.row.remove();
+        row = this.createRow(objective);
+        this.rows.set(objective.id, row);
+        this.list.appendChild(row.row);
+      }
+      row.details.textContent = this.describe(objective, playerPosition);
+    }
+  }
+
+  showResult(result: S_OBJECTIVE_RESULT) {
+    if (result.success) {
+      this.showStatus(result.action === 'accept' ? 'Objective accepted' : 'Objective abandoned', '#00ff00');
+    } else {
+      this.showStatus(result.reason ?? 'Objective action failed', '#ff4444');
+    }
+  }
+
+  showOutcome(event: ObjectiveEventData) {
+    const title = OBJECTIVE_TITLES[event.objectiveType] ?? event.objectiveType;
+    if (event.outcome === 'completed') {
+      this.showStatus(`✓ ${title} complete! +${event.reward.spice} spice, +${event.reward.water} water`, '#00ff00');
       return;
     }
 
-    this.container.style.display = 'block';
-    this.title.textContent = 'Objective: Shepherd Worm to Marker';
+    const reason = event.outcome === 'expired' ? 'ran out of time' : 'abandoned';
+    const penalty = event.penalty && this.formatPenalty(event.penalty);
+    this.showStatus(`✗ ${title} ${reason}${penalty ? ` ${penalty}` : ''}`, '#ff4444');
+  }
+
+  private createRow(objective: ObjectiveSnapshot): ObjectiveRow {
+    const active = objective.status === 'ACTIVE';
+
+    const row = document.createElement('div');
+    row.style.cssText = `margin-bottom: 8px; padding-left: 6px; border-left: 2px solid ${active ? '#4a90e2' : '#666'};`;
+
+    const header = document.createElement('div');
+    header.style.cssText = 'display: flex; align-items: center; gap: 8px;';
+
+    const title = document.createElement('div');
+    title.style.cssText = `flex: 1; color: ${active ? 'white' : '#aaa'};`;
+    title.textContent = OBJECTIVE_TITLES[objective.type] ?? objective.type;
+
+    const button = document.createElement('button');
+    button.textContent = active ? 'Abandon' : 'Accept';
+    button.style.cssText = `
+      background: #333;
+      color: white;
+      border: 1px solid #4a90e2;
+      border-radius: 4px;
+      padding: 2px 8px;
+      font-family: monospace;
+      cursor: pointer;
+    `;
+    button.addEventListener('click', () => {
+      if (active) {
+        this.onAbandonCallback?.(objective.id);
+      } else {
+        this.onAcceptCallback?.(objective.id);
+      }
+    });
+
+    const details = document.createElement('div');
+    details.style.cssText = 'font-size: 12px; color: #ccc;';
 
-    const dx = objective.targetPosition.x - playerPosition.x;
-    const dz = objective.targetPosition.z - playerPosition.z;
-    const dist = Math.sqrt(dx * dx + dz * dz);
+    header.appendChild(title);
+    header.appendChild(button);
+    row.appendChild(header);
+    row.appendChild(details);
 
-    this.distance.textContent = `Distance: ${Math.round(dist)}m`;
+    return { row, details, status: objective.status };
+  }
+
+  private describe(objective: ObjectiveSnapshot, playerPosition: Vector3): string {
+    const details: string[] = [];
+
+    if (objective.status === 'ACTIVE') {
+      const dx = objective.targetPosition.x - playerPosition.x;
+      const dz = objective.targetPosition.z - playerPosition.z;
+      details.push(`${Math.round(Math.sqrt(dx * dx + dz * dz))}m`);
+
+      if (objective.checkpoints) {
+        const reached = Math.round(objective.progress * objective.checkpoints.length);
+        details.push(`Checkpoints: ${reached}/${objective.checkpoints.length}`);
+      } else if (objective.progress > 0) {
+        details.push(`Progress: ${Math.floor(objective.progress * 100)}%`);
+      }
+    }
 
     const timeSeconds = Math.ceil(objective.timeRemaining / 1000);
     const minutes = Math.floor(timeSeconds / 60);
     const seconds = timeSeconds % 60;
-    this.timer.textContent = `Time: ${minutes}:${seconds.toString().padStart(2, '0')}`;
+    details.push(`${minutes}:${seconds.toString().padStart(2, '0')}`);
+    details.push(`${objective.reward.spice} spice, ${objective.reward.water} water`);
+    const penalty = objective.penalty && this.formatPenalty(objective.penalty);
+    if (penalty) {
+      details.push(`${penalty} on failure`);
+    }
+
+    return details.join(' · ');
   }
 
-  showCompletion() {
+  private formatPenalty(penalty: ObjectiveReward): string {
+    const parts: string[] = [];
+    if (penalty.spice > 0) parts.push(`-${penalty.spice} spice`);
+    if (penalty.water > 0) parts.push(`-${penalty.water} water`);
+    return parts.join(', ');
+  }
+
+  private showStatus(message: string, color: string) {
+    this.status.style.color = color;
+    this.status.textContent = message;
     this.container.style.display = 'block';
-    this.container.style.borderColor = '#00ff00';
-    this.title.textContent = '✓ Objective Complete!';
-    this.title.style.color = '#00ff00';
-    this.distance.textContent = '';
-    this.timer.textContent = '';
-
-    setTimeout(() => {
-      this.container.style.display = 'none';
-      this.container.style.borderColor = '#4a90e2';
-      this.title.style.color = '#4a90e2';
+
+    clearTimeout(this.statusTimeout);
+    this.statusTimeout = setTimeout(() => {
+      this.status.textContent = '';
     }, 5000);
   }
 }
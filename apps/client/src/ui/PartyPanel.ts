@@ -0,0 +1,204 @@
+import type { PartySnapshot, S_PARTY_INVITE, S_PARTY_RESULT } from '@fremen/protocol';
+import type { Vector3 } from '@fremen/shared';
+
+const ACTION_LABELS: Record<S_PARTY_RESULT['action'], string> = {
+  invite: 'Invite sent',
+  accept: 'Joined the party',
+  leave: 'Left the party',
+  kick: 'Member removed',
+};
+
+interface MemberRow {
+  playerId: string;
+  details: HTMLSpanElement;
+}
+
+export class PartyPanel {
+  private container: HTMLDivElement;
+  private list: HTMLDivElement;
+  private invites: HTMLDivElement;
+  private status: HTMLDivElement;
+  private memberRows: MemberRow[] = [];
+  private layoutKey = '';
+  private pendingInvites: S_PARTY_INVITE[] = [];
+  private onAcceptCallback?: (inviterId: string) => void;
+  private onLeaveCallback?: () => void;
+  private onKickCallback?: (playerId: string) => void;
+  private statusTimeout?: ReturnType<typeof setTimeout>;
+
+  constructor() {
+    this.container = document.createElement('div');
+    this.container.style.cssText = `
+      position: fixed;
+      bottom: 300px;
+      left: 20px;
+      background: rgba(0, 0, 0, 0.8);
+      color: white;
+      padding: 12px;
+      border-radius: 8px;
+      font-family: monospace;
+      font-size: 13px;
+      min-width: 200px;
+      display: none;
+      z-index: 1000;
+      border-left: 4px solid #33ccff;
+    `;
+
+    const title = document.createElement('div');
+    title.style.cssText = 'font-weight: bold; margin-bottom: 8px; color: #33ccff;';
+    title.textContent = 'Party';
+
+    this.list = document.createElement('div');
+    this.invites = document.createElement('div');
+
+    this.status = document.createElement('div');
+    this.status.style.cssText = 'margin-top: 5px; min-height: 1em;';
+
+    this.container.appendChild(title);
+    this.container.appendChild(this.list);
+    this.container.appendChild(this.invites);
+    this.container.appendChild(this.status);
+    document.body.appendChild(this.container);
+  }
+
+  onAccept(callback: (inviterId: string) => void) {
+    this.onAcceptCallback = callback;
+  }
+
+  onLeave(callback: () => void) {
+    this.onLeaveCallback = callback;
+  }
+
+  onKick(callback: (playerId: string) => void) {
+    this.onKickCallback = callback;
+  }
+
+  addInvite(invite: S_PARTY_INVITE) {
+    this.pendingInvites = [
+      ...this.pendingInvites.filter(pending => pending.inviterId !== invite.inviterId),
+      invite,
+    ];
+    this.showStatus(`${invite.inviterName} invited you to their party`, '#33ccff');
+  }
+
+  /** The most recent invite that hasn't lapsed */
+  getLatestInvite(): S_PARTY_INVITE | undefined {
+    const now = Date.now();
+    return this.pendingInvites.filter(invite => invite.expiresAt > now).pop();
+  }
+
+  showResult(result: S_PARTY_RESULT) {
+    if (result.success) {
+      if (result.action === 'accept') {
+        this.pendingInvites = [];
+      }
+      this.showStatus(ACTION_LABELS[result.action], '#00ff00');
+    } else {
+      this.showStatus(result.reason ?? 'Party action failed', '#ff4444');
+    }
+  }
+
+  update(party: PartySnapshot | undefined, localPlayerId: string, localPosition: Vector3) {
+    const now = Date.now();
+    this.pendingInvites = this.pendingInvites.filter(invite => invite.expiresAt > now);
+
+    const layoutKey = JSON.stringify([
+      party?.leaderId,
+      party?.members.map(member => member.playerId),
+      this.pendingInvites.map(invite => invite.inviterId),
+    ]);
+    if (layoutKey !== this.layoutKey) {
+      this.layoutKey = layoutKey;
+      this.rebuild(party, localPlayerId);
+    }
+
+    for (const row of this.memberRows) {
+      const member = party?.members.find(m => m.playerId === row.playerId);
+      if (!member) continue;
+      if (!member.alive) {
+        row.details.textContent = 'down';
+      } else {
+        const dx = member.position.x - localPosition.x;
+        const dz = member.position.z - localPosition.z;
+        row.details.textContent = `${Math.round(Math.sqrt(dx * dx + dz * dz))}m`;
+      }
+    }
+
+    this.container.style.display = party || this.pendingInvites.length > 0 || this.status.textContent
+      ? 'block'
+      : 'none';
+  }
+
+  private rebuild(party: PartySnapshot | undefined, localPlayerId: string) {
+    this.list.replaceChildren();
+    this.invites.replaceChildren();
+    this.memberRows = [];
+
+    if (party) {
+      const isLeader = party.leaderId === localPlayerId;
+      for (const member of party.members) {
+        const row = document.createElement('div');
+        row.style.cssText = 'display: flex; align-items: center; gap: 8px; margin-bottom: 4px;';
+
+        const name = document.createElement('span');
+        name.style.cssText = 'flex: 1;';
+        name.textContent = `${member.playerId === party.leaderId ? '★ ' : ''}${member.username}`;
+        row.appendChild(name);
+
+        const details = document.createElement('span');
+        details.style.cssText = 'color: #aaa;';
+        row.appendChild(details);
+
+        if (member.playerId === localPlayerId) {
+          details.textContent = 'you';
+          row.appendChild(this.createButton('Leave', () => this.onLeaveCallback?.()));
+        } else {
+          this.memberRows.push({ playerId: member.playerId, details });
+          if (isLeader) {
+            row.appendChild(this.createButton('Kick', () => this.onKickCallback?.(member.playerId)));
+          }
+        }
+        this.list.appendChild(row);
+      }
+    }
+
+    for (const invite of this.pendingInvites) {
+      const row = document.createElement('div');
+      row.style.cssText = 'display: flex; align-items: center; gap: 8px; margin-top: 4px;';
+
+      const label = document.createElement('span');
+      label.style.cssText = 'flex: 1; color: #ccc;';
+      label.textContent = `Invite from ${invite.inviterName}`;
+      row.appendChild(label);
+      row.appendChild(this.createButton('Accept', () => this.onAcceptCallback?.(invite.inviterId)));
+      this.invites.appendChild(row);
+    }
+  }
+
+  private createButton(text: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = text;
+    button.style.cssText = `
+      background: #333;
+      color: white;
+      border: 1px solid #33ccff;
+      border-radius: 4px;
+      padding: 1px 6px;
+      font-family: monospace;
+      cursor: pointer;
+    `;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  private showStatus(message: string, color: string) {
+    this.status.style.color = color;
+    this.status.textContent = message;
+    this.container.style.display = 'block';
+
+    clearTimeout(this.statusTimeout);
+    this.statusTimeout = setTimeout(() => {
+      this.status.textContent = '';
+    }, 5000);
+  }
+}
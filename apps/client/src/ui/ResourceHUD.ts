@@ -0,0 +1,117 @@
+import { THIRST_EFFECTS, ThirstLevel } from '@fremen/shared';
+import type { PlayerResourceSnapshot } from '@fremen/protocol';
+
+const THIRST_WARNINGS: Record<ThirstLevel, { text: string; color: string } | null> = {
+  [ThirstLevel.HYDRATED]: null,
+  [ThirstLevel.MILD]: { text: 'Thirsty: movement slowed', color: '#ffcc44' },
+  [ThirstLevel.MODERATE]: { text: 'Dehydrated: find water', color: '#ff8844' },
+  [ThirstLevel.SEVERE]: { text: 'Severe dehydration: losing health!', color: '#ff4444' },
+};
+
+// Blur radius in pixels at vfxIntensity 1
+const MAX_BLUR_PX = 4;
+
+export class ResourceHUD {
+  private container: HTMLDivElement;
+  private waterFill: HTMLDivElement;
+  private waterLabel: HTMLDivElement;
+  private healthFill: HTMLDivElement;
+  private healthLabel: HTMLDivElement;
+  private spice: HTMLDivElement;
+  private warning: HTMLDivElement;
+  private canvas: HTMLCanvasElement;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+
+    this.container = document.createElement('div');
+    this.container.style.cssText = `
+      position: fixed;
+      bottom: 20px;
+      right: 20px;
+      background: rgba(0, 0, 0, 0.8);
+      color: white;
+      padding: 12px 15px;
+      border-radius: 8px;
+      font-family: monospace;
+      font-size: 14px;
+      width: 220px;
+      z-index: 1000;
+    `;
+
+    const water = this.createBar('#4a90e2');
+    this.waterLabel = water.label;
+    this.waterFill = water.fill;
+
+    const health = this.createBar('#44ff44');
+    this.healthLabel = health.label;
+    this.healthFill = health.fill;
+
+    this.spice = document.createElement('div');
+    this.spice.style.cssText = 'color: #ffaa00;';
+
+    this.warning = document.createElement('div');
+    this.warning.style.cssText = 'margin-top: 8px; font-weight: bold; display: none;';
+
+    this.container.appendChild(water.row);
+    this.container.appendChild(health.row);
+    this.container.appendChild(this.spice);
+    this.container.appendChild(this.warning);
+    document.body.appendChild(this.container);
+  }
+
+  private createBar(color: string) {
+    const row = document.createElement('div');
+    row.style.cssText = 'margin-bottom: 8px;';
+
+    const label = document.createElement('div');
+    label.style.cssText = 'margin-bottom: 3px;';
+
+    const bar = document.createElement('div');
+    bar.style.cssText = `
+      width: 100%;
+      height: 10px;
+      border-radius: 5px;
+      border: 1px solid #666;
+      overflow: hidden;
+    `;
+
+    const fill = document.createElement('div');
+    fill.style.cssText = `
+      background: ${color};
+      height: 100%;
+      width: 100%;
+      transition: width 0.3s ease;
+    `;
+
+    bar.appendChild(fill);
+    row.appendChild(label);
+    row.appendChild(bar);
+    return { row, label, fill };
+  }
+
+  update(resources: PlayerResourceSnapshot) {
+    const water = Math.max(0, Math.min(100, resources.water));
+    this.waterLabel.textContent = `Water ${Math.round(water)}/100`;
+    this.waterFill.style.width = `${water}%`;
+
+    const healthPercent = resources.maxHealth > 0 ? (resources.health / resources.maxHealth) * 100 : 0;
+    this.healthLabel.textContent = `Health ${Math.ceil(resources.health)}/${resources.maxHealth}`;
+    this.healthFill.style.width = `${Math.max(0, healthPercent)}%`;
+    this.healthFill.style.background = healthPercent < 30 ? '#ff4444' : healthPercent < 60 ? '#ff8844' : '#44ff44';
+
+    this.spice.textContent = `Spice ${resources.spice}`;
+
+    const warning = THIRST_WARNINGS[resources.thirstLevel];
+    if (warning) {
+      this.warning.textContent = warning.text;
+      this.warning.style.color = warning.color;
+      this.warning.style.display = 'block';
+    } else {
+      this.warning.style.display = 'none';
+    }
+
+    const { vfxIntensity } = THIRST_EFFECTS[resources.thirstLevel];
+    this.canvas.style.filter = vfxIntensity > 0 ? `blur(${vfxIntensity * MAX_BLUR_PX}px)` : '';
+  }
+}
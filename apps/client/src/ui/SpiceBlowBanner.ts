@@ -0,0 +1,73 @@
+import type { SpiceBlowPhase, Vector3 } from '@fremen/shared';
+
+export interface SpiceBlowInfo {
+  phase: SpiceBlowPhase;
+  position: Vector3;
+  eruptsAt: number;
+  decaysAt: number;
+}
+
+export class SpiceBlowBanner {
+  private container: HTMLDivElement;
+  private title: HTMLDivElement;
+  private detail: HTMLDivElement;
+
+  constructor() {
+    this.container = document.createElement('div');
+    this.container.style.cssText = `
+      position: fixed;
+      top: 20px;
+      left: 50%;
+      transform: translateX(-50%);
+      background: rgba(0, 0, 0, 0.8);
+      color: white;
+      padding: 10px 20px;
+      border-radius: 8px;
+      font-family: monospace;
+      font-size: 14px;
+      text-align: center;
+      display: none;
+      z-index: 1000;
+      border-bottom: 3px solid #ff6600;
+    `;
+
+    this.title = document.createElement('div');
+    this.title.style.cssText = 'font-weight: bold; color: #ff9933; margin-bottom: 4px;';
+
+    this.detail = document.createElement('div');
+
+    this.container.appendChild(this.title);
+    this.container.appendChild(this.detail);
+    document.body.appendChild(this.container);
+  }
+
+  update(blow: SpiceBlowInfo | null, playerPosition: Vector3 | null) {
+    if (!blow || blow.phase === 'decayed') {
+      this.container.style.display = 'none';
+      return;
+    }
+
+    this.container.style.display = 'block';
+    const now = Date.now();
+    if (blow.phase === 'warning') {
+      this.title.textContent = 'Spice blow imminent';
+      this.detail.textContent = `Erupts in ${formatTime(blow.eruptsAt - now)}`;
+    } else {
+      this.title.textContent = 'Spice blow — worms are coming';
+      this.detail.textContent = `Field decays in ${formatTime(blow.decaysAt - now)}`;
+    }
+
+    if (playerPosition) {
+      const dx = blow.position.x - playerPosition.x;
+      const dz = blow.position.z - playerPosition.z;
+      this.detail.textContent += ` · ${Math.round(Math.sqrt(dx * dx + dz * dz))}m`;
+    }
+  }
+}
+
+function formatTime(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,75 @@
+import {
+  createAccount,
+  deleteRefreshToken,
+  findAccountById,
+  findAccountByPlayerId,
+  findAccountByUsername,
+  findRefreshToken,
+  recordAccountLogin,
+  saveRefreshToken,
+} from '../db/accounts';
+
+export interface AccountRecord {
+  id: string;
+  username: string;
+  passwordHash: string;
+  playerId: string;
+  createdAt: Date;
+  lastLoginAt: Date | null;
+}
+
+export interface RefreshTokenRecord {
+  tokenHash: string;
+  accountId: string;
+  expiresAt: Date;
+}
+
+export interface AccountRepository {
+  findByUsername(username: string): Promise<AccountRecord | undefined>;
+  findById(accountId: string): Promise<AccountRecord | undefined>;
+  findByPlayerId(playerId: string): Promise<AccountRecord | undefined>;
+  /** Returns false if the username or player is already claimed */
+  create(account: AccountRecord): Promise<boolean>;
+  recordLogin(accountId: string, at: Date): Promise<void>;
+  saveRefreshToken(token: RefreshTokenRecord): Promise<void>;
+  findRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | undefined>;
+  deleteRefreshToken(tokenHash: string): Promise<void>;
+}
+
+export class DbAccountRepository implements AccountRepository {
+  findByUsername(username: string): Promise<AccountRecord | undefined> {
+    return findAccountByUsername(username);
+  }
+
+  findById(accountId: string): Promise<AccountRecord | undefined> {
+    return findAccountById(accountId);
+  }
+
+  findByPlayerId(playerId: string): Promise<AccountRecord | undefined> {
+    return findAccountByPlayerId(playerId);
+  }
+
+  create(account: AccountRecord): Promise<boolean> {
+    return createAccount(account);
+  }
+
+  recordLogin(accountId: string, at: Date): Promise<void> {
+    return recordAccountLogin(accountId, at);
+  }
+
+  saveRefreshToken(token: RefreshTokenRecord): Promise<void> {
+    return saveRefreshToken(token);
+  }
+
+  findRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | undefined> {
+    return findRefreshToken(tokenHash);
+  }
+
+  deleteRefreshToken(tokenHash: string): Promise<void> {
+    return deleteRefreshToken(tokenHash);
+  }
+}
+
+export function createDbAccountRepository(): AccountRepository {
+  return new DbAccountRepository();
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AuthService } from './AuthService';
+import type { AuthSession } from './AuthService';
+import { InMemoryAccountRepository } from './testing/InMemoryAccountRepository';
+import { generateToken, verifyToken } from './jwt';
+
+describe('AuthService', () => {
+  let accounts: InMemoryAccountRepository;
+  let auth: AuthService;
+
+  const sessionOf = (result: Awaited<ReturnType<AuthService['login']>>): AuthSession => {
+    if (!result.success) {
+      throw new Error(result.reason);
+    }
+    return result.session;
+  };
+
+  beforeEach(() => {
+    accounts = new InMemoryAccountRepository();
+    auth = new AuthService(accounts);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('registers an account and issues an access token for its player', async () => {
+    const session = sessionOf(await auth.register('Stilgar', 'sietch-tabr'));
+    const payload = verifyToken(session.accessToken);
+
+    expect(payload?.playerId).toBe(session.playerId);
+    expect(payload?.username).toBe('Stilgar');
+    expect(payload?.accountId).toBeDefined();
+    expect(session.refreshToken).toHaveLength(64);
+
+    const stored = await accounts.findByUsername('Stilgar');
+    expect(stored?.passwordHash).not.toContain('sietch-tabr');
+  });
+
+  it('claims the guest player when registering with a guest token', async () => {
+    const guestToken = generateToken('guest-player', 'Player_abc');
+
+    const session = sessionOf(await auth.register('Chani', 'desert-power', guestToken));
+
+    expect(session.playerId).toBe('guest-player');
+    expect((await accounts.findByPlayerId('guest-player'))?.username).toBe('Chani');
+  });
+
+  it('does not let a second account claim an already linked player', async () => {
+    const guestToken = generateToken('guest-player', 'Player_abc');
+    await auth.register('Chani', 'desert-power', guestToken);
+
+    const session = sessionOf(await auth.register('Jamis', 'crysknife', guestToken));
+
+    expect(session.playerId).not.toBe('guest-player');
+  });
+
+  it('stops accepting guest tokens for a player once an account has claimed it', async () => {
+    const guestToken = generateToken('guest-player', 'Player_abc');
+    expect((await auth.authenticate(guestToken))?.playerId).toBe('guest-player');
+
+    const session = sessionOf(await auth.register('Chani', 'desert-power', guestToken));
+
+    expect(await auth.authenticate(guestToken)).toBeNull();
+    expect(await auth.authenticate('not-a-token')).toBeNull();
+    expect((await auth.authenticate(session.accessToken))?.playerId).toBe('guest-player');
+  });
+
+  it('rejects duplicate usernames and weak credentials', async () => {
+    await auth.register('Stilgar', 'sietch-tabr');
+
+    expect(await auth.register('Stilgar', 'another-pass')).toMatchObject({ success: false, status: 409 });
+    expect(await auth.register('x', 'long-enough')).toMatchObject({ success: false, status: 400 });
+    expect(await auth.register('Liet', 'short')).toMatchObject({ success: false, status: 400 });
+  });
+
+  it('logs in with the right password and returns the same player', async () => {
+    const registered = sessionOf(await auth.register('Stilgar', 'sietch-tabr'));
+
+    const session = sessionOf(await auth.login('Stilgar', 'sietch-tabr'));
+
+    expect(session.playerId).toBe(registered.playerId);
+    expect((await accounts.findByUsername('Stilgar'))?.lastLoginAt).toBeInstanceOf(Date);
+  });
+
+  it('rejects wrong passwords and unknown users alike', async () => {
+    await auth.register('Stilgar', 'sietch-tabr');
+
+    const wrongPassword = await auth.login('Stilgar', 'wrong-password');
+    const unknownUser = await auth.login('Nobody', 'sietch-tabr');
+
+    expect(wrongPassword).toEqual({ success: false, status: 401, reason: 'Invalid username or password' });
+    expect(unknownUser).toEqual(wrongPassword);
+  });
+
+  it('rotates refresh tokens so each can only be used once', async () => {
+    const { refreshToken } = sessionOf(await auth.register('Stilgar', 'sietch-tabr'));
+
+    const refreshed = sessionOf(await auth.refresh(refreshToken));
+
+    expect(refreshed.refreshToken).not.toBe(refreshToken);
+    expect(await auth.refresh(refreshToken)).toMatchObject({ success: false, status: 401 });
+    expect(accounts.getRefreshTokenCount()).toBe(1);
+  });
+
+  it('rejects expired refresh tokens', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const { refreshToken } = sessionOf(await auth.register('Stilgar', 'sietch-tabr'));
+
+    vi.setSystemTime(31 * 24 * 60 * 60 * 1000);
+
+    expect(await auth.refresh(refreshToken)).toMatchObject({ success: false, reason: 'Refresh token expired' });
+  });
+
+  it('revokes the refresh token on logout', async () => {
+    const { refreshToken } = sessionOf(await auth.register('Stilgar', 'sietch-tabr'));
+
+    await auth.logout(refreshToken);
+
+    expect(await auth.refresh(refreshToken)).toMatchObject({ success: false, status: 401 });
+  });
+});
@@ -0,0 +1,144 @@
+import { createHash, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import type { AccountRecord, AccountRepository } from './AccountRepository';
+import { ACCESS_TOKEN_TTL_SECONDS, generateAccessToken, verifyToken } from './jwt';
+import type { JWTPayload } from './jwt';
+import { hashPassword, verifyPassword } from './password';
+
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const USERNAME_PATTERN = /^[A-Za-z0-9_]{3,20}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+export interface AuthSession {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // seconds until accessToken expires
+  playerId: string;
+  username: string;
+}
+
+export type AuthResult =
+  | { success: true; session: AuthSession }
+  | { success: false; status: number; reason: string };
+
+function hashRefreshToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Username/password accounts with short-lived access tokens and rotating
+ * refresh tokens. Access tokens carry the same playerId as guest tokens, so
+ * sockets authenticate the same way either way.
+ */
+export class AuthService {
+  constructor(private readonly accounts: AccountRepository) {}
+
+  /**
+   * Create an account. Passing the caller's guest token claims that guest's
+   * playerId, keeping the progression already stored under it.
+   */
+  async register(username: string, password: string, guestToken?: string): Promise<AuthResult> {
+    if (!USERNAME_PATTERN.test(username)) {
+      return { success: false, status: 400, reason: 'Username must be 3-20 letters, digits or underscores' };
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return { success: false, status: 400, reason: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` };
+    }
+    if (await this.accounts.findByUsername(username)) {
+      return { success: false, status: 409, reason: 'Username taken' };
+    }
+
+    const account: AccountRecord = {
+      id: uuidv4(),
+      username,
+      passwordHash: await hashPassword(password),
+      playerId: await this.resolvePlayerId(guestToken),
+      createdAt: new Date(),
+      lastLoginAt: new Date(),
+    };
+
+    if (!(await this.accounts.create(account))) {
+      return { success: false, status: 409, reason: 'Username taken' };
+    }
+
+    console.log(`Registered account ${username} for player ${account.playerId}`);
+    return { success: true, session: await this.issueSession(account) };
+  }
+
+  async login(username: string, password: string): Promise<AuthResult> {
+    const account = await this.accounts.findByUsername(username);
+    if (!account || !(await verifyPassword(password, account.passwordHash))) {
+      return { success: false, status: 401, reason: 'Invalid username or password' };
+    }
+
+    await this.accounts.recordLogin(account.id, new Date());
+    return { success: true, session: await this.issueSession(account) };
+  }
+
+  /**
+   * Exchange a refresh token for a new session. Refresh tokens are single use.
+   */
+  async refresh(refreshToken: string): Promise<AuthResult> {
+    const tokenHash = hashRefreshToken(refreshToken);
+    const stored = await this.accounts.findRefreshToken(tokenHash);
+    if (!stored) {
+      return { success: false, status: 401, reason: 'Invalid refresh token' };
+    }
+
+    await this.accounts.deleteRefreshToken(tokenHash);
+    if (stored.expiresAt.getTime() <= Date.now()) {
+      return { success: false, status: 401, reason: 'Refresh token expired' };
+    }
+
+    const account = await this.accounts.findById(stored.accountId);
+    if (!account) {
+      return { success: false, status: 401, reason: 'Invalid refresh token' };
+    }
+
+    return { success: true, session: await this.issueSession(account) };
+  }
+
+  async logout(refreshToken: string): Promise<void> {
+    await this.accounts.deleteRefreshToken(hashRefreshToken(refreshToken));
+  }
+
+  /**
+   * Verify a guest or access token. Once an account has claimed a guest's
+   * playerId, that guest's tokens no longer authenticate as it.
+   */
+  async authenticate(token: string): Promise<JWTPayload | null> {
+    const payload = verifyToken(token);
+    if (!payload) {
+      return null;
+    }
+    if (!payload.accountId && (await this.accounts.findByPlayerId(payload.playerId))) {
+      return null;
+    }
+    return payload;
+  }
+
+  private async resolvePlayerId(guestToken?: string): Promise<string> {
+    const guest = guestToken ? await this.authenticate(guestToken) : null;
+    if (guest && !guest.accountId) {
+      return guest.playerId;
+    }
+    return uuidv4();
+  }
+
+  private async issueSession(account: AccountRecord): Promise<AuthSession> {
+    const refreshToken = randomBytes(32).toString('hex');
+    await this.accounts.saveRefreshToken({
+      tokenHash: hashRefreshToken(refreshToken),
+      accountId: account.id,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    });
+
+    return {
+      accessToken: generateAccessToken(account.playerId, account.username, account.id),
+      refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      playerId: account.playerId,
+      username: account.username,
+    };
+  }
+}
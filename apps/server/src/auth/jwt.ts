@@ -3,10 +3,12 @@ import { v4 as uuidv4 } from 'uuid';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'development-secret-change-in-production';
 const JWT_EXPIRY = '24h';
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
 
 export interface JWTPayload {
   playerId: string;
   username?: string;
+  accountId?: string;
 }
 
 export function generateToken(playerId?: string, username?: string): string {
@@ -18,6 +20,14 @@ export function generateToken(playerId?: string, username?: string): string {
   return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRY });
 }
 
+/**
+ * Short-lived token for a registered account; renewed with a refresh token.
+ */
+export function generateAccessToken(playerId: string, username: string, accountId: string): string {
+  const payload: JWTPayload = { playerId, username, accountId };
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+}
+
 export function verifyToken(token: string): JWTPayload | null {
   try {
     const decoded = jwt.verify(token, JWT_SECRET) as JWTPayload;
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { hashPassword, verifyPassword } from './password';
+
+describe('Password hashing', () => {
+  it('should verify the original password', async () => {
+    const hash = await hashPassword('correct horse');
+
+    expect(await verifyPassword('correct horse', hash)).toBe(true);
+  });
+
+  it('should reject a wrong password', async () => {
+    const hash = await hashPassword('correct horse');
+
+    expect(await verifyPassword('battery staple', hash)).toBe(false);
+  });
+
+  it('should salt each hash', async () => {
+    const first = await hashPassword('same password');
+    const second = await hashPassword('same password');
+
+    expect(first).not.toBe(second);
+    expect(first).not.toContain('same password');
+  });
+
+  it('should reject malformed stored hashes', async () => {
+    expect(await verifyPassword('anything', 'not-a-hash')).toBe(false);
+  });
+});
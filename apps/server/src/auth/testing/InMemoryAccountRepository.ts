@@ -0,0 +1,53 @@
+import type { AccountRecord, AccountRepository, RefreshTokenRecord } from '../AccountRepository';
+
+export class InMemoryAccountRepository implements AccountRepository {
+  private accounts = new Map<string, AccountRecord>();
+  private refreshTokens = new Map<string, RefreshTokenRecord>();
+
+  async findByUsername(username: string): Promise<AccountRecord | undefined> {
+    return Array.from(this.accounts.values()).find(account => account.username === username);
+  }
+
+  async findById(accountId: string): Promise<AccountRecord | undefined> {
+    return this.accounts.get(accountId);
+  }
+
+  async findByPlayerId(playerId: string): Promise<AccountRecord | undefined> {
+    return Array.from(this.accounts.values()).find(account => account.playerId === playerId);
+  }
+
+  async create(account: AccountRecord): Promise<boolean> {
+    const taken = Array.from(this.accounts.values()).some(
+      existing => existing.username === account.username || existing.playerId === account.playerId
+    );
+    if (taken) {
+      return false;
+    }
+
+    this.accounts.set(account.id, { ...account });
+    return true;
+  }
+
+  async recordLogin(accountId: string, at: Date): Promise<void> {
+    const account = this.accounts.get(accountId);
+    if (account) {
+      account.lastLoginAt = at;
+    }
+  }
+
+  async saveRefreshToken(token: RefreshTokenRecord): Promise<void> {
+    this.refreshTokens.set(token.tokenHash, { ...token });
+  }
+
+  async findRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | undefined> {
+    return this.refreshTokens.get(tokenHash);
+  }
+
+  async deleteRefreshToken(tokenHash: string): Promise<void> {
+    this.refreshTokens.delete(tokenHash);
+  }
+
+  getRefreshTokenCount(): number {
+    return this.refreshTokens.size;
+  }
+}
@@ -0,0 +1,83 @@
+import { db } from './config.js';
+import { accounts, players, refreshTokens, type Account, type RefreshToken } from './schema.js';
+import { eq } from 'drizzle-orm';
+
+/**
+ * Find an account by its login name
+ */
+export async function findAccountByUsername(username: string): Promise<Account | undefined> {
+  const [account] = await db
+    .select()
+    .from(accounts)
+    .where(eq(accounts.username, username))
+    .limit(1);
+  return account;
+}
+
+/**
+ * Find an account by id
+ */
+export async function findAccountById(accountId: string): Promise<Account | undefined> {
+  const [account] = await db
+    .select()
+    .from(accounts)
+    .where(eq(accounts.id, accountId))
+    .limit(1);
+  return account;
+}
+
+/**
+ * Find the account that owns a game identity
+ */
+export async function findAccountByPlayerId(playerId: string): Promise<Account | undefined> {
+  const [account] = await db
+    .select()
+    .from(accounts)
+    .where(eq(accounts.playerId, playerId))
+    .limit(1);
+  return account;
+}
+
+/**
+ * Insert an account and link an existing players row to it.
+ * Returns false if the username or player is already taken.
+ */
+export async function createAccount(account: Account): Promise<boolean> {
+  try {
+    await db.transaction(async (tx) => {
+      await tx.insert(accounts).values(account);
+      await tx
+        .update(players)
+        .set({ accountId: account.id, username: account.username, updatedAt: new Date() })
+        .where(eq(players.id, account.playerId));
+    });
+    return true;
+  } catch (error) {
+    // Unique violation: someone registered the same name or player first
+    if ((error as { code?: string }).code === '23505') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+export async function recordAccountLogin(accountId: string, at: Date): Promise<void> {
+  await db.update(accounts).set({ lastLoginAt: at }).where(eq(accounts.id, accountId));
+}
+
+export async function saveRefreshToken(token: Omit<RefreshToken, 'createdAt'>): Promise<void> {
+  await db.insert(refreshTokens).values(token);
+}
+
+export async function findRefreshToken(tokenHash: string): Promise<RefreshToken | undefined> {
+  const [token] = await db
+    .select()
+    .from(refreshTokens)
+    .where(eq(refreshTokens.tokenHash, tokenHash))
+    .limit(1);
+  return token;
+}
+
+export async function deleteRefreshToken(tokenHash: string): Promise<void> {
+  await db.delete(refreshTokens).where(eq(refreshTokens.tokenHash, tokenHash));
+}
@@ -1,7 +1,8 @@
 import { db } from './config.js';
 import { players, type Player, type NewPlayer } from './schema.js';
+import { findAccountByPlayerId } from './accounts.js';
 import { eq } from 'drizzle-orm';
-import type { PlayerResources, Equipment, PlayerStats, InventoryItem, Vector3 } from '@fremen/shared';
+import type { PlayerResources, Equipment, PlayerStats, InventoryItem, ObjectiveBoard, Vector3 } from '@fremen/shared';
 import { STARTING_RESOURCES, EQUIPMENT_CATALOG } from '@fremen/shared';
 
 /**
@@ -21,11 +22,13 @@ export async function loadPlayer(playerId: string, username: string): Promise<Pl
       return parsePlayerData(existingPlayer);
     }
 
-    // Create new player
+    // Create new player, linked to its account if it was registered before first play
     console.log(`Creating new player ${username} (${playerId})`);
+    const account = await findAccountByPlayerId(playerId);
     const newPlayer: NewPlayer = {
       id: playerId,
       username,
+      accountId: account?.id ?? null,
       water: STARTING_RESOURCES.water!,
       spice: STARTING_RESOURCES.spice!,
       equipment: STARTING_RESOURCES.equipment || {},
@@ -37,6 +40,7 @@ export async function loadPlayer(playerId: string, username: string): Promise<Pl
         deaths: 0,
         wormsRidden: 0,
         outpostsCaptured: 0,
+        corpsesRecovered: 0,
       },
       lastPosition: { x: 0, y: 0, z: 0 },
     };
@@ -75,6 +79,7 @@ export async function savePlayer(
     if (resources.equipment !== undefined) updateData.equipment = resources.equipment;
     if (resources.inventory !== undefined) updateData.inventory = resources.inventory;
     if (resources.stats !== undefined) updateData.stats = resources.stats;
+    if (resources.objectives !== undefined) updateData.objectives = resources.objectives;
     if (lastPosition !== undefined) updateData.lastPosition = lastPosition;
 
     await db
@@ -176,8 +181,10 @@ function parsePlayerData(player: Player): PlayerResources {
     water: player.water,
     spice: player.spice,
     equipment: (player.equipment as Equipment) || {},
-    stats: (player.stats as PlayerStats) || STARTING_RESOURCES.stats!,
+    // Merge over defaults so rows saved before a stat existed still load
+    stats: { ...STARTING_RESOURCES.stats!, ...(player.stats as PlayerStats) },
     inventory: (player.inventory as InventoryItem[]) || [],
+    objectives: (player.objectives as ObjectiveBoard | null) ?? undefined,
   };
 }
 
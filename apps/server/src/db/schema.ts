@@ -1,9 +1,32 @@
 import { pgTable, text, integer, json, timestamp, real } from 'drizzle-orm/pg-core';
 
+export const accounts = pgTable('accounts', {
+  id: text('id').primaryKey(),
+  username: text('username').notNull().unique(),
+  passwordHash: text('password_hash').notNull(),
+
+  // Game identity used in access tokens and as players.id
+  playerId: text('player_id').notNull().unique(),
+
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  lastLoginAt: timestamp('last_login_at'),
+});
+
+export const refreshTokens = pgTable('refresh_tokens', {
+  // SHA-256 of the token; the raw token is only ever held by the client
+  tokenHash: text('token_hash').primaryKey(),
+  accountId: text('account_id').notNull().references(() => accounts.id, { onDelete: 'cascade' }),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
 export const players = pgTable('players', {
   id: text('id').primaryKey(), // playerId from JWT
   username: text('username').notNull(),
 
+  // Null for guest players that never registered
+  accountId: text('account_id').references(() => accounts.id),
+
   // Resources
   water: real('water').notNull().default(100),
   spice: integer('spice').notNull().default(0),
@@ -22,8 +45,12 @@ export const players = pgTable('players', {
     deaths: 0,
     wormsRidden: 0,
     outpostsCaptured: 0,
+    corpsesRecovered: 0,
   })),
 
+  // Objective board (stored as JSON); null until the player first joins a game
+  objectives: json('objectives'),
+
   // Last known position
   lastPosition: json('last_position').notNull().default(JSON.stringify({ x: 0, y: 0, z: 0 })),
 
@@ -32,5 +59,8 @@ export const players = pgTable('players', {
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
 
+export type Account = typeof accounts.$inferSelect;
+export type NewAccount = typeof accounts.$inferInsert;
+export type RefreshToken = typeof refreshTokens.$inferSelect;
 export type Player = typeof players.$inferSelect;
 export type NewPlayer = typeof players.$inferInsert;
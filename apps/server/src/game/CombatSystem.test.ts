@@ -42,6 +42,19 @@ describe('CombatSystem', () => {
     expect(player.health).toBe(40 + COMBAT_CONSTANTS.PLAYER_REGEN_PER_SECOND * 2);
   });
 
+  it('does not regenerate players the environment is wearing down', () => {
+    combat = new CombatSystem(room, { isExposed: player => player.playerId === 'target' });
+    const target = room.getPlayer('target')!;
+    const attacker = room.getPlayer('attacker')!;
+    target.health = 40;
+    attacker.health = 40;
+
+    combat.update(2);
+
+    expect(target.health).toBe(40);
+    expect(attacker.health).toBeGreaterThan(40);
+  });
+
   it('applies weapon fire damage and emits combat events', () => {
     const events: any[] = [];
     combat.onEvent(event => events.push(event));
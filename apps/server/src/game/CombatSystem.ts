@@ -17,6 +17,8 @@ interface PlayerFirePayload {
 interface CombatSystemOptions {
   deathManager?: DeathManager;
   onPersistenceSnapshot?(player: RoomPlayer): void;
+  /** Players the environment is currently wearing down, who don't regenerate */
+  isExposed?(player: RoomPlayer): boolean;
 }
 
 export class CombatSystem implements GameSystem {
@@ -50,6 +52,10 @@ export class CombatSystem implements GameSystem {
         continue;
       }
 
+      if (this.options.isExposed?.(player)) {
+        continue;
+      }
+
       const maxHealth = this.getMaxHealth(player);
       if (player.health < maxHealth) {
         player.health = Math.min(
@@ -111,7 +117,7 @@ export class CombatSystem implements GameSystem {
     this.applyDamage(target, amount, 'environment');
   }
 
-  private getMaxHealth(player: RoomPlayer): number {
+  getMaxHealth(player: RoomPlayer): number {
     const base = COMBAT_CONSTANTS.PLAYER_MAX_HEALTH;
     const equipment = player.resources.equipment;
     let bonus = 0;
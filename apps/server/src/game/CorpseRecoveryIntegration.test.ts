@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Socket } from 'socket.io';
+import { GameLoop } from './GameLoop';
+import { Room } from './Room';
+import type { RoomPlayer } from './Room';
+import { InMemoryPlayerRepository } from './testing/InMemoryPlayerRepository';
+import { ECONOMY_CONSTANTS } from '@fremen/shared';
+
+describe('VS3: Corpse markers and recovery through the game loop', () => {
+  let room: Room;
+  let gameLoop: GameLoop;
+  let repository: InMemoryPlayerRepository;
+  let socket: Socket;
+  let player: RoomPlayer;
+
+  const deathPosition = { x: 80, y: 1, z: 80 };
+
+  const corpseMessages = () =>
+    (socket.emit as ReturnType<typeof vi.fn>).mock.calls
+      .filter(([event]) => event === 'corpse')
+      .map(([, payload]) => payload);
+
+  const latestCorpses = () => corpseMessages().filter(m => m.type === 'S_CORPSES').at(-1).corpses;
+
+  const killPlayer = () => {
+    player.state.position = { ...deathPosition };
+    (gameLoop as any).combatSystem.applyDamageByEnvironment('player1', 1000);
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+
+    repository = new InMemoryPlayerRepository();
+    room = new Room('corpse-room', repository);
+    gameLoop = new GameLoop(room, 12345, repository);
+
+    socket = { id: 'socket-1', emit: vi.fn() } as unknown as Socket;
+    await room.addPlayer(socket, 'player1', 'Runner');
+    player = room.getPlayer('player1')!;
+    gameLoop.onPlayerJoin(player);
+    player.resources.spice = 100;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lists the player\'s corpse with its dropped spice after death', () => {
+    killPlayer();
+
+    const corpses = latestCorpses();
+    expect(corpses).toHaveLength(1);
+    expect(corpses[0]).toMatchObject({
+      playerId: 'player1',
+      position: deathPosition,
+      spiceAmount: 100 * ECONOMY_CONSTANTS.DEATH_SPICE_PENALTY,
+    });
+    expect(player.resources.spice).toBe(80);
+  });
+
+  it('returns the dropped spice and updates stats on recovery', () => {
+    killPlayer();
+    const [corpse] = latestCorpses();
+    player.state.position = { x: deathPosition.x + 1, y: 1, z: deathPosition.z };
+
+    const result = gameLoop.handleCorpseRecover('player1', corpse.id);
+
+    expect(result.success).toBe(true);
+    expect(player.resources.spice).toBe(100);
+    expect(player.resources.stats.corpsesRecovered).toBe(1);
+    expect(repository.getSnapshot('player1')?.resources?.spice).toBe(100);
+    expect(latestCorpses()).toEqual([]);
+    expect(corpseMessages().at(-1)).toMatchObject({
+      type: 'S_CORPSE_RECOVER_RESULT',
+      success: true,
+      spiceRecovered: 20,
+      spice: 100,
+    });
+  });
+
+  it('requires the player to reach the corpse', () => {
+    killPlayer();
+    const [corpse] = latestCorpses();
+
+    const result = gameLoop.handleCorpseRecover('player1', corpse.id);
+
+    expect(result.success).toBe(false);
+    expect(player.resources.spice).toBe(80);
+  });
+
+  it('sends corpses again when the player reconnects', async () => {
+    killPlayer();
+    const [corpse] = latestCorpses();
+
+    gameLoop.onPlayerLeave('player1');
+    await room.removePlayer('player1');
+
+    socket = { id: 'socket-2', emit: vi.fn() } as unknown as Socket;
+    await room.addPlayer(socket, 'player1', 'Runner');
+    player = room.getPlayer('player1')!;
+    gameLoop.onPlayerJoin(player);
+
+    expect(latestCorpses()).toEqual([expect.objectContaining({ id: corpse.id })]);
+  });
+
+  it('drops expired corpses from the list', () => {
+    killPlayer();
+
+    vi.advanceTimersByTime(ECONOMY_CONSTANTS.CORPSE_DURATION + 1000);
+    (gameLoop as any).registry.update(1);
+
+    expect(latestCorpses()).toEqual([]);
+  });
+});
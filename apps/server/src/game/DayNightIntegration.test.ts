@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Socket } from 'socket.io';
+import { GameLoop } from './GameLoop';
+import { Room } from './Room';
+import type { RoomPlayer } from './Room';
+import { InMemoryPlayerRepository } from './testing/InMemoryPlayerRepository';
+import { DAY_NIGHT_CONSTANTS } from '@fremen/shared';
+
+describe('Day/night cycle', () => {
+  let room: Room;
+  let gameLoop: GameLoop;
+  let socket: Socket;
+  let player: RoomPlayer;
+
+  const tick = (seconds: number) => {
+    for (let t = 0; t < seconds; t += 0.1) {
+      vi.advanceTimersByTime(100);
+      (gameLoop as any).registry.update(0.1);
+    }
+  };
+
+  /** Water a walker loses over `seconds` of ticks */
+  const waterLost = (seconds: number) => {
+    player.resources.water = 100;
+    player.state.velocity = { x: 2, y: 0, z: 0 };
+    tick(seconds);
+    return 100 - player.resources.water;
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+
+    const repository = new InMemoryPlayerRepository();
+    room = new Room('day-night-room', repository);
+    gameLoop = new GameLoop(room, 12345, repository);
+
+    socket = { id: 'socket-player1', emit: vi.fn() } as unknown as Socket;
+    await room.addPlayer(socket, 'player1', 'Walker');
+    player = room.getPlayer('player1')!;
+    gameLoop.onPlayerJoin(player);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends the world time with every state update', () => {
+    const latestFrame = () => {
+      const frames = (socket.emit as ReturnType<typeof vi.fn>).mock.calls
+        .filter(([name]) => name === 'state' || name === 'snapshot');
+      return frames[frames.length - 1][1];
+    };
+
+    (gameLoop as any).broadcastState();
+    expect(latestFrame().worldTime).toEqual({ timeOfDay: DAY_NIGHT_CONSTANTS.START_TIME_OF_DAY, day: 0 });
+
+    vi.advanceTimersByTime(DAY_NIGHT_CONSTANTS.DAY_LENGTH / 4);
+    (gameLoop as any).broadcastState();
+    expect(latestFrame().worldTime.timeOfDay).toBeCloseTo(0.5);
+  });
+
+  it('drains more water in the noon heat than at midnight', () => {
+    vi.advanceTimersByTime(DAY_NIGHT_CONSTANTS.DAY_LENGTH / 4);
+    const noon = waterLost(10);
+
+    vi.advanceTimersByTime(DAY_NIGHT_CONSTANTS.DAY_LENGTH / 2);
+    const midnight = waterLost(10);
+
+    expect(noon).toBeGreaterThan(midnight * 2);
+  });
+
+  it('stirs the worms at night', () => {
+    const wormAI = (gameLoop as any).wormAI;
+
+    vi.advanceTimersByTime(DAY_NIGHT_CONSTANTS.DAY_LENGTH * 0.75);
+    tick(0.1);
+
+    expect(wormAI.getActivity()).toBeCloseTo(DAY_NIGHT_CONSTANTS.NIGHT_WORM_ACTIVITY, 1);
+  });
+});
@@ -266,6 +266,7 @@ describe('VS3: Death & Respawn System', () => {
         deaths: 2,
         wormsRidden: 3,
         outpostsCaptured: 0,
+        corpsesRecovered: 0,
       };
 
       const result = manager.processDeath(playerId, deathPosition, spice, stats);
@@ -287,6 +288,7 @@ describe('VS3: Death & Respawn System', () => {
         deaths: 0,
         wormsRidden: 0,
         outpostsCaptured: 0,
+        corpsesRecovered: 0,
       });
 
       const corpse = manager.getCorpseMarker(result.corpseId);
@@ -303,6 +305,7 @@ describe('VS3: Death & Respawn System', () => {
         deaths: 5,
         wormsRidden: 0,
         outpostsCaptured: 0,
+        corpsesRecovered: 0,
       };
 
       const result = manager.processDeath('player-1', { x: 0, y: 0, z: 0 }, 0, stats);
@@ -318,6 +321,7 @@ describe('VS3: Death & Respawn System', () => {
         deaths: 2,
         wormsRidden: 8,
         outpostsCaptured: 0,
+        corpsesRecovered: 0,
       };
 
       const result = manager.processDeath('player-1', { x: 0, y: 0, z: 0 }, 0, stats);
@@ -374,6 +378,7 @@ describe('VS3: Death & Respawn System', () => {
         deaths: 0,
         wormsRidden: 0,
         outpostsCaptured: 0,
+        corpsesRecovered: 0,
       });
 
       expect(result.spiceLost).toBe(0);
@@ -414,6 +419,7 @@ describe('VS3: Death & Respawn System', () => {
         deaths: 0,
         wormsRidden: 5,
         outpostsCaptured: 0,
+        corpsesRecovered: 0,
       };
 
       // Player dies
@@ -446,6 +452,7 @@ describe('VS3: Death & Respawn System', () => {
         deaths: 0,
         wormsRidden: 0,
         outpostsCaptured: 0,
+        corpsesRecovered: 0,
       });
 
       spice = deathResult.spiceRemaining; // 80
@@ -472,6 +479,7 @@ describe('VS3: Death & Respawn System', () => {
         deaths: 0,
         wormsRidden: 0,
         outpostsCaptured: 0,
+        corpsesRecovered: 0,
       });
 
       // Time passes (3 minutes)
@@ -493,6 +501,7 @@ describe('VS3: Death & Respawn System', () => {
         deaths: 0,
         wormsRidden: 0,
         outpostsCaptured: 0,
+        corpsesRecovered: 0,
       };
 
       // First death
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Socket } from 'socket.io';
+import { GameLoop } from './GameLoop';
+import { Room } from './Room';
+import type { RoomPlayer } from './Room';
+import { InMemoryPlayerRepository } from './testing/InMemoryPlayerRepository';
+import { EquipmentTier, EquipmentType, GAME_CONSTANTS, THIRST_EFFECTS, ThirstLevel } from '@fremen/shared';
+import type { EquipmentItem } from '@fremen/shared';
+
+describe('VS3: Effective max speed from thirst and equipment', () => {
+  let room: Room;
+  let gameLoop: GameLoop;
+  let player: RoomPlayer;
+
+  const boots: EquipmentItem = {
+    id: 'test-boots',
+    type: EquipmentType.STILLSUIT,
+    tier: EquipmentTier.BASIC,
+    name: 'Test Boots',
+    description: 'Light desert boots',
+    stats: { speedBoost: 2 },
+  };
+
+  beforeEach(async () => {
+    const repository = new InMemoryPlayerRepository();
+    room = new Room('speed-room', repository);
+    gameLoop = new GameLoop(room, 12345, repository);
+
+    const socket = { id: 'socket-1', emit: vi.fn() } as unknown as Socket;
+    await room.addPlayer(socket, 'player1', 'Runner');
+    player = room.getPlayer('player1')!;
+    player.resources.equipment = { feet: boots };
+    gameLoop.onPlayerJoin(player);
+  });
+
+  it('adds equipment speedBoost when hydrated', () => {
+    expect(gameLoop.getEffectiveMaxSpeed('player1')).toBe(GAME_CONSTANTS.PLAYER_MAX_SPEED + 2);
+  });
+
+  it('applies the thirst speedPenalty on top of equipment', () => {
+    player.resources.water = 5;
+
+    expect(gameLoop.getEffectiveMaxSpeed('player1')).toBe(
+      (GAME_CONSTANTS.PLAYER_MAX_SPEED + 2) * THIRST_EFFECTS[ThirstLevel.SEVERE].speedPenalty
+    );
+  });
+
+  it('clamps movement to the effective speed rather than the raw constant', () => {
+    player.resources.water = 5;
+    player.state.velocity = { x: GAME_CONSTANTS.PLAYER_MAX_SPEED, y: 0, z: 0 };
+
+    (gameLoop as any).createPhysicsSystem().update(0.1);
+
+    expect(player.state.velocity.x).toBeCloseTo(gameLoop.getEffectiveMaxSpeed('player1'));
+  });
+
+  it('lets boosted players move faster than the base constant', () => {
+    player.state.velocity = { x: GAME_CONSTANTS.PLAYER_MAX_SPEED + 2, y: 0, z: 0 };
+
+    (gameLoop as any).createPhysicsSystem().update(0.1);
+
+    expect(player.state.velocity.x).toBe(GAME_CONSTANTS.PLAYER_MAX_SPEED + 2);
+  });
+});
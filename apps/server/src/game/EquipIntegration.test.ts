@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Socket } from 'socket.io';
+import { GameLoop } from './GameLoop';
+import { Room } from './Room';
+import type { RoomPlayer } from './Room';
+import { InMemoryPlayerRepository } from './testing/InMemoryPlayerRepository';
+import { EquipmentSlot, EquipmentTier, EquipmentType, PlayerStateEnum } from '@fremen/shared';
+
+describe('VS3: Equip/unequip through the game loop', () => {
+  let room: Room;
+  let gameLoop: GameLoop;
+  let repository: InMemoryPlayerRepository;
+  let socket: Socket;
+  let player: RoomPlayer;
+
+  const equipmentMessages = () =>
+    (socket.emit as ReturnType<typeof vi.fn>).mock.calls
+      .filter(([event]) => event === 'equipment')
+      .map(([, payload]) => payload);
+
+  beforeEach(async () => {
+    repository = new InMemoryPlayerRepository();
+    room = new Room('equip-room', repository);
+    gameLoop = new GameLoop(room, 12345, repository);
+
+    socket = { id: 'socket-1', emit: vi.fn() } as unknown as Socket;
+    await room.addPlayer(socket, 'player1', 'Wearer');
+    player = room.getPlayer('player1')!;
+    player.resources.inventory = [
+      { id: 'inv-suit', type: EquipmentType.STILLSUIT, tier: EquipmentTier.BASIC, quantity: 1 },
+    ];
+    gameLoop.onPlayerJoin(player);
+  });
+
+  it('sends the current loadout on join', () => {
+    const [inventory] = equipmentMessages();
+
+    expect(inventory).toMatchObject({
+      type: 'S_INVENTORY',
+      inventory: player.resources.inventory,
+      equipment: player.resources.equipment,
+    });
+  });
+
+  it('equips from inventory and refreshes cached stats immediately', () => {
+    const result = gameLoop.handleEquip('player1', 'basic-stillsuit');
+
+    expect(result.success).toBe(true);
+    expect(player.resources.equipment.body?.id).toBe('basic-stillsuit');
+    expect(player.resources.inventory).toEqual([]);
+    expect((gameLoop as any).equipmentStatsCache.get('player1').waterReduction).toBe(0.25);
+    expect(repository.getSnapshot('player1')?.resources?.equipment?.body?.id).toBe('basic-stillsuit');
+    expect(equipmentMessages().at(-1)).toMatchObject({
+      type: 'S_EQUIP_RESULT',
+      action: 'equip',
+      success: true,
+      stats: { waterReduction: 0.25 },
+    });
+  });
+
+  it('unequips a slot back into the inventory', () => {
+    gameLoop.handleEquip('player1', 'basic-stillsuit');
+
+    const result = gameLoop.handleUnequip('player1', EquipmentSlot.BODY);
+
+    expect(result.success).toBe(true);
+    expect(player.resources.equipment.body).toBeUndefined();
+    expect(player.resources.inventory).toContainEqual(
+      expect.objectContaining({ type: EquipmentType.STILLSUIT, quantity: 1 })
+    );
+    expect((gameLoop as any).equipmentStatsCache.get('player1').waterReduction).toBe(0);
+  });
+
+  it('reports failures back to the client', () => {
+    const result = gameLoop.handleUnequip('player1', EquipmentSlot.HEAD);
+
+    expect(result.success).toBe(false);
+    expect(equipmentMessages().at(-1)).toMatchObject({
+      type: 'S_EQUIP_RESULT',
+      action: 'unequip',
+      success: false,
+      reason: 'No item equipped in slot HEAD',
+    });
+  });
+
+  it('rejects equipment changes while dead', () => {
+    player.state.state = PlayerStateEnum.DEAD;
+
+    expect(gameLoop.handleEquip('player1', 'basic-stillsuit').success).toBe(false);
+    expect(player.resources.inventory).toHaveLength(1);
+  });
+});
@@ -223,6 +223,7 @@ export class EquipmentManager {
       waterReduction: 0,
       speedBoost: 0,
       healthBoost: 0,
+      noiseReduction: 0,
     };
 
     const slotKeys: Array<keyof Equipment> = ['head', 'body', 'feet'];
@@ -239,6 +240,9 @@ export class EquipmentManager {
         if (item.stats.healthBoost) {
           stats.healthBoost! += item.stats.healthBoost;
         }
+        if (item.stats.noiseReduction) {
+          stats.noiseReduction! += item.stats.noiseReduction;
+        }
       }
     }
 
@@ -1,12 +1,79 @@
-import { GAME_CONSTANTS, PlayerStateEnum, ECONOMY_CONSTANTS } from '@fremen/shared';
-import type { EquipmentStats, Vector3 } from '@fremen/shared';
-import type { CombatEventMessage } from '@fremen/protocol';
+import {
+  GAME_CONSTANTS,
+  PlayerStateEnum,
+  ECONOMY_CONSTANTS,
+  EquipmentSlot,
+  EquipmentType,
+  ObjectiveStatus,
+  SurfaceMap,
+  TerrainGenerator,
+  VIBRATION_CONSTANTS,
+  VS4_CONSTANTS,
+  WEATHER_CONSTANTS,
+} from '@fremen/shared';
+import type {
+  Equipment,
+  EquipmentStats,
+  InventoryItem,
+  Objective,
+  ObjectiveReward,
+  OutpostState,
+  SpiceBlowState,
+  SpiceNode,
+  SpiceNodeChange,
+  StormState,
+  ThumperState,
+  Vector3,
+  WormState,
+  WorldTime,
+} from '@fremen/shared';
+import type {
+  CombatEventMessage,
+  EquipAction,
+  ObjectiveAction,
+  ObjectiveEventData,
+  ObjectiveSnapshot,
+  PartyAction,
+  PartySnapshot,
+  PlayerResourceSnapshot,
+  S_CATALOG,
+  S_CORPSE_RECOVER_RESULT,
+  S_CORPSES,
+  S_EQUIP_RESULT,
+  S_EVENT,
+  S_INVENTORY,
+  S_OASES,
+  S_OBJECTIVE_RESULT,
+  S_OASIS_REFILL_RESULT,
+  S_PARTY_INVITE,
+  S_PARTY_RESULT,
+  S_HARVEST_PROGRESS,
+  S_HARVEST_RESULT,
+  S_SNAPSHOT,
+  S_SPICE_NODE_UPDATE,
+  S_SPICE_NODES,
+  S_STATE,
+  S_TRADE_RESULT,
+  SpiceBlowEventData,
+  SpiceNodeSnapshot,
+  TradeAction,
+  WormStrikeEventData,
+} from '@fremen/protocol';
 import type { Room, RoomPlayer } from './Room';
 import { Physics } from './sim/Physics';
+import { NavGrid } from './sim/NavGrid';
 import { WormAI } from './sim/WormAI';
+import { WormPopulationManager } from './sim/WormPopulation';
+import { VibrationModel, calculateNoise } from './sim/Vibration';
+import type { VibrationSource } from './sim/Vibration';
 import { WormDamage } from './sim/WormDamage';
-import { ObjectiveManager } from './ObjectiveManager';
+import { ObjectiveManager, cloneObjectiveBoard } from './ObjectiveManager';
+import type { ObjectiveCompletion } from './ObjectiveManager';
+import type { ObjectiveWorld } from './objectives/ObjectiveDefinition';
+import { PartyManager } from './PartyManager';
+import type { PartyResult } from './PartyManager';
 import { SpiceManager } from './SpiceManager';
+import type { HarvestSession } from './SpiceManager';
 import { WaterSystem } from './WaterSystem';
 import { OasisManager } from './OasisManager';
 import { EquipmentManager } from './EquipmentManager';
@@ -19,13 +86,47 @@ import type { GameSystem } from './SystemRegistry';
 import { CombatSystem } from './CombatSystem';
 import { OutpostManager } from './OutpostManager';
 import { AIManager } from './ai/AIManager';
+import { InterestManager, interestKey } from './InterestManager';
+import type { InterestEntity } from './InterestManager';
+import { SnapshotReplicator } from './SnapshotReplicator';
+import { SpiceNodeStreamer } from './SpiceNodeStreamer';
+import { SpiceBlowManager } from './SpiceBlowManager';
+import { WorldClock } from './WorldClock';
+import { WeatherManager } from './WeatherManager';
+
+const HARVEST_PROGRESS_INTERVAL = 0.25; // seconds between progress pushes
+const SPICE_NODE_STREAM_INTERVAL = 1; // seconds between spice node visibility refreshes
+
+function toSpiceNodeSnapshot(node: SpiceNode): SpiceNodeSnapshot {
+  return {
+    id: node.id,
+    position: node.position,
+    supply: node.supply,
+    maxSupply: node.maxSupply,
+    state: node.state,
+    respawnAt: node.respawnAt,
+  };
+}
+
+interface WorldFrame {
+  players: RoomPlayer[];
+  worms: WormState[];
+  thumpers: ThumperState[];
+  outposts: OutpostState[];
+  storms: StormState[];
+  timestamp: number;
+  worldTime: WorldTime;
+}
 
 export class GameLoop {
   private room: Room;
   private physics: Physics;
   private wormAI: WormAI;
+  private wormPopulation: WormPopulationManager;
+  private vibrationModel = new VibrationModel();
   private wormDamage: WormDamage;
   private objectiveManager: ObjectiveManager;
+  private partyManager = new PartyManager();
 
   // VS3 Systems
   private spiceManager: SpiceManager;
@@ -39,8 +140,17 @@ export class GameLoop {
   private combatSystem: CombatSystem;
   private outpostManager: OutpostManager;
   private aiManager: AIManager;
+  private interestManager: InterestManager;
+  private snapshotReplicator: SnapshotReplicator;
+  private spiceNodeStreamer: SpiceNodeStreamer;
+  private spiceBlowManager: SpiceBlowManager;
+  private worldClock = new WorldClock();
+  private weatherManager: WeatherManager;
   private equipmentStatsCache = new Map<string, EquipmentStats>();
   private lastPositions = new Map<string, { x: number; z: number }>();
+  private sentCorpseIds = new Map<string, string>();
+  private suspendedHarvests = new Map<string, { session: HarvestSession; suspendedAt: number }>();
+  private lastShotTimes = new Map<string, number>();
 
   private tickCount = 0;
   private lastTickTime = Date.now();
@@ -50,10 +160,15 @@ export class GameLoop {
   constructor(room: Room, seed: number, persistence?: PlayerRepository) {
     this.room = room;
     this.physics = new Physics(seed);
-    this.wormAI = new WormAI();
+    const terrain = new TerrainGenerator({ seed });
+    this.wormAI = new WormAI(new NavGrid(terrain, new SurfaceMap({ seed }, terrain)));
+    this.wormPopulation = new WormPopulationManager(seed);
+    this.wormPopulation.update(this.wormAI, 0);
     this.wormDamage = new WormDamage(seed);
-    this.objectiveManager = new ObjectiveManager();
-    this.objectiveManager.spawnRandomObjective();
+    this.objectiveManager = new ObjectiveManager(this.createObjectiveWorld(), {
+      seed,
+      partyOf: playerId => this.partyManager.getMembers(playerId),
+    });
 
     // Initialize VS3 systems
     this.spiceManager = new SpiceManager(seed);
@@ -64,18 +179,40 @@ export class GameLoop {
     this.rewardManager = new RewardManager();
     this.deathManager = new DeathManager();
     this.persistence = persistence;
+    this.interestManager = new InterestManager();
+    this.snapshotReplicator = new SnapshotReplicator();
+    this.spiceNodeStreamer = new SpiceNodeStreamer(this.spiceManager);
+    this.spiceBlowManager = new SpiceBlowManager(seed, this.spiceManager);
+    this.weatherManager = new WeatherManager(seed);
 
     // Generate world content
     this.spiceManager.generateNodes();
     this.oasisManager.generateOases();
+    this.spiceManager.onNodeChange((node, change) => this.broadcastSpiceNodeChange(node, change));
+    this.spiceBlowManager.onBlowChange((blow, cancelled) => this.handleSpiceBlowChange(blow, cancelled));
 
     this.registry = new SystemRegistry();
     this.combatSystem = new CombatSystem(this.room, {
       deathManager: this.deathManager,
       onPersistenceSnapshot: player => this.queuePersistenceUpdate(player),
+      isExposed: player => this.isExposedToStorm(player),
     });
 
     this.combatSystem.onEvent(event => this.broadcastCombatEvent(event));
+    this.combatSystem.onEvent(event => {
+      if (event.type === 'fire') {
+        this.lastShotTimes.set(event.attackerId, Date.now());
+      }
+    });
+    this.combatSystem.onEvent(event => {
+      if (event.type === 'death') {
+        const player = this.room.getPlayer(event.targetId);
+        if (player) {
+          this.interruptHarvest(player, 'Harvest interrupted by death');
+          this.emitCorpses(player);
+        }
+      }
+    });
 
     this.outpostManager = new OutpostManager(
       this.room,
@@ -83,11 +220,18 @@ export class GameLoop {
       () => this.room.getActiveThumpers()
     );
 
-    this.aiManager = new AIManager(this.room, this.combatSystem, this.outpostManager);
+    this.aiManager = new AIManager(this.room, this.combatSystem, this.outpostManager, {
+      visionScale: () => this.worldClock.getVisionScale(),
+      weatherScale: position => {
+        const { strength } = this.weatherManager.getConditions(position);
+        return 1 - strength * (1 - WEATHER_CONSTANTS.STORM_PERCEPTION_SCALE);
+      },
+    });
 
     this.outpostManager.setGarrisonProvider(
       outpostId => this.aiManager.getTroopersForOutpost(outpostId).length
     );
+    this.outpostManager.setPartyProvider(playerId => this.getOnlinePartyIds(playerId));
     this.outpostManager.setFactionChangeHandler((outpostId, faction) => {
       this.aiManager.onOutpostFactionChange(outpostId, faction);
     });
@@ -97,11 +241,14 @@ export class GameLoop {
     this.registry.registerSystem(this.aiManager);
     this.registry.registerSystem(this.createEquipmentSystem());
     this.registry.registerSystem(this.createWormSystem());
+    this.registry.registerSystem(this.createObjectiveSystem());
     this.registry.registerSystem(this.createPhysicsSystem());
+    this.registry.registerSystem(this.createWeatherSystem());
     this.registry.registerSystem(this.createWaterSystem());
     this.registry.registerSystem(this.createRewardSystem());
     this.registry.registerSystem(this.createSpiceSystem());
     this.registry.registerSystem(this.createOasisSystem());
+    this.registry.registerSystem(this.createCorpseSystem());
     this.registry.registerSystem(this.createPersistenceSystem());
     this.registry.registerSystem(this.createHousekeepingSystem());
 
@@ -128,12 +275,19 @@ export class GameLoop {
       x: player.state.position.x,
       z: player.state.position.z,
     });
+
+    if (player.resumed) {
+      this.sendFullSnapshot(player.playerId);
+    }
   }
 
   onPlayerLeave(playerId: string): void {
     this.registry.onPlayerLeave(playerId);
     this.lastPositions.delete(playerId);
     this.equipmentStatsCache.delete(playerId);
+    this.lastShotTimes.delete(playerId);
+    this.interestManager.removeClient(playerId);
+    this.snapshotReplicator.removeClient(playerId);
   }
 
   private tick() {
@@ -162,34 +316,254 @@ export class GameLoop {
     }
   }
 
+  /**
+   * Noise from every player on foot: footsteps, harvesting and gunfire,
+   * muffled by gear and by sandwalking.
+   */
+  private collectVibrationSources(): VibrationSource[] {
+    const now = Date.now();
+    const sources: VibrationSource[] = [];
+
+    for (const player of this.room.getAllPlayers()) {
+      if (player.state.state === PlayerStateEnum.RIDING || player.state.state === PlayerStateEnum.DEAD) {
+        continue;
+      }
+
+      const activity = this.waterSystem.detectActivity(player.state);
+      const lastShot = this.lastShotTimes.get(player.playerId);
+      const stats = this.equipmentStatsCache.get(player.playerId)
+        ?? this.equipmentManager.calculateTotalStats(player.resources.equipment);
+
+      const strength = calculateNoise({
+        moving: activity === 'RUNNING' ? 'running' : activity === 'WALKING' ? 'walking' : 'idle',
+        harvesting: this.spiceManager.getPlayerHarvestSession(player.playerId) !== undefined,
+        inCombat: lastShot !== undefined && now - lastShot < VIBRATION_CONSTANTS.COMBAT_NOISE_WINDOW * 1000,
+        sandwalking: player.sandwalking,
+        noiseReduction: stats.noiseReduction ?? 0,
+      });
+
+      if (strength > 0) {
+        sources.push({ sourceId: player.playerId, position: { ...player.state.position }, strength });
+      }
+    }
+
+    const blow = this.spiceBlowManager.getActiveBlow();
+    if (blow?.phase === 'erupted') {
+      sources.push({ sourceId: blow.id, position: { ...blow.position }, strength: VIBRATION_CONSTANTS.NOISE_SPICE_BLOW });
+    }
+
+    return sources;
+  }
+
+  private broadcastEvent(event: S_EVENT): void {
+    for (const player of this.room.getAllPlayers()) {
+      player.socket.emit('event', event);
+    }
+  }
+
+  /**
+   * A worm surfacing at its target swallows the thumper that called it and
+   * anyone standing on foot around its head. Players up on rock are safe.
+   * Only players who can see the worm hear about it.
+   */
+  private resolveWormStrike(worm: WormState): void {
+    const thumperId = this.wormAI.getTargetThumper(worm.id);
+    const head = this.wormAI.completeStrike(worm.id);
+    if (!head) {
+      return;
+    }
+    this.vibrationModel.reset(worm.id);
+
+    const inReach = (position: Vector3) =>
+      Math.sqrt((position.x - head.x) ** 2 + (position.z - head.z) ** 2) <= GAME_CONSTANTS.WORM_STRIKE_RADIUS;
+
+    const thumper = this.room.getActiveThumpers().find(t => t.id === thumperId);
+    if (thumper) {
+      this.room.removeThumper(thumper.id);
+    }
+
+    const victims = this.room.getAllPlayers().filter(player =>
+      player.state.state !== PlayerStateEnum.RIDING &&
+      player.state.state !== PlayerStateEnum.DEAD &&
+      !this.wormAI.isBlocked(player.state.position) &&
+      inReach(player.state.position)
+    );
+
+    const data: WormStrikeEventData = {
+      wormId: worm.id,
+      position: head,
+      thumperId: thumper?.id,
+      victimIds: victims.map(player => player.playerId),
+    };
+    const event: S_EVENT = { type: 'S_EVENT', eventType: 'worm_strike', data };
+    for (const player of this.room.getAllPlayers()) {
+      if (this.interestManager.isVisible(player.playerId, 'worm', worm.id)) {
+        player.socket.emit('event', event);
+      }
+    }
+
+    for (const victim of victims) {
+      this.combatSystem.applyDamageByEnvironment(victim.playerId, this.combatSystem.getMaxHealth(victim));
+    }
+
+    console.log(`Worm ${worm.id} struck at (${head.x.toFixed(1)}, ${head.z.toFixed(1)}), victims: ${victims.length}`);
+  }
+
   private broadcastState() {
+    const world = this.collectWorldFrame();
+    this.snapshotReplicator.beginFrame();
+    for (const player of world.players) {
+      this.sendStateTo(player, world);
+    }
+    this.snapshotReplicator.endFrame();
+  }
+
+  /**
+   * Send a keyframe to one player right away rather than on the next tick,
+   * e.g. after a session resume.
+   */
+  sendFullSnapshot(playerId: string): void {
+    const player = this.room.getPlayer(playerId);
+    if (!player) {
+      return;
+    }
+
+    this.snapshotReplicator.removeClient(playerId);
+    this.sendStateTo(player, this.collectWorldFrame());
+  }
+
+  private collectWorldFrame(): WorldFrame {
     const players = this.room.getAllPlayers();
     const worms = this.wormAI.getWorms();
     const thumpers = this.room.getThumpers();
-    const objective = this.objectiveManager.getActiveObjective();
     const outposts = this.outpostManager.getOutposts();
+    const storms = this.weatherManager.getStorms();
+    const timestamp = Date.now();
 
-    for (const player of players) {
-      const stateMessage = {
-        type: 'S_STATE',
-        timestamp: Date.now(),
+    this.interestManager.rebuild(this.collectInterestEntities(players, worms, thumpers, outposts));
+
+    return {
+      players,
+      worms,
+      thumpers,
+      outposts,
+      storms,
+      timestamp,
+      worldTime: this.worldClock.getWorldTime(),
+    };
+  }
+
+  private sendStateTo(player: RoomPlayer, world: WorldFrame): void {
+    const { players, worms, thumpers, outposts, storms, timestamp } = world;
+    const { visible } = this.interestManager.updateClient(player.playerId, player.state.position);
+
+    const encoded = this.snapshotReplicator.encode(player.playerId, {
+      players: players
+        .filter(p => visible.has(interestKey('player', p.playerId)))
+        .map(p => p.state),
+      worms: worms.filter(w => visible.has(interestKey('worm', w.id))),
+      thumpers: thumpers.filter(t => visible.has(interestKey('thumper', t.id))),
+      outposts: outposts.filter(o => visible.has(interestKey('outpost', o.id))),
+      // Storms are visible from anywhere
+      storms,
+    });
+
+    if (encoded.keyframe) {
+      const snapshot: S_SNAPSHOT = {
+        type: 'S_SNAPSHOT',
+        seq: encoded.seq,
+        timestamp,
         lastProcessedInputSeq: player.lastInputSeq,
-        players: players.map(p => p.state),
-        worms,
-        thumpers,
-        outposts,
-        objective: objective ? {
-          id: objective.id,
-          type: objective.type,
-          targetPosition: objective.targetPosition,
-          radius: objective.radius,
-          timeRemaining: Math.max(0, objective.expiresAt - Date.now()),
-          status: objective.status,
-        } : undefined,
+        players: encoded.players,
+        worms: encoded.worms,
+        thumpers: encoded.thumpers,
+        outposts: encoded.outposts,
+        storms: encoded.storms,
+        worldTime: world.worldTime,
+        objectives: this.getObjectiveSnapshots(player.playerId, timestamp),
+        party: this.getPartySnapshot(player.playerId),
+        resources: this.getResourceSnapshot(player),
       };
-      
-      player.socket.emit('state', stateMessage);
+      player.socket.emit('snapshot', snapshot);
+      return;
+    }
+
+    const stateMessage: S_STATE = {
+      type: 'S_STATE',
+      seq: encoded.seq,
+      baselineSeq: encoded.baselineSeq,
+      timestamp,
+      lastProcessedInputSeq: player.lastInputSeq,
+      players: encoded.players,
+      worms: encoded.worms,
+      thumpers: encoded.thumpers,
+      outposts: encoded.outposts,
+      storms: encoded.storms,
+      spawned: encoded.spawned.length > 0 ? encoded.spawned : undefined,
+      despawned: encoded.despawned.length > 0 ? encoded.despawned : undefined,
+      worldTime: world.worldTime,
+      objectives: this.getObjectiveSnapshots(player.playerId, timestamp),
+      party: this.getPartySnapshot(player.playerId),
+      resources: this.getResourceSnapshot(player),
+    };
+
+    player.socket.emit('state', stateMessage);
+  }
+
+  /**
+   * VS3: Max on-foot speed after equipment speedBoost and the thirst speedPenalty
+   */
+  getEffectiveMaxSpeed(playerId: string): number {
+    const player = this.room.getPlayer(playerId);
+    if (!player) {
+      return GAME_CONSTANTS.PLAYER_MAX_SPEED;
     }
+
+    const stats = this.equipmentStatsCache.get(playerId)
+      ?? this.equipmentManager.calculateTotalStats(player.resources.equipment);
+    const baseSpeed = GAME_CONSTANTS.PLAYER_MAX_SPEED + (stats.speedBoost ?? 0);
+    return this.waterSystem.applyThirstEffectToSpeed(player.resources.water, baseSpeed);
+  }
+
+  private getResourceSnapshot(player: RoomPlayer): PlayerResourceSnapshot {
+    return {
+      water: player.resources.water,
+      spice: player.resources.spice,
+      health: player.health,
+      maxHealth: this.combatSystem.getMaxHealth(player),
+      thirstLevel: this.waterSystem.getThirstEffects(player.resources.water).level,
+      maxSpeed: this.getEffectiveMaxSpeed(player.playerId),
+    };
+  }
+
+  handleStateAck(playerId: string, seq: number): void {
+    this.snapshotReplicator.acknowledge(playerId, seq);
+  }
+
+  private collectInterestEntities(
+    players: RoomPlayer[],
+    worms: WormState[],
+    thumpers: ThumperState[],
+    outposts: OutpostState[]
+  ): InterestEntity[] {
+    const entities: InterestEntity[] = [];
+
+    for (const player of players) {
+      entities.push({ kind: 'player', id: player.playerId, position: player.state.position });
+    }
+    for (const worm of worms) {
+      if (worm.controlPoints.length > 0) {
+        entities.push({ kind: 'worm', id: worm.id, position: worm.controlPoints[0] });
+      }
+    }
+    for (const thumper of thumpers) {
+      entities.push({ kind: 'thumper', id: thumper.id, position: thumper.position });
+    }
+    for (const outpost of outposts) {
+      entities.push({ kind: 'outpost', id: outpost.id, position: outpost.position });
+    }
+
+    return entities;
   }
 
   private createEquipmentSystem(): GameSystem {
@@ -197,6 +571,14 @@ export class GameLoop {
       onPlayerJoin: (player: RoomPlayer) => {
         const stats = this.equipmentManager.calculateTotalStats(player.resources.equipment);
         this.equipmentStatsCache.set(player.playerId, stats);
+
+        const payload: S_INVENTORY = {
+          type: 'S_INVENTORY',
+          equipment: player.resources.equipment,
+          inventory: player.resources.inventory ?? [],
+          stats,
+        };
+        player.socket.emit('equipment', payload);
       },
       onPlayerLeave: (playerId: string) => {
         this.equipmentStatsCache.delete(playerId);
@@ -212,7 +594,36 @@ export class GameLoop {
 
   private createWormSystem(): GameSystem {
     return {
+      onPlayerJoin: (player: RoomPlayer) => {
+        if (player.state.state !== PlayerStateEnum.RIDING) {
+          return;
+        }
+
+        // Only a resumed session gets its worm back; anyone else starts on foot
+        const worm = player.state.ridingWormId ? this.wormAI.getWorm(player.state.ridingWormId) : undefined;
+        const stillMounted = worm?.riderId === player.playerId;
+        if (player.resumed && worm && stillMounted) {
+          this.wormAI.resumeRide(worm.id, player.playerId);
+          return;
+        }
+
+        if (stillMounted) {
+          this.handleDismount(player.playerId);
+        } else {
+          player.state.state = PlayerStateEnum.ACTIVE;
+          player.state.ridingWormId = undefined;
+        }
+      },
+      onPlayerLeave: (playerId: string) => {
+        // Keep the worm circling in case the rider resumes
+        const player = this.room.getPlayer(playerId);
+        const worm = player?.state.ridingWormId ? this.wormAI.getWorm(player.state.ridingWormId) : undefined;
+        if (worm?.riderId === playerId) {
+          this.wormAI.startSafeSpiral(worm.id);
+        }
+      },
       update: (deltaTime: number) => {
+        this.wormAI.setActivity(this.worldClock.getWormActivity());
         this.wormAI.update(deltaTime);
         this.room.updateThumpers();
 
@@ -220,30 +631,63 @@ export class GameLoop {
         for (const thumper of activeThumpers) {
           const nearestWormId = this.wormAI.findNearestWorm(thumper.position);
           if (nearestWormId) {
-            this.wormAI.setWormTarget(nearestWormId, thumper.position);
+            this.wormAI.setWormTarget(nearestWormId, thumper.position, thumper.id);
           }
         }
 
-        this.objectiveManager.update();
+        this.vibrationModel.update(this.wormAI, this.collectVibrationSources(), deltaTime);
 
-        const worms = this.wormAI.getWorms();
-        for (const worm of worms) {
-          if (worm.aiState === 'RIDDEN_BY' && worm.controlPoints.length > 0) {
-            const completed = this.objectiveManager.checkObjectiveCompletion(worm.controlPoints[0]);
-            if (completed && worm.riderId) {
-              this.grantObjectiveReward(worm.riderId);
-            }
+        for (const worm of this.wormAI.getWorms()) {
+          if (this.wormAI.isStriking(worm.id)) {
+            this.resolveWormStrike(worm);
           }
+        }
 
+        const worms = this.wormAI.getWorms();
+        for (const worm of worms) {
           const damage = this.wormDamage.checkTerrainDamage(worm);
           if (damage > 0) {
             const died = this.wormDamage.applyDamage(worm, damage);
             if (died && worm.riderId) {
-              this.handleDismount(worm.riderId);
+              // A rider who already left can't be dismounted; just free the worm
+              if (!this.handleDismount(worm.riderId).success) {
+                this.wormAI.dismountWorm(worm.id);
+              }
               console.log(`Worm ${worm.id} died, ejecting rider`);
             }
           }
         }
+
+        this.wormPopulation.update(this.wormAI, this.room.getPlayerCount());
+      },
+    };
+  }
+
+  private createObjectiveSystem(): GameSystem {
+    return {
+      onPlayerJoin: (player: RoomPlayer) => {
+        // The board lives on the player's resources so it's saved with them
+        player.resources.objectives = this.objectiveManager.openBoard(player.playerId, player.resources.objectives);
+      },
+      onPlayerLeave: (playerId: string) => {
+        this.objectiveManager.closeBoard(playerId);
+      },
+      update: (deltaTime: number) => {
+        for (const { objective, ownerId } of this.objectiveManager.update()) {
+          this.failObjective(ownerId, objective, 'expired');
+        }
+
+        for (const completion of this.objectiveManager.track(deltaTime)) {
+          this.grantObjectiveReward(completion.playerId, completion.objective);
+          this.emitObjectiveCompleted(completion);
+        }
+
+        for (const { ownerId } of this.objectiveManager.rotate()) {
+          const owner = this.room.getPlayer(ownerId);
+          if (owner) {
+            this.queuePersistenceUpdate(owner);
+          }
+        }
       },
     };
   }
@@ -260,9 +704,10 @@ export class GameLoop {
               player.state.velocity = { x: 0, y: 0, z: 0 };
             }
           } else {
-            if (!this.physics.validatePlayerSpeed(player.state.velocity)) {
+            const maxSpeed = this.getEffectiveMaxSpeed(player.playerId);
+            if (!this.physics.validatePlayerSpeed(player.state.velocity, maxSpeed)) {
               console.warn(`Speed hack detected for player ${player.playerId}`);
-              player.state.velocity = this.physics.clampVelocity(player.state.velocity);
+              player.state.velocity = this.physics.clampVelocity(player.state.velocity, maxSpeed);
             }
 
             player.state.position = this.physics.validatePlayerPosition(
@@ -276,6 +721,39 @@ export class GameLoop {
     };
   }
 
+  private createWeatherSystem(): GameSystem {
+    return {
+      update: (deltaTime: number) => {
+        this.weatherManager.update(deltaTime);
+
+        for (const player of this.room.getAllPlayers()) {
+          if (player.state.state === PlayerStateEnum.DEAD || !this.isExposedToStorm(player)) {
+            continue;
+          }
+
+          const { strength } = this.weatherManager.getConditions(player.state.position);
+          this.combatSystem.applyDamageByEnvironment(
+            player.playerId,
+            strength * WEATHER_CONSTANTS.STORM_DAMAGE_PER_SECOND * deltaTime
+          );
+        }
+      },
+    };
+  }
+
+  /** Sand scours anyone caught in a storm without headgear */
+  private isExposedToStorm(player: RoomPlayer): boolean {
+    if (player.resources.equipment.head?.type === EquipmentType.HEADGEAR) {
+      return false;
+    }
+    return this.weatherManager.getConditions(player.state.position).strength > 0;
+  }
+
+  private getStormWaterMultiplier(position: Vector3): number {
+    const { strength } = this.weatherManager.getConditions(position);
+    return 1 + strength * (WEATHER_CONSTANTS.STORM_WATER_MULTIPLIER - 1);
+  }
+
   private createWaterSystem(): GameSystem {
     return {
       update: (deltaTime: number) => {
@@ -291,7 +769,8 @@ export class GameLoop {
             player.resources.water,
             player.state,
             deltaTime,
-            waterReduction
+            waterReduction,
+            this.worldClock.getWaterMultiplier() * this.getStormWaterMultiplier(player.state.position)
           );
 
           const effect = this.waterSystem.getThirstEffects(player.resources.water);
@@ -339,9 +818,71 @@ export class GameLoop {
   }
 
   private createSpiceSystem(): GameSystem {
+    let progressAccumulator = 0;
+    let streamAccumulator = 0;
     return {
+      onPlayerJoin: (player: RoomPlayer) => {
+        const suspended = this.suspendedHarvests.get(player.playerId);
+        this.suspendedHarvests.delete(player.playerId);
+        if (suspended && player.resumed) {
+          this.spiceManager.resumeHarvest(suspended.session, Date.now() - suspended.suspendedAt);
+        }
+
+        this.streamSpiceNodes(player);
+
+        const blow = this.spiceBlowManager.getActiveBlow();
+        if (blow) {
+          player.socket.emit('event', this.toSpiceBlowEvent(blow));
+        }
+      },
+      onPlayerLeave: (playerId: string) => {
+        // Held until the player resumes or their disconnected state expires
+        const session = this.spiceManager.getPlayerHarvestSession(playerId);
+        if (session) {
+          this.suspendedHarvests.set(playerId, { session, suspendedAt: Date.now() });
+        }
+        this.spiceManager.cancelPlayerHarvests(playerId);
+        this.spiceNodeStreamer.removeClient(playerId);
+      },
       update: (deltaTime: number) => {
         this.spiceManager.update(deltaTime);
+        this.spiceBlowManager.update();
+
+        streamAccumulator += deltaTime;
+        if (streamAccumulator >= SPICE_NODE_STREAM_INTERVAL) {
+          streamAccumulator = 0;
+          for (const player of this.room.getAllPlayers()) {
+            this.streamSpiceNodes(player);
+          }
+        }
+
+        progressAccumulator += deltaTime;
+        const sendProgress = progressAccumulator >= HARVEST_PROGRESS_INTERVAL;
+        if (sendProgress) {
+          progressAccumulator = 0;
+        }
+
+        const now = Date.now();
+        for (const session of this.spiceManager.getActiveSessions()) {
+          const player = this.room.getPlayer(session.playerId);
+          if (!player) {
+            this.spiceManager.cancelHarvest(session.id);
+            continue;
+          }
+
+          const interruption = this.getHarvestInterruption(player, session);
+          if (interruption) {
+            this.interruptHarvest(player, interruption);
+            continue;
+          }
+
+          const elapsed = now - session.startTime;
+          if (elapsed >= ECONOMY_CONSTANTS.HARVEST_DURATION) {
+            this.completeHarvest(player, session);
+          } else if (sendProgress) {
+            this.emitHarvestProgress(player, session.nodeId, elapsed);
+          }
+        }
       },
     };
   }
@@ -349,6 +890,20 @@ export class GameLoop {
   private createOasisSystem(): GameSystem {
     let accumulator = 0;
     return {
+      onPlayerJoin: (player: RoomPlayer) => {
+        const payload: S_OASES = {
+          type: 'S_OASES',
+          oases: this.oasisManager.getOases().map(oasis => ({
+            id: oasis.id,
+            position: oasis.position,
+            radius: oasis.radius,
+            refillAmount: oasis.refillAmount,
+            cooldownDuration: oasis.cooldownDuration,
+            cooldownRemaining: this.oasisManager.getCooldownRemaining(player.playerId, oasis.id),
+          })),
+        };
+        player.socket.emit('oasis', payload);
+      },
       update: (deltaTime: number) => {
         accumulator += deltaTime;
         if (accumulator >= 1) {
@@ -359,6 +914,33 @@ export class GameLoop {
     };
   }
 
+  private createCorpseSystem(): GameSystem {
+    let accumulator = 0;
+    return {
+      onPlayerJoin: (player: RoomPlayer) => {
+        // Corpses outlive the connection, so a reconnecting player sees them again
+        this.emitCorpses(player);
+      },
+      onPlayerLeave: (playerId: string) => {
+        this.sentCorpseIds.delete(playerId);
+      },
+      update: (deltaTime: number) => {
+        accumulator += deltaTime;
+        if (accumulator < 1) {
+          return;
+        }
+        accumulator = 0;
+
+        for (const player of this.room.getAllPlayers()) {
+          const ids = this.getCorpseIds(player.playerId);
+          if (ids !== this.sentCorpseIds.get(player.playerId)) {
+            this.emitCorpses(player);
+          }
+        }
+      },
+    };
+  }
+
   private createPersistenceSystem(): GameSystem {
     return {
       update: () => {
@@ -373,7 +955,17 @@ export class GameLoop {
     return {
       update: () => {
         if (this.tickCount % (GAME_CONSTANTS.TICK_RATE * 60) === 0) {
-          this.room.cleanupDisconnectedPlayers();
+          for (const { playerId, state } of this.room.cleanupDisconnectedPlayers()) {
+            this.suspendedHarvests.delete(playerId);
+            // Party membership survives a resumable drop; only now is the player gone
+            this.partyManager.removePlayer(playerId);
+
+            // Free the worm a disconnected rider was still holding
+            const worm = state.ridingWormId ? this.wormAI.getWorm(state.ridingWormId) : undefined;
+            if (worm?.riderId === playerId) {
+              this.wormAI.dismountWorm(worm.id);
+            }
+          }
         }
       },
     };
@@ -409,6 +1001,8 @@ export class GameLoop {
       return { success: false, reason: 'Worm not available' };
     }
 
+    this.interruptHarvest(player, 'Harvest interrupted by mounting');
+
     player.state.state = PlayerStateEnum.RIDING;
     player.state.ridingWormId = wormId;
     player.state.velocity = { x: 0, y: 0, z: 0 };
@@ -450,45 +1044,757 @@ export class GameLoop {
 
   handleWormControl(wormId: string, direction: number, speedIntent: number) {
     const deltaTime = 1 / GAME_CONSTANTS.TICK_RATE;
-    this.wormAI.steerWorm(wormId, direction, speedIntent, deltaTime);
+    const head = this.wormAI.getWorm(wormId)?.controlPoints[0];
+    const { strength, windHeading } = head ? this.weatherManager.getConditions(head) : { strength: 0, windHeading: 0 };
+    this.wormAI.steerWorm(wormId, direction, speedIntent, deltaTime, strength, windHeading);
   }
 
   handlePlayerFire(playerId: string, payload: { weaponId: string; targetId: string; damage?: number; origin?: Vector3 }): boolean {
     return this.combatSystem.handlePlayerFire(playerId, payload);
   }
 
+  handleHarvestStart(playerId: string, nodeId: string): { success: boolean; reason?: string } {
+    const player = this.room.getPlayer(playerId);
+    if (!player) {
+      return { success: false, reason: 'Player not found' };
+    }
+
+    let reason: string | undefined;
+    if (player.state.state !== PlayerStateEnum.ACTIVE) {
+      reason = 'Cannot harvest while mounted';
+    } else if (!this.spiceManager.startHarvest(playerId, nodeId, player.state.position)) {
+      reason = 'Cannot harvest this node';
+    }
+
+    if (reason) {
+      this.emitHarvestResult(player, { nodeId, success: false, amount: 0, reason });
+      return { success: false, reason };
+    }
+
+    // Harvesting is stationary; any later movement input interrupts it.
+    player.state.velocity = { x: 0, y: 0, z: 0 };
+    this.emitHarvestProgress(player, nodeId, 0);
+
+    return { success: true };
+  }
+
+  handleHarvestCancel(playerId: string): boolean {
+    const player = this.room.getPlayer(playerId);
+    if (!player) {
+      return false;
+    }
+
+    return this.interruptHarvest(player, 'Harvest cancelled');
+  }
+
+  /**
+   * VS3: Send the merchant catalog and where trading is allowed
+   */
+  handleCatalogRequest(playerId: string): boolean {
+    const player = this.room.getPlayer(playerId);
+    if (!player) {
+      return false;
+    }
+
+    const payload: S_CATALOG = {
+      type: 'S_CATALOG',
+      items: this.sietchManager.getMerchantCatalog().map(entry => ({
+        ...entry,
+        sellPrice: this.sietchManager.calculateSellPrice(entry.item.id),
+      })),
+      sietchPosition: this.sietchManager.getSietchPosition(),
+      safeZoneRadius: this.sietchManager.getSafeZoneRadius(),
+    };
+
+    player.socket.emit('trade', payload);
+    return true;
+  }
+
+  handleTradeBuy(playerId: string, itemId: string): { success: boolean; reason?: string } {
+    return this.handleTrade(playerId, 'buy', itemId);
+  }
+
+  handleTradeSell(playerId: string, itemId: string): { success: boolean; reason?: string } {
+    return this.handleTrade(playerId, 'sell', itemId);
+  }
+
+  /**
+   * VS3: Validate a merchant trade against the player's position, then apply it
+   */
+  private handleTrade(playerId: string, action: TradeAction, itemId: string): { success: boolean; reason?: string } {
+    const player = this.room.getPlayer(playerId);
+    if (!player) {
+      return { success: false, reason: 'Player not found' };
+    }
+
+    let reason: string | undefined;
+    if (player.state.state !== PlayerStateEnum.ACTIVE) {
+      reason = 'Must be on foot to trade';
+    } else if (!this.sietchManager.canTrade(player.state.position)) {
+      reason = 'Must be inside the Sietch to trade';
+    }
+
+    if (reason) {
+      this.emitTradeResult(player, action, itemId, false, reason);
+      return { success: false, reason };
+    }
+
+    const inventory = player.resources.inventory ?? [];
+    const result = action === 'buy'
+      ? this.sietchManager.buyItem(itemId, player.resources.spice, inventory)
+      : this.sietchManager.sellItem(itemId, player.resources.spice, inventory);
+
+    if (!result.success) {
+      this.emitTradeResult(player, action, itemId, false, result.error);
+      return { success: false, reason: result.error };
+    }
+
+    player.resources.spice = result.newSpice;
+    player.resources.inventory = result.inventory;
+    this.queuePersistenceUpdate(player);
+
+    this.emitTradeResult(player, action, itemId, true);
+    return { success: true };
+  }
+
+  /**
+   * VS3: Refill water at the given oasis, or the nearest one if none is specified
+   */
+  handleOasisRefill(playerId: string, oasisId?: string): { success: boolean; reason?: string } {
+    const player = this.room.getPlayer(playerId);
+    if (!player) {
+      return { success: false, reason: 'Player not found' };
+    }
+
+    const oasis = oasisId
+      ? this.oasisManager.getOasis(oasisId)
+      : this.oasisManager.getNearestOasis(player.state.position);
+
+    let reason: string | undefined;
+    if (player.state.state !== PlayerStateEnum.ACTIVE) {
+      reason = 'Must be on foot to refill water';
+    } else if (!oasis) {
+      reason = 'Oasis not found';
+    } else {
+      const result = this.oasisManager.refillWater(
+        playerId,
+        oasis.id,
+        player.resources.water,
+        player.state.position
+      );
+
+      if (result.success) {
+        player.resources.water = result.newWater;
+        this.queuePersistenceUpdate(player);
+      } else {
+        reason = result.message;
+      }
+    }
+
+    const payload: S_OASIS_REFILL_RESULT = {
+      type: 'S_OASIS_REFILL_RESULT',
+      oasisId: oasis?.id ?? null,
+      success: !reason,
+      water: player.resources.water,
+      cooldownRemaining: oasis ? this.oasisManager.getCooldownRemaining(playerId, oasis.id) : 0,
+      reason,
+    };
+    player.socket.emit('oasis', payload);
+
+    return reason ? { success: false, reason } : { success: true };
+  }
+
   /**
-   * VS3: Grant objective reward
+   * VS3: Recover one of the player's own corpses and return the dropped spice
    */
-  private grantObjectiveReward(playerId: string): void {
+  handleCorpseRecover(playerId: string, corpseId: string): { success: boolean; reason?: string } {
+    const player = this.room.getPlayer(playerId);
+    if (!player) {
+      return { success: false, reason: 'Player not found' };
+    }
+
+    const result = player.state.state === PlayerStateEnum.ACTIVE
+      ? this.deathManager.recoverCorpse(playerId, corpseId, player.state.position)
+      : { success: false, error: 'Must be on foot to recover a corpse' };
+
+    const spiceRecovered = result.spiceRecovered ?? 0;
+    if (result.success) {
+      player.resources.spice += spiceRecovered;
+      player.resources.stats = this.rewardManager.recordCorpseRecovery(player.resources.stats);
+      this.queuePersistenceUpdate(player);
+      this.emitCorpses(player);
+    }
+
+    const payload: S_CORPSE_RECOVER_RESULT = {
+      type: 'S_CORPSE_RECOVER_RESULT',
+      corpseId,
+      success: result.success,
+      spiceRecovered,
+      spice: player.resources.spice,
+      reason: result.error,
+    };
+    player.socket.emit('corpse', payload);
+
+    return result.success ? { success: true } : { success: false, reason: result.error };
+  }
+
+  handleObjectiveAccept(playerId: string, objectiveId: string): { success: boolean; reason?: string } {
+    return this.handleObjectiveAction(playerId, objectiveId, 'accept');
+  }
+
+  handleObjectiveAbandon(playerId: string, objectiveId: string): { success: boolean; reason?: string } {
+    return this.handleObjectiveAction(playerId, objectiveId, 'abandon');
+  }
+
+  private handleObjectiveAction(
+    playerId: string,
+    objectiveId: string,
+    action: ObjectiveAction
+  ): { success: boolean; reason?: string } {
+    const player = this.room.getPlayer(playerId);
+    if (!player) {
+      return { success: false, reason: 'Player not found' };
+    }
+
+    const result = action === 'accept'
+      ? this.objectiveManager.accept(playerId, objectiveId)
+      : this.objectiveManager.abandon(playerId, objectiveId);
+    if (result.success) {
+      if (action === 'abandon') {
+        this.failObjective(playerId, result.objective!, 'abandoned');
+      } else {
+        this.queuePersistenceUpdate(player);
+      }
+    }
+
+    const payload: S_OBJECTIVE_RESULT = {
+      type: 'S_OBJECTIVE_RESULT',
+      action,
+      objectiveId,
+      success: result.success,
+      reason: result.reason,
+    };
+    player.socket.emit('objective', payload);
+
+    return result.success ? { success: true } : { success: false, reason: result.reason };
+  }
+
+  handlePartyInvite(playerId: string, targetName: string): { success: boolean; reason?: string } {
+    const target = this.room.getAllPlayers().find(p => p.username === targetName);
+    if (!target) {
+      return this.sendPartyResult(playerId, 'invite', { success: false, reason: 'Player not found' });
+    }
+
+    const result = this.partyManager.invite(playerId, target.playerId);
+    if (result.success && result.invite) {
+      const payload: S_PARTY_INVITE = {
+        type: 'S_PARTY_INVITE',
+        inviterId: playerId,
+        inviterName: this.room.getPlayer(playerId)?.username ?? playerId,
+        expiresAt: result.invite.expiresAt,
+      };
+      target.socket.emit('party', payload);
+    }
+    return this.sendPartyResult(playerId, 'invite', result);
+  }
+
+  handlePartyAccept(playerId: string, inviterId: string): { success: boolean; reason?: string } {
+    if (!this.room.getPlayer(inviterId)) {
+      return this.sendPartyResult(playerId, 'accept', { success: false, reason: 'Invite is no longer valid' });
+    }
+    return this.sendPartyResult(playerId, 'accept', this.partyManager.accept(playerId, inviterId));
+  }
+
+  handlePartyLeave(playerId: string): { success: boolean; reason?: string } {
+    return this.sendPartyResult(playerId, 'leave', this.partyManager.leave(playerId));
+  }
+
+  handlePartyKick(playerId: string, targetId: string): { success: boolean; reason?: string } {
+    return this.sendPartyResult(playerId, 'kick', this.partyManager.kick(playerId, targetId));
+  }
+
+  /**
+   * Online members of the player's party, or nobody when they're not in one
+   */
+  getPartyMembers(playerId: string): RoomPlayer[] {
+    const party = this.partyManager.getParty(playerId);
+    if (!party) {
+      return [];
+    }
+    return party.members
+      .map(memberId => this.room.getPlayer(memberId))
+      .filter((member): member is RoomPlayer => member !== undefined);
+  }
+
+  /**
+   * Ids of the player's party members who are connected, or just the player
+   * when they're not in one. Disconnected members keep their place but earn
+   * nothing until they resume.
+   */
+  private getOnlinePartyIds(playerId: string): string[] {
+    return this.partyManager.getMembers(playerId).filter(memberId => this.room.getPlayer(memberId));
+  }
+
+  private sendPartyResult(
+    playerId: string,
+    action: PartyAction,
+    result: PartyResult
+  ): { success: boolean; reason?: string } {
+    const payload: S_PARTY_RESULT = {
+      type: 'S_PARTY_RESULT',
+      action,
+      success: result.success,
+      reason: result.reason,
+    };
+    this.room.getPlayer(playerId)?.socket.emit('party', payload);
+
+    return result.success ? { success: true } : { success: false, reason: result.reason };
+  }
+
+  private getPartySnapshot(playerId: string): PartySnapshot | undefined {
+    const party = this.partyManager.getParty(playerId);
+    if (!party) {
+      return undefined;
+    }
+
+    return {
+      id: party.id,
+      leaderId: party.leaderId,
+      members: this.getPartyMembers(playerId).map(member => ({
+        playerId: member.playerId,
+        username: member.username,
+        position: { ...member.state.position },
+        alive: member.state.state !== PlayerStateEnum.DEAD,
+      })),
+    };
+  }
+
+  private getObjectiveSnapshots(playerId: string, timestamp: number): ObjectiveSnapshot[] {
+    return this.objectiveManager.getObjectives(playerId).map(objective => ({
+      id: objective.id,
+      type: objective.type,
+      targetPosition: objective.targetPosition,
+      radius: objective.radius,
+      timeRemaining: objective.status === ObjectiveStatus.OFFERED
+        ? objective.timeLimit
+        : Math.max(0, objective.expiresAt - timestamp),
+      status: objective.status,
+      progress: objective.progress,
+      reward: objective.reward,
+      penalty: objective.penalty,
+      checkpoints: objective.checkpoints,
+    }));
+  }
+
+  private emitObjectiveCompleted({ objective, ownerId, playerId }: ObjectiveCompletion): void {
+    this.emitObjectiveEvent(ownerId, {
+      objectiveId: objective.id,
+      objectiveType: objective.type,
+      outcome: 'completed',
+      playerId,
+      reward: objective.reward,
+    });
+  }
+
+  /**
+   * Take a failed objective's penalty, if it carries one, and tell the owner
+   */
+  private failObjective(ownerId: string, objective: Objective, outcome: 'expired' | 'abandoned'): void {
+    const owner = this.room.getPlayer(ownerId);
+    if (!owner) {
+      return;
+    }
+
+    if (objective.penalty) {
+      const result = this.rewardManager.applyObjectivePenalty(
+        owner.resources.spice,
+        owner.resources.water,
+        objective.penalty
+      );
+      owner.resources.spice = result.spice;
+      owner.resources.water = result.water;
+    }
+    this.queuePersistenceUpdate(owner);
+
+    this.emitObjectiveEvent(ownerId, {
+      objectiveId: objective.id,
+      objectiveType: objective.type,
+      outcome,
+      playerId: ownerId,
+      reward: objective.reward,
+      penalty: objective.penalty,
+    });
+  }
+
+  /** Objective news goes to everyone working the board: the owner and their party */
+  private emitObjectiveEvent(ownerId: string, data: ObjectiveEventData): void {
+    const payload: S_EVENT = { type: 'S_EVENT', eventType: 'objective', data };
+    for (const memberId of this.partyManager.getMembers(ownerId)) {
+      this.room.getPlayer(memberId)?.socket.emit('event', payload);
+    }
+  }
+
+  private getCorpseIds(playerId: string): string {
+    return this.deathManager.getPlayerCorpses(playerId).map(corpse => corpse.id).join(',');
+  }
+
+  private emitCorpses(player: RoomPlayer): void {
+    const corpses = this.deathManager.getPlayerCorpses(player.playerId);
+    this.sentCorpseIds.set(player.playerId, corpses.map(corpse => corpse.id).join(','));
+
+    const payload: S_CORPSES = {
+      type: 'S_CORPSES',
+      corpses: corpses.map(corpse => ({
+        id: corpse.id,
+        playerId: corpse.playerId,
+        position: corpse.position,
+        spiceAmount: corpse.spiceAmount,
+        expiresAt: corpse.expiresAt,
+      })),
+    };
+    player.socket.emit('corpse', payload);
+  }
+
+  /**
+   * VS3: Equip an item from the player's inventory
+   */
+  handleEquip(playerId: string, itemId: string): { success: boolean; reason?: string } {
+    const player = this.room.getPlayer(playerId);
+    if (!player) {
+      return { success: false, reason: 'Player not found' };
+    }
+
+    if (player.state.state === PlayerStateEnum.DEAD) {
+      return this.applyEquipmentChange(player, 'equip', { success: false, error: 'Cannot change equipment while dead' });
+    }
+
+    const result = this.equipmentManager.equipItem(
+      itemId,
+      player.resources.equipment,
+      player.resources.inventory ?? []
+    );
+    return this.applyEquipmentChange(player, 'equip', result);
+  }
+
+  /**
+   * VS3: Move whatever is in a slot back into the player's inventory
+   */
+  handleUnequip(playerId: string, slot: EquipmentSlot): { success: boolean; reason?: string } {
+    const player = this.room.getPlayer(playerId);
+    if (!player) {
+      return { success: false, reason: 'Player not found' };
+    }
+
+    if (player.state.state === PlayerStateEnum.DEAD) {
+      return this.applyEquipmentChange(player, 'unequip', { success: false, error: 'Cannot change equipment while dead' });
+    }
+
+    if (!Object.values(EquipmentSlot).includes(slot)) {
+      return this.applyEquipmentChange(player, 'unequip', {
+        success: false,
+        error: `Unknown equipment slot ${slot}`,
+      });
+    }
+
+    const result = this.equipmentManager.unequipItem(
+      slot,
+      player.resources.equipment,
+      player.resources.inventory ?? []
+    );
+    return this.applyEquipmentChange(player, 'unequip', result);
+  }
+
+  private applyEquipmentChange(
+    player: RoomPlayer,
+    action: EquipAction,
+    result: { success: boolean; equipment?: Equipment; inventory?: InventoryItem[]; error?: string }
+  ): { success: boolean; reason?: string } {
+    if (result.success) {
+      player.resources.equipment = result.equipment!;
+      player.resources.inventory = result.inventory!;
+      this.equipmentStatsCache.set(
+        player.playerId,
+        this.equipmentManager.calculateTotalStats(player.resources.equipment)
+      );
+      this.queuePersistenceUpdate(player);
+    }
+
+    const payload: S_EQUIP_RESULT = {
+      type: 'S_EQUIP_RESULT',
+      action,
+      success: result.success,
+      equipment: player.resources.equipment,
+      inventory: player.resources.inventory ?? [],
+      stats: this.equipmentStatsCache.get(player.playerId)
+        ?? this.equipmentManager.calculateTotalStats(player.resources.equipment),
+      reason: result.error,
+    };
+
+    player.socket.emit('equipment', payload);
+    return { success: result.success, reason: result.error };
+  }
+
+  private emitTradeResult(
+    player: RoomPlayer,
+    action: TradeAction,
+    itemId: string,
+    success: boolean,
+    reason?: string
+  ): void {
+    const payload: S_TRADE_RESULT = {
+      type: 'S_TRADE_RESULT',
+      action,
+      itemId,
+      success,
+      spice: player.resources.spice,
+      inventory: player.resources.inventory ?? [],
+      reason,
+    };
+
+    player.socket.emit('trade', payload);
+  }
+
+  /**
+   * VS3: Returns why an in-progress harvest can no longer continue, if at all
+   */
+  private getHarvestInterruption(player: RoomPlayer, session: HarvestSession): string | null {
+    if (player.state.state === PlayerStateEnum.RIDING) {
+      return 'Harvest interrupted by mounting';
+    }
+
+    if (player.state.state === PlayerStateEnum.DEAD) {
+      return 'Harvest interrupted by death';
+    }
+
+    const moved = Math.sqrt(
+      (player.state.position.x - session.startPosition.x) ** 2 +
+      (player.state.position.z - session.startPosition.z) ** 2
+    );
+    if (moved > ECONOMY_CONSTANTS.HARVEST_MOVE_TOLERANCE) {
+      return 'Harvest interrupted by movement';
+    }
+
+    return null;
+  }
+
+  private interruptHarvest(player: RoomPlayer, reason: string): boolean {
+    const session = this.spiceManager.getPlayerHarvestSession(player.playerId);
+    if (!session) {
+      return false;
+    }
+
+    this.spiceManager.cancelPlayerHarvests(player.playerId);
+    this.emitHarvestResult(player, { nodeId: session.nodeId, success: false, amount: 0, reason });
+    return true;
+  }
+
+  private completeHarvest(player: RoomPlayer, session: HarvestSession): void {
+    const result = this.spiceManager.completeHarvest(session.id);
+    if (!result.success) {
+      this.spiceManager.cancelHarvest(session.id);
+      this.emitHarvestResult(player, {
+        nodeId: session.nodeId,
+        success: false,
+        amount: 0,
+        reason: 'Node no longer available',
+      });
+      return;
+    }
+
+    player.resources.spice += result.amount;
+    player.resources.stats = this.rewardManager.recordSpiceHarvest(player.resources.stats, result.amount);
+    this.queuePersistenceUpdate(player);
+
+    this.emitHarvestResult(player, { nodeId: result.nodeId, success: true, amount: result.amount });
+  }
+
+  private streamSpiceNodes(player: RoomPlayer): void {
+    const update = this.spiceNodeStreamer.updateClient(player.playerId, player.state.position);
+    if (update.entered.length === 0 && update.exited.length === 0) {
+      return;
+    }
+
+    const payload: S_SPICE_NODES = {
+      type: 'S_SPICE_NODES',
+      nodes: update.entered.map(toSpiceNodeSnapshot),
+      removed: update.exited,
+    };
+
+    player.socket.emit('spice', payload);
+  }
+
+  private toSpiceBlowEvent(blow: SpiceBlowState): S_EVENT {
+    const now = Date.now();
+    const data: SpiceBlowEventData = {
+      id: blow.id,
+      phase: blow.phase,
+      position: blow.position,
+      radius: blow.radius,
+      eruptsIn: Math.max(0, blow.eruptsAt - now),
+      decaysIn: Math.max(0, blow.decaysAt - now),
+    };
+    return { type: 'S_EVENT', eventType: 'spice_blow', data };
+  }
+
+  /**
+   * Announce each stage of a spice blow. Fields are streamed right away when
+   * they appear or vanish, and harvests cut short by the decay are failed.
+   */
+  private handleSpiceBlowChange(blow: SpiceBlowState, cancelled: HarvestSession[]): void {
+    this.broadcastEvent(this.toSpiceBlowEvent(blow));
+
+    for (const session of cancelled) {
+      const player = this.room.getPlayer(session.playerId);
+      if (player) {
+        this.emitHarvestResult(player, {
+          nodeId: session.nodeId,
+          success: false,
+          amount: 0,
+          reason: 'The spice blow has decayed',
+        });
+      }
+    }
+
+    if (blow.phase !== 'warning') {
+      for (const player of this.room.getAllPlayers()) {
+        this.streamSpiceNodes(player);
+      }
+    }
+  }
+
+  private broadcastSpiceNodeChange(node: SpiceNode, change: SpiceNodeChange): void {
+    const payload: S_SPICE_NODE_UPDATE = {
+      type: 'S_SPICE_NODE_UPDATE',
+      change,
+      node: toSpiceNodeSnapshot(node),
+    };
+
+    for (const playerId of this.spiceNodeStreamer.getSubscribers(node.id)) {
+      this.room.getPlayer(playerId)?.socket.emit('spice', payload);
+    }
+  }
+
+  private emitHarvestProgress(player: RoomPlayer, nodeId: string, elapsed: number): void {
+    const duration = ECONOMY_CONSTANTS.HARVEST_DURATION;
+    const payload: S_HARVEST_PROGRESS = {
+      type: 'S_HARVEST_PROGRESS',
+      nodeId,
+      progress: Math.min(1, elapsed / duration),
+      timeRemaining: Math.max(0, duration - elapsed),
+    };
+
+    player.socket.emit('harvest', payload);
+  }
+
+  private emitHarvestResult(
+    player: RoomPlayer,
+    result: { nodeId: string; success: boolean; amount: number; reason?: string }
+  ): void {
+    const payload: S_HARVEST_RESULT = {
+      type: 'S_HARVEST_RESULT',
+      ...result,
+      spice: player.resources.spice,
+    };
+
+    player.socket.emit('harvest', payload);
+  }
+
+  /**
+   * Split an objective reward between the earner and their party. Spice the
+   * earner handed over to complete it comes back to them first, so only the
+   * premium is shared.
+   */
+  private grantObjectiveReward(playerId: string, objective: Objective): void {
+    const { reward } = objective;
+    const handedOver = Math.min(reward.spice, objective.spiceRequired ?? 0);
+    const shares = this.rewardManager.splitReward(
+      { spice: reward.spice - handedOver, water: reward.water },
+      this.getOnlinePartyIds(playerId),
+      playerId
+    );
+    for (const [memberId, share] of shares) {
+      this.grantObjectiveShare(memberId, share, memberId === playerId ? handedOver : 0);
+    }
+  }
+
+  /** `refund` is spice the player gets back rather than earns */
+  private grantObjectiveShare(playerId: string, reward: ObjectiveReward, refund = 0): void {
     const player = this.room.getPlayer(playerId);
     if (!player) return;
 
     const rewardResult = this.rewardManager.grantObjectiveReward(
       player.resources.spice,
-      player.resources.water
+      player.resources.water,
+      { spice: reward.spice + refund, water: reward.water }
     );
 
     player.resources.spice = rewardResult.spice;
     player.resources.water = rewardResult.water;
     player.resources.stats = this.rewardManager.updateObjectiveStats(
       player.resources.stats,
-      ECONOMY_CONSTANTS.OBJECTIVE_REWARD_SPICE
+      reward.spice
     );
     this.queuePersistenceUpdate(player);
 
-    console.log(`Player ${playerId} completed objective: +${ECONOMY_CONSTANTS.OBJECTIVE_REWARD_SPICE} spice, +${ECONOMY_CONSTANTS.OBJECTIVE_REWARD_WATER} water`);
+    console.log(`Player ${playerId} completed objective: +${reward.spice} spice, +${reward.water} water`);
   }
 
+  /**
+   * The view of the world objective types place and track objectives against
+   */
+  private createObjectiveWorld(): ObjectiveWorld {
+    return {
+      getParticipants: () => this.room.getAllPlayers().map(player => {
+        const worm = player.state.ridingWormId ? this.wormAI.getWorm(player.state.ridingWormId) : undefined;
+        return {
+          playerId: player.playerId,
+          position: player.state.position,
+          alive: player.state.state !== PlayerStateEnum.DEAD,
+          spice: player.resources.spice,
+          wormHead: worm?.riderId === player.playerId ? worm.controlPoints[0] : undefined,
+        };
+      }),
+      getSietch: () => ({
+        position: this.sietchManager.getSietchPosition(),
+        radius: this.sietchManager.getSafeZoneRadius(),
+      }),
+      getOutposts: () => this.outpostManager.getOutposts(),
+      isOutpostJammed: outpostId => this.outpostManager.isJammed(outpostId),
+      getStorms: () => this.weatherManager.getStorms(),
+      takeSpice: (playerId, amount) => {
+        const player = this.room.getPlayer(playerId);
+        if (!player || player.resources.spice < amount) {
+          return false;
+        }
+        player.resources.spice -= amount;
+        this.queuePersistenceUpdate(player);
+        return true;
+      },
+    };
+  }
+
+  /**
+   * Called for each credited capturer. The whole party is credited, so each
+   * member takes their share of a single outpost reward.
+   */
   private rewardOutpostCapture(playerId: string): void {
     const player = this.room.getPlayer(playerId);
     if (!player) {
       return;
     }
 
+    // Members are in join order, so the first online one is the leader when they're here
+    const members = this.getOnlinePartyIds(playerId);
+    const share = this.rewardManager.splitReward(
+      { spice: VS4_CONSTANTS.OUTPOST_REWARD_SPICE, water: VS4_CONSTANTS.OUTPOST_REWARD_WATER },
+      members,
+      members[0]
+    ).get(playerId)!;
+
     const reward = this.rewardManager.grantOutpostReward(
       player.resources.spice,
-      player.resources.water
+      player.resources.water,
+      share
     );
 
     const spiceDelta = reward.spice - player.resources.spice;
@@ -496,7 +1802,7 @@ export class GameLoop {
 
     player.resources.spice = reward.spice;
     player.resources.water = reward.water;
-    player.resources.stats = this.rewardManager.recordOutpostCapture(player.resources.stats);
+    player.resources.stats = this.rewardManager.recordOutpostCapture(player.resources.stats, share.spice);
     this.queuePersistenceUpdate(player);
 
     console.log(
@@ -513,6 +1819,7 @@ export class GameLoop {
         equipment: { ...player.resources.equipment },
         stats: { ...player.resources.stats },
         inventory: player.resources.inventory ? [...player.resources.inventory] : [],
+        objectives: player.resources.objectives && cloneObjectiveBoard(player.resources.objectives),
       },
     });
   }
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Socket } from 'socket.io';
+import { GameLoop } from './GameLoop';
+import { Room } from './Room';
+import type { RoomPlayer } from './Room';
+import { InMemoryPlayerRepository } from './testing/InMemoryPlayerRepository';
+import { ECONOMY_CONSTANTS, GAME_CONSTANTS, PlayerStateEnum } from '@fremen/shared';
+import type { SpiceNode } from '@fremen/shared';
+
+describe('VS3: Spice harvesting through the game loop', () => {
+  let room: Room;
+  let gameLoop: GameLoop;
+  let repository: InMemoryPlayerRepository;
+  let socket: Socket;
+  let player: RoomPlayer;
+  let node: SpiceNode;
+
+  const advanceSeconds = (seconds: number) => {
+    const steps = Math.ceil(seconds * GAME_CONSTANTS.TICK_RATE);
+    for (let i = 0; i < steps; i++) {
+      vi.advanceTimersByTime(1000 / GAME_CONSTANTS.TICK_RATE);
+      (gameLoop as any).registry.update(1 / GAME_CONSTANTS.TICK_RATE);
+    }
+  };
+
+  const harvestMessages = () =>
+    (socket.emit as ReturnType<typeof vi.fn>).mock.calls
+      .filter(([event]) => event === 'harvest')
+      .map(([, payload]) => payload);
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+
+    repository = new InMemoryPlayerRepository();
+    room = new Room('harvest-room', repository);
+    gameLoop = new GameLoop(room, 12345, repository);
+
+    socket = { id: 'socket-1', emit: vi.fn() } as unknown as Socket;
+    await room.addPlayer(socket, 'player1', 'Harvester');
+    player = room.getPlayer('player1')!;
+    gameLoop.onPlayerJoin(player);
+
+    node = (gameLoop as any).spiceManager
+      .getNodes()
+      .find((n: SpiceNode) => Math.abs(n.position.x) < 50 && Math.abs(n.position.z) < 50);
+    player.state.position = { x: node.position.x + 1, y: 1, z: node.position.z };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('credits spice and lifetime earnings after the harvest duration', () => {
+    const result = gameLoop.handleHarvestStart('player1', node.id);
+    expect(result.success).toBe(true);
+
+    advanceSeconds(ECONOMY_CONSTANTS.HARVEST_DURATION / 1000 + 0.1);
+
+    expect(player.resources.spice).toBe(ECONOMY_CONSTANTS.SPICE_HARVEST_AMOUNT);
+    expect(player.resources.stats.totalSpiceEarned).toBe(ECONOMY_CONSTANTS.SPICE_HARVEST_AMOUNT);
+    expect(node.supply).toBe(ECONOMY_CONSTANTS.SPICE_NODE_MAX_SUPPLY - ECONOMY_CONSTANTS.SPICE_HARVEST_AMOUNT);
+    expect(repository.getSnapshot('player1')?.resources?.spice).toBe(ECONOMY_CONSTANTS.SPICE_HARVEST_AMOUNT);
+  });
+
+  it('pushes progress and the final result to the harvesting client', () => {
+    gameLoop.handleHarvestStart('player1', node.id);
+    advanceSeconds(ECONOMY_CONSTANTS.HARVEST_DURATION / 1000 + 0.1);
+
+    const messages = harvestMessages();
+    const progress = messages.filter(m => m.type === 'S_HARVEST_PROGRESS');
+    const results = messages.filter(m => m.type === 'S_HARVEST_RESULT');
+
+    expect(progress.length).toBeGreaterThan(1);
+    expect(progress[0].progress).toBe(0);
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({
+      nodeId: node.id,
+      success: true,
+      amount: ECONOMY_CONSTANTS.SPICE_HARVEST_AMOUNT,
+      spice: ECONOMY_CONSTANTS.SPICE_HARVEST_AMOUNT,
+    });
+  });
+
+  it('rejects a harvest out of range and reports the reason', () => {
+    player.state.position = { x: node.position.x + 20, y: 1, z: node.position.z };
+
+    const result = gameLoop.handleHarvestStart('player1', node.id);
+
+    expect(result.success).toBe(false);
+    expect(harvestMessages()).toContainEqual(
+      expect.objectContaining({ type: 'S_HARVEST_RESULT', success: false })
+    );
+  });
+
+  it('cancels the session when the player moves', () => {
+    gameLoop.handleHarvestStart('player1', node.id);
+    player.state.velocity = { x: GAME_CONSTANTS.PLAYER_MAX_SPEED, y: 0, z: 0 };
+
+    advanceSeconds(ECONOMY_CONSTANTS.HARVEST_DURATION / 1000 + 0.1);
+
+    expect(player.resources.spice).toBe(0);
+    expect((gameLoop as any).spiceManager.getPlayerHarvestSession('player1')).toBeUndefined();
+    expect(harvestMessages()).toContainEqual(
+      expect.objectContaining({ type: 'S_HARVEST_RESULT', success: false, reason: 'Harvest interrupted by movement' })
+    );
+  });
+
+  it('cancels the session when the player mounts a worm', () => {
+    gameLoop.handleHarvestStart('player1', node.id);
+    player.state.state = PlayerStateEnum.RIDING;
+
+    advanceSeconds(0.1);
+
+    expect((gameLoop as any).spiceManager.getPlayerHarvestSession('player1')).toBeUndefined();
+    expect(harvestMessages()).toContainEqual(
+      expect.objectContaining({ success: false, reason: 'Harvest interrupted by mounting' })
+    );
+  });
+
+  it('cancels the session when the player dies', () => {
+    gameLoop.handleHarvestStart('player1', node.id);
+
+    (gameLoop as any).combatSystem.applyDamageByEnvironment('player1', 1000);
+
+    expect((gameLoop as any).spiceManager.getPlayerHarvestSession('player1')).toBeUndefined();
+    expect(harvestMessages()).toContainEqual(
+      expect.objectContaining({ success: false, reason: 'Harvest interrupted by death' })
+    );
+  });
+
+  it('supports explicit cancellation', () => {
+    gameLoop.handleHarvestStart('player1', node.id);
+
+    expect(gameLoop.handleHarvestCancel('player1')).toBe(true);
+    expect(gameLoop.handleHarvestCancel('player1')).toBe(false);
+  });
+});
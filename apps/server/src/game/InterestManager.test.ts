@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Socket } from 'socket.io';
+import { GAME_CONSTANTS } from '@fremen/shared';
+import { InterestManager, interestKey } from './InterestManager';
+import type { InterestEntity } from './InterestManager';
+import { GameLoop } from './GameLoop';
+import { Room } from './Room';
+import { InMemoryPlayerRepository } from './testing/InMemoryPlayerRepository';
+
+describe('InterestManager', () => {
+  let manager: InterestManager;
+
+  const entity = (kind: InterestEntity['kind'], id: string, x: number, z: number): InterestEntity => ({
+    kind,
+    id,
+    position: { x, y: 0, z },
+  });
+
+  beforeEach(() => {
+    manager = new InterestManager(100, 110);
+  });
+
+  it('only includes entities within range', () => {
+    manager.rebuild([
+      entity('player', 'near', 50, 0),
+      entity('worm', 'far', 500, 500),
+    ]);
+
+    const update = manager.updateClient('client', { x: 0, y: 0, z: 0 });
+
+    expect(update.visible.has(interestKey('player', 'near'))).toBe(true);
+    expect(update.visible.has(interestKey('worm', 'far'))).toBe(false);
+  });
+
+  it('reports spawns only on the first update an entity is visible', () => {
+    manager.rebuild([entity('thumper', 't1', 10, 10)]);
+
+    const first = manager.updateClient('client', { x: 0, y: 0, z: 0 });
+    const second = manager.updateClient('client', { x: 0, y: 0, z: 0 });
+
+    expect(first.spawned).toEqual([{ kind: 'thumper', id: 't1' }]);
+    expect(second.spawned).toEqual([]);
+  });
+
+  it('reports despawns when an entity leaves range or disappears', () => {
+    manager.rebuild([entity('player', 'p1', 10, 0), entity('thumper', 't1', 20, 0)]);
+    manager.updateClient('client', { x: 0, y: 0, z: 0 });
+
+    manager.rebuild([entity('player', 'p1', 400, 0)]);
+    const update = manager.updateClient('client', { x: 0, y: 0, z: 0 });
+
+    expect(update.despawned).toEqual(
+      expect.arrayContaining([
+        { kind: 'player', id: 'p1' },
+        { kind: 'thumper', id: 't1' },
+      ])
+    );
+    expect(update.visible.size).toBe(0);
+  });
+
+  it('keeps entities hovering between range and exit range', () => {
+    manager.rebuild([entity('worm', 'w1', 95, 0)]);
+    manager.updateClient('client', { x: 0, y: 0, z: 0 });
+
+    manager.rebuild([entity('worm', 'w1', 105, 0)]);
+    const update = manager.updateClient('client', { x: 0, y: 0, z: 0 });
+
+    expect(update.visible.has(interestKey('worm', 'w1'))).toBe(true);
+    expect(update.despawned).toEqual([]);
+  });
+
+  it('does not spawn entities first seen beyond range', () => {
+    manager.rebuild([entity('worm', 'w1', 105, 0)]);
+
+    const update = manager.updateClient('client', { x: 0, y: 0, z: 0 });
+
+    expect(update.spawned).toEqual([]);
+  });
+
+  it('tracks clients independently', () => {
+    manager.rebuild([entity('player', 'p1', 0, 0)]);
+
+    manager.updateClient('a', { x: 0, y: 0, z: 0 });
+    manager.updateClient('b', { x: 1000, y: 0, z: 1000 });
+
+    expect(manager.isVisible('a', 'player', 'p1')).toBe(true);
+    expect(manager.isVisible('b', 'player', 'p1')).toBe(false);
+
+    manager.removeClient('a');
+    expect(manager.isVisible('a', 'player', 'p1')).toBe(false);
+  });
+});
+
+describe('GameLoop interest-managed state', () => {
+  it('sends each client only the players within INTEREST_RANGE', async () => {
+    const repository = new InMemoryPlayerRepository();
+    const room = new Room('interest-room', repository);
+    const gameLoop = new GameLoop(room, 12345, repository);
+
+    const socketA = { id: 'a', emit: vi.fn() } as unknown as Socket;
+    const socketB = { id: 'b', emit: vi.fn() } as unknown as Socket;
+    await room.addPlayer(socketA, 'playerA', 'A');
+    await room.addPlayer(socketB, 'playerB', 'B');
+    gameLoop.onPlayerJoin(room.getPlayer('playerA')!);
+    gameLoop.onPlayerJoin(room.getPlayer('playerB')!);
+
+    room.getPlayer('playerB')!.state.position = {
+      x: GAME_CONSTANTS.INTEREST_RANGE * 3,
+      y: 1,
+      z: 0,
+    };
+
+    (gameLoop as any).broadcastState();
+
+    const lastMessage = (socket: Socket, event: string) =>
+      (socket.emit as ReturnType<typeof vi.fn>).mock.calls.filter(([name]) => name === event).pop()![1];
+
+    const keyframe = lastMessage(socketA, 'snapshot');
+    expect(keyframe.players.map((p: { id: string }) => p.id)).toEqual(['playerA']);
+    gameLoop.handleStateAck('playerA', keyframe.seq);
+
+    room.getPlayer('playerB')!.state.position = { x: 10, y: 1, z: 0 };
+    (gameLoop as any).broadcastState();
+    const entered = lastMessage(socketA, 'state');
+    expect(entered.spawned).toEqual([{ kind: 'player', id: 'playerB' }]);
+    gameLoop.handleStateAck('playerA', entered.seq);
+
+    await room.removePlayer('playerB');
+    gameLoop.onPlayerLeave('playerB');
+    (gameLoop as any).broadcastState();
+    expect(lastMessage(socketA, 'state').despawned).toEqual([{ kind: 'player', id: 'playerB' }]);
+  });
+});
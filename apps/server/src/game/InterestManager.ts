@@ -0,0 +1,98 @@
+import { GAME_CONSTANTS } from '@fremen/shared';
+import type { Vector3 } from '@fremen/shared';
+import type { EntityRef, ReplicatedEntityKind } from '@fremen/protocol';
+import { SpatialGrid } from './sim/SpatialGrid';
+
+export interface InterestEntity {
+  kind: ReplicatedEntityKind;
+  id: string;
+  position: Vector3;
+}
+
+export interface InterestUpdate {
+  visible: Set<string>;
+  spawned: EntityRef[];
+  despawned: EntityRef[];
+}
+
+export function interestKey(kind: ReplicatedEntityKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+/**
+ * Per-client interest management
+ *
+ * Tracks which replicated entities each client can currently see. Entities
+ * enter a client's set inside `range` and only leave once they are beyond
+ * `exitRange`, so entities hovering at the boundary don't flicker.
+ */
+export class InterestManager {
+  private readonly grid: SpatialGrid<InterestEntity>;
+  private readonly interestSets: Map<string, Map<string, EntityRef>> = new Map();
+  private readonly exitRange: number;
+
+  constructor(
+    private readonly range: number = GAME_CONSTANTS.INTEREST_RANGE,
+    exitRange?: number
+  ) {
+    this.exitRange = Math.max(range, exitRange ?? range * 1.1);
+    this.grid = new SpatialGrid(range);
+  }
+
+  /**
+   * Re-index all replicated entities (call once per tick before updating clients)
+   */
+  rebuild(entities: InterestEntity[]): void {
+    this.grid.rebuild(entities);
+  }
+
+  /**
+   * Recompute a client's interest set around its position
+   */
+  updateClient(clientId: string, position: Vector3): InterestUpdate {
+    const previous = this.interestSets.get(clientId) ?? new Map<string, EntityRef>();
+    const next = new Map<string, EntityRef>();
+    const spawned: EntityRef[] = [];
+    const rangeSq = this.range * this.range;
+
+    for (const entity of this.grid.queryRadius(position, this.exitRange)) {
+      const key = interestKey(entity.kind, entity.id);
+      const dx = entity.position.x - position.x;
+      const dz = entity.position.z - position.z;
+      const inRange = dx * dx + dz * dz <= rangeSq;
+
+      if (!inRange && !previous.has(key)) {
+        continue;
+      }
+
+      const ref = previous.get(key) ?? { kind: entity.kind, id: entity.id };
+      next.set(key, ref);
+      if (!previous.has(key)) {
+        spawned.push(ref);
+      }
+    }
+
+    const despawned: EntityRef[] = [];
+    for (const [key, ref] of previous) {
+      if (!next.has(key)) {
+        despawned.push(ref);
+      }
+    }
+
+    this.interestSets.set(clientId, next);
+
+    return {
+      visible: new Set(next.keys()),
+      spawned,
+      despawned,
+    };
+  }
+
+  removeClient(clientId: string): void {
+    this.interestSets.delete(clientId);
+  }
+
+  isVisible(clientId: string, kind: ReplicatedEntityKind, id: string): boolean {
+    return this.interestSets.get(clientId)?.has(interestKey(kind, id)) ?? false;
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Socket } from 'socket.io';
+import { GameLoop } from './GameLoop';
+import { Room } from './Room';
+import type { RoomPlayer } from './Room';
+import { InMemoryPlayerRepository } from './testing/InMemoryPlayerRepository';
+import { ECONOMY_CONSTANTS, PlayerStateEnum } from '@fremen/shared';
+import type { Oasis } from '@fremen/shared';
+
+describe('VS3: Oasis refill through the game loop', () => {
+  let room: Room;
+  let gameLoop: GameLoop;
+  let repository: InMemoryPlayerRepository;
+  let socket: Socket;
+  let player: RoomPlayer;
+  let oasis: Oasis;
+
+  const oasisMessages = () =>
+    (socket.emit as ReturnType<typeof vi.fn>).mock.calls
+      .filter(([event]) => event === 'oasis')
+      .map(([, payload]) => payload);
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+
+    repository = new InMemoryPlayerRepository();
+    room = new Room('oasis-room', repository);
+    gameLoop = new GameLoop(room, 12345, repository);
+
+    socket = { id: 'socket-1', emit: vi.fn() } as unknown as Socket;
+    await room.addPlayer(socket, 'player1', 'Drinker');
+    player = room.getPlayer('player1')!;
+    gameLoop.onPlayerJoin(player);
+
+    oasis = (gameLoop as any).oasisManager.getOases()[0];
+    player.state.position = { x: oasis.position.x + 1, y: 1, z: oasis.position.z };
+    player.resources.water = 20;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends oasis locations without other players\' cooldowns on join', () => {
+    const [message] = oasisMessages();
+
+    expect(message.type).toBe('S_OASES');
+    expect(message.oases).toContainEqual(
+      expect.objectContaining({ id: oasis.id, radius: oasis.radius, cooldownRemaining: 0 })
+    );
+    expect(message.oases[0]).not.toHaveProperty('activeCooldowns');
+  });
+
+  it('tops up water, persists it and reports the cooldown', () => {
+    const result = gameLoop.handleOasisRefill('player1');
+
+    expect(result.success).toBe(true);
+    expect(player.resources.water).toBe(20 + ECONOMY_CONSTANTS.OASIS_REFILL_AMOUNT);
+    expect(repository.getSnapshot('player1')?.resources?.water).toBe(player.resources.water);
+    expect(oasisMessages().at(-1)).toMatchObject({
+      type: 'S_OASIS_REFILL_RESULT',
+      oasisId: oasis.id,
+      success: true,
+      water: player.resources.water,
+      cooldownRemaining: ECONOMY_CONSTANTS.OASIS_COOLDOWN,
+    });
+  });
+
+  it('refuses a second refill during the cooldown and reports time remaining', () => {
+    gameLoop.handleOasisRefill('player1');
+    vi.advanceTimersByTime(60000);
+
+    const result = gameLoop.handleOasisRefill('player1');
+
+    expect(result.success).toBe(false);
+    expect(oasisMessages().at(-1)).toMatchObject({
+      success: false,
+      reason: 'Oasis on cooldown',
+      cooldownRemaining: ECONOMY_CONSTANTS.OASIS_COOLDOWN - 60000,
+    });
+  });
+
+  it('requires the player to stand inside the oasis radius', () => {
+    player.state.position = { x: oasis.position.x + oasis.radius + 5, y: 1, z: oasis.position.z };
+
+    const result = gameLoop.handleOasisRefill('player1', oasis.id);
+
+    expect(result).toEqual({ success: false, reason: 'Too far from oasis' });
+    expect(player.resources.water).toBe(20);
+  });
+
+  it('rejects refills while mounted', () => {
+    player.state.state = PlayerStateEnum.RIDING;
+
+    expect(gameLoop.handleOasisRefill('player1').success).toBe(false);
+    expect(player.resources.water).toBe(20);
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Socket } from 'socket.io';
+import { GameLoop } from './GameLoop';
+import { Room } from './Room';
+import type { RoomPlayer } from './Room';
+import { InMemoryPlayerRepository } from './testing/InMemoryPlayerRepository';
+import { OBJECTIVE_CONSTANTS, OBJECTIVE_PENALTIES, OBJECTIVE_REWARDS, ObjectiveStatus, ObjectiveType } from '@fremen/shared';
+import type { Objective } from '@fremen/shared';
+
+describe('Objective types', () => {
+  let repository: InMemoryPlayerRepository;
+  let room: Room;
+  let gameLoop: GameLoop;
+  let socket: Socket;
+  let player: RoomPlayer;
+
+  const tick = (seconds: number) => {
+    for (let t = 0; t < seconds; t += 0.1) {
+      vi.advanceTimersByTime(100);
+      (gameLoop as any).registry.update(0.1);
+    }
+  };
+
+  const emitted = (channel: string) => (socket.emit as ReturnType<typeof vi.fn>).mock.calls
+    .filter(([name]) => name === channel)
+    .map(([, payload]) => payload);
+
+  /** Offer an objective of `type` to player1 and accept it */
+  const start = (type: ObjectiveType): Objective => {
+    const objective = (gameLoop as any).objectiveManager.offerObjective('player1', type);
+    expect(gameLoop.handleObjectiveAccept('player1', objective.id).success).toBe(true);
+    return objective;
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+
+    repository = new InMemoryPlayerRepository();
+    room = new Room('objective-room', repository);
+    gameLoop = new GameLoop(room, 12345, repository);
+
+    socket = { id: 'socket-player1', emit: vi.fn() } as unknown as Socket;
+    await room.addPlayer(socket, 'player1', 'Courier');
+    player = room.getPlayer('player1')!;
+    gameLoop.onPlayerJoin(player);
+    player.state.position = { x: 0, y: 0, z: 0 };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens a board of offers when a player joins', () => {
+    const board = player.resources.objectives!;
+
+    expect(board.objectives).toHaveLength(OBJECTIVE_CONSTANTS.BOARD_OFFERS);
+    expect(board.objectives.every(objective => objective.status === ObjectiveStatus.OFFERED)).toBe(true);
+    expect((gameLoop as any).objectiveManager.getBoard('player1')).toBe(board);
+  });
+
+  it('reports accept and abandon results to the player', () => {
+    const [offer] = player.resources.objectives!.objectives;
+
+    expect(gameLoop.handleObjectiveAbandon('player1', offer.id).success).toBe(false);
+    expect(gameLoop.handleObjectiveAccept('player1', offer.id)).toEqual({ success: true });
+    expect(gameLoop.handleObjectiveAbandon('player1', offer.id)).toEqual({ success: true });
+
+    const results = emitted('objective');
+    expect(results.map(result => [result.action, result.success])).toEqual([
+      ['abandon', false],
+      ['accept', true],
+      ['abandon', true],
+    ]);
+    expect(results[0].reason).toBe('Objective has not been accepted');
+    expect(player.resources.objectives!.objectives).not.toContain(offer);
+  });
+
+  it('refuses objectives beyond the active cap', () => {
+    const offers = player.resources.objectives!.objectives.slice(0, OBJECTIVE_CONSTANTS.MAX_ACTIVE_OBJECTIVES + 1);
+    const results = offers.map(offer => gameLoop.handleObjectiveAccept('player1', offer.id));
+
+    expect(results.filter(result => result.success)).toHaveLength(OBJECTIVE_CONSTANTS.MAX_ACTIVE_OBJECTIVES);
+    expect(results[results.length - 1].success).toBe(false);
+  });
+
+  it('keeps the board and completion counts across sessions', async () => {
+    const objective = start(ObjectiveType.DELIVER_SPICE);
+    player.resources.spice = OBJECTIVE_CONSTANTS.DELIVER_SPICE_AMOUNT;
+    tick(0.2);
+    const accepted = start(ObjectiveType.SHEPHERD_WORM);
+    expect(objective.status).toBe(ObjectiveStatus.COMPLETED);
+
+    gameLoop.onPlayerLeave('player1');
+    await room.removePlayer('player1');
+
+    // A fresh room loads the player from the repository
+    room = new Room('objective-room-2', repository);
+    gameLoop = new GameLoop(room, 12345, repository);
+    await room.addPlayer(socket, 'player1', 'Courier');
+    player = room.getPlayer('player1')!;
+    gameLoop.onPlayerJoin(player);
+
+    const board = player.resources.objectives!;
+    const restored = board.objectives.find(o => o.id === accepted.id);
+    expect(restored?.status).toBe(ObjectiveStatus.ACTIVE);
+    expect(restored?.expiresAt).toBe(accepted.expiresAt);
+    expect(board.completions[ObjectiveType.DELIVER_SPICE]).toBe(1);
+  });
+
+  it('notifies the player when they complete an objective', () => {
+    const objective = start(ObjectiveType.DELIVER_SPICE);
+    player.resources.spice = OBJECTIVE_CONSTANTS.DELIVER_SPICE_AMOUNT;
+
+    tick(0.2);
+
+    const events = emitted('event').filter(event => event.eventType === 'objective');
+    expect(events).toHaveLength(1);
+    expect(events[0].data).toEqual({
+      objectiveId: objective.id,
+      objectiveType: ObjectiveType.DELIVER_SPICE,
+      outcome: 'completed',
+      playerId: 'player1',
+      reward: OBJECTIVE_REWARDS[ObjectiveType.DELIVER_SPICE],
+    });
+  });
+
+  it('takes delivered spice at the Sietch and pays the delivery reward', () => {
+    const objective = start(ObjectiveType.DELIVER_SPICE);
+    player.resources.spice = OBJECTIVE_CONSTANTS.DELIVER_SPICE_AMOUNT + 30;
+    player.resources.water = 20;
+
+    tick(0.2);
+
+    const reward = OBJECTIVE_REWARDS[ObjectiveType.DELIVER_SPICE];
+    expect(objective.status).toBe(ObjectiveStatus.COMPLETED);
+    expect(player.resources.spice).toBe(30 + reward.spice);
+    expect(player.resources.spice).toBeGreaterThan(OBJECTIVE_CONSTANTS.DELIVER_SPICE_AMOUNT + 30);
+    expect(player.resources.water).toBeCloseTo(20 + reward.water, 1);
+    expect(player.resources.stats.objectivesCompleted).toBe(1);
+  });
+
+  it('completes a sabotage when a thumper jams the target outpost', () => {
+    const objective = start(ObjectiveType.SABOTAGE_OUTPOST);
+    const outpost = (gameLoop as any).outpostManager.getOutpost(objective.targetId);
+    const spiceBefore = player.resources.spice;
+
+    player.state.position = { ...outpost.position };
+    tick(0.2);
+    expect(objective.status).toBe(ObjectiveStatus.ACTIVE);
+
+    expect(room.deployThumper('player1')).toBe(true);
+    tick(0.2);
+
+    expect(objective.status).toBe(ObjectiveStatus.COMPLETED);
+    expect(player.resources.spice).toBe(spiceBefore + OBJECTIVE_REWARDS[ObjectiveType.SABOTAGE_OUTPOST].spice);
+  });
+
+  it('fails an expired objective, takes its penalty and tells the player', () => {
+    const objective = start(ObjectiveType.SABOTAGE_OUTPOST);
+    const penalty = OBJECTIVE_PENALTIES[ObjectiveType.SABOTAGE_OUTPOST]!;
+    player.resources.spice = 100;
+
+    vi.setSystemTime(objective.expiresAt);
+    tick(0.1);
+
+    expect(objective.status).toBe(ObjectiveStatus.FAILED);
+    expect(player.resources.objectives!.objectives).not.toContain(objective);
+    expect(player.resources.spice).toBe(100 - penalty.spice);
+
+    const events = emitted('event').filter(event => event.eventType === 'objective');
+    expect(events.map(event => event.data)).toEqual([expect.objectContaining({
+      objectiveId: objective.id,
+      outcome: 'expired',
+      playerId: 'player1',
+      penalty,
+    })]);
+  });
+
+  it('takes the penalty when an objective is abandoned', () => {
+    const objective = start(ObjectiveType.SABOTAGE_OUTPOST);
+    player.resources.spice = 10;
+
+    gameLoop.handleObjectiveAbandon('player1', objective.id);
+
+    expect(player.resources.spice).toBe(0);
+    const [event] = emitted('event').filter(e => e.eventType === 'objective');
+    expect(event.data.outcome).toBe('abandoned');
+  });
+
+  it('rotates a fresh offer onto the board after the cooldown', () => {
+    const board = player.resources.objectives!;
+    gameLoop.handleObjectiveAccept('player1', board.objectives[0].id);
+    const offered = () => board.objectives.filter(o => o.status === ObjectiveStatus.OFFERED).length;
+
+    tick(0.1);
+    expect(offered()).toBe(OBJECTIVE_CONSTANTS.BOARD_OFFERS - 1);
+
+    tick(OBJECTIVE_CONSTANTS.ROTATION_COOLDOWN / 1000);
+    expect(offered()).toBe(OBJECTIVE_CONSTANTS.BOARD_OFFERS);
+  });
+
+  it('replicates progress and reward with the objective', () => {
+    const objective = start(ObjectiveType.ESCORT);
+    (gameLoop as any).broadcastState();
+
+    const frames = (socket.emit as ReturnType<typeof vi.fn>).mock.calls
+      .filter(([name]) => name === 'state' || name === 'snapshot');
+    const latest = frames[frames.length - 1][1];
+    const snapshot = latest.objectives.find((o: { id: string }) => o.id === objective.id);
+
+    expect(latest.objectives).toHaveLength(OBJECTIVE_CONSTANTS.BOARD_OFFERS + 1);
+    expect(snapshot.status).toBe(ObjectiveStatus.ACTIVE);
+    expect(snapshot.progress).toBe(0);
+    expect(snapshot.reward).toEqual(OBJECTIVE_REWARDS[ObjectiveType.ESCORT]);
+    expect(snapshot.checkpoints).toHaveLength(OBJECTIVE_CONSTANTS.ESCORT_CHECKPOINTS);
+  });
+});
@@ -1,12 +1,65 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import { ObjectiveManager } from './ObjectiveManager';
-import { ObjectiveType, ObjectiveStatus, type Vector3 } from '@fremen/shared';
+import { ObjectiveManager, cloneObjectiveBoard } from './ObjectiveManager';
+import { ObjectiveType, ObjectiveStatus, OBJECTIVE_CONSTANTS, OBJECTIVE_PENALTIES, OBJECTIVE_REWARDS, VS4_CONSTANTS, type Objective, type OutpostState, type StormState, type Vector3 } from '@fremen/shared';
+import type { ObjectiveParticipant, ObjectiveWorld } from './objectives/ObjectiveDefinition';
+
+function createWorld() {
+  const participants: ObjectiveParticipant[] = [];
+  const outposts: OutpostState[] = [{
+    id: 'outpost-1',
+    position: { x: 300, y: 0, z: 0 },
+    radius: 20,
+    controllingFaction: 'harkonnen',
+    captureProgress: 0,
+    captureTarget: 10,
+    garrisonSize: 2,
+  }];
+  const storms: StormState[] = [];
+  const jammed = new Set<string>();
+
+  const world: ObjectiveWorld = {
+    getParticipants: () => participants,
+    getSietch: () => ({ position: { x: 0, y: 0, z: 0 }, radius: 30 }),
+    getOutposts: () => outposts,
+    isOutpostJammed: outpostId => jammed.has(outpostId),
+    getStorms: () => storms,
+    takeSpice: (playerId, amount) => {
+      const participant = participants.find(p => p.playerId === playerId);
+      if (!participant || participant.spice < amount) return false;
+      participant.spice -= amount;
+      return true;
+    },
+  };
+
+  return { world, participants, outposts, storms, jammed };
+}
+
+function participant(playerId: string, position: Vector3, extra: Partial<ObjectiveParticipant> = {}): ObjectiveParticipant {
+  return { playerId, position, alive: true, spice: 0, ...extra };
+}
 
 describe('VS2: Objective Manager', () => {
+  const OWNER = 'player-1';
   let objectiveManager: ObjectiveManager;
+  let world: ReturnType<typeof createWorld>;
+
+  /** Offer and accept a shepherd objective on the owner's board */
+  const acceptShepherd = (targetPosition: Vector3) => {
+    const objective = objectiveManager.offerShepherdObjective(OWNER, targetPosition);
+    objectiveManager.accept(OWNER, objective.id);
+    return objective;
+  };
+
+  /** Put the owner on a worm whose head is at `position` and track one tick */
+  const rideTo = (position: Vector3) => {
+    world.participants.length = 0;
+    world.participants.push(participant(OWNER, { x: 0, y: 0, z: 0 }, { wormHead: position }));
+    return objectiveManager.track(0.1);
+  };
 
   beforeEach(() => {
-    objectiveManager = new ObjectiveManager();
+    world = createWorld();
+    objectiveManager = new ObjectiveManager(world.world);
     vi.useFakeTimers();
   });
 
@@ -14,460 +67,674 @@ describe('VS2: Objective Manager', () => {
     vi.useRealTimers();
   });
 
-  describe('Objective Spawning', () => {
-    it('should spawn shepherd objective at specified location', () => {
+  describe('Objective Offers', () => {
+    it('should offer shepherd objective at specified location', () => {
       const targetPos: Vector3 = { x: 100, y: 0, z: 100 };
 
-      const objective = objectiveManager.spawnShepherdObjective(targetPos);
+      const objective = objectiveManager.offerShepherdObjective(OWNER, targetPos);
 
       expect(objective).toBeDefined();
       expect(objective.type).toBe(ObjectiveType.SHEPHERD_WORM);
       expect(objective.targetPosition).toEqual(targetPos);
-      expect(objective.status).toBe(ObjectiveStatus.ACTIVE);
+      expect(objective.status).toBe(ObjectiveStatus.OFFERED);
+      expect(objectiveManager.getObjectives(OWNER)).toContain(objective);
     });
 
     it('should assign unique ID to each objective', () => {
-      const obj1 = objectiveManager.spawnShepherdObjective({ x: 0, y: 0, z: 0 });
-      const obj2 = objectiveManager.spawnShepherdObjective({ x: 10, y: 0, z: 10 });
+      const obj1 = objectiveManager.offerShepherdObjective(OWNER, { x: 0, y: 0, z: 0 });
+      const obj2 = objectiveManager.offerShepherdObjective(OWNER, { x: 10, y: 0, z: 10 });
 
       expect(obj1.id).not.toBe(obj2.id);
       expect(obj1.id).toMatch(/^[0-9a-f-]{36}$/); // UUID format
     });
 
     it('should set correct radius (20m)', () => {
-      const objective = objectiveManager.spawnShepherdObjective({ x: 0, y: 0, z: 0 });
+      const objective = objectiveManager.offerShepherdObjective(OWNER, { x: 0, y: 0, z: 0 });
 
       expect(objective.radius).toBe(20);
     });
 
     it('should set correct time limit (180000ms = 3 minutes)', () => {
-      const objective = objectiveManager.spawnShepherdObjective({ x: 0, y: 0, z: 0 });
+      const objective = objectiveManager.offerShepherdObjective(OWNER, { x: 0, y: 0, z: 0 });
 
       expect(objective.timeLimit).toBe(180000);
     });
 
-    it('should set expiresAt to current time + timeLimit', () => {
-      const now = Date.now();
-      vi.setSystemTime(now);
-
-      const objective = objectiveManager.spawnShepherdObjective({ x: 0, y: 0, z: 0 });
+    it('should keep offers on separate boards per player', () => {
+      const mine = objectiveManager.offerShepherdObjective(OWNER, { x: 0, y: 0, z: 0 });
+      const theirs = objectiveManager.offerShepherdObjective('player-2', { x: 100, y: 0, z: 100 });
 
-      expect(objective.expiresAt).toBe(now + 180000);
-    });
-
-    it('should replace previous active objective when spawning new one', () => {
-      const obj1 = objectiveManager.spawnShepherdObjective({ x: 0, y: 0, z: 0 });
-      const obj2 = objectiveManager.spawnShepherdObjective({ x: 100, y: 0, z: 100 });
-
-      const active = objectiveManager.getActiveObjective();
-
-      expect(active?.id).toBe(obj2.id);
-      expect(active?.id).not.toBe(obj1.id);
+      expect(objectiveManager.getObjectives(OWNER)).toEqual([mine]);
+      expect(objectiveManager.getObjectives('player-2')).toEqual([theirs]);
     });
   });
 
-  describe('Random Objective Spawning', () => {
-    it('should spawn objective at random location', () => {
-      const objective = objectiveManager.spawnRandomObjective();
+  describe('Random Objective Offers', () => {
+    it('should offer objective at random location', () => {
+      const manager = new ObjectiveManager();
+      const objective = manager.offerRandomObjective(OWNER);
 
       expect(objective).toBeDefined();
       expect(objective.type).toBe(ObjectiveType.SHEPHERD_WORM);
     });
 
-    it('should spawn objectives at varying distances (200-500m from origin)', () => {
-      const objectives = [];
+    it('should offer objectives at varying distances (200-500m from origin)', () => {
+      const manager = new ObjectiveManager();
+      const distances = [];
 
       for (let i = 0; i < 10; i++) {
-        const obj = objectiveManager.spawnRandomObjective();
-        const distance = Math.sqrt(obj.targetPosition.x ** 2 + obj.targetPosition.z ** 2);
-        objectives.push(distance);
+        const obj = manager.offerRandomObjective(OWNER);
+        distances.push(Math.sqrt(obj.targetPosition.x ** 2 + obj.targetPosition.z ** 2));
       }
 
       // Should have some variety
-      const min = Math.min(...objectives);
-      const max = Math.max(...objectives);
+      const min = Math.min(...distances);
+      const max = Math.max(...distances);
 
       expect(min).toBeGreaterThanOrEqual(200);
       expect(max).toBeLessThanOrEqual(500);
       expect(max - min).toBeGreaterThan(50); // Should have decent spread
     });
 
-    it('should spawn objectives in all directions (360°)', () => {
+    it('should offer objectives in all directions (360°)', () => {
+      const manager = new ObjectiveManager();
       const angles = [];
 
       for (let i = 0; i < 20; i++) {
-        const obj = objectiveManager.spawnRandomObjective();
-        const angle = Math.atan2(obj.targetPosition.z, obj.targetPosition.x);
-        angles.push(angle);
+        const obj = manager.offerRandomObjective(OWNER);
+        angles.push(Math.atan2(obj.targetPosition.z, obj.targetPosition.x));
       }
 
       // Should cover multiple quadrants
-      const hasPositiveX = angles.some(a => Math.cos(a) > 0);
-      const hasNegativeX = angles.some(a => Math.cos(a) < 0);
-      const hasPositiveZ = angles.some(a => Math.sin(a) > 0);
-      const hasNegativeZ = angles.some(a => Math.sin(a) < 0);
-
-      expect(hasPositiveX).toBe(true);
-      expect(hasNegativeX).toBe(true);
-      expect(hasPositiveZ).toBe(true);
-      expect(hasNegativeZ).toBe(true);
+      expect(angles.some(a => Math.cos(a) > 0)).toBe(true);
+      expect(angles.some(a => Math.cos(a) < 0)).toBe(true);
+      expect(angles.some(a => Math.sin(a) > 0)).toBe(true);
+      expect(angles.some(a => Math.sin(a) < 0)).toBe(true);
     });
 
     it('should set y position to 0', () => {
-      const objective = objectiveManager.spawnRandomObjective();
+      const objective = objectiveManager.offerRandomObjective(OWNER);
 
       expect(objective.targetPosition.y).toBe(0);
     });
   });
 
-  describe('Objective Completion Detection', () => {
-    beforeEach(() => {
-      objectiveManager.spawnShepherdObjective({ x: 100, y: 0, z: 100 });
+  describe('Boards', () => {
+    it('should fill a new board with offers', () => {
+      const board = objectiveManager.openBoard(OWNER);
+
+      expect(board.objectives).toHaveLength(OBJECTIVE_CONSTANTS.BOARD_OFFERS);
+      expect(board.objectives.every(o => o.status === ObjectiveStatus.OFFERED)).toBe(true);
+      expect(board.completions).toEqual({});
     });
 
-    it('should complete objective when worm is within radius', () => {
-      const wormPos: Vector3 = { x: 105, y: 0, z: 105 }; // 5√2 ≈ 7m away
+    it('should restore a saved board as it was', () => {
+      const saved = objectiveManager.openBoard(OWNER);
+      objectiveManager.accept(OWNER, saved.objectives[0].id);
+      saved.completions[ObjectiveType.ESCORT] = 2;
+      objectiveManager.closeBoard(OWNER);
 
-      const completed = objectiveManager.checkObjectiveCompletion(wormPos);
+      const restored = new ObjectiveManager(world.world).openBoard(OWNER, cloneObjectiveBoard(saved));
 
-      expect(completed).toBe(true);
-      const objective = objectiveManager.getActiveObjective();
-      expect(objective?.status).toBe(ObjectiveStatus.COMPLETED);
+      expect(restored.objectives).toHaveLength(OBJECTIVE_CONSTANTS.BOARD_OFFERS);
+      expect(restored.objectives[0].id).toBe(saved.objectives[0].id);
+      expect(restored.objectives[0].status).toBe(ObjectiveStatus.ACTIVE);
+      expect(restored.completions[ObjectiveType.ESCORT]).toBe(2);
     });
 
-    it('should not complete objective when worm is outside radius', () => {
-      const wormPos: Vector3 = { x: 125, y: 0, z: 125 }; // 25√2 ≈ 35m away
+    it('should stop tracking a closed board', () => {
+      acceptShepherd({ x: 100, y: 0, z: 100 });
+
+      expect(objectiveManager.closeBoard(OWNER)?.objectives).toHaveLength(1);
+      expect(objectiveManager.getObjectives(OWNER)).toEqual([]);
+      expect(rideTo({ x: 100, y: 0, z: 100 })).toEqual([]);
+    });
+  });
+
+  describe('Rotation', () => {
+    const cooldown = OBJECTIVE_CONSTANTS.ROTATION_COOLDOWN;
+    const offers = (manager = objectiveManager) =>
+      manager.getObjectives(OWNER).filter(objective => objective.status === ObjectiveStatus.OFFERED);
 
-      const completed = objectiveManager.checkObjectiveCompletion(wormPos);
+    it('should replace an accepted offer once the cooldown passes', () => {
+      const board = objectiveManager.openBoard(OWNER);
+      objectiveManager.accept(OWNER, board.objectives[0].id);
 
-      expect(completed).toBe(false);
-      const objective = objectiveManager.getActiveObjective();
-      expect(objective?.status).toBe(ObjectiveStatus.ACTIVE);
+      expect(objectiveManager.rotate()).toEqual([]);
+      expect(board.rotations).toEqual([Date.now() + cooldown]);
+
+      vi.advanceTimersByTime(cooldown - 1);
+      expect(objectiveManager.rotate()).toEqual([]);
+      expect(offers()).toHaveLength(OBJECTIVE_CONSTANTS.BOARD_OFFERS - 1);
+
+      vi.advanceTimersByTime(1);
+      const rotated = objectiveManager.rotate();
+
+      expect(rotated).toHaveLength(1);
+      expect(rotated[0].ownerId).toBe(OWNER);
+      expect(rotated[0].objective.status).toBe(ObjectiveStatus.OFFERED);
+      expect(offers()).toHaveLength(OBJECTIVE_CONSTANTS.BOARD_OFFERS);
+      expect(board.rotations).toEqual([]);
     });
 
-    it('should complete when worm is at exactly 20m (boundary test)', () => {
-      // Position worm at exactly 20m away (radius boundary)
-      const wormPos: Vector3 = { x: 100 + 20, y: 0, z: 100 };
+    it('should schedule one rotation per missing offer', () => {
+      const board = objectiveManager.openBoard(OWNER);
+      objectiveManager.accept(OWNER, board.objectives[0].id);
+      objectiveManager.rotate();
+      vi.advanceTimersByTime(1000);
+      objectiveManager.accept(OWNER, board.objectives[1].id);
+      objectiveManager.rotate();
 
-      const completed = objectiveManager.checkObjectiveCompletion(wormPos);
+      expect(board.rotations).toHaveLength(2);
 
-      expect(completed).toBe(true);
+      vi.advanceTimersByTime(cooldown - 1000);
+      expect(objectiveManager.rotate()).toHaveLength(1);
+      vi.advanceTimersByTime(1000);
+      expect(objectiveManager.rotate()).toHaveLength(1);
+      expect(objectiveManager.rotate()).toEqual([]);
     });
 
-    it('should not complete when worm is at 20.1m (just outside boundary)', () => {
-      const wormPos: Vector3 = { x: 100 + 20.1, y: 0, z: 100 };
+    it('should keep pending rotations on a saved board', () => {
+      const board = objectiveManager.openBoard(OWNER);
+      objectiveManager.accept(OWNER, board.objectives[0].id);
+      objectiveManager.rotate();
+      const saved = cloneObjectiveBoard(objectiveManager.closeBoard(OWNER)!);
 
-      const completed = objectiveManager.checkObjectiveCompletion(wormPos);
+      // Rejoining doesn't skip the cooldown
+      const manager = new ObjectiveManager(world.world);
+      manager.openBoard(OWNER, saved);
+      expect(offers(manager)).toHaveLength(OBJECTIVE_CONSTANTS.BOARD_OFFERS - 1);
 
-      expect(completed).toBe(false);
+      vi.advanceTimersByTime(cooldown);
+      manager.rotate();
+      expect(offers(manager)).toHaveLength(OBJECTIVE_CONSTANTS.BOARD_OFFERS);
     });
 
-    it('should complete when worm is at center (0m distance)', () => {
-      const wormPos: Vector3 = { x: 100, y: 0, z: 100 };
+    it('should honour a configured cooldown', () => {
+      const manager = new ObjectiveManager(world.world, { rotationCooldown: 10 });
+      const board = manager.openBoard(OWNER);
+      manager.accept(OWNER, board.objectives[0].id);
+      manager.rotate();
+
+      vi.advanceTimersByTime(10);
+      expect(manager.rotate()).toHaveLength(1);
+    });
 
-      const completed = objectiveManager.checkObjectiveCompletion(wormPos);
+    it('should offer the same placements for the same seed', () => {
+      const placements = (seed: number) => {
+        const manager = new ObjectiveManager(world.world, { seed });
+        return manager.openBoard(OWNER).objectives.map(o => [o.type, o.targetPosition]);
+      };
 
-      expect(completed).toBe(true);
+      expect(placements(42)).toEqual(placements(42));
+      expect(placements(42)).not.toEqual(placements(43));
     });
+  });
 
-    it('should ignore y-axis distance (only check horizontal distance)', () => {
-      const wormPos: Vector3 = { x: 105, y: 1000, z: 105 }; // Very high in air
+  describe('Penalties', () => {
+    it('should attach the default failure penalty to types that carry one', () => {
+      const { world: fullWorld } = createWorld();
+      const manager = new ObjectiveManager(fullWorld);
 
-      const completed = objectiveManager.checkObjectiveCompletion(wormPos);
+      expect(manager.offerObjective(OWNER, ObjectiveType.SABOTAGE_OUTPOST)?.penalty)
+        .toEqual(OBJECTIVE_PENALTIES[ObjectiveType.SABOTAGE_OUTPOST]);
+      expect(manager.offerShepherdObjective(OWNER, { x: 0, y: 0, z: 0 }).penalty).toBeUndefined();
+    });
 
-      expect(completed).toBe(true); // Should still complete (2D distance check)
+    it('should use configured penalties over the defaults', () => {
+      const manager = new ObjectiveManager(undefined, {
+        penalties: { [ObjectiveType.SHEPHERD_WORM]: { spice: 10, water: 5 } },
+      });
+
+      expect(manager.offerShepherdObjective(OWNER, { x: 0, y: 0, z: 0 }).penalty).toEqual({ spice: 10, water: 5 });
     });
+  });
 
-    it('should not re-complete already completed objective', () => {
-      const wormPos: Vector3 = { x: 100, y: 0, z: 100 };
+  describe('Accepting and Abandoning', () => {
+    it('should start the clock when an offer is accepted', () => {
+      const now = 1000000;
+      vi.setSystemTime(now);
+      const objective = objectiveManager.offerShepherdObjective(OWNER, { x: 0, y: 0, z: 0 });
 
-      objectiveManager.checkObjectiveCompletion(wormPos);
-      const firstCheck = objectiveManager.checkObjectiveCompletion(wormPos);
+      vi.advanceTimersByTime(5000);
+      const result = objectiveManager.accept(OWNER, objective.id);
 
-      expect(firstCheck).toBe(false); // Already completed
+      expect(result.success).toBe(true);
+      expect(objective.status).toBe(ObjectiveStatus.ACTIVE);
+      expect(objective.expiresAt).toBe(now + 5000 + 180000);
     });
 
-    it('should return false when no active objective exists', () => {
-      const emptyManager = new ObjectiveManager();
-      // Don't spawn any objective
-      (emptyManager as any).activeObjective = null;
+    it('should cap the number of accepted objectives', () => {
+      for (let i = 0; i < OBJECTIVE_CONSTANTS.MAX_ACTIVE_OBJECTIVES; i++) {
+        acceptShepherd({ x: i, y: 0, z: 0 });
+      }
+      const extra = objectiveManager.offerShepherdObjective(OWNER, { x: 50, y: 0, z: 0 });
 
-      const completed = emptyManager.checkObjectiveCompletion({ x: 0, y: 0, z: 0 });
+      const result = objectiveManager.accept(OWNER, extra.id);
 
-      expect(completed).toBe(false);
+      expect(result.success).toBe(false);
+      expect(result.reason).toContain(`${OBJECTIVE_CONSTANTS.MAX_ACTIVE_OBJECTIVES}`);
+      expect(extra.status).toBe(ObjectiveStatus.OFFERED);
     });
 
-    it('should return false when objective is already failed', () => {
-      const objective = objectiveManager.getActiveObjective()!;
-      objective.status = ObjectiveStatus.FAILED;
+    it('should honour a configured cap', () => {
+      const manager = new ObjectiveManager(undefined, { maxActive: 1 });
+      const first = manager.offerShepherdObjective(OWNER, { x: 0, y: 0, z: 0 });
+      const second = manager.offerShepherdObjective(OWNER, { x: 10, y: 0, z: 0 });
+
+      expect(manager.accept(OWNER, first.id).success).toBe(true);
+      expect(manager.accept(OWNER, second.id).success).toBe(false);
+    });
 
-      const completed = objectiveManager.checkObjectiveCompletion({ x: 100, y: 0, z: 100 });
+    it('should not accept objectives from another board or twice', () => {
+      const theirs = objectiveManager.offerShepherdObjective('player-2', { x: 0, y: 0, z: 0 });
+      const mine = acceptShepherd({ x: 0, y: 0, z: 0 });
 
-      expect(completed).toBe(false);
+      expect(objectiveManager.accept(OWNER, theirs.id).success).toBe(false);
+      expect(objectiveManager.accept(OWNER, mine.id).success).toBe(false);
+      expect(objectiveManager.accept(OWNER, 'missing').success).toBe(false);
     });
-  });
 
-  describe('Objective Timer and Expiration', () => {
-    it('should fail objective when time limit expires', () => {
-      objectiveManager.spawnShepherdObjective({ x: 100, y: 0, z: 100 });
+    it('should drop an abandoned objective and free its slot', () => {
+      const objective = acceptShepherd({ x: 0, y: 0, z: 0 });
 
-      // Advance time to just before expiration
-      vi.advanceTimersByTime(179999);
-      objectiveManager.update();
+      const result = objectiveManager.abandon(OWNER, objective.id);
 
-      let objective = objectiveManager.getActiveObjective();
-      expect(objective?.status).toBe(ObjectiveStatus.ACTIVE);
+      expect(result.success).toBe(true);
+      expect(objective.status).toBe(ObjectiveStatus.FAILED);
+      expect(objectiveManager.getObjectives(OWNER)).not.toContain(objective);
+    });
 
-      // Advance past expiration
-      vi.advanceTimersByTime(2);
-      objectiveManager.update();
+    it('should only abandon accepted objectives', () => {
+      const offer = objectiveManager.offerShepherdObjective(OWNER, { x: 0, y: 0, z: 0 });
 
-      objective = objectiveManager.getActiveObjective();
-      expect(objective?.status).toBe(ObjectiveStatus.FAILED);
+      expect(objectiveManager.abandon(OWNER, offer.id).success).toBe(false);
+      expect(objectiveManager.getObjectives(OWNER)).toContain(offer);
     });
+  });
 
-    it('should not fail objective before time limit', () => {
-      objectiveManager.spawnShepherdObjective({ x: 100, y: 0, z: 100 });
+  describe('Objective Completion Detection', () => {
+    let objective: Objective;
 
-      vi.advanceTimersByTime(179999); // Just before expiration
-      objectiveManager.update();
+    beforeEach(() => {
+      objective = acceptShepherd({ x: 100, y: 0, z: 100 });
+    });
 
-      const objective = objectiveManager.getActiveObjective();
-      expect(objective?.status).toBe(ObjectiveStatus.ACTIVE);
+    it('should complete objective when worm is within radius', () => {
+      const completions = rideTo({ x: 105, y: 0, z: 105 }); // 5√2 ≈ 7m away
+
+      expect(completions).toHaveLength(1);
+      expect(completions[0]).toMatchObject({ ownerId: OWNER, playerId: OWNER });
+      expect(objective.status).toBe(ObjectiveStatus.COMPLETED);
     });
 
-    it('should spawn new objective 5 seconds after failure', () => {
-      const obj1 = objectiveManager.spawnShepherdObjective({ x: 100, y: 0, z: 100 });
+    it('should not complete objective when worm is outside radius', () => {
+      const completions = rideTo({ x: 125, y: 0, z: 125 }); // 25√2 ≈ 35m away
 
-      // Expire objective
-      vi.advanceTimersByTime(180000);
-      objectiveManager.update();
+      expect(completions).toEqual([]);
+      expect(objective.status).toBe(ObjectiveStatus.ACTIVE);
+    });
 
-      expect(objectiveManager.getActiveObjective()?.status).toBe(ObjectiveStatus.FAILED);
+    it('should complete when worm is at exactly 20m (boundary test)', () => {
+      expect(rideTo({ x: 100 + 20, y: 0, z: 100 })).toHaveLength(1);
+    });
 
-      // Wait 5 seconds
-      vi.advanceTimersByTime(5000);
+    it('should not complete when worm is at 20.1m (just outside boundary)', () => {
+      expect(rideTo({ x: 100 + 20.1, y: 0, z: 100 })).toEqual([]);
+    });
 
-      const objective = objectiveManager.getActiveObjective();
-      expect(objective?.id).not.toBe(obj1.id);
-      expect(objective?.status).toBe(ObjectiveStatus.ACTIVE);
+    it('should complete when worm is at center (0m distance)', () => {
+      expect(rideTo({ x: 100, y: 0, z: 100 })).toHaveLength(1);
     });
 
-    it('should not spawn new objective before 5 second delay', () => {
-      const obj1 = objectiveManager.spawnShepherdObjective({ x: 100, y: 0, z: 100 });
+    it('should ignore y-axis distance (only check horizontal distance)', () => {
+      expect(rideTo({ x: 105, y: 1000, z: 105 })).toHaveLength(1);
+    });
 
-      // Expire objective
-      vi.advanceTimersByTime(180000);
-      objectiveManager.update();
+    it('should not re-complete already completed objective', () => {
+      rideTo({ x: 100, y: 0, z: 100 });
+
+      expect(rideTo({ x: 100, y: 0, z: 100 })).toEqual([]);
+    });
 
-      // Wait 4.9 seconds (just before respawn)
-      vi.advanceTimersByTime(4900);
+    it('should take completed objectives off the board and count them', () => {
+      rideTo({ x: 100, y: 0, z: 100 });
 
-      const objective = objectiveManager.getActiveObjective();
-      expect(objective?.id).toBe(obj1.id); // Still the failed objective
-      expect(objective?.status).toBe(ObjectiveStatus.FAILED);
+      expect(objectiveManager.getObjectives(OWNER)).not.toContain(objective);
+      expect(objectiveManager.getBoard(OWNER)?.completions[ObjectiveType.SHEPHERD_WORM]).toBe(1);
     });
 
-    it('should not update timer for completed objectives', () => {
-      objectiveManager.spawnShepherdObjective({ x: 100, y: 0, z: 100 });
-      objectiveManager.checkObjectiveCompletion({ x: 100, y: 0, z: 100 });
+    it('should not track offers that were never accepted', () => {
+      const offer = objectiveManager.offerShepherdObjective(OWNER, { x: 300, y: 0, z: 300 });
 
-      const objective = objectiveManager.getActiveObjective();
-      expect(objective?.status).toBe(ObjectiveStatus.COMPLETED);
+      expect(rideTo({ x: 300, y: 0, z: 300 })).toEqual([]);
+      expect(offer.status).toBe(ObjectiveStatus.OFFERED);
+    });
 
-      // Advance time past expiration
-      vi.advanceTimersByTime(200000);
-      objectiveManager.update();
+    it('should let a party member complete the owner\'s objective', () => {
+      const manager = new ObjectiveManager(world.world, { partyOf: () => [OWNER, 'player-2'] });
+      const shared = manager.offerShepherdObjective(OWNER, { x: 100, y: 0, z: 100 });
+      manager.accept(OWNER, shared.id);
+      world.participants.push(participant('player-2', { x: 0, y: 0, z: 0 }, { wormHead: { x: 100, y: 0, z: 100 } }));
 
-      // Should still be completed, not failed
-      expect(objective?.status).toBe(ObjectiveStatus.COMPLETED);
+      expect(manager.track(0.1)).toEqual([{ objective: shared, ownerId: OWNER, playerId: 'player-2' }]);
     });
 
-    it('should handle multiple update calls without side effects', () => {
-      objectiveManager.spawnShepherdObjective({ x: 100, y: 0, z: 100 });
+    it('should not let another player complete the owner\'s objective', () => {
+      world.participants.length = 0;
+      world.participants.push(participant('player-2', { x: 0, y: 0, z: 0 }, { wormHead: { x: 100, y: 0, z: 100 } }));
 
-      // Call update many times within same time frame
-      for (let i = 0; i < 100; i++) {
-        objectiveManager.update();
-      }
+      expect(objectiveManager.track(0.1)).toEqual([]);
+      expect(objective.status).toBe(ObjectiveStatus.ACTIVE);
+    });
 
-      const objective = objectiveManager.getActiveObjective();
-      expect(objective?.status).toBe(ObjectiveStatus.ACTIVE);
+    it('should not track anything without a world', () => {
+      const manager = new ObjectiveManager();
+      const offer = manager.offerShepherdObjective(OWNER, { x: 0, y: 0, z: 0 });
+      manager.accept(OWNER, offer.id);
+
+      expect(manager.track(0.1)).toEqual([]);
     });
   });
 
-  describe('Objective Lifecycle Integration', () => {
-    it('should maintain objective state from spawn to completion', () => {
-      const startTime = Date.now();
-      vi.setSystemTime(startTime);
-
-      const objective = objectiveManager.spawnShepherdObjective({ x: 100, y: 0, z: 100 });
+  describe('Objective Timer and Expiration', () => {
+    it('should fail objective when time limit expires', () => {
+      const objective = acceptShepherd({ x: 100, y: 0, z: 100 });
 
-      // Check initial state
+      // Advance time to just before expiration
+      vi.advanceTimersByTime(179999);
+      expect(objectiveManager.update()).toEqual([]);
       expect(objective.status).toBe(ObjectiveStatus.ACTIVE);
-      expect(objective.expiresAt).toBe(startTime + 180000);
 
-      // Advance time
-      vi.advanceTimersByTime(60000); // 1 minute
+      // Advance past expiration
+      vi.advanceTimersByTime(2);
+      const expired = objectiveManager.update();
+
+      expect(expired).toEqual([{ objective, ownerId: OWNER }]);
+      expect(objective.status).toBe(ObjectiveStatus.FAILED);
+      expect(objectiveManager.getObjectives(OWNER)).not.toContain(objective);
+    });
+
+    it('should not expire offers', () => {
+      const offer = objectiveManager.offerShepherdObjective(OWNER, { x: 0, y: 0, z: 0 });
+
+      vi.advanceTimersByTime(1000000);
+      objectiveManager.update();
+
+      expect(offer.status).toBe(ObjectiveStatus.OFFERED);
+    });
 
-      // Complete objective
-      objectiveManager.checkObjectiveCompletion({ x: 100, y: 0, z: 100 });
+    it('should not fail completed objectives', () => {
+      const objective = acceptShepherd({ x: 100, y: 0, z: 100 });
+      rideTo({ x: 100, y: 0, z: 100 });
 
-      // Check final state
-      const active = objectiveManager.getActiveObjective();
-      expect(active?.id).toBe(objective.id);
-      expect(active?.status).toBe(ObjectiveStatus.COMPLETED);
+      vi.advanceTimersByTime(200000);
+      expect(objectiveManager.update()).toEqual([]);
+      expect(objective.status).toBe(ObjectiveStatus.COMPLETED);
     });
 
-    it('should maintain objective state from spawn to failure', () => {
+    it('should handle multiple update calls without side effects', () => {
+      acceptShepherd({ x: 100, y: 0, z: 100 });
+      vi.advanceTimersByTime(180000);
+
+      expect(objectiveManager.update()).toHaveLength(1);
+      expect(objectiveManager.update()).toEqual([]);
+      expect(objectiveManager.update()).toEqual([]);
+    });
+
+    it('should expire at exact millisecond', () => {
       const startTime = Date.now();
       vi.setSystemTime(startTime);
+      const objective = acceptShepherd({ x: 0, y: 0, z: 0 });
 
-      const objective = objectiveManager.spawnShepherdObjective({ x: 100, y: 0, z: 100 });
+      vi.setSystemTime(startTime + 179999);
+      objectiveManager.update();
+      expect(objective.status).toBe(ObjectiveStatus.ACTIVE);
 
-      // Let it expire
-      vi.advanceTimersByTime(180001);
+      vi.setSystemTime(startTime + 180000);
       objectiveManager.update();
+      expect(objective.status).toBe(ObjectiveStatus.FAILED);
+    });
 
-      const active = objectiveManager.getActiveObjective();
-      expect(active?.id).toBe(objective.id);
-      expect(active?.status).toBe(ObjectiveStatus.FAILED);
+    it('should handle update() calls with no boards', () => {
+      expect(() => new ObjectiveManager().update()).not.toThrow();
     });
+  });
 
-    it('should handle rapid spawn-complete-spawn cycles', () => {
-      const objectives = [];
+  describe('Edge Cases and Robustness', () => {
+    it('should handle worm position with NaN values', () => {
+      acceptShepherd({ x: 100, y: 0, z: 100 });
 
-      for (let i = 0; i < 10; i++) {
-        const obj = objectiveManager.spawnRandomObjective();
-        objectives.push(obj.id);
+      expect(rideTo({ x: NaN, y: 0, z: NaN })).toEqual([]);
+    });
 
-        // Complete immediately
-        objectiveManager.checkObjectiveCompletion(obj.targetPosition);
-      }
+    it('should handle worm position with Infinity values', () => {
+      acceptShepherd({ x: 100, y: 0, z: 100 });
 
-      // All IDs should be unique
-      const uniqueIds = new Set(objectives);
-      expect(uniqueIds.size).toBe(10);
+      expect(rideTo({ x: Infinity, y: 0, z: Infinity })).toEqual([]);
+    });
+
+    it('should handle objective target with extreme coordinates', () => {
+      acceptShepherd({ x: 1e6, y: 0, z: -1e6 });
+
+      expect(rideTo({ x: 1e6 + 5, y: 0, z: -1e6 })).toHaveLength(1);
+    });
+
+    it('should handle zero radius objective (if radius could be customized)', () => {
+      const objective = acceptShepherd({ x: 100, y: 0, z: 100 });
+      objective.radius = 0;
+
+      expect(rideTo({ x: 100.1, y: 0, z: 100 })).toEqual([]);
+      expect(rideTo({ x: 100, y: 0, z: 100 })).toHaveLength(1);
+    });
+
+    it('should handle very large radius objective', () => {
+      const objective = acceptShepherd({ x: 100, y: 0, z: 100 });
+      objective.radius = 1000;
+
+      expect(rideTo({ x: 900, y: 0, z: 100 })).toHaveLength(1); // 800m away
+    });
+
+    it('should complete each accepted objective the worm passes through', () => {
+      acceptShepherd({ x: 100, y: 0, z: 100 });
+      acceptShepherd({ x: 110, y: 0, z: 100 });
+
+      expect(rideTo({ x: 105, y: 0, z: 100 })).toHaveLength(2);
     });
   });
 
-  describe('Edge Cases and Robustness', () => {
-    it('should handle worm position with NaN values', () => {
-      objectiveManager.spawnShepherdObjective({ x: 100, y: 0, z: 100 });
+  describe('Objective Types', () => {
+    /** Offer and accept an objective of `type` on `ownerId`'s board */
+    const start = (manager: ObjectiveManager, type: ObjectiveType, ownerId = 'player-1') => {
+      const objective = manager.offerObjective(ownerId, type);
+      if (objective) {
+        manager.accept(ownerId, objective.id);
+      }
+      return objective;
+    };
 
-      const completed = objectiveManager.checkObjectiveCompletion({ x: NaN, y: 0, z: 0 });
+    it('should only offer world-dependent types when a world is supplied', () => {
+      const manager = new ObjectiveManager();
 
-      expect(completed).toBe(false);
+      expect(manager.offerObjective(OWNER, ObjectiveType.DELIVER_SPICE)).toBeNull();
+      expect(manager.offerObjective(OWNER, ObjectiveType.SABOTAGE_OUTPOST)).toBeNull();
+      expect(manager.offerObjective(OWNER, ObjectiveType.SURVIVE_STORM)).toBeNull();
+      expect(manager.offerObjective(OWNER, ObjectiveType.ESCORT)).toBeNull();
     });
 
-    it('should handle worm position with Infinity values', () => {
-      objectiveManager.spawnShepherdObjective({ x: 100, y: 0, z: 100 });
+    it('should attach the default reward for each type', () => {
+      const { world } = createWorld();
+      const manager = new ObjectiveManager(world);
 
-      const completed = objectiveManager.checkObjectiveCompletion({
-        x: Infinity,
-        y: 0,
-        z: Infinity
+      const objective = start(manager, ObjectiveType.SABOTAGE_OUTPOST)!;
+
+      expect(objective.reward).toEqual(OBJECTIVE_REWARDS[ObjectiveType.SABOTAGE_OUTPOST]);
+      expect(objective.progress).toBe(0);
+    });
+
+    it('should use configured rewards over the defaults', () => {
+      const manager = new ObjectiveManager(undefined, {
+        rewards: { [ObjectiveType.SHEPHERD_WORM]: { spice: 5, water: 1 } },
       });
 
-      expect(completed).toBe(false);
+      const objective = manager.offerShepherdObjective('player-1', { x: 0, y: 0, z: 0 });
+
+      expect(objective.reward).toEqual({ spice: 5, water: 1 });
     });
 
-    it('should handle objective target with extreme coordinates', () => {
-      const farPos: Vector3 = { x: 1e10, y: 0, z: 1e10 };
-      const objective = objectiveManager.spawnShepherdObjective(farPos);
+    it('should let a registered definition replace a built-in type', () => {
+      const { world, participants } = createWorld();
+      const manager = new ObjectiveManager(world);
+      manager.registerType({
+        type: ObjectiveType.SHEPHERD_WORM,
+        spawn: () => ({ targetPosition: { x: 1, y: 0, z: 1 }, radius: 1, timeLimit: 1000 }),
+        track: () => 'player-1',
+      });
+      participants.push(participant('player-1', { x: 0, y: 0, z: 0 }));
+
+      const objective = start(manager, ObjectiveType.SHEPHERD_WORM)!;
+      expect(objective.timeLimit).toBe(1000);
+      expect(manager.track(0.1)[0]?.playerId).toBe('player-1');
+    });
+
+    it('should complete a shepherd objective for the rider whose worm reaches it', () => {
+      const { world, participants } = createWorld();
+      const manager = new ObjectiveManager(world);
+      const offer = manager.offerShepherdObjective('rider', { x: 100, y: 0, z: 100 });
+      manager.accept('rider', offer.id);
+      participants.push(participant('walker', { x: 100, y: 0, z: 100 }));
+      participants.push(participant('rider', { x: 0, y: 0, z: 0 }, { wormHead: { x: 50, y: 0, z: 50 } }));
+
+      expect(manager.track(0.1)).toEqual([]);
 
-      expect(objective.targetPosition).toEqual(farPos);
+      participants[1].wormHead = { x: 95, y: 0, z: 100 };
+      const [completion] = manager.track(0.1);
 
-      // Worm at exact position should complete
-      const completed = objectiveManager.checkObjectiveCompletion(farPos);
-      expect(completed).toBe(true);
+      expect(completion?.playerId).toBe('rider');
+      expect(completion?.objective.status).toBe(ObjectiveStatus.COMPLETED);
+      expect(completion?.objective.progress).toBe(1);
     });
 
-    it('should handle negative coordinate positions', () => {
-      const negPos: Vector3 = { x: -500, y: 0, z: -500 };
-      const objective = objectiveManager.spawnShepherdObjective(negPos);
+    it('should complete a delivery at the Sietch and take the spice', () => {
+      const { world, participants } = createWorld();
+      const manager = new ObjectiveManager(world);
+      const objective = start(manager, ObjectiveType.DELIVER_SPICE)!;
+      const required = OBJECTIVE_CONSTANTS.DELIVER_SPICE_AMOUNT;
+      participants.push(participant('player-1', { x: 200, y: 0, z: 0 }, { spice: required + 10 }));
 
-      expect(objective.targetPosition).toEqual(negPos);
+      expect(manager.track(0.1)).toEqual([]);
+      expect(objective.progress).toBe(1);
 
-      const wormPos: Vector3 = { x: -490, y: 0, z: -490 }; // ~14m away
-      const completed = objectiveManager.checkObjectiveCompletion(wormPos);
-      expect(completed).toBe(true);
+      participants[0].position = { x: 5, y: 0, z: 5 };
+      expect(manager.track(0.1)[0]?.playerId).toBe('player-1');
+      expect(participants[0].spice).toBe(10);
     });
 
-    it('should handle zero radius objective (if radius could be customized)', () => {
-      const objective = objectiveManager.spawnShepherdObjective({ x: 100, y: 0, z: 100 });
-      objective.radius = 0;
+    it('should not accept a delivery short of the required spice', () => {
+      const { world, participants } = createWorld();
+      const manager = new ObjectiveManager(world);
+      const objective = start(manager, ObjectiveType.DELIVER_SPICE)!;
+      participants.push(participant('player-1', { x: 0, y: 0, z: 0 }, { spice: 40 }));
 
-      // Only exact position should complete
-      const exactMatch = objectiveManager.checkObjectiveCompletion({ x: 100, y: 0, z: 100 });
-      expect(exactMatch).toBe(true);
+      expect(manager.track(0.1)).toEqual([]);
+      expect(objective.progress).toBeCloseTo(40 / OBJECTIVE_CONSTANTS.DELIVER_SPICE_AMOUNT);
+    });
+
+    it('should advance an escort through its checkpoints in order', () => {
+      const { world, participants } = createWorld();
+      const manager = new ObjectiveManager(world);
+      const objective = start(manager, ObjectiveType.ESCORT, 'rider')!;
+      const checkpoints = objective.checkpoints!;
+      expect(checkpoints).toHaveLength(OBJECTIVE_CONSTANTS.ESCORT_CHECKPOINTS);
+      expect(objective.targetPosition).toEqual(checkpoints[0]);
+
+      const rider = participant('rider', { x: 0, y: 0, z: 0 }, { wormHead: { ...checkpoints[1] } });
+      participants.push(rider);
 
-      // Reset status for next check
-      objectiveManager.spawnShepherdObjective({ x: 100, y: 0, z: 100 });
-      objectiveManager.getActiveObjective()!.radius = 0;
+      // Skipping ahead doesn't count
+      expect(manager.track(0.1)).toEqual([]);
+      expect(objective.checkpointIndex).toBe(0);
 
-      const nearMatch = objectiveManager.checkObjectiveCompletion({ x: 100.1, y: 0, z: 100 });
-      expect(nearMatch).toBe(false);
+      for (let i = 0; i < checkpoints.length - 1; i++) {
+        rider.wormHead = { ...checkpoints[i] };
+        expect(manager.track(0.1)).toEqual([]);
+        expect(objective.targetPosition).toEqual(checkpoints[i + 1]);
+      }
+      expect(objective.progress).toBeCloseTo((checkpoints.length - 1) / checkpoints.length);
+
+      rider.wormHead = { ...checkpoints[checkpoints.length - 1] };
+      expect(manager.track(0.1)[0]?.playerId).toBe('rider');
     });
 
-    it('should handle very large radius objective', () => {
-      const objective = objectiveManager.spawnShepherdObjective({ x: 100, y: 0, z: 100 });
-      objective.radius = 1000;
+    it('should complete a sabotage when the target outpost is jammed with a player on site', () => {
+      const { world, participants, jammed } = createWorld();
+      const manager = new ObjectiveManager(world);
+      const objective = start(manager, ObjectiveType.SABOTAGE_OUTPOST)!;
+      expect(objective.targetId).toBe('outpost-1');
+      expect(objective.radius).toBe(VS4_CONSTANTS.THUMPER_JAM_RADIUS);
+
+      participants.push(participant('player-1', { x: 310, y: 0, z: 0 }));
+      expect(manager.track(0.1)).toEqual([]);
 
-      // Far away position should complete
-      const farPos: Vector3 = { x: 900, y: 0, z: 100 }; // 800m away
-      const completed = objectiveManager.checkObjectiveCompletion(farPos);
-      expect(completed).toBe(true);
+      jammed.add('outpost-1');
+      expect(manager.track(0.1)[0]?.playerId).toBe('player-1');
     });
 
-    it('should handle update() calls with no active objective', () => {
-      const emptyManager = new ObjectiveManager();
-      (emptyManager as any).activeObjective = null;
+    it('should not target outposts that are already taken or jammed', () => {
+      const { world, outposts, jammed } = createWorld();
+      const manager = new ObjectiveManager(world);
+
+      jammed.add('outpost-1');
+      expect(manager.offerObjective('player-1', ObjectiveType.SABOTAGE_OUTPOST)).toBeNull();
 
-      expect(() => {
-        emptyManager.update();
-      }).not.toThrow();
+      jammed.clear();
+      outposts[0].controllingFaction = 'fremen';
+      expect(manager.offerObjective('player-1', ObjectiveType.SABOTAGE_OUTPOST)).toBeNull();
     });
 
-    it('should handle concurrent completion checks', () => {
-      objectiveManager.spawnShepherdObjective({ x: 100, y: 0, z: 100 });
+    it('should complete a storm survival once a player has spent long enough inside', () => {
+      const { world, participants, storms } = createWorld();
+      storms.push({ id: 'storm-1', position: { x: 0, y: 0, z: 0 }, velocity: { x: 4, y: 0, z: 0 }, radius: 150, intensity: 1 });
+      const manager = new ObjectiveManager(world);
+      const objective = start(manager, ObjectiveType.SURVIVE_STORM)!;
+      expect(objective.targetId).toBe('storm-1');
 
-      const results = [];
-      for (let i = 0; i < 5; i++) {
-        results.push(objectiveManager.checkObjectiveCompletion({ x: 100, y: 0, z: 100 }));
+      participants.push(participant('player-1', { x: 10, y: 0, z: 0 }));
+      const seconds = OBJECTIVE_CONSTANTS.SURVIVE_STORM_DURATION / 1000;
+
+      for (let i = 0; i < seconds - 1; i++) {
+        expect(manager.track(1)).toEqual([]);
       }
+      expect(objective.progress).toBeCloseTo((seconds - 1) / seconds);
 
-      // Only first check should return true
-      expect(results[0]).toBe(true);
-      expect(results.slice(1).every(r => r === false)).toBe(true);
+      // The target follows its storm
+      storms[0].position = { x: 20, y: 0, z: 0 };
+      expect(manager.track(1)[0]?.playerId).toBe('player-1');
+      expect(objective.targetPosition.x).toBe(20);
     });
-  });
 
-  describe('Time Precision', () => {
-    it('should use millisecond precision for expiration', () => {
-      const startTime = 1000000;
-      vi.setSystemTime(startTime);
+    it('should restart a player\'s storm clock when they die', () => {
+      const { world, participants, storms } = createWorld();
+      storms.push({ id: 'storm-1', position: { x: 0, y: 0, z: 0 }, velocity: { x: 0, y: 0, z: 0 }, radius: 150, intensity: 1 });
+      const manager = new ObjectiveManager(world);
+      const objective = start(manager, ObjectiveType.SURVIVE_STORM)!;
+      participants.push(participant('player-1', { x: 0, y: 0, z: 0 }));
 
-      const objective = objectiveManager.spawnShepherdObjective({ x: 0, y: 0, z: 0 });
+      manager.track(30);
+      participants[0].alive = false;
+      manager.track(1);
+      participants[0].alive = true;
+      manager.track(1);
 
-      expect(objective.expiresAt).toBe(startTime + 180000);
+      expect(objective.playerProgress?.['player-1']).toBe(1000);
     });
 
-    it('should expire at exact millisecond', () => {
-      const startTime = Date.now();
-      vi.setSystemTime(startTime);
-
-      objectiveManager.spawnShepherdObjective({ x: 0, y: 0, z: 0 });
+    it('should fall back to shepherding when a random type can\'t spawn', () => {
+      const manager = new ObjectiveManager(undefined, { random: () => 0.99 });
 
-      // Advance to 1ms before expiration
-      vi.setSystemTime(startTime + 179999);
-      objectiveManager.update();
-      expect(objectiveManager.getActiveObjective()?.status).toBe(ObjectiveStatus.ACTIVE);
+      const objective = manager.offerRandomObjective('player-1');
 
-      // Advance to exact expiration time
-      vi.setSystemTime(startTime + 180000);
-      objectiveManager.update();
-      expect(objectiveManager.getActiveObjective()?.status).toBe(ObjectiveStatus.FAILED);
+      expect(objective.type).toBe(ObjectiveType.SHEPHERD_WORM);
     });
   });
 });
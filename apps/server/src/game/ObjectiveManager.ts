@@ -1,70 +1,349 @@
-import { Objective, ObjectiveType, ObjectiveStatus, Vector3 } from '@fremen/shared';
+import {
+  Objective,
+  ObjectiveBoard,
+  ObjectiveReward,
+  ObjectiveType,
+  ObjectiveStatus,
+  OBJECTIVE_CONSTANTS,
+  OBJECTIVE_PENALTIES,
+  OBJECTIVE_REWARDS,
+  Vector3,
+} from '@fremen/shared';
 import { v4 as uuidv4 } from 'uuid';
+import { seededRandom } from '../utils/random.js';
+import type { ObjectiveDefinition, ObjectivePlacement, ObjectiveWorld } from './objectives/ObjectiveDefinition';
+import { shepherdObjective, placeShepherdObjective } from './objectives/ShepherdObjective';
+import { deliverSpiceObjective } from './objectives/DeliverSpiceObjective';
+import { escortObjective } from './objectives/EscortObjective';
+import { sabotageObjective } from './objectives/SabotageObjective';
+import { surviveStormObjective } from './objectives/SurviveStormObjective';
 
+// Keeps objective placement independent of the other seeded world events
+const OBJECTIVE_SEED_OFFSET = 0x2f6b4a1d;
+
+const BUILT_IN_TYPES: ObjectiveDefinition[] = [
+  shepherdObjective,
+  deliverSpiceObjective,
+  escortObjective,
+  sabotageObjective,
+  surviveStormObjective,
+];
+
+export interface ObjectiveManagerOptions {
+  /** Per-type overrides of OBJECTIVE_REWARDS */
+  rewards?: Partial<Record<ObjectiveType, ObjectiveReward>>;
+  /** Per-type overrides of OBJECTIVE_PENALTIES */
+  penalties?: Partial<Record<ObjectiveType, ObjectiveReward>>;
+  /** Accepted objectives allowed per board */
+  maxActive?: number;
+  /** Delay before a taken offer is replaced (ms) */
+  rotationCooldown?: number;
+  /** Players who can progress an owner's objectives; just the owner when absent */
+  partyOf?: (ownerId: string) => string[];
+  /** Seeds offer placement; ignored when `random` is given */
+  seed?: number;
+  random?: () => number;
+}
+
+/** An objective and the board it's on */
+export interface BoardObjective {
+  objective: Objective;
+  ownerId: string;
+}
+
+export interface ObjectiveCompletion extends BoardObjective {
+  /** Player who completed it */
+  playerId: string;
+}
+
+export interface ObjectiveResult {
+  success: boolean;
+  reason?: string;
+  objective?: Objective;
+}
+
+export function cloneObjectiveBoard(board: ObjectiveBoard): ObjectiveBoard {
+  return {
+    objectives: board.objectives.map(objective => ({
+      ...objective,
+      targetPosition: { ...objective.targetPosition },
+      reward: { ...objective.reward },
+      penalty: objective.penalty && { ...objective.penalty },
+      checkpoints: objective.checkpoints?.map(checkpoint => ({ ...checkpoint })),
+      playerProgress: objective.playerProgress ? { ...objective.playerProgress } : undefined,
+    })),
+    completions: { ...board.completions },
+    rotations: board.rotations && [...board.rotations],
+  };
+}
+
+/**
+ * Registry of objective types and the objective board of each player.
+ *
+ * Each type registers a definition that places new objectives and tracks
+ * their progress against the world. A board holds offers and the objectives
+ * its owner has accepted; only accepted ones are tracked, their clock
+ * starts on acceptance, and only the owner and their party can progress
+ * them. Offers that
+ * are taken off a board rotate back in after a cooldown. Types that
+ * need world state (the Sietch, outposts, storms) can only be offered when
+ * a world is supplied; shepherding needs none and is always available.
+ */
 export class ObjectiveManager {
-  private activeObjective: Objective | null = null;
+  private readonly boards = new Map<string, ObjectiveBoard>();
+  private readonly definitions = new Map<ObjectiveType, ObjectiveDefinition>();
+  private readonly rewards: Record<ObjectiveType, ObjectiveReward>;
+  private readonly penalties: Partial<Record<ObjectiveType, ObjectiveReward>>;
+  private readonly maxActive: number;
+  private readonly rotationCooldown: number;
+  private readonly random: () => number;
+  private readonly partyOf: (ownerId: string) => string[];
 
-  spawnShepherdObjective(targetPosition: Vector3): Objective {
-    const objective: Objective = {
-      id: uuidv4(),
-      type: ObjectiveType.SHEPHERD_WORM,
-      targetPosition,
-      radius: 20,
-      timeLimit: 180000,
-      expiresAt: Date.now() + 180000,
-      status: ObjectiveStatus.ACTIVE,
-    };
+  constructor(private readonly world?: ObjectiveWorld, options: ObjectiveManagerOptions = {}) {
+    this.rewards = { ...OBJECTIVE_REWARDS, ...options.rewards };
+    this.penalties = { ...OBJECTIVE_PENALTIES, ...options.penalties };
+    this.maxActive = options.maxActive ?? OBJECTIVE_CONSTANTS.MAX_ACTIVE_OBJECTIVES;
+    this.rotationCooldown = options.rotationCooldown ?? OBJECTIVE_CONSTANTS.ROTATION_COOLDOWN;
+    this.partyOf = options.partyOf ?? (ownerId => [ownerId]);
+    this.random = options.random
+      ?? (options.seed !== undefined ? seededRandom(options.seed ^ OBJECTIVE_SEED_OFFSET) : Math.random);
+    for (const definition of BUILT_IN_TYPES) {
+      this.registerType(definition);
+    }
+  }
 
-    this.activeObjective = objective;
-    console.log(`Spawned shepherd objective at`, targetPosition);
-    return objective;
+  /**
+   * Add an objective type, or replace the definition of an existing one
+   */
+  registerType(definition: ObjectiveDefinition): void {
+    this.definitions.set(definition.type, definition);
   }
 
-  spawnRandomObjective(): Objective {
-    const angle = Math.random() * Math.PI * 2;
-    const distance = 200 + Math.random() * 300;
-    
-    const targetPosition: Vector3 = {
-      x: Math.cos(angle) * distance,
-      y: 0,
-      z: Math.sin(angle) * distance,
-    };
+  getRegisteredTypes(): ObjectiveType[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  getReward(type: ObjectiveType): ObjectiveReward {
+    return { ...this.rewards[type] };
+  }
 
-    return this.spawnShepherdObjective(targetPosition);
+  getPenalty(type: ObjectiveType): ObjectiveReward | undefined {
+    const penalty = this.penalties[type];
+    return penalty && { ...penalty };
   }
 
-  checkObjectiveCompletion(wormPosition: Vector3): boolean {
-    if (!this.activeObjective || this.activeObjective.status !== ObjectiveStatus.ACTIVE) {
-      return false;
+  /**
+   * Start tracking an owner's board. A saved board is restored as it was,
+   * pending rotations included; a new one starts with BOARD_OFFERS offers.
+   */
+  openBoard(ownerId: string, saved?: ObjectiveBoard): ObjectiveBoard {
+    if (saved) {
+      this.boards.set(ownerId, saved);
+      return saved;
+    }
+
+    const board: ObjectiveBoard = { objectives: [], completions: {}, rotations: [] };
+    this.boards.set(ownerId, board);
+    for (let i = 0; i < OBJECTIVE_CONSTANTS.BOARD_OFFERS; i++) {
+      this.offerRandomObjective(ownerId);
     }
+    return board;
+  }
+
+  /**
+   * Stop tracking an owner's board, returning it for saving
+   */
+  closeBoard(ownerId: string): ObjectiveBoard | undefined {
+    const board = this.boards.get(ownerId);
+    this.boards.delete(ownerId);
+    return board;
+  }
+
+  getBoard(ownerId: string): ObjectiveBoard | undefined {
+    return this.boards.get(ownerId);
+  }
 
-    const dx = wormPosition.x - this.activeObjective.targetPosition.x;
-    const dz = wormPosition.z - this.activeObjective.targetPosition.z;
-    const distance = Math.sqrt(dx * dx + dz * dz);
+  getObjectives(ownerId: string): Objective[] {
+    return this.boards.get(ownerId)?.objectives ?? [];
+  }
+
+  getObjective(ownerId: string, objectiveId: string): Objective | undefined {
+    return this.getObjectives(ownerId).find(objective => objective.id === objectiveId);
+  }
+
+  /**
+   * Offer an objective of `type`, or null when the world can't host one now
+   */
+  offerObjective(ownerId: string, type: ObjectiveType): Objective | null {
+    const placement = this.definitions.get(type)?.spawn(this.random, this.world);
+    return placement ? this.addOffer(ownerId, type, placement) : null;
+  }
+
+  offerShepherdObjective(ownerId: string, targetPosition: Vector3): Objective {
+    return this.addOffer(ownerId, ObjectiveType.SHEPHERD_WORM, placeShepherdObjective(targetPosition));
+  }
+
+  /**
+   * Offer an objective of a random registered type, falling back to
+   * shepherding when the chosen type can't spawn right now
+   */
+  offerRandomObjective(ownerId: string): Objective {
+    const types = this.getRegisteredTypes();
+    const type = types[Math.floor(this.random() * types.length)];
+    return this.offerObjective(ownerId, type) ?? this.offerObjective(ownerId, ObjectiveType.SHEPHERD_WORM)!;
+  }
 
-    if (distance <= this.activeObjective.radius) {
-      this.activeObjective.status = ObjectiveStatus.COMPLETED;
-      console.log(`Objective ${this.activeObjective.id} completed!`);
-      return true;
+  accept(ownerId: string, objectiveId: string): ObjectiveResult {
+    const objective = this.getObjective(ownerId, objectiveId);
+    if (!objective || objective.status !== ObjectiveStatus.OFFERED) {
+      return { success: false, reason: 'Objective is not on offer' };
     }
 
-    return false;
+    const active = this.getObjectives(ownerId).filter(o => o.status === ObjectiveStatus.ACTIVE).length;
+    if (active >= this.maxActive) {
+      return { success: false, reason: `Already working on ${this.maxActive} objectives` };
+    }
+
+    objective.status = ObjectiveStatus.ACTIVE;
+    objective.expiresAt = Date.now() + objective.timeLimit;
+    console.log(`${ownerId} accepted ${objective.type} objective ${objective.id}`);
+    return { success: true, objective };
+  }
+
+  abandon(ownerId: string, objectiveId: string): ObjectiveResult {
+    const objective = this.getObjective(ownerId, objectiveId);
+    if (!objective || objective.status !== ObjectiveStatus.ACTIVE) {
+      return { success: false, reason: 'Objective has not been accepted' };
+    }
+
+    objective.status = ObjectiveStatus.FAILED;
+    this.remove(ownerId, objective);
+    console.log(`${ownerId} abandoned objective ${objective.id}`);
+    return { success: true, objective };
   }
 
-  update() {
-    if (this.activeObjective && this.activeObjective.status === ObjectiveStatus.ACTIVE) {
-      if (Date.now() >= this.activeObjective.expiresAt) {
-        this.activeObjective.status = ObjectiveStatus.FAILED;
-        console.log(`Objective ${this.activeObjective.id} failed (timeout)`);
-        
-        setTimeout(() => {
-          this.spawnRandomObjective();
-        }, 5000);
+  /**
+   * Advance every accepted objective against the world, returning the ones
+   * completed on this tick. Completed objectives leave their board.
+   */
+  track(deltaTime: number): ObjectiveCompletion[] {
+    const world = this.world;
+    if (!world) {
+      return [];
+    }
+
+    const completions: ObjectiveCompletion[] = [];
+    for (const [ownerId, board] of this.boards) {
+      const ownerWorld = this.scopeWorld(world, ownerId);
+
+      for (const objective of [...board.objectives]) {
+        if (objective.status !== ObjectiveStatus.ACTIVE) continue;
+
+        const definition = this.definitions.get(objective.type);
+        const playerId = definition?.track(objective, ownerWorld, deltaTime);
+        if (!definition || !playerId) continue;
+
+        definition.complete?.(objective, playerId, ownerWorld);
+        objective.status = ObjectiveStatus.COMPLETED;
+        objective.progress = 1;
+        board.completions[objective.type] = (board.completions[objective.type] ?? 0) + 1;
+        this.remove(ownerId, objective);
+        console.log(`Objective ${objective.id} completed by ${playerId}`);
+        completions.push({ objective, ownerId, playerId });
       }
     }
+    return completions;
   }
 
-  getActiveObjective(): Objective | null {
-    return this.activeObjective;
+  /**
+   * Fail accepted objectives whose time is up, returning them. Failed
+   * objectives leave their board.
+   */
+  update(): BoardObjective[] {
+    const now = Date.now();
+    const expired: BoardObjective[] = [];
+
+    for (const [ownerId, board] of this.boards) {
+      for (const objective of [...board.objectives]) {
+        if (objective.status !== ObjectiveStatus.ACTIVE || now < objective.expiresAt) continue;
+
+        objective.status = ObjectiveStatus.FAILED;
+        this.remove(ownerId, objective);
+        console.log(`Objective ${objective.id} failed (timeout)`);
+        expired.push({ objective, ownerId });
+      }
+    }
+    return expired;
+  }
+
+  /**
+   * Keep every board at BOARD_OFFERS offers. Each offer accepted off a board
+   * schedules a fresh one rotationCooldown later; returns the offers that
+   * rotated in.
+   */
+  rotate(): BoardObjective[] {
+    const now = Date.now();
+    const rotated: BoardObjective[] = [];
+
+    for (const [ownerId, board] of this.boards) {
+      const rotations = board.rotations ?? [];
+      board.rotations = rotations.filter(at => now < at);
+      for (let i = board.rotations.length; i < rotations.length; i++) {
+        rotated.push({ objective: this.offerRandomObjective(ownerId), ownerId });
+      }
+
+      const offered = board.objectives.filter(objective => objective.status === ObjectiveStatus.OFFERED).length;
+      for (let i = offered + board.rotations.length; i < OBJECTIVE_CONSTANTS.BOARD_OFFERS; i++) {
+        board.rotations.push(now + this.rotationCooldown);
+      }
+    }
+    return rotated;
+  }
+
+  private addOffer(ownerId: string, type: ObjectiveType, placement: ObjectivePlacement): Objective {
+    const objective: Objective = {
+      id: uuidv4(),
+      type,
+      ...placement,
+      // The clock starts when the offer is accepted
+      expiresAt: 0,
+      status: ObjectiveStatus.OFFERED,
+      progress: 0,
+      reward: this.getReward(type),
+    };
+    const penalty = this.getPenalty(type);
+    if (penalty) {
+      objective.penalty = penalty;
+    }
+
+    let board = this.boards.get(ownerId);
+    if (!board) {
+      board = { objectives: [], completions: {} };
+      this.boards.set(ownerId, board);
+    }
+    board.objectives.push(objective);
+    return objective;
+  }
+
+  private remove(ownerId: string, objective: Objective): void {
+    const board = this.boards.get(ownerId);
+    if (board) {
+      board.objectives = board.objectives.filter(o => o !== objective);
+    }
+  }
+
+  /** The world as seen from one board: only its owner and their party take part */
+  private scopeWorld(world: ObjectiveWorld, ownerId: string): ObjectiveWorld {
+    return {
+      getParticipants: () => {
+        const party = this.partyOf(ownerId);
+        return world.getParticipants().filter(participant => party.includes(participant.playerId));
+      },
+      getSietch: () => world.getSietch(),
+      getOutposts: () => world.getOutposts(),
+      isOutpostJammed: outpostId => world.isOutpostJammed(outpostId),
+      getStorms: () => world.getStorms(),
+      takeSpice: (playerId, amount) => world.takeSpice(playerId, amount),
+    };
   }
 }
@@ -63,6 +63,11 @@ describe('VS4: Outpost & AI integration', () => {
 
     player.state.position = { ...initialOutpost.position };
     expect(room.deployThumper('player1')).toBe(true);
+    // Step off the thumper so a worm answering it doesn't take the capturer too
+    player.state.position = {
+      ...initialOutpost.position,
+      x: initialOutpost.position.x + GAME_CONSTANTS.WORM_STRIKE_RADIUS * 2,
+    };
 
     const initialSpice = player.resources.spice;
     const initialWater = player.resources.water;
@@ -22,12 +22,14 @@ interface OutpostRecord extends OutpostState {
 type RewardPlayerFn = (playerId: string) => void;
 type ThumperProvider = () => ThumperState[];
 type GarrisonProvider = (outpostId: string) => number;
+type PartyProvider = (playerId: string) => string[];
 type FactionChangeHandler = (outpostId: string, faction: Faction) => void;
 type TimestampFn = () => number;
 
 export class OutpostManager implements GameSystem {
   private readonly outposts = new Map<string, OutpostRecord>();
   private garrisonProvider?: GarrisonProvider;
+  private partyProvider?: PartyProvider;
   private factionChangeHandler?: FactionChangeHandler;
   private readonly jammedByThumpers = new Set<string>();
 
@@ -58,6 +60,13 @@ export class OutpostManager implements GameSystem {
     this.garrisonProvider = provider;
   }
 
+  /**
+   * Players in radius capture on behalf of everyone `provider` groups them with
+   */
+  setPartyProvider(provider: PartyProvider): void {
+    this.partyProvider = provider;
+  }
+
   setFactionChangeHandler(handler: FactionChangeHandler): void {
     this.factionChangeHandler = handler;
   }
@@ -104,7 +113,9 @@ export class OutpostManager implements GameSystem {
           outpost.captureTarget,
           outpost.captureProgress + deltaTime
         );
-        outpost.capturingPlayers = new Set(playersInRadius.map(p => p.playerId));
+        outpost.capturingPlayers = new Set(
+          playersInRadius.flatMap(p => this.partyProvider?.(p.playerId) ?? [p.playerId])
+        );
       } else {
         outpost.captureProgress = Math.max(
           0,
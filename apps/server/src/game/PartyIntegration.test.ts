@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Socket } from 'socket.io';
+import { GameLoop } from './GameLoop';
+import { Room } from './Room';
+import type { RoomPlayer } from './Room';
+import { InMemoryPlayerRepository } from './testing/InMemoryPlayerRepository';
+import { GAME_CONSTANTS, OBJECTIVE_CONSTANTS, ObjectiveType, VS4_CONSTANTS } from '@fremen/shared';
+
+describe('Parties', () => {
+  let room: Room;
+  let gameLoop: GameLoop;
+  let leader: RoomPlayer;
+  let member: RoomPlayer;
+
+  const tick = (seconds: number) => {
+    for (let t = 0; t < seconds; t += 0.1) {
+      vi.advanceTimersByTime(100);
+      (gameLoop as any).registry.update(0.1);
+    }
+  };
+
+  const connect = async (playerId: string, username: string) => {
+    const socket = { id: `socket-${playerId}`, emit: vi.fn() } as unknown as Socket;
+    await room.addPlayer(socket, playerId, username);
+    const player = room.getPlayer(playerId)!;
+    gameLoop.onPlayerJoin(player);
+    player.state.position = { x: 0, y: 0, z: 0 };
+    return player;
+  };
+
+  const emitted = (player: RoomPlayer, channel: string) =>
+    (player.socket.emit as ReturnType<typeof vi.fn>).mock.calls
+      .filter(([name]) => name === channel)
+      .map(([, payload]) => payload);
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+
+    const repository = new InMemoryPlayerRepository();
+    room = new Room('party-room', repository);
+    gameLoop = new GameLoop(room, 12345, repository);
+
+    leader = await connect('player1', 'Stilgar');
+    member = await connect('player2', 'Chani');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const formParty = () => {
+    expect(gameLoop.handlePartyInvite('player1', 'Chani').success).toBe(true);
+    expect(gameLoop.handlePartyAccept('player2', 'player1').success).toBe(true);
+  };
+
+  it('sends the invite to the target and results to each actor', () => {
+    gameLoop.handlePartyInvite('player1', 'Chani');
+
+    expect(emitted(member, 'party')).toEqual([expect.objectContaining({
+      type: 'S_PARTY_INVITE',
+      inviterId: 'player1',
+      inviterName: 'Stilgar',
+    })]);
+    expect(emitted(leader, 'party')).toEqual([{ type: 'S_PARTY_RESULT', action: 'invite', success: true, reason: undefined }]);
+
+    gameLoop.handlePartyAccept('player2', 'player1');
+    expect(emitted(member, 'party')[1]).toMatchObject({ action: 'accept', success: true });
+  });
+
+  it('refuses invites to players who aren\'t here', () => {
+    const result = gameLoop.handlePartyInvite('player1', 'Liet');
+
+    expect(result).toEqual({ success: false, reason: 'Player not found' });
+  });
+
+  it('replicates the party with member positions to every member', () => {
+    formParty();
+    member.state.position = { x: 900, y: 0, z: 900 };
+
+    (gameLoop as any).broadcastState();
+
+    for (const player of [leader, member]) {
+      const frames = (player.socket.emit as ReturnType<typeof vi.fn>).mock.calls
+        .filter(([name]) => name === 'state' || name === 'snapshot');
+      const { party } = frames[frames.length - 1][1];
+
+      expect(party.leaderId).toBe('player1');
+      expect(party.members.map((m: { username: string }) => m.username)).toEqual(['Stilgar', 'Chani']);
+      expect(party.members[1].position).toEqual({ x: 900, y: 0, z: 900 });
+    }
+  });
+
+  it('splits objective rewards and news across the party', () => {
+    formParty();
+    const manager = (gameLoop as any).objectiveManager;
+    const objective = manager.offerObjective('player1', ObjectiveType.DELIVER_SPICE);
+    gameLoop.handleObjectiveAccept('player1', objective.id);
+    leader.resources.spice = 0;
+    leader.resources.water = 20;
+    member.resources.spice = OBJECTIVE_CONSTANTS.DELIVER_SPICE_AMOUNT;
+    member.resources.water = 20;
+
+    // The member delivers on the leader's objective
+    tick(0.2);
+
+    // The deliverer gets their spice back; only the premium is shared
+    const reward = objective.reward;
+    const premium = reward.spice - OBJECTIVE_CONSTANTS.DELIVER_SPICE_AMOUNT;
+    expect(member.resources.spice).toBe(OBJECTIVE_CONSTANTS.DELIVER_SPICE_AMOUNT + Math.ceil(premium / 2));
+    expect(member.resources.spice).toBeGreaterThan(OBJECTIVE_CONSTANTS.DELIVER_SPICE_AMOUNT);
+    expect(leader.resources.spice).toBe(Math.floor(premium / 2));
+    expect(leader.resources.water).toBeCloseTo(20 + reward.water / 2, 1);
+    expect(leader.resources.stats.objectivesCompleted).toBe(1);
+    expect(member.resources.stats.objectivesCompleted).toBe(1);
+    expect(member.resources.stats.totalSpiceEarned).toBe(Math.ceil(premium / 2));
+
+    for (const player of [leader, member]) {
+      const events = emitted(player, 'event').filter(event => event.eventType === 'objective');
+      expect(events.map(event => event.data.playerId)).toEqual(['player2']);
+    }
+  });
+
+  it('credits the whole party with an outpost capture and splits the reward', () => {
+    formParty();
+    const outpostManager = (gameLoop as any).outpostManager;
+    const aiManager = (gameLoop as any).aiManager;
+    const [outpost] = outpostManager.getOutposts();
+    aiManager.getTroopersForOutpost(outpost.id)
+      .forEach((trooper: { id: string }) => aiManager.markTrooperDefeated(trooper.id));
+
+    leader.state.position = { ...outpost.position };
+    member.state.position = { x: outpost.position.x + 500, y: 0, z: outpost.position.z };
+    leader.resources.spice = 0;
+    member.resources.spice = 0;
+
+    const record = (outpostManager as any).outposts.get(outpost.id);
+    record.captureProgress = record.captureTarget - 0.05;
+    tick(0.1);
+
+    expect(outpostManager.getOutpost(outpost.id).controllingFaction).toBe('fremen');
+    expect(leader.resources.spice).toBe(VS4_CONSTANTS.OUTPOST_REWARD_SPICE / 2);
+    expect(member.resources.spice).toBe(VS4_CONSTANTS.OUTPOST_REWARD_SPICE / 2);
+    expect(member.resources.stats.outpostsCaptured).toBe(1);
+  });
+
+  const drop = async (player: RoomPlayer) => {
+    gameLoop.onPlayerLeave(player.playerId);
+    await room.removePlayer(player.playerId);
+    return player.resumeToken;
+  };
+
+  it('keeps a dropped member in the party when they resume', async () => {
+    formParty();
+    const token = await drop(member);
+
+    expect(gameLoop.getPartyMembers('player1').map(p => p.playerId)).toEqual(['player1']);
+
+    const socket = { id: 'socket-player2-resumed', emit: vi.fn() } as unknown as Socket;
+    await room.addPlayer(socket, 'player2', 'Chani', token);
+    member = room.getPlayer('player2')!;
+    gameLoop.onPlayerJoin(member);
+
+    expect(member.resumed).toBe(true);
+    expect(gameLoop.getPartyMembers('player2').map(p => p.playerId)).toEqual(['player1', 'player2']);
+  });
+
+  it('keeps rewards among the members who are online', async () => {
+    formParty();
+    await drop(member);
+    const manager = (gameLoop as any).objectiveManager;
+    const objective = manager.offerObjective('player1', ObjectiveType.DELIVER_SPICE);
+    gameLoop.handleObjectiveAccept('player1', objective.id);
+    leader.resources.spice = OBJECTIVE_CONSTANTS.DELIVER_SPICE_AMOUNT;
+    leader.resources.water = 20;
+
+    tick(0.2);
+
+    expect(leader.resources.spice).toBe(objective.reward.spice);
+    expect(leader.resources.water).toBeCloseTo(20 + objective.reward.water, 1);
+  });
+
+  it('disbands the party once a dropped member can no longer resume', async () => {
+    formParty();
+    await drop(member);
+
+    vi.advanceTimersByTime(5 * 60 * 1000 + 1);
+    (gameLoop as any).tickCount = GAME_CONSTANTS.TICK_RATE * 60;
+    (gameLoop as any).createHousekeepingSystem().update(0);
+
+    expect(gameLoop.getPartyMembers('player1')).toEqual([]);
+  });
+
+  it('lets the leader kick and members leave', () => {
+    formParty();
+
+    expect(gameLoop.handlePartyKick('player2', 'player1').success).toBe(false);
+    expect(gameLoop.handlePartyKick('player1', 'player2').success).toBe(true);
+    expect(gameLoop.getPartyMembers('player2')).toEqual([]);
+    expect(gameLoop.handlePartyLeave('player1')).toEqual({ success: false, reason: 'Not in a party' });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PARTY_CONSTANTS } from '@fremen/shared';
+import { PartyManager } from './PartyManager';
+
+describe('PartyManager', () => {
+  let now: number;
+  let parties: PartyManager;
+
+  /** Invite `targetId` to `leaderId`'s party and accept */
+  const join = (leaderId: string, targetId: string) => {
+    expect(parties.invite(leaderId, targetId).success).toBe(true);
+    return parties.accept(targetId, leaderId);
+  };
+
+  beforeEach(() => {
+    now = 0;
+    parties = new PartyManager(() => now);
+  });
+
+  it('forms a party led by the inviter once an invite is accepted', () => {
+    const invite = parties.invite('alice', 'bob');
+
+    expect(invite.success).toBe(true);
+    expect(invite.invite?.expiresAt).toBe(PARTY_CONSTANTS.INVITE_TIMEOUT);
+    expect(parties.getParty('alice')).toBeUndefined();
+
+    const result = parties.accept('bob', 'alice');
+
+    expect(result.success).toBe(true);
+    expect(result.party?.leaderId).toBe('alice');
+    expect(result.party?.members).toEqual(['alice', 'bob']);
+    expect(parties.getParty('bob')).toBe(parties.getParty('alice'));
+    expect(parties.getInvites('bob')).toEqual([]);
+  });
+
+  it('treats a player outside a party as a party of one', () => {
+    expect(parties.getMembers('alice')).toEqual(['alice']);
+
+    join('alice', 'bob');
+
+    expect(parties.getMembers('bob')).toEqual(['alice', 'bob']);
+  });
+
+  it('refuses invites to yourself or to players already in a party', () => {
+    join('alice', 'bob');
+
+    expect(parties.invite('carol', 'carol').reason).toBe('Cannot invite yourself');
+    expect(parties.invite('carol', 'bob').reason).toBe('Player is already in a party');
+  });
+
+  it('only lets the leader invite and kick', () => {
+    join('alice', 'bob');
+    join('alice', 'carol');
+
+    expect(parties.invite('bob', 'dave').reason).toBe('Only the party leader can invite');
+    expect(parties.kick('bob', 'carol').reason).toBe('Only the party leader can kick');
+    expect(parties.kick('alice', 'alice').reason).toBe('Player is not in your party');
+  });
+
+  it('caps party size', () => {
+    const members = ['bob', 'carol', 'dave', 'erin'].slice(0, PARTY_CONSTANTS.MAX_SIZE - 1);
+    for (const member of members) {
+      expect(join('alice', member).success).toBe(true);
+    }
+
+    expect(parties.invite('alice', 'zed').reason).toBe('Party is full');
+  });
+
+  it('lets invites lapse', () => {
+    parties.invite('alice', 'bob');
+    now += PARTY_CONSTANTS.INVITE_TIMEOUT;
+
+    expect(parties.accept('bob', 'alice').reason).toBe('No pending invite from that player');
+  });
+
+  it('keeps invites from several leaders until one is accepted', () => {
+    parties.invite('alice', 'carol');
+    parties.invite('bob', 'carol');
+
+    expect(parties.getInvites('carol').map(invite => invite.inviterId)).toEqual(['alice', 'bob']);
+    expect(parties.accept('carol', 'bob').success).toBe(true);
+    expect(parties.accept('carol', 'alice').success).toBe(false);
+  });
+
+  it('drops a kicked member', () => {
+    join('alice', 'bob');
+    join('alice', 'carol');
+
+    expect(parties.kick('alice', 'bob').success).toBe(true);
+
+    expect(parties.getParty('bob')).toBeUndefined();
+    expect(parties.getMembers('alice')).toEqual(['alice', 'carol']);
+  });
+
+  it('hands leadership to the longest-standing member when the leader leaves', () => {
+    join('alice', 'bob');
+    join('alice', 'carol');
+
+    parties.leave('alice');
+
+    expect(parties.getParty('alice')).toBeUndefined();
+    expect(parties.getParty('bob')?.leaderId).toBe('bob');
+    expect(parties.getMembers('carol')).toEqual(['bob', 'carol']);
+  });
+
+  it('disbands a party that drops to one member', () => {
+    join('alice', 'bob');
+
+    expect(parties.leave('bob').success).toBe(true);
+
+    expect(parties.getParty('alice')).toBeUndefined();
+    expect(parties.leave('alice').reason).toBe('Not in a party');
+  });
+
+  it('forgets players who leave the game, with their invites', () => {
+    join('alice', 'bob');
+    join('alice', 'carol');
+    parties.invite('alice', 'dave');
+    parties.invite('erin', 'alice');
+
+    parties.removePlayer('alice');
+
+    expect(parties.getMembers('bob')).toEqual(['bob', 'carol']);
+    expect(parties.getInvites('dave')).toEqual([]);
+    expect(parties.getInvites('alice')).toEqual([]);
+  });
+});
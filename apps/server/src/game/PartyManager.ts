@@ -0,0 +1,170 @@
+import { PARTY_CONSTANTS } from '@fremen/shared';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface Party {
+  id: string;
+  leaderId: string;
+  /** Player ids in join order, leader included */
+  members: string[];
+}
+
+export interface PartyInvite {
+  inviterId: string;
+  expiresAt: number;
+}
+
+export interface PartyResult {
+  success: boolean;
+  reason?: string;
+  party?: Party;
+}
+
+export interface PartyInviteResult extends PartyResult {
+  invite?: PartyInvite;
+}
+
+type TimestampFn = () => number;
+
+/**
+ * Player parties
+ *
+ * A leader invites players one at a time; the party itself only forms when
+ * the first invite is accepted, so an ignored invite leaves nothing behind.
+ * Leadership passes to the longest-standing member when the leader leaves,
+ * and a party that drops to one member disbands.
+ */
+export class PartyManager {
+  private readonly parties = new Map<string, Party>();
+  private readonly memberships = new Map<string, string>();
+  // Pending invites by invited player
+  private readonly invites = new Map<string, PartyInvite[]>();
+
+  constructor(private readonly now: TimestampFn = () => Date.now()) {}
+
+  getParty(playerId: string): Party | undefined {
+    const partyId = this.memberships.get(playerId);
+    return partyId ? this.parties.get(partyId) : undefined;
+  }
+
+  /**
+   * Everyone who shares `playerId`'s objectives and rewards: their party, or
+   * just them when they're not in one
+   */
+  getMembers(playerId: string): string[] {
+    return this.getParty(playerId)?.members ?? [playerId];
+  }
+
+  getInvites(playerId: string): PartyInvite[] {
+    const now = this.now();
+    return (this.invites.get(playerId) ?? []).filter(invite => now < invite.expiresAt);
+  }
+
+  invite(inviterId: string, targetId: string): PartyInviteResult {
+    if (inviterId === targetId) {
+      return { success: false, reason: 'Cannot invite yourself' };
+    }
+
+    const party = this.getParty(inviterId);
+    if (party && party.leaderId !== inviterId) {
+      return { success: false, reason: 'Only the party leader can invite' };
+    }
+    if (party && party.members.length >= PARTY_CONSTANTS.MAX_SIZE) {
+      return { success: false, reason: 'Party is full' };
+    }
+    if (this.memberships.has(targetId)) {
+      return { success: false, reason: 'Player is already in a party' };
+    }
+
+    const invite: PartyInvite = { inviterId, expiresAt: this.now() + PARTY_CONSTANTS.INVITE_TIMEOUT };
+    const pending = this.getInvites(targetId).filter(existing => existing.inviterId !== inviterId);
+    this.invites.set(targetId, [...pending, invite]);
+    return { success: true, party, invite };
+  }
+
+  accept(playerId: string, inviterId: string): PartyResult {
+    if (!this.getInvites(playerId).some(invite => invite.inviterId === inviterId)) {
+      return { success: false, reason: 'No pending invite from that player' };
+    }
+    if (this.memberships.has(playerId)) {
+      return { success: false, reason: 'Already in a party' };
+    }
+
+    let party = this.getParty(inviterId);
+    if (party && party.leaderId !== inviterId) {
+      return { success: false, reason: 'Invite is no longer valid' };
+    }
+    if (party && party.members.length >= PARTY_CONSTANTS.MAX_SIZE) {
+      return { success: false, reason: 'Party is full' };
+    }
+
+    if (!party) {
+      party = { id: uuidv4(), leaderId: inviterId, members: [inviterId] };
+      this.parties.set(party.id, party);
+      this.memberships.set(inviterId, party.id);
+    }
+    party.members.push(playerId);
+    this.memberships.set(playerId, party.id);
+    this.invites.delete(playerId);
+
+    console.log(`${playerId} joined party ${party.id}`);
+    return { success: true, party };
+  }
+
+  leave(playerId: string): PartyResult {
+    const party = this.getParty(playerId);
+    if (!party) {
+      return { success: false, reason: 'Not in a party' };
+    }
+
+    this.removeMember(party, playerId);
+    return { success: true, party };
+  }
+
+  kick(leaderId: string, targetId: string): PartyResult {
+    const party = this.getParty(leaderId);
+    if (!party || party.leaderId !== leaderId) {
+      return { success: false, reason: 'Only the party leader can kick' };
+    }
+    if (targetId === leaderId || !party.members.includes(targetId)) {
+      return { success: false, reason: 'Player is not in your party' };
+    }
+
+    this.removeMember(party, targetId);
+    return { success: true, party };
+  }
+
+  /**
+   * Forget a player whose session can no longer resume: they leave their
+   * party and their invites, sent and received, lapse
+   */
+  removePlayer(playerId: string): Party | undefined {
+    this.invites.delete(playerId);
+    for (const [targetId, invites] of this.invites) {
+      this.invites.set(targetId, invites.filter(invite => invite.inviterId !== playerId));
+    }
+
+    const party = this.getParty(playerId);
+    if (party) {
+      this.removeMember(party, playerId);
+    }
+    return party;
+  }
+
+  private removeMember(party: Party, playerId: string): void {
+    party.members = party.members.filter(memberId => memberId !== playerId);
+    this.memberships.delete(playerId);
+
+    if (party.members.length < 2) {
+      for (const memberId of party.members) {
+        this.memberships.delete(memberId);
+      }
+      this.parties.delete(party.id);
+      console.log(`Party ${party.id} disbanded`);
+      return;
+    }
+
+    if (party.leaderId === playerId) {
+      party.leaderId = party.members[0];
+    }
+  }
+}
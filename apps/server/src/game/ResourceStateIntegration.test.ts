@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Socket } from 'socket.io';
+import { GameLoop } from './GameLoop';
+import { Room } from './Room';
+import { InMemoryPlayerRepository } from './testing/InMemoryPlayerRepository';
+import { COMBAT_CONSTANTS, GAME_CONSTANTS, THIRST_EFFECTS, ThirstLevel } from '@fremen/shared';
+
+describe('VS3: Private resource block in state messages', () => {
+  let room: Room;
+  let gameLoop: GameLoop;
+  let socketA: Socket;
+  let socketB: Socket;
+
+  const lastMessage = (socket: Socket, event: string) =>
+    (socket.emit as ReturnType<typeof vi.fn>).mock.calls.filter(([name]) => name === event).pop()?.[1];
+
+  beforeEach(async () => {
+    const repository = new InMemoryPlayerRepository();
+    room = new Room('resource-room', repository);
+    gameLoop = new GameLoop(room, 12345, repository);
+
+    socketA = { id: 'a', emit: vi.fn() } as unknown as Socket;
+    socketB = { id: 'b', emit: vi.fn() } as unknown as Socket;
+    await room.addPlayer(socketA, 'playerA', 'A');
+    await room.addPlayer(socketB, 'playerB', 'B');
+    gameLoop.onPlayerJoin(room.getPlayer('playerA')!);
+    gameLoop.onPlayerJoin(room.getPlayer('playerB')!);
+  });
+
+  it('sends each client only its own resources with the keyframe', () => {
+    const playerA = room.getPlayer('playerA')!;
+    playerA.resources.water = 8;
+    playerA.resources.spice = 42;
+    playerA.health = 60;
+    room.getPlayer('playerB')!.resources.spice = 7;
+
+    (gameLoop as any).broadcastState();
+
+    expect(lastMessage(socketA, 'snapshot').resources).toEqual({
+      water: 8,
+      spice: 42,
+      health: 60,
+      maxHealth: COMBAT_CONSTANTS.PLAYER_MAX_HEALTH,
+      thirstLevel: ThirstLevel.SEVERE,
+      maxSpeed: GAME_CONSTANTS.PLAYER_MAX_SPEED * THIRST_EFFECTS[ThirstLevel.SEVERE].speedPenalty,
+    });
+    expect(lastMessage(socketB, 'snapshot').resources).toMatchObject({
+      spice: 7,
+      thirstLevel: ThirstLevel.HYDRATED,
+    });
+  });
+
+  it('keeps the resource block on delta updates', () => {
+    (gameLoop as any).broadcastState();
+    gameLoop.handleStateAck('playerA', lastMessage(socketA, 'snapshot').seq);
+
+    room.getPlayer('playerA')!.resources.water = 30;
+    (gameLoop as any).broadcastState();
+
+    expect(lastMessage(socketA, 'state').resources).toMatchObject({
+      water: 30,
+      thirstLevel: ThirstLevel.MILD,
+    });
+  });
+});
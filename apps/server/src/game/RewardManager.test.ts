@@ -51,6 +51,18 @@ describe('VS3: Reward System', () => {
       expect(result.success).toBe(true);
       expect(result.spice).toBe(ECONOMY_CONSTANTS.OBJECTIVE_REWARD_SPICE);
     });
+
+    it('should grant an objective\'s own reward when given', () => {
+      const result = manager.grantObjectiveReward(10, 20, { spice: 150, water: 5 });
+
+      expect(result.spice).toBe(160);
+      expect(result.water).toBe(25);
+    });
+
+    it('should take a failure penalty without going negative', () => {
+      expect(manager.applyObjectivePenalty(100, 50, { spice: 30, water: 10 })).toEqual({ success: true, spice: 70, water: 40 });
+      expect(manager.applyObjectivePenalty(10, 5, { spice: 30, water: 10 })).toEqual({ success: true, spice: 0, water: 0 });
+    });
   });
 
   describe('Stat Tracking', () => {
@@ -64,6 +76,7 @@ describe('VS3: Reward System', () => {
         deaths: 0,
         wormsRidden: 0,
         outpostsCaptured: 0,
+        corpsesRecovered: 0,
       };
     });
 
@@ -112,6 +125,7 @@ describe('VS3: Reward System', () => {
         deaths: 0,
         wormsRidden: 0,
         outpostsCaptured: 0,
+        corpsesRecovered: 0,
       };
     });
 
@@ -148,6 +162,7 @@ describe('VS3: Reward System', () => {
         deaths: 0,
         wormsRidden: 0,
         outpostsCaptured: 0,
+        corpsesRecovered: 0,
       };
     });
 
@@ -179,6 +194,7 @@ describe('VS3: Reward System', () => {
         deaths: 0,
         wormsRidden: 0,
         outpostsCaptured: 0,
+        corpsesRecovered: 0,
       };
     });
 
@@ -223,6 +239,20 @@ describe('VS3: Reward System', () => {
 
       expect(totalSpice).toBe(5000); // 100 * 50
     });
+
+    it('should split a reward evenly with the remainder going to the earner', () => {
+      const shares = manager.splitReward({ spice: 100, water: 30 }, ['a', 'b', 'c'], 'b');
+
+      expect(shares.get('a')).toEqual({ spice: 33, water: 10 });
+      expect(shares.get('b')).toEqual({ spice: 34, water: 10 });
+      expect(shares.get('c')).toEqual({ spice: 33, water: 10 });
+    });
+
+    it('should give a solo earner the whole reward', () => {
+      const shares = manager.splitReward({ spice: 100, water: 30 }, [], 'a');
+
+      expect([...shares]).toEqual([['a', { spice: 100, water: 30 }]]);
+    });
   });
 
   describe('Edge Cases', () => {
@@ -255,6 +285,7 @@ describe('VS3: Reward System', () => {
         deaths: 0,
         wormsRidden: 0,
         outpostsCaptured: 0,
+        corpsesRecovered: 0,
       };
 
       const newStats = manager.addDistanceTraveled(stats, 0);
@@ -274,6 +305,7 @@ describe('VS3: Reward System', () => {
         deaths: 0,
         wormsRidden: 0,
         outpostsCaptured: 0,
+        corpsesRecovered: 0,
       };
 
       // Grant reward
@@ -296,6 +328,7 @@ describe('VS3: Reward System', () => {
         deaths: 1,
         wormsRidden: 5,
         outpostsCaptured: 0,
+        corpsesRecovered: 0,
       };
 
       for (let i = 0; i < 10; i++) {
@@ -321,6 +354,7 @@ describe('VS3: Reward System', () => {
         deaths: 0,
         wormsRidden: 0,
         outpostsCaptured: 0,
+        corpsesRecovered: 0,
       };
 
       // Session 1: 5 objectives, 3 worms ridden, 1000m traveled, 0 deaths
@@ -1,4 +1,4 @@
-import { ECONOMY_CONSTANTS, PlayerStats, VS4_CONSTANTS } from '@fremen/shared';
+import { ECONOMY_CONSTANTS, ObjectiveReward, PlayerStats, VS4_CONSTANTS } from '@fremen/shared';
 
 interface RewardResult {
   success: boolean;
@@ -14,18 +14,26 @@ interface RewardResult {
  */
 export class RewardManager {
   /**
-   * Grant rewards for completing an objective
+   * Grant rewards for completing an objective, the shepherd reward unless
+   * the objective carries its own
    */
-  grantObjectiveReward(currentSpice: number, currentWater: number): RewardResult {
+  grantObjectiveReward(
+    currentSpice: number,
+    currentWater: number,
+    reward: ObjectiveReward = {
+      spice: ECONOMY_CONSTANTS.OBJECTIVE_REWARD_SPICE,
+      water: ECONOMY_CONSTANTS.OBJECTIVE_REWARD_WATER,
+    }
+  ): RewardResult {
     // Ensure non-negative values
     const safeSpice = Math.max(0, currentSpice);
     const safeWater = Math.max(0, currentWater);
 
     // Add rewards
-    const newSpice = safeSpice + ECONOMY_CONSTANTS.OBJECTIVE_REWARD_SPICE;
-    const newWater = Math.min(100, safeWater + ECONOMY_CONSTANTS.OBJECTIVE_REWARD_WATER);
+    const newSpice = safeSpice + reward.spice;
+    const newWater = Math.min(100, safeWater + reward.water);
 
-    console.log(`Objective completed: +${ECONOMY_CONSTANTS.OBJECTIVE_REWARD_SPICE} spice, +${ECONOMY_CONSTANTS.OBJECTIVE_REWARD_WATER} water`);
+    console.log(`Objective completed: +${reward.spice} spice, +${reward.water} water`);
 
     return {
       success: true,
@@ -34,6 +42,17 @@ export class RewardManager {
     };
   }
 
+  /**
+   * Take a failed objective's penalty, never dropping below zero
+   */
+  applyObjectivePenalty(currentSpice: number, currentWater: number, penalty: ObjectiveReward): RewardResult {
+    return {
+      success: true,
+      spice: Math.max(0, currentSpice - penalty.spice),
+      water: Math.max(0, currentWater - penalty.water),
+    };
+  }
+
   /**
    * Update player stats after objective completion
    */
@@ -45,22 +64,64 @@ export class RewardManager {
     };
   }
 
-  grantOutpostReward(currentSpice: number, currentWater: number): RewardResult {
+  grantOutpostReward(
+    currentSpice: number,
+    currentWater: number,
+    reward: ObjectiveReward = {
+      spice: VS4_CONSTANTS.OUTPOST_REWARD_SPICE,
+      water: VS4_CONSTANTS.OUTPOST_REWARD_WATER,
+    }
+  ): RewardResult {
     const safeSpice = Math.max(0, currentSpice);
     const safeWater = Math.max(0, currentWater);
 
     return {
       success: true,
-      spice: safeSpice + VS4_CONSTANTS.OUTPOST_REWARD_SPICE,
-      water: Math.min(100, safeWater + VS4_CONSTANTS.OUTPOST_REWARD_WATER),
+      spice: safeSpice + reward.spice,
+      water: Math.min(100, safeWater + reward.water),
     };
   }
 
-  recordOutpostCapture(stats: PlayerStats): PlayerStats {
+  recordOutpostCapture(stats: PlayerStats, spiceEarned: number = VS4_CONSTANTS.OUTPOST_REWARD_SPICE): PlayerStats {
     return {
       ...stats,
       outpostsCaptured: stats.outpostsCaptured + 1,
-      totalSpiceEarned: stats.totalSpiceEarned + VS4_CONSTANTS.OUTPOST_REWARD_SPICE,
+      totalSpiceEarned: stats.totalSpiceEarned + spiceEarned,
+    };
+  }
+
+  /**
+   * Split a reward evenly between party members. Spice is shared in whole
+   * units with any remainder going to `earnerId`; water is split exactly.
+   */
+  splitReward(reward: ObjectiveReward, memberIds: string[], earnerId: string): Map<string, ObjectiveReward> {
+    const recipients = memberIds.includes(earnerId) ? memberIds : [earnerId, ...memberIds];
+    const spiceShare = Math.floor(reward.spice / recipients.length);
+    const remainder = reward.spice - spiceShare * recipients.length;
+
+    return new Map(recipients.map(memberId => [memberId, {
+      spice: memberId === earnerId ? spiceShare + remainder : spiceShare,
+      water: reward.water / recipients.length,
+    }]));
+  }
+
+  /**
+   * Add harvested spice to lifetime earnings
+   */
+  recordSpiceHarvest(stats: PlayerStats, amount: number): PlayerStats {
+    return {
+      ...stats,
+      totalSpiceEarned: stats.totalSpiceEarned + Math.max(0, amount),
+    };
+  }
+
+  /**
+   * Count a recovered corpse
+   */
+  recordCorpseRecovery(stats: PlayerStats): PlayerStats {
+    return {
+      ...stats,
+      corpsesRecovered: (stats.corpsesRecovered ?? 0) + 1,
     };
   }
 
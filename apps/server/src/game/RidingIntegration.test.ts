@@ -13,6 +13,14 @@ describe('VS2: Riding Integration (End-to-End)', () => {
   let addPlayerWithJoin: (socket: Socket, playerId: string, username: string) => Promise<void>;
   const SEED = 12345;
 
+  /** Put a shepherd objective on the player's board and accept it */
+  const acceptShepherdObjective = (playerId: string) => {
+    const objectiveManager = (gameLoop as any).objectiveManager;
+    const objective = objectiveManager.offerShepherdObjective(playerId, { x: 300, y: 0, z: 300 });
+    objectiveManager.accept(playerId, objective.id);
+    return objective;
+  };
+
   const advanceGameLoop = (deltaTime: number, steps = 1) => {
     for (let i = 0; i < steps; i++) {
       (gameLoop as any).registry.update(deltaTime);
@@ -65,7 +73,7 @@ describe('VS2: Riding Integration (End-to-End)', () => {
       expect(player.state.state).toBe(PlayerStateEnum.RIDING);
 
       // 5. Steer worm toward objective
-      const objective = (gameLoop as any).objectiveManager.getActiveObjective();
+      const objective = acceptShepherdObjective('player1');
       const targetX = objective.targetPosition.x;
       const targetZ = objective.targetPosition.z;
 
@@ -80,8 +88,9 @@ describe('VS2: Riding Integration (End-to-End)', () => {
         advanceGameLoop(1 / GAME_CONSTANTS.TICK_RATE);
       }
 
-      // 6. Complete objective (manually for test)
-      (gameLoop as any).objectiveManager.checkObjectiveCompletion(objective.targetPosition);
+      // 6. Complete objective (worm placed on the marker for test)
+      worm.controlPoints[0] = { ...objective.targetPosition };
+      advanceGameLoop(1 / GAME_CONSTANTS.TICK_RATE);
 
       expect(objective.status).toBe(ObjectiveStatus.COMPLETED);
 
@@ -133,23 +142,22 @@ describe('VS2: Riding Integration (End-to-End)', () => {
       player.state.position = { x: 52, y: 0, z: 50 };
       gameLoop.handleMountAttempt('player1', 'worm-0');
 
-      const objective = (gameLoop as any).objectiveManager.getActiveObjective();
+      const objective = acceptShepherdObjective('player1');
       expect(objective.status).toBe(ObjectiveStatus.ACTIVE);
 
       // Advance time to expire objective
       vi.advanceTimersByTime(180001);
-      (gameLoop as any).objectiveManager.update();
+      advanceGameLoop(0.033);
 
       expect(objective.status).toBe(ObjectiveStatus.FAILED);
 
       // Player should still be riding
       expect(player.state.state).toBe(PlayerStateEnum.RIDING);
 
-      // New objective should spawn after delay
-      vi.advanceTimersByTime(5000);
-
-      const newObjective = (gameLoop as any).objectiveManager.getActiveObjective();
-      expect(newObjective.id).not.toBe(objective.id);
+      // The failed objective leaves the board; the remaining offers stay
+      const board = (gameLoop as any).objectiveManager.getObjectives('player1');
+      expect(board).not.toContain(objective);
+      expect(board.length).toBeGreaterThan(0);
     });
 
     it('should handle worm death while riding', async () => {
@@ -322,7 +330,7 @@ describe('VS2: Riding Integration (End-to-End)', () => {
       await addPlayerWithJoin(mockSocket as Socket, 'player1', 'TestPlayer');
       const player = room.getPlayer('player1')!;
 
-      const objective = (gameLoop as any).objectiveManager.getActiveObjective();
+      const objective = acceptShepherdObjective('player1');
 
       // Position player near worm
       player.state.position = { x: 52, y: 0, z: 50 };
@@ -346,7 +354,7 @@ describe('VS2: Riding Integration (End-to-End)', () => {
       player.state.position = { x: 52, y: 0, z: 50 };
       gameLoop.handleMountAttempt('player1', 'worm-0');
 
-      const objective = (gameLoop as any).objectiveManager.getActiveObjective();
+      const objective = acceptShepherdObjective('player1');
 
       // Steer toward objective
       for (let i = 0; i < 100; i++) {
@@ -364,7 +372,7 @@ describe('VS2: Riding Integration (End-to-End)', () => {
       await addPlayerWithJoin(mockSocket as Socket, 'player1', 'TestPlayer');
       const player = room.getPlayer('player1')!;
 
-      const objective = (gameLoop as any).objectiveManager.getActiveObjective();
+      const objective = acceptShepherdObjective('player1');
 
       // Move player to objective without riding
       player.state.position = { ...objective.targetPosition };
@@ -499,7 +507,7 @@ describe('VS2: Riding Integration (End-to-End)', () => {
       await addPlayerWithJoin(mockSocket as Socket, 'player1', 'TestPlayer');
       const player = room.getPlayer('player1')!;
 
-      const objective = (gameLoop as any).objectiveManager.getActiveObjective();
+      const objective = acceptShepherdObjective('player1');
 
       player.state.position = { x: 52, y: 0, z: 50 };
       gameLoop.handleMountAttempt('player1', 'worm-0');
@@ -516,9 +524,9 @@ describe('VS2: Riding Integration (End-to-End)', () => {
       // Dismount after objective is complete
       gameLoop.handleDismount('player1');
 
-      // Trying to complete again should return false (already completed)
-      const completed = (gameLoop as any).objectiveManager.checkObjectiveCompletion(objective.targetPosition);
-      expect(completed).toBe(false);
+      // Tracking again should not complete it a second time
+      const completions = (gameLoop as any).objectiveManager.track(0.033);
+      expect(completions).toEqual([]);
     });
 
     it('should handle thumper expiration while riding', async () => {
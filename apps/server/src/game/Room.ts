@@ -3,6 +3,7 @@ import type { PlayerState, ThumperState, PlayerResources } from '@fremen/shared'
 import { GAME_CONSTANTS, PlayerStateEnum, STARTING_RESOURCES } from '@fremen/shared';
 import { v4 as uuidv4 } from 'uuid';
 import type { PlayerRepository } from './PlayerRepository';
+import { cloneObjectiveBoard } from './ObjectiveManager';
 
 export interface RoomPlayer {
   socket: Socket;
@@ -14,11 +15,21 @@ export interface RoomPlayer {
   lastInputSeq: number;
   connectedAt: number;
   thumperCount: number;
+  /** Handed to the client in S_WELCOME; presenting it on reconnect resumes this session */
+  resumeToken: string;
+  /** True when this join picked up a disconnected session via its resume token */
+  resumed: boolean;
+  /** Set from input while the player walks without rhythm */
+  sandwalking: boolean;
 }
 
 interface DisconnectedPlayerData {
   state: PlayerState;
   resources: PlayerResources;
+  health: number;
+  lastInputSeq: number;
+  thumperCount: number;
+  resumeToken: string;
   disconnectedAt: number;
 }
 
@@ -29,6 +40,7 @@ function cloneResources(resources: PlayerResources): PlayerResources {
     equipment: { ...resources.equipment },
     stats: { ...resources.stats },
     inventory: resources.inventory ? [...resources.inventory] : [],
+    objectives: resources.objectives && cloneObjectiveBoard(resources.objectives),
   };
 }
 
@@ -52,12 +64,13 @@ export class Room {
     this.roomId = roomId;
   }
 
-  async addPlayer(socket: Socket, playerId: string, username: string): Promise<boolean> {
+  async addPlayer(socket: Socket, playerId: string, username: string, resumeToken?: string): Promise<boolean> {
     if (this.players.size >= GAME_CONSTANTS.MAX_PLAYERS) {
       return false;
     }
 
     const existingDisconnected = this.disconnectedPlayers.get(playerId);
+    const resumed = !!existingDisconnected && !!resumeToken && resumeToken === existingDisconnected.resumeToken;
     const loadedResources = await this.repository.load(playerId, username);
     const baseResources = existingDisconnected
       ? existingDisconnected.resources
@@ -80,10 +93,13 @@ export class Room {
       username,
       state: initialState,
       resources: playerResources,
-      health: 100,
-      lastInputSeq: 0,
+      health: resumed ? existingDisconnected.health : 100,
+      lastInputSeq: resumed ? existingDisconnected.lastInputSeq : 0,
       connectedAt: Date.now(),
-      thumperCount: 3,
+      thumperCount: existingDisconnected ? existingDisconnected.thumperCount : 3,
+      resumeToken: uuidv4(),
+      resumed,
+      sandwalking: false,
     };
 
     this.players.set(playerId, playerData);
@@ -101,6 +117,10 @@ export class Room {
       const snapshot = {
         state: player.state,
         resources: cloneResources(player.resources),
+        health: player.health,
+        lastInputSeq: player.lastInputSeq,
+        thumperCount: player.thumperCount,
+        resumeToken: player.resumeToken,
         disconnectedAt: Date.now(),
       } satisfies DisconnectedPlayerData;
 
@@ -133,16 +153,24 @@ export class Room {
     }
   }
 
-  cleanupDisconnectedPlayers() {
+  /**
+   * Forget disconnected players past the resume window.
+   * Returns the expired player ids along with their last state.
+   */
+  cleanupDisconnectedPlayers(): Array<{ playerId: string; state: PlayerState }> {
     const now = Date.now();
     const timeout = 5 * 60 * 1000;
+    const expired: Array<{ playerId: string; state: PlayerState }> = [];
 
     for (const [playerId, data] of this.disconnectedPlayers) {
       if (now - data.disconnectedAt > timeout) {
         this.disconnectedPlayers.delete(playerId);
+        expired.push({ playerId, state: data.state });
         console.log(`Cleaned up disconnected player ${playerId}`);
       }
     }
+
+    return expired;
   }
 
   deployThumper(playerId: string): boolean {
@@ -177,6 +205,10 @@ export class Room {
     }
   }
 
+  removeThumper(thumperId: string): boolean {
+    return this.thumpers.delete(thumperId);
+  }
+
   getThumpers(): ThumperState[] {
     return Array.from(this.thumpers.values());
   }
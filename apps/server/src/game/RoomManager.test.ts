@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Socket } from 'socket.io';
+import { GAME_CONSTANTS } from '@fremen/shared';
+import { RoomManager } from './RoomManager';
+import { InMemoryPlayerRepository } from './testing/InMemoryPlayerRepository';
+
+describe('RoomManager', () => {
+  let manager: RoomManager;
+  let nextSeed: number;
+
+  const socket = (id: string) => ({ id, emit: vi.fn(), disconnect: vi.fn() } as unknown as Socket);
+
+  const fillRoom = async (prefix: string) => {
+    for (let i = 0; i < GAME_CONSTANTS.MAX_PLAYERS; i++) {
+      await manager.join(socket(`${prefix}-${i}`), `${prefix}-${i}`, `P${i}`);
+    }
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    nextSeed = 100;
+    manager = new RoomManager(new InMemoryPlayerRepository(), {
+      createSeed: () => nextSeed++,
+      idleTimeout: 60000,
+      autoStart: false,
+    });
+  });
+
+  afterEach(() => {
+    manager.shutdown();
+    vi.useRealTimers();
+  });
+
+  it('creates a room on the first join', async () => {
+    const { managed, player } = await manager.join(socket('s1'), 'player1', 'First');
+
+    expect(managed.seed).toBe(100);
+    expect(player.playerId).toBe('player1');
+    expect(manager.listRooms()).toEqual([
+      { roomId: managed.roomId, seed: 100, playerCount: 1, maxPlayers: GAME_CONSTANTS.MAX_PLAYERS },
+    ]);
+  });
+
+  it('starts a new room with its own seed once a room is full', async () => {
+    await fillRoom('a');
+
+    const { managed } = await manager.join(socket('overflow'), 'overflow', 'Late');
+
+    const rooms = manager.listRooms();
+    expect(rooms).toHaveLength(2);
+    expect(managed.seed).toBe(101);
+    expect(rooms[0].playerCount).toBe(GAME_CONSTANTS.MAX_PLAYERS);
+    expect(rooms[1].playerCount).toBe(1);
+  });
+
+  it('fills existing rooms before creating new ones', async () => {
+    const first = await manager.join(socket('s1'), 'player1', 'First');
+    const second = await manager.join(socket('s2'), 'player2', 'Second');
+
+    expect(second.managed.roomId).toBe(first.managed.roomId);
+    expect(manager.listRooms()).toHaveLength(1);
+  });
+
+  it('holds reserved seats against other players', async () => {
+    await manager.join(socket('s0'), 'player0', 'Zero');
+    for (let i = 1; i < GAME_CONSTANTS.MAX_PLAYERS; i++) {
+      manager.reserve(`reserved-${i}`);
+    }
+
+    const { managed } = await manager.join(socket('s-late'), 'late', 'Late');
+
+    expect(managed.roomId).not.toBe(manager.getRoomForPlayer('player0')!.roomId);
+  });
+
+  it('places a reserved player in the room it reserved', async () => {
+    await manager.join(socket('s1'), 'player1', 'First');
+    const second = manager.createRoom();
+
+    manager.reserve('player2', second.roomId);
+    const { managed } = await manager.join(socket('s2'), 'player2', 'Second');
+
+    expect(managed.roomId).toBe(second.roomId);
+  });
+
+  it('puts reconnecting players back into their previous room', async () => {
+    const { managed } = await manager.join(socket('s1'), 'player1', 'First');
+    manager.createRoom();
+
+    await manager.leave('player1', managed.room.getPlayer('player1')!.socket);
+    const rejoined = await manager.join(socket('s1b'), 'player1', 'First');
+
+    expect(rejoined.managed.roomId).toBe(managed.roomId);
+  });
+
+  it('lets a reconnect that beats the old disconnect resume the session, even in a full room', async () => {
+    await fillRoom('full');
+    const stale = manager.getRoomForPlayer('full-0')!.room.getPlayer('full-0')!;
+    stale.state.position = { x: 40, y: 1, z: -25 };
+
+    const { managed, player } = await manager.join(socket('full-0b'), 'full-0', 'P0', stale.resumeToken);
+
+    expect(managed.roomId).toBe('room-1');
+    expect(player.resumed).toBe(true);
+    expect(player.state.position).toEqual({ x: 40, y: 1, z: -25 });
+    expect(stale.socket.disconnect).toHaveBeenCalledWith(true);
+  });
+
+  it('ignores a disconnect from a socket a reconnect already replaced', async () => {
+    const first = await manager.join(socket('s1'), 'player1', 'First');
+    const staleSocket = first.player.socket;
+    await manager.join(socket('s1b'), 'player1', 'First', first.player.resumeToken);
+
+    await manager.leave('player1', staleSocket);
+
+    expect(first.managed.room.getPlayer('player1')?.socket.id).toBe('s1b');
+  });
+
+  it('tears down rooms that stay empty past the idle timeout', async () => {
+    const { managed } = await manager.join(socket('s1'), 'player1', 'First');
+    const stop = vi.spyOn(managed.gameLoop, 'stop');
+    await manager.leave('player1', managed.room.getPlayer('player1')!.socket);
+
+    vi.advanceTimersByTime(30000);
+    expect(manager.cleanupIdleRooms()).toEqual([]);
+
+    vi.advanceTimersByTime(30000);
+    expect(manager.cleanupIdleRooms()).toEqual([managed.roomId]);
+    expect(stop).toHaveBeenCalled();
+    expect(manager.listRooms()).toEqual([]);
+    expect(manager.getRoomForPlayer('player1')).toBeUndefined();
+  });
+
+  it('keeps occupied rooms alive', async () => {
+    await manager.join(socket('s1'), 'player1', 'First');
+
+    vi.advanceTimersByTime(120000);
+
+    expect(manager.cleanupIdleRooms()).toEqual([]);
+    expect(manager.listRooms()).toHaveLength(1);
+  });
+});
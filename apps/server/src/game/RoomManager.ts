@@ -0,0 +1,277 @@
+import type { Socket } from 'socket.io';
+import { GAME_CONSTANTS } from '@fremen/shared';
+import { Room } from './Room';
+import type { RoomPlayer } from './Room';
+import { GameLoop } from './GameLoop';
+import type { PlayerRepository } from './PlayerRepository';
+
+// Matches Room's window for keeping disconnected players around, so a room
+// isn't torn down while someone could still reconnect into it.
+const ROOM_IDLE_TIMEOUT = 5 * 60 * 1000;
+// How long a seat claimed through the join endpoint is held for the socket.
+const RESERVATION_TTL = 30 * 1000;
+
+export interface ManagedRoom {
+  roomId: string;
+  seed: number;
+  room: Room;
+  gameLoop: GameLoop;
+  createdAt: number;
+  emptySince: number | null;
+}
+
+export interface RoomSummary {
+  roomId: string;
+  seed: number;
+  playerCount: number;
+  maxPlayers: number;
+}
+
+export interface RoomManagerOptions {
+  createSeed?: () => number;
+  idleTimeout?: number;
+  /** Start each room's GameLoop on creation; tests drive ticks by hand instead. */
+  autoStart?: boolean;
+}
+
+interface Reservation {
+  roomId: string;
+  expiresAt: number;
+}
+
+/**
+ * Owns every Room/GameLoop pair on this server.
+ *
+ * Rooms are created on demand whenever no existing room has a free seat and
+ * are torn down once they have been empty for ROOM_IDLE_TIMEOUT. Players keep
+ * their room assignment across reconnects for as long as the room lives.
+ */
+export class RoomManager {
+  private rooms = new Map<string, ManagedRoom>();
+  private playerRooms = new Map<string, string>();
+  private reservations = new Map<string, Reservation>();
+  private nextRoomNumber = 1;
+  private readonly createSeed: () => number;
+  private readonly idleTimeout: number;
+  private readonly autoStart: boolean;
+
+  constructor(private readonly repository: PlayerRepository, options: RoomManagerOptions = {}) {
+    this.createSeed = options.createSeed ?? (() => Math.floor(Math.random() * 2 ** 31));
+    this.idleTimeout = options.idleTimeout ?? ROOM_IDLE_TIMEOUT;
+    this.autoStart = options.autoStart ?? true;
+  }
+
+  createRoom(): ManagedRoom {
+    const roomId = `room-${this.nextRoomNumber++}`;
+    const seed = this.createSeed();
+    const room = new Room(roomId, this.repository);
+    const gameLoop = new GameLoop(room, seed, this.repository);
+
+    const managed: ManagedRoom = {
+      roomId,
+      seed,
+      room,
+      gameLoop,
+      createdAt: Date.now(),
+      emptySince: Date.now(),
+    };
+    this.rooms.set(roomId, managed);
+
+    if (this.autoStart) {
+      gameLoop.start();
+    }
+
+    console.log(`Created room ${roomId} with seed ${seed}`);
+    return managed;
+  }
+
+  getRoom(roomId: string): ManagedRoom | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  getRoomForPlayer(playerId: string): ManagedRoom | undefined {
+    const roomId = this.playerRooms.get(playerId);
+    return roomId ? this.rooms.get(roomId) : undefined;
+  }
+
+  listRooms(): RoomSummary[] {
+    return Array.from(this.rooms.values()).map(managed => ({
+      roomId: managed.roomId,
+      seed: managed.seed,
+      playerCount: managed.room.getPlayerCount(),
+      maxPlayers: GAME_CONSTANTS.MAX_PLAYERS,
+    }));
+  }
+
+  getTotalPlayerCount(): number {
+    let total = 0;
+    for (const managed of this.rooms.values()) {
+      total += managed.room.getPlayerCount();
+    }
+    return total;
+  }
+
+  /**
+   * Pick a room for a player and hold their seat until they connect.
+   * A requested room is honoured only while it has space; otherwise the
+   * player is placed like anyone else.
+   */
+  reserve(playerId: string, requestedRoomId?: string): ManagedRoom {
+    const managed = this.placePlayer(playerId, requestedRoomId);
+    this.reservations.set(playerId, {
+      roomId: managed.roomId,
+      expiresAt: Date.now() + RESERVATION_TTL,
+    });
+    return managed;
+  }
+
+  /**
+   * Add a connecting player to their reserved or previous room, or to the
+   * first room with a free seat, starting a new room when all are full.
+   * `resumeToken` is passed through to Room to resume a dropped session.
+   * A reconnect that beats the old socket's disconnect takes that session
+   * over, so it resumes like any other drop.
+   */
+  async join(
+    socket: Socket,
+    playerId: string,
+    username: string,
+    resumeToken?: string
+  ): Promise<{ managed: ManagedRoom; player: RoomPlayer }> {
+    let managed = this.placePlayer(playerId);
+    this.reservations.delete(playerId);
+
+    const stale = managed.room.getPlayer(playerId);
+    if (stale) {
+      managed.gameLoop.onPlayerLeave(playerId);
+      await managed.room.removePlayer(playerId);
+      stale.socket.disconnect(true);
+    }
+
+    if (!(await managed.room.addPlayer(socket, playerId, username, resumeToken))) {
+      // Lost a race for the last seat while loading the player
+      managed = this.createRoom();
+      await managed.room.addPlayer(socket, playerId, username);
+    }
+
+    const player = managed.room.getPlayer(playerId)!;
+    this.playerRooms.set(playerId, managed.roomId);
+    managed.emptySince = null;
+    managed.gameLoop.onPlayerJoin(player);
+
+    return { managed, player };
+  }
+
+  /**
+   * Remove a player whose socket disconnected. A socket that has already been
+   * replaced by a reconnect is ignored so it can't end the new session.
+   */
+  async leave(playerId: string, socket: Socket): Promise<void> {
+    const managed = this.getRoomForPlayer(playerId);
+    if (!managed || managed.room.getPlayer(playerId)?.socket.id !== socket.id) {
+      return;
+    }
+
+    managed.gameLoop.onPlayerLeave(playerId);
+    await managed.room.removePlayer(playerId);
+
+    if (managed.room.getPlayerCount() === 0) {
+      managed.emptySince = Date.now();
+    }
+  }
+
+  /**
+   * Stop and forget rooms that have been empty for longer than the idle timeout.
+   * Returns the ids of the rooms that were torn down.
+   */
+  cleanupIdleRooms(): string[] {
+    const now = Date.now();
+    const removed: string[] = [];
+
+    for (const [playerId, reservation] of this.reservations) {
+      if (now >= reservation.expiresAt) {
+        this.reservations.delete(playerId);
+      }
+    }
+
+    for (const [roomId, managed] of this.rooms) {
+      if (managed.emptySince === null || now - managed.emptySince < this.idleTimeout) {
+        continue;
+      }
+      if (this.getReservedCount(roomId) > 0) {
+        continue;
+      }
+
+      managed.gameLoop.stop();
+      this.rooms.delete(roomId);
+      removed.push(roomId);
+      console.log(`Tore down idle room ${roomId}`);
+    }
+
+    if (removed.length > 0) {
+      for (const [playerId, roomId] of this.playerRooms) {
+        if (!this.rooms.has(roomId)) {
+          this.playerRooms.delete(playerId);
+        }
+      }
+    }
+
+    return removed;
+  }
+
+  shutdown(): void {
+    for (const managed of this.rooms.values()) {
+      managed.gameLoop.stop();
+    }
+  }
+
+  private placePlayer(playerId: string, requestedRoomId?: string): ManagedRoom {
+    // Reconnecting players go back to the room that still holds their state
+    const previous = this.getRoomForPlayer(playerId);
+    if (previous && this.hasSeatFor(previous, playerId)) {
+      return previous;
+    }
+
+    const reservation = this.reservations.get(playerId);
+    if (reservation && reservation.expiresAt > Date.now()) {
+      const reserved = this.rooms.get(reservation.roomId);
+      if (reserved && this.hasSeatFor(reserved, playerId)) {
+        return reserved;
+      }
+    }
+
+    const requested = requestedRoomId ? this.rooms.get(requestedRoomId) : undefined;
+    if (requested && this.hasSeatFor(requested, playerId)) {
+      return requested;
+    }
+
+    for (const managed of this.rooms.values()) {
+      if (this.hasSeatFor(managed, playerId)) {
+        return managed;
+      }
+    }
+
+    return this.createRoom();
+  }
+
+  private hasSeatFor(managed: ManagedRoom, playerId: string): boolean {
+    if (managed.room.getPlayer(playerId)) {
+      return true;
+    }
+
+    const ownReservation = this.reservations.get(playerId)?.roomId === managed.roomId ? 1 : 0;
+    const taken = managed.room.getPlayerCount() + this.getReservedCount(managed.roomId) - ownReservation;
+    return taken < GAME_CONSTANTS.MAX_PLAYERS;
+  }
+
+  private getReservedCount(roomId: string): number {
+    const now = Date.now();
+    let count = 0;
+    for (const reservation of this.reservations.values()) {
+      if (reservation.roomId === roomId && reservation.expiresAt > now) {
+        count++;
+      }
+    }
+    return count;
+  }
+}
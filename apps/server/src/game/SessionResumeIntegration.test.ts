@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Socket } from 'socket.io';
+import { GameLoop } from './GameLoop';
+import { Room } from './Room';
+import type { RoomPlayer } from './Room';
+import { InMemoryPlayerRepository } from './testing/InMemoryPlayerRepository';
+import { GAME_CONSTANTS, PlayerStateEnum, WormAIState } from '@fremen/shared';
+import type { SpiceNode } from '@fremen/shared';
+
+describe('VS3: Session resume after a dropped connection', () => {
+  let room: Room;
+  let gameLoop: GameLoop;
+  let player: RoomPlayer;
+
+  const connect = async (resumeToken?: string) => {
+    const socket = { id: `socket-${Math.random()}`, emit: vi.fn() } as unknown as Socket;
+    await room.addPlayer(socket, 'player1', 'Rider', resumeToken);
+    player = room.getPlayer('player1')!;
+    gameLoop.onPlayerJoin(player);
+    return socket;
+  };
+
+  const drop = async () => {
+    const resumeToken = player.resumeToken;
+    gameLoop.onPlayerLeave('player1');
+    await room.removePlayer('player1');
+    return resumeToken;
+  };
+
+  const mountNearestWorm = () => {
+    const worm = (gameLoop as any).wormAI.getWorm('worm-0');
+    const head = worm.controlPoints[0];
+    player.state.position = { x: head.x + 2, y: head.y, z: head.z };
+    expect(gameLoop.handleMountAttempt('player1', 'worm-0').success).toBe(true);
+    return worm;
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+
+    const repository = new InMemoryPlayerRepository();
+    room = new Room('resume-room', repository);
+    gameLoop = new GameLoop(room, 12345, repository);
+    await connect();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps the player on their worm and restores the input sequence and health', async () => {
+    const worm = mountNearestWorm();
+    player.lastInputSeq = 42;
+    player.health = 35;
+    const token = await drop();
+
+    await connect(token);
+
+    expect(player.resumed).toBe(true);
+    expect(player.lastInputSeq).toBe(42);
+    expect(player.health).toBe(35);
+    expect(player.state.state).toBe(PlayerStateEnum.RIDING);
+    expect(worm.riderId).toBe('player1');
+  });
+
+  it('circles the worm while the rider is away and hands it back on resume', async () => {
+    const worm = mountNearestWorm();
+    const token = await drop();
+
+    expect(worm.aiState).toBe(WormAIState.SAFE_SPIRAL);
+    (gameLoop as any).registry.update(1);
+    expect(worm.riderId).toBe('player1');
+
+    await connect(token);
+
+    expect(worm.aiState).toBe(WormAIState.RIDDEN_BY);
+  });
+
+  it('sends a full snapshot immediately on resume', async () => {
+    const token = await drop();
+
+    const socket = await connect(token);
+
+    const snapshots = (socket.emit as ReturnType<typeof vi.fn>).mock.calls.filter(([event]) => event === 'snapshot');
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0][1]).toMatchObject({ type: 'S_SNAPSHOT', lastProcessedInputSeq: player.lastInputSeq });
+  });
+
+  it('issues a fresh resume token for every session', async () => {
+    const token = await drop();
+
+    await connect(token);
+
+    expect(player.resumeToken).not.toBe(token);
+  });
+
+  it('treats a reconnect without a valid token as a fresh join and frees the worm', async () => {
+    const worm = mountNearestWorm();
+    player.lastInputSeq = 42;
+    player.health = 35;
+    await drop();
+
+    await connect('not-the-token');
+
+    expect(player.resumed).toBe(false);
+    expect(player.lastInputSeq).toBe(0);
+    expect(player.health).toBe(100);
+    expect(player.state.state).toBe(PlayerStateEnum.ACTIVE);
+    expect(worm.riderId).toBeUndefined();
+  });
+
+  it('picks an interrupted harvest back up with its progress', async () => {
+    const node: SpiceNode = (gameLoop as any).spiceManager
+      .getNodes()
+      .find((n: SpiceNode) => Math.abs(n.position.x) < 50 && Math.abs(n.position.z) < 50);
+    player.state.position = { x: node.position.x + 1, y: 1, z: node.position.z };
+    gameLoop.handleHarvestStart('player1', node.id);
+    vi.advanceTimersByTime(1000);
+    const token = await drop();
+
+    vi.advanceTimersByTime(10000);
+    await connect(token);
+
+    const session = (gameLoop as any).spiceManager.getPlayerHarvestSession('player1');
+    expect(session?.nodeId).toBe(node.id);
+    expect(Date.now() - session.startTime).toBe(1000);
+  });
+
+  it('releases the worm once the disconnected rider can no longer resume', async () => {
+    const worm = mountNearestWorm();
+    await drop();
+
+    vi.advanceTimersByTime(5 * 60 * 1000 + 1);
+    (gameLoop as any).tickCount = GAME_CONSTANTS.TICK_RATE * 60;
+    (gameLoop as any).createHousekeepingSystem().update(0);
+
+    expect(worm.riderId).toBeUndefined();
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GAME_CONSTANTS, PlayerStateEnum } from '@fremen/shared';
+import type { PlayerState, ThumperState } from '@fremen/shared';
+import { SnapshotReplicator } from './SnapshotReplicator';
+import type { EncodedDelta, ReplicationFrame } from './SnapshotReplicator';
+
+describe('SnapshotReplicator', () => {
+  let now: number;
+  let replicator: SnapshotReplicator;
+
+  const player = (id: string, x: number, rotation = 0): PlayerState => ({
+    id,
+    position: { x, y: 1, z: 0 },
+    velocity: { x: 0, y: 0, z: 0 },
+    rotation,
+    state: PlayerStateEnum.ACTIVE,
+  });
+
+  const thumper = (id: string): ThumperState => ({
+    id,
+    position: { x: 0, y: 0, z: 0 },
+    active: true,
+    expiresAt: 10000,
+  });
+
+  const frame = (players: PlayerState[], thumpers: ThumperState[] = []): ReplicationFrame => ({
+    players,
+    worms: [],
+    thumpers,
+    outposts: [],
+    storms: [],
+  });
+
+  beforeEach(() => {
+    now = 0;
+    replicator = new SnapshotReplicator(GAME_CONSTANTS.SNAPSHOT_INTERVAL, () => now);
+  });
+
+  it('sends a keyframe until the client acknowledges one', () => {
+    const first = replicator.encode('client', frame([player('p1', 0)]));
+    now += 50;
+    const second = replicator.encode('client', frame([player('p1', 1)]));
+
+    expect(first.keyframe).toBe(true);
+    expect(second.keyframe).toBe(true);
+    expect(second.seq).toBe(first.seq + 1);
+  });
+
+  it('only sends changed fields relative to the acknowledged baseline', () => {
+    const keyframe = replicator.encode('client', frame([player('p1', 0), player('p2', 5)]));
+    replicator.acknowledge('client', keyframe.seq);
+
+    now += 50;
+    const delta = replicator.encode('client', frame([player('p1', 3), player('p2', 5)])) as EncodedDelta;
+
+    expect(delta.keyframe).toBe(false);
+    expect(delta.baselineSeq).toBe(keyframe.seq);
+    expect(delta.players).toEqual([{ id: 'p1', position: { x: 3, y: 1, z: 0 } }]);
+  });
+
+  it('reports spawns and despawns relative to the baseline', () => {
+    const keyframe = replicator.encode('client', frame([player('p1', 0)], [thumper('t1')]));
+    replicator.acknowledge('client', keyframe.seq);
+
+    now += 50;
+    const delta = replicator.encode('client', frame([player('p1', 0), player('p2', 5)])) as EncodedDelta;
+
+    expect(delta.spawned).toEqual([{ kind: 'player', id: 'p2' }]);
+    expect(delta.despawned).toEqual([{ kind: 'thumper', id: 't1' }]);
+    expect(delta.players).toEqual([player('p2', 5)]);
+  });
+
+  it('keeps diffing against the last acknowledged frame until a newer ack arrives', () => {
+    const keyframe = replicator.encode('client', frame([player('p1', 0)]));
+    replicator.acknowledge('client', keyframe.seq);
+
+    now += 50;
+    replicator.encode('client', frame([player('p1', 0, 1)]));
+    now += 50;
+    const delta = replicator.encode('client', frame([player('p1', 0, 2)])) as EncodedDelta;
+
+    expect(delta.baselineSeq).toBe(keyframe.seq);
+    expect(delta.players).toEqual([{ id: 'p1', rotation: 2 }]);
+  });
+
+  it('sends a keyframe every SNAPSHOT_INTERVAL', () => {
+    const keyframe = replicator.encode('client', frame([player('p1', 0)]));
+    replicator.acknowledge('client', keyframe.seq);
+
+    now += GAME_CONSTANTS.SNAPSHOT_INTERVAL;
+    const next = replicator.encode('client', frame([player('p1', 0)]));
+
+    expect(next.keyframe).toBe(true);
+  });
+
+  it('falls back to a keyframe when the acknowledged baseline is stale', () => {
+    const keyframe = replicator.encode('client', frame([player('p1', 0)]));
+    replicator.acknowledge('client', keyframe.seq);
+
+    let latest = keyframe;
+    for (let i = 0; i < GAME_CONSTANTS.TICK_RATE * 2 + 1; i++) {
+      latest = replicator.encode('client', frame([player('p1', i)]));
+    }
+
+    expect(latest.keyframe).toBe(true);
+  });
+
+  it('ignores acknowledgements for unknown or older frames', () => {
+    const first = replicator.encode('client', frame([player('p1', 0)]));
+    const second = replicator.encode('client', frame([player('p1', 1)]));
+
+    replicator.acknowledge('client', second.seq);
+    replicator.acknowledge('client', first.seq);
+    replicator.acknowledge('client', 999);
+
+    expect(replicator.getAckedSeq('client')).toBe(second.seq);
+  });
+
+  it('replicates storm fronts alongside other entities', () => {
+    const storm = (x: number) => ({
+      id: 'storm-0',
+      position: { x, y: 0, z: 0 },
+      velocity: { x: 4, y: 0, z: 0 },
+      radius: 150,
+      intensity: 1,
+    });
+
+    const keyframe = replicator.encode('client', { ...frame([]), storms: [storm(0)] });
+    replicator.acknowledge('client', keyframe.seq);
+    now += 50;
+    const moved = replicator.encode('client', { ...frame([]), storms: [storm(4)] }) as EncodedDelta;
+    now += 50;
+    const gone = replicator.encode('client', frame([])) as EncodedDelta;
+
+    expect(keyframe.keyframe && keyframe.storms).toEqual([storm(0)]);
+    expect(moved.storms).toEqual([{ id: 'storm-0', position: { x: 4, y: 0, z: 0 } }]);
+    expect(gone.despawned).toEqual([{ kind: 'storm', id: 'storm-0' }]);
+  });
+
+  it('copies an entity once per frame and keeps baselines clear of later changes', () => {
+    const live = player('p1', 0);
+
+    replicator.beginFrame();
+    const first = replicator.encode('a', frame([live]));
+    const second = replicator.encode('b', frame([live]));
+    replicator.endFrame();
+
+    expect(first.keyframe && second.keyframe && first.players[0]).toBe(second.keyframe && second.players[0]);
+    expect(first.keyframe && first.players[0]).not.toBe(live);
+
+    replicator.acknowledge('a', first.seq);
+    live.position.x = 7;
+    now += 50;
+    const delta = replicator.encode('a', frame([live])) as EncodedDelta;
+
+    expect(delta.players).toEqual([{ id: 'p1', position: { x: 7, y: 1, z: 0 } }]);
+  });
+});
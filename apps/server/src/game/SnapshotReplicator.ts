@@ -0,0 +1,258 @@
+import { GAME_CONSTANTS, diffEntity } from '@fremen/shared';
+import type {
+  EntityDelta,
+  OutpostState,
+  PlayerState,
+  StormState,
+  ThumperState,
+  WormState,
+} from '@fremen/shared';
+import type { EntityRef, ReplicatedEntityKind } from '@fremen/protocol';
+
+export interface ReplicationFrame {
+  players: PlayerState[];
+  worms: WormState[];
+  thumpers: ThumperState[];
+  outposts: OutpostState[];
+  storms: StormState[];
+}
+
+export interface EncodedKeyframe extends ReplicationFrame {
+  keyframe: true;
+  seq: number;
+}
+
+export interface EncodedDelta {
+  keyframe: false;
+  seq: number;
+  baselineSeq: number;
+  players: EntityDelta<PlayerState>[];
+  worms: EntityDelta<WormState>[];
+  thumpers: EntityDelta<ThumperState>[];
+  outposts: EntityDelta<OutpostState>[];
+  storms: EntityDelta<StormState>[];
+  spawned: EntityRef[];
+  despawned: EntityRef[];
+}
+
+export type EncodedFrame = EncodedKeyframe | EncodedDelta;
+
+interface StoredFrame {
+  players: Map<string, PlayerState>;
+  worms: Map<string, WormState>;
+  thumpers: Map<string, ThumperState>;
+  outposts: Map<string, OutpostState>;
+  storms: Map<string, StormState>;
+}
+
+interface ClientReplication {
+  nextSeq: number;
+  ackedSeq: number | null;
+  lastKeyframeAt: number;
+  history: Map<number, StoredFrame>;
+}
+
+// Baselines further behind than this are treated as lost and force a keyframe.
+const MAX_PENDING_FRAMES = GAME_CONSTANTS.TICK_RATE * 2;
+
+function copyValue<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(copyValue) as T;
+  }
+  if (value !== null && typeof value === 'object') {
+    const copy: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      if (field !== undefined) {
+        copy[key] = copyValue(field);
+      }
+    }
+    return copy as T;
+  }
+  return value;
+}
+
+/**
+ * Baseline/delta snapshot encoding
+ *
+ * Every frame sent to a client is remembered under a sequence number. Once
+ * the client acknowledges a frame it becomes the baseline, and subsequent
+ * frames only carry the fields that changed since then. A full keyframe is
+ * sent every SNAPSHOT_INTERVAL, or immediately when no baseline is usable.
+ */
+export class SnapshotReplicator {
+  private readonly clients: Map<string, ClientReplication> = new Map();
+  // Copies of this frame's entities, shared by every client encoded until endFrame
+  private frameCopies?: Map<object, object>;
+
+  constructor(
+    private readonly keyframeInterval: number = GAME_CONSTANTS.SNAPSHOT_INTERVAL,
+    private readonly now: () => number = () => Date.now()
+  ) {}
+
+  /**
+   * Share entity copies between every `encode` call until `endFrame`, so a
+   * tick copies each entity once however many clients see it. Entities must
+   * not change in between.
+   */
+  beginFrame(): void {
+    this.frameCopies = new Map();
+  }
+
+  endFrame(): void {
+    this.frameCopies = undefined;
+  }
+
+  encode(clientId: string, frame: ReplicationFrame): EncodedFrame {
+    const client = this.getClient(clientId);
+    const seq = client.nextSeq++;
+    const stored: StoredFrame = {
+      players: this.toMap(frame.players),
+      worms: this.toMap(frame.worms),
+      thumpers: this.toMap(frame.thumpers),
+      outposts: this.toMap(frame.outposts),
+      storms: this.toMap(frame.storms),
+    };
+
+    client.history.set(seq, stored);
+
+    const now = this.now();
+    const baseline = client.ackedSeq !== null ? client.history.get(client.ackedSeq) : undefined;
+    const needsKeyframe =
+      !baseline ||
+      client.ackedSeq === null ||
+      seq - client.ackedSeq > MAX_PENDING_FRAMES ||
+      now - client.lastKeyframeAt >= this.keyframeInterval;
+
+    if (needsKeyframe) {
+      client.lastKeyframeAt = now;
+      this.pruneBefore(client, client.ackedSeq ?? seq);
+      this.trimHistory(client, seq);
+
+      return {
+        keyframe: true,
+        seq,
+        players: Array.from(stored.players.values()),
+        worms: Array.from(stored.worms.values()),
+        thumpers: Array.from(stored.thumpers.values()),
+        outposts: Array.from(stored.outposts.values()),
+        storms: Array.from(stored.storms.values()),
+      };
+    }
+
+    const spawned: EntityRef[] = [];
+    const despawned: EntityRef[] = [];
+
+    return {
+      keyframe: false,
+      seq,
+      baselineSeq: client.ackedSeq!,
+      players: this.diffCollection('player', baseline.players, stored.players, spawned, despawned),
+      worms: this.diffCollection('worm', baseline.worms, stored.worms, spawned, despawned),
+      thumpers: this.diffCollection('thumper', baseline.thumpers, stored.thumpers, spawned, despawned),
+      outposts: this.diffCollection('outpost', baseline.outposts, stored.outposts, spawned, despawned),
+      storms: this.diffCollection('storm', baseline.storms, stored.storms, spawned, despawned),
+      spawned,
+      despawned,
+    };
+  }
+
+  /**
+   * Record that the client has received (and can use as a baseline) frame `seq`
+   */
+  acknowledge(clientId: string, seq: number): void {
+    const client = this.clients.get(clientId);
+    if (!client || !client.history.has(seq)) {
+      return;
+    }
+
+    if (client.ackedSeq !== null && seq <= client.ackedSeq) {
+      return;
+    }
+
+    client.ackedSeq = seq;
+    this.pruneBefore(client, seq);
+  }
+
+  removeClient(clientId: string): void {
+    this.clients.delete(clientId);
+  }
+
+  getAckedSeq(clientId: string): number | null {
+    return this.clients.get(clientId)?.ackedSeq ?? null;
+  }
+
+  /** Stored frames are never mutated, so a copy can be the baseline of several clients */
+  private snapshot<T extends { id: string }>(entity: T): T {
+    const shared = this.frameCopies?.get(entity);
+    if (shared) {
+      return shared as T;
+    }
+    const copy = copyValue(entity);
+    this.frameCopies?.set(entity, copy);
+    return copy;
+  }
+
+  private toMap<T extends { id: string }>(entities: T[]): Map<string, T> {
+    return new Map(entities.map(entity => [entity.id, this.snapshot(entity)]));
+  }
+
+  private getClient(clientId: string): ClientReplication {
+    let client = this.clients.get(clientId);
+    if (!client) {
+      client = {
+        nextSeq: 1,
+        ackedSeq: null,
+        lastKeyframeAt: 0,
+        history: new Map(),
+      };
+      this.clients.set(clientId, client);
+    }
+    return client;
+  }
+
+  private diffCollection<T extends { id: string }>(
+    kind: ReplicatedEntityKind,
+    baseline: Map<string, T>,
+    current: Map<string, T>,
+    spawned: EntityRef[],
+    despawned: EntityRef[]
+  ): EntityDelta<T>[] {
+    const deltas: EntityDelta<T>[] = [];
+
+    for (const [id, entity] of current) {
+      const previous = baseline.get(id);
+      if (!previous) {
+        spawned.push({ kind, id });
+      }
+
+      const delta = diffEntity(previous, entity);
+      if (delta) {
+        deltas.push(delta);
+      }
+    }
+
+    for (const id of baseline.keys()) {
+      if (!current.has(id)) {
+        despawned.push({ kind, id });
+      }
+    }
+
+    return deltas;
+  }
+
+  private pruneBefore(client: ClientReplication, seq: number): void {
+    for (const storedSeq of client.history.keys()) {
+      if (storedSeq < seq) {
+        client.history.delete(storedSeq);
+      }
+    }
+  }
+
+  private trimHistory(client: ClientReplication, latestSeq: number): void {
+    for (const storedSeq of client.history.keys()) {
+      if (latestSeq - storedSeq > MAX_PENDING_FRAMES) {
+        client.history.delete(storedSeq);
+      }
+    }
+  }
+}
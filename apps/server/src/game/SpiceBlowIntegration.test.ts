@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Socket } from 'socket.io';
+import { GameLoop } from './GameLoop';
+import { Room } from './Room';
+import type { RoomPlayer } from './Room';
+import { InMemoryPlayerRepository } from './testing/InMemoryPlayerRepository';
+import { ECONOMY_CONSTANTS, WormAIState } from '@fremen/shared';
+import type { SpiceBlowState } from '@fremen/shared';
+
+describe('Spice blow world events', () => {
+  let room: Room;
+  let gameLoop: GameLoop;
+  let socket: Socket;
+  let player: RoomPlayer;
+
+  const join = async (playerId: string, username: string) => {
+    const playerSocket = { id: `socket-${playerId}`, emit: vi.fn() } as unknown as Socket;
+    await room.addPlayer(playerSocket, playerId, username);
+    const joined = room.getPlayer(playerId)!;
+    gameLoop.onPlayerJoin(joined);
+    return { socket: playerSocket, player: joined };
+  };
+
+  const messages = (target: Socket, event: string) =>
+    (target.emit as ReturnType<typeof vi.fn>).mock.calls
+      .filter(([name]) => name === event)
+      .map(([, payload]) => payload);
+
+  const blowEvents = (target: Socket) =>
+    messages(target, 'event').filter((e: any) => e.eventType === 'spice_blow').map((e: any) => e.data);
+
+  const tick = (seconds: number) => {
+    for (let t = 0; t < seconds; t += 0.1) {
+      vi.advanceTimersByTime(100);
+      (gameLoop as any).registry.update(0.1);
+    }
+  };
+
+  const homeWorm = () => (gameLoop as any).wormAI.getWorm('worm-0');
+
+  /** Announce a blow a short way off the home worm, with the caller well clear */
+  const announceNearWorm = (): SpiceBlowState => {
+    const blow: SpiceBlowState = (gameLoop as any).spiceBlowManager.triggerBlow();
+    const head = homeWorm().controlPoints[0];
+    blow.position = { x: head.x + 60, y: 0, z: head.z };
+    return blow;
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+
+    const repository = new InMemoryPlayerRepository();
+    room = new Room('blow-room', repository);
+    gameLoop = new GameLoop(room, 12345, repository);
+    ({ socket, player } = await join('player1', 'Harvester'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('announces the blow to everyone with a countdown', async () => {
+    const { socket: otherSocket } = await join('player2', 'Watcher');
+
+    const blow = (gameLoop as any).spiceBlowManager.triggerBlow();
+
+    for (const target of [socket, otherSocket]) {
+      expect(blowEvents(target)).toEqual([{
+        id: blow.id,
+        phase: 'warning',
+        position: blow.position,
+        radius: ECONOMY_CONSTANTS.SPICE_BLOW_RADIUS,
+        eruptsIn: ECONOMY_CONSTANTS.SPICE_BLOW_WARNING,
+        decaysIn: ECONOMY_CONSTANTS.SPICE_BLOW_WARNING + ECONOMY_CONSTANTS.SPICE_BLOW_DURATION,
+      }]);
+    }
+  });
+
+  it('tells late joiners about a blow in progress', async () => {
+    const blow = (gameLoop as any).spiceBlowManager.triggerBlow();
+    tick(1);
+
+    const { socket: lateSocket } = await join('player2', 'Latecomer');
+
+    const [event] = blowEvents(lateSocket);
+    expect(event).toMatchObject({ id: blow.id, phase: 'warning' });
+    expect(event.eruptsIn).toBeLessThan(ECONOMY_CONSTANTS.SPICE_BLOW_WARNING);
+  });
+
+  it('streams the field to players standing in it as it erupts', () => {
+    const blow = (gameLoop as any).spiceBlowManager.triggerBlow();
+    player.state.position = { ...blow.position };
+
+    tick(ECONOMY_CONSTANTS.SPICE_BLOW_WARNING / 1000 + 0.1);
+
+    expect(blowEvents(socket).map((e: any) => e.phase)).toEqual(['warning', 'erupted']);
+    const streamed = messages(socket, 'spice').flatMap((m: any) => m.nodes ?? []).map((n: any) => n.id);
+    expect(streamed.filter((id: string) => id.startsWith(`${blow.id}-node-`)).length).toBeGreaterThan(0);
+  });
+
+  it('draws nearby worms to the erupted field', () => {
+    const blow = announceNearWorm();
+    player.state.position = { x: -400, y: 0, z: -400 };
+
+    // Skip the countdown so the worm has no time to roam off
+    blow.eruptsAt = Date.now();
+
+    // Stop as soon as it turns, before it can reach the field and strike
+    const worm = homeWorm();
+    for (let i = 0; i < 40 && worm.aiState !== WormAIState.APPROACHING_NOISE; i++) {
+      tick(0.1);
+    }
+    expect(worm.aiState).toBe(WormAIState.APPROACHING_NOISE);
+    expect(worm.targetPosition).toEqual(blow.position);
+  });
+
+  it('does not draw worms during the countdown', () => {
+    announceNearWorm();
+    player.state.position = { x: -400, y: 0, z: -400 };
+
+    tick(5);
+
+    expect((gameLoop as any).vibrationModel.getInterest('worm-0')).toBe(0);
+  });
+
+  it('removes the field and fails harvests in progress when it decays', () => {
+    const blow = (gameLoop as any).spiceBlowManager.triggerBlow();
+    blow.position = { x: -400, y: 0, z: -400 };
+    tick(ECONOMY_CONSTANTS.SPICE_BLOW_WARNING / 1000 + 0.1);
+
+    const spiceManager = (gameLoop as any).spiceManager;
+    const nodeIds: string[] = spiceManager.getNodeGroup(blow.id);
+    const node = spiceManager.getNode(nodeIds[0]);
+    player.state.position = { ...node.position };
+    tick(1.1);
+    gameLoop.handleHarvestStart('player1', node.id);
+
+    vi.setSystemTime(blow.decaysAt);
+    (gameLoop as any).registry.update(0.1);
+
+    expect(blowEvents(socket).at(-1)).toMatchObject({ id: blow.id, phase: 'decayed' });
+    expect(nodeIds.every(id => spiceManager.getNode(id) === undefined)).toBe(true);
+    expect(messages(socket, 'harvest').at(-1)).toMatchObject({
+      nodeId: node.id,
+      success: false,
+      reason: 'The spice blow has decayed',
+    });
+    const removed = messages(socket, 'spice').flatMap((m: any) => m.removed ?? []);
+    expect(removed).toContain(node.id);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ECONOMY_CONSTANTS } from '@fremen/shared';
+import type { SpiceBlowState } from '@fremen/shared';
+import { SpiceBlowManager } from './SpiceBlowManager';
+import { SpiceManager } from './SpiceManager';
+
+describe('SpiceBlowManager', () => {
+  let now: number;
+  let spiceManager: SpiceManager;
+  let blows: SpiceBlowManager;
+  let changes: SpiceBlowState[];
+
+  beforeEach(() => {
+    now = 0;
+    spiceManager = new SpiceManager(42, 1000);
+    blows = new SpiceBlowManager(12345, spiceManager, 1000, () => now);
+    changes = [];
+    blows.onBlowChange(blow => changes.push({ ...blow }));
+  });
+
+  const advance = (ms: number) => {
+    now += ms;
+    blows.update();
+  };
+
+  it('announces a blow once the interval has passed', () => {
+    advance(ECONOMY_CONSTANTS.SPICE_BLOW_INTERVAL - 1);
+    expect(blows.getActiveBlow()).toBeUndefined();
+
+    advance(1);
+
+    const blow = blows.getActiveBlow()!;
+    expect(blow.phase).toBe('warning');
+    expect(blow.eruptsAt).toBe(now + ECONOMY_CONSTANTS.SPICE_BLOW_WARNING);
+    expect(changes.map(c => c.phase)).toEqual(['warning']);
+    expect(spiceManager.getNodeGroup(blow.id)).toEqual([]);
+  });
+
+  it('erupts into a field of temporary nodes after the countdown', () => {
+    const blow = blows.triggerBlow();
+
+    advance(ECONOMY_CONSTANTS.SPICE_BLOW_WARNING);
+
+    expect(blow.phase).toBe('erupted');
+    expect(spiceManager.getNodeGroup(blow.id)).toHaveLength(ECONOMY_CONSTANTS.SPICE_BLOW_NODE_COUNT);
+    expect(changes.map(c => c.phase)).toEqual(['warning', 'erupted']);
+  });
+
+  it('tears the field down when it decays and schedules the next blow', () => {
+    const blow = blows.triggerBlow();
+    advance(ECONOMY_CONSTANTS.SPICE_BLOW_WARNING);
+
+    advance(ECONOMY_CONSTANTS.SPICE_BLOW_DURATION);
+
+    expect(blows.getActiveBlow()).toBeUndefined();
+    expect(spiceManager.getNodes()).toHaveLength(0);
+    expect(changes.map(c => c.phase)).toEqual(['warning', 'erupted', 'decayed']);
+    expect(blows.getNextBlowAt()).toBe(now + ECONOMY_CONSTANTS.SPICE_BLOW_INTERVAL);
+    expect(blow.id).toBe('spice-blow-0');
+  });
+
+  it('passes harvests cut short by the decay to listeners', () => {
+    const cancelled: string[] = [];
+    blows.onBlowChange((_, sessions) => cancelled.push(...sessions.map(s => s.playerId)));
+    const blow = blows.triggerBlow();
+    advance(ECONOMY_CONSTANTS.SPICE_BLOW_WARNING);
+    const node = spiceManager.getNode(spiceManager.getNodeGroup(blow.id)[0])!;
+    spiceManager.startHarvest('player1', node.id, node.position);
+
+    advance(ECONOMY_CONSTANTS.SPICE_BLOW_DURATION);
+
+    expect(cancelled).toEqual(['player1']);
+  });
+
+  it('runs one blow at a time', () => {
+    const first = blows.triggerBlow();
+
+    expect(blows.triggerBlow()).toBe(first);
+  });
+
+  it('picks the same locations for the same seed', () => {
+    const other = new SpiceBlowManager(12345, new SpiceManager(42, 1000), 1000, () => now);
+
+    expect(other.triggerBlow().position).toEqual(blows.triggerBlow().position);
+  });
+
+  it('keeps blows inside the world', () => {
+    for (let i = 0; i < 20; i++) {
+      const blow = blows.triggerBlow();
+      expect(Math.abs(blow.position.x)).toBeLessThan(500 - blow.radius);
+      expect(Math.abs(blow.position.z)).toBeLessThan(500 - blow.radius);
+      advance(ECONOMY_CONSTANTS.SPICE_BLOW_WARNING);
+      advance(ECONOMY_CONSTANTS.SPICE_BLOW_DURATION);
+    }
+  });
+});
@@ -0,0 +1,126 @@
+import { ECONOMY_CONSTANTS } from '@fremen/shared';
+import type { SpiceBlowState, Vector3 } from '@fremen/shared';
+import type { HarvestSession, SpiceManager } from './SpiceManager';
+import { seededRandom } from '../utils/random.js';
+
+// Keeps blow locations independent of node generation for the same seed
+const BLOW_SEED_OFFSET = 0x5bd1e995;
+
+type BlowListener = (blow: SpiceBlowState, cancelledHarvests: HarvestSession[]) => void;
+type TimestampFn = () => number;
+
+/**
+ * Spice blow world events
+ *
+ * Every SPICE_BLOW_INTERVAL a blow is announced at a seeded location. After a
+ * SPICE_BLOW_WARNING countdown it erupts into a dense, high-supply field of
+ * temporary spice nodes, which decays SPICE_BLOW_DURATION later. Only one
+ * blow runs at a time; the next is scheduled once the last one decays.
+ */
+export class SpiceBlowManager {
+  private readonly rng: () => number;
+  private readonly listeners: BlowListener[] = [];
+  private active?: SpiceBlowState;
+  private nextBlowAt: number;
+  private blowCount = 0;
+
+  constructor(
+    seed: number,
+    private readonly spiceManager: SpiceManager,
+    private readonly worldSize: number = 1000,
+    private readonly now: TimestampFn = () => Date.now()
+  ) {
+    this.rng = seededRandom(seed ^ BLOW_SEED_OFFSET);
+    this.nextBlowAt = this.now() + ECONOMY_CONSTANTS.SPICE_BLOW_INTERVAL;
+  }
+
+  /**
+   * Subscribe to blows being announced, erupting and decaying
+   */
+  onBlowChange(listener: BlowListener): void {
+    this.listeners.push(listener);
+  }
+
+  getActiveBlow(): SpiceBlowState | undefined {
+    return this.active;
+  }
+
+  getNextBlowAt(): number {
+    return this.nextBlowAt;
+  }
+
+  /**
+   * Announce a blow now instead of waiting for the schedule
+   */
+  triggerBlow(): SpiceBlowState {
+    if (this.active) {
+      return this.active;
+    }
+
+    const now = this.now();
+    const eruptsAt = now + ECONOMY_CONSTANTS.SPICE_BLOW_WARNING;
+    this.active = {
+      id: `spice-blow-${this.blowCount++}`,
+      position: this.pickLocation(),
+      radius: ECONOMY_CONSTANTS.SPICE_BLOW_RADIUS,
+      phase: 'warning',
+      eruptsAt,
+      decaysAt: eruptsAt + ECONOMY_CONSTANTS.SPICE_BLOW_DURATION,
+    };
+
+    console.log(`Spice blow ${this.active.id} announced at (${this.active.position.x.toFixed(0)}, ${this.active.position.z.toFixed(0)})`);
+    this.notify(this.active, []);
+    return this.active;
+  }
+
+  update(): void {
+    const now = this.now();
+
+    if (!this.active) {
+      if (now >= this.nextBlowAt) {
+        this.triggerBlow();
+      }
+      return;
+    }
+
+    const blow = this.active;
+    if (blow.phase === 'warning' && now >= blow.eruptsAt) {
+      this.spiceManager.addNodeGroup(
+        blow.id,
+        blow.position,
+        blow.radius,
+        ECONOMY_CONSTANTS.SPICE_BLOW_NODE_COUNT,
+        ECONOMY_CONSTANTS.SPICE_BLOW_NODE_SUPPLY,
+        this.rng
+      );
+      blow.phase = 'erupted';
+      console.log(`Spice blow ${blow.id} erupted`);
+      this.notify(blow, []);
+    }
+
+    if (blow.phase === 'erupted' && now >= blow.decaysAt) {
+      const cancelled = this.spiceManager.removeNodeGroup(blow.id);
+      blow.phase = 'decayed';
+      this.active = undefined;
+      this.nextBlowAt = now + ECONOMY_CONSTANTS.SPICE_BLOW_INTERVAL;
+      console.log(`Spice blow ${blow.id} decayed`);
+      this.notify(blow, cancelled);
+    }
+  }
+
+  private pickLocation(): Vector3 {
+    // Stay clear of the world edge so the whole field is reachable
+    const span = this.worldSize - ECONOMY_CONSTANTS.SPICE_BLOW_RADIUS * 4;
+    return {
+      x: (this.rng() - 0.5) * span,
+      y: 0,
+      z: (this.rng() - 0.5) * span,
+    };
+  }
+
+  private notify(blow: SpiceBlowState, cancelled: HarvestSession[]): void {
+    for (const listener of this.listeners) {
+      listener(blow, cancelled);
+    }
+  }
+}
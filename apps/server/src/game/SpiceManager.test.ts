@@ -403,6 +403,56 @@ describe('VS3: Spice Harvesting System', () => {
     });
   });
 
+  describe('Temporary Node Groups', () => {
+    const center = { x: 200, y: 0, z: -150 };
+
+    it('should scatter a group of full nodes around its center', () => {
+      const nodes = manager.addNodeGroup('blow-1', center, 25, 40, 300);
+
+      expect(nodes).toHaveLength(40);
+      expect(manager.getNodeGroup('blow-1')).toEqual(nodes.map(n => n.id));
+      for (const node of nodes) {
+        const distance = Math.sqrt((node.position.x - center.x) ** 2 + (node.position.z - center.z) ** 2);
+        expect(distance).toBeLessThanOrEqual(25);
+        expect(node.supply).toBe(300);
+        expect(node.maxSupply).toBe(300);
+        expect(manager.getNode(node.id)).toBe(node);
+      }
+    });
+
+    it('should leave generated nodes alone when a group is removed', () => {
+      const generated = manager.generateNodes().length;
+      manager.addNodeGroup('blow-1', center, 25, 40, 300);
+
+      manager.removeNodeGroup('blow-1');
+
+      expect(manager.getNodes()).toHaveLength(generated);
+      expect(manager.getNodeGroup('blow-1')).toEqual([]);
+    });
+
+    it('should cancel and return harvests on removed nodes', () => {
+      const [node] = manager.addNodeGroup('blow-1', center, 25, 40, 300);
+      manager.startHarvest('player1', node.id, node.position);
+
+      const cancelled = manager.removeNodeGroup('blow-1');
+
+      expect(cancelled).toHaveLength(1);
+      expect(cancelled[0]).toMatchObject({ playerId: 'player1', nodeId: node.id });
+      expect(manager.getPlayerHarvestSession('player1')).toBeUndefined();
+    });
+
+    it('should replace an existing group with the same id', () => {
+      manager.addNodeGroup('blow-1', center, 25, 40, 300);
+      manager.addNodeGroup('blow-1', center, 25, 10, 300);
+
+      expect(manager.getNodes()).toHaveLength(10);
+    });
+
+    it('should ignore removing an unknown group', () => {
+      expect(manager.removeNodeGroup('missing')).toEqual([]);
+    });
+  });
+
   describe('Query Methods', () => {
     beforeEach(() => {
       manager.generateNodes();
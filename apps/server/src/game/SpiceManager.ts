@@ -1,12 +1,13 @@
 import { SpiceNode, SpiceNodeState, ECONOMY_CONSTANTS } from '@fremen/shared';
-import type { Vector3 } from '@fremen/shared';
+import type { SpiceNodeChange, Vector3 } from '@fremen/shared';
 import { seededRandom } from '../utils/random.js';
 
-interface HarvestSession {
+export interface HarvestSession {
   id: string;
   playerId: string;
   nodeId: string;
   startTime: number;
+  startPosition: Vector3;
 }
 
 /**
@@ -17,7 +18,9 @@ interface HarvestSession {
  */
 export class SpiceManager {
   private nodes: Map<string, SpiceNode> = new Map();
+  private nodeGroups: Map<string, string[]> = new Map();
   private activeSessions: Map<string, HarvestSession> = new Map();
+  private readonly nodeListeners: Array<(node: SpiceNode, change: SpiceNodeChange) => void> = [];
   private seed: number;
   private worldSize: number;
 
@@ -60,6 +63,87 @@ export class SpiceManager {
     return nodes;
   }
 
+  /**
+   * Add a temporary group of nodes scattered within `radius` of `center`.
+   * The group lives until removeNodeGroup is called with the same id.
+   */
+  addNodeGroup(
+    groupId: string,
+    center: Vector3,
+    radius: number,
+    count: number,
+    supply: number,
+    rng: () => number = Math.random
+  ): SpiceNode[] {
+    if (this.nodeGroups.has(groupId)) {
+      this.removeNodeGroup(groupId);
+    }
+
+    const nodes: SpiceNode[] = [];
+    for (let i = 0; i < count; i++) {
+      const angle = rng() * Math.PI * 2;
+      const distance = Math.sqrt(rng()) * radius;
+
+      const node: SpiceNode = {
+        id: `${groupId}-node-${i}`,
+        position: {
+          x: center.x + Math.cos(angle) * distance,
+          y: 0,
+          z: center.z + Math.sin(angle) * distance,
+        },
+        supply,
+        maxSupply: supply,
+        state: SpiceNodeState.ACTIVE,
+      };
+
+      nodes.push(node);
+      this.nodes.set(node.id, node);
+    }
+
+    this.nodeGroups.set(groupId, nodes.map(node => node.id));
+    console.log(`Added spice node group ${groupId} with ${count} nodes`);
+    return nodes;
+  }
+
+  /**
+   * Remove every node in a group, cancelling harvests in progress on them.
+   * Returns the cancelled sessions so their players can be told.
+   */
+  removeNodeGroup(groupId: string): HarvestSession[] {
+    const nodeIds = this.nodeGroups.get(groupId);
+    if (!nodeIds) {
+      return [];
+    }
+
+    const removed = new Set(nodeIds);
+    const cancelled = Array.from(this.activeSessions.values()).filter(s => removed.has(s.nodeId));
+    for (const session of cancelled) {
+      this.activeSessions.delete(session.id);
+    }
+
+    for (const nodeId of nodeIds) {
+      this.nodes.delete(nodeId);
+    }
+    this.nodeGroups.delete(groupId);
+
+    console.log(`Removed spice node group ${groupId} (${nodeIds.length} nodes, ${cancelled.length} harvests cancelled)`);
+    return cancelled;
+  }
+
+  /**
+   * Get the ids of the nodes in a temporary group
+   */
+  getNodeGroup(groupId: string): string[] {
+    return this.nodeGroups.get(groupId) ?? [];
+  }
+
+  /**
+   * Subscribe to supply and lifecycle changes on individual nodes
+   */
+  onNodeChange(listener: (node: SpiceNode, change: SpiceNodeChange) => void): void {
+    this.nodeListeners.push(listener);
+  }
+
   /**
    * Start a harvest session for a player at a node
    * Returns session ID if successful, null if validation fails
@@ -108,6 +192,7 @@ export class SpiceManager {
       playerId,
       nodeId,
       startTime: Date.now(),
+      startPosition: { ...playerPosition },
     };
 
     this.activeSessions.set(sessionId, session);
@@ -151,6 +236,8 @@ export class SpiceManager {
     // Check if node is depleted
     if (node.supply <= 0) {
       this.depleteNode(node.id);
+    } else {
+      this.notifyNodeChange(node, 'harvested');
     }
 
     // Clean up session
@@ -172,6 +259,26 @@ export class SpiceManager {
     }
   }
 
+  /**
+   * Reinstate a session that was cancelled by a disconnect, keeping the
+   * progress made before the connection dropped. Fails if the node can no
+   * longer be harvested or the player already started another harvest.
+   */
+  resumeHarvest(session: HarvestSession, pausedFor: number): boolean {
+    const node = this.nodes.get(session.nodeId);
+    if (!node || node.state !== SpiceNodeState.ACTIVE || node.supply <= 0) {
+      return false;
+    }
+
+    if (this.getPlayerHarvestSession(session.playerId)) {
+      return false;
+    }
+
+    this.activeSessions.set(session.id, { ...session, startTime: session.startTime + pausedFor });
+    console.log(`Resumed harvest session ${session.id} for player ${session.playerId}`);
+    return true;
+  }
+
   /**
    * Cancel all harvest sessions for a player
    */
@@ -198,6 +305,7 @@ export class SpiceManager {
     node.respawnAt = Date.now() + ECONOMY_CONSTANTS.SPICE_NODE_RESPAWN;
 
     console.log(`Node ${nodeId} depleted, respawning at ${new Date(node.respawnAt).toISOString()}`);
+    this.notifyNodeChange(node, 'depleted');
   }
 
   /**
@@ -207,7 +315,8 @@ export class SpiceManager {
     const now = Date.now();
 
     for (const node of this.nodes.values()) {
-      if (node.state === SpiceNodeState.DEPLETED && node.respawnAt && now >= node.respawnAt) {
+      // Only depleted nodes carry respawnAt, so check it before the state
+      if (node.respawnAt && now >= node.respawnAt && node.state === SpiceNodeState.DEPLETED) {
         this.respawnNode(node.id);
       }
     }
@@ -226,6 +335,13 @@ export class SpiceManager {
     node.lastHarvestedBy = undefined;
 
     console.log(`Node ${nodeId} respawned with ${node.supply} supply`);
+    this.notifyNodeChange(node, 'respawned');
+  }
+
+  private notifyNodeChange(node: SpiceNode, change: SpiceNodeChange): void {
+    for (const listener of this.nodeListeners) {
+      listener(node, change);
+    }
   }
 
   /**
@@ -262,6 +378,13 @@ export class SpiceManager {
     return Array.from(this.activeSessions.values()).find(s => s.playerId === playerId);
   }
 
+  /**
+   * Get all in-progress harvest sessions
+   */
+  getActiveSessions(): HarvestSession[] {
+    return Array.from(this.activeSessions.values());
+  }
+
   /**
    * Get number of active nodes
    */
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Socket } from 'socket.io';
+import { ECONOMY_CONSTANTS, GAME_CONSTANTS, SpiceNodeState } from '@fremen/shared';
+import type { SpiceNode } from '@fremen/shared';
+import { SpiceManager } from './SpiceManager';
+import { SpiceNodeStreamer } from './SpiceNodeStreamer';
+import { GameLoop } from './GameLoop';
+import { Room } from './Room';
+import type { RoomPlayer } from './Room';
+import { InMemoryPlayerRepository } from './testing/InMemoryPlayerRepository';
+
+describe('SpiceNodeStreamer', () => {
+  let spiceManager: SpiceManager;
+  let streamer: SpiceNodeStreamer;
+
+  beforeEach(() => {
+    spiceManager = new SpiceManager(7, 100);
+    spiceManager.generateNodes();
+    streamer = new SpiceNodeStreamer(spiceManager, 20, 22);
+  });
+
+  it('streams in only the nodes within range', () => {
+    const update = streamer.updateClient('client', { x: 0, y: 0, z: 0 });
+    const expected = spiceManager.getNodesNearPosition({ x: 0, y: 0, z: 0 }, 20).map(n => n.id);
+
+    expect(update.entered.map(n => n.id).sort()).toEqual(expected.sort());
+    expect(update.exited).toEqual([]);
+  });
+
+  it('does not resend nodes the client already knows', () => {
+    streamer.updateClient('client', { x: 0, y: 0, z: 0 });
+    const update = streamer.updateClient('client', { x: 0, y: 0, z: 0 });
+
+    expect(update.entered).toEqual([]);
+  });
+
+  it('drops nodes once the client moves away', () => {
+    const first = streamer.updateClient('client', { x: -40, y: 0, z: -40 });
+    const update = streamer.updateClient('client', { x: 40, y: 0, z: 40 });
+
+    expect(update.exited.sort()).toEqual(first.entered.map(n => n.id).sort());
+  });
+
+  it('lists the clients subscribed to a node', () => {
+    const { entered } = streamer.updateClient('a', { x: 0, y: 0, z: 0 });
+    streamer.updateClient('b', { x: 45, y: 0, z: 45 });
+    const nodeId = entered[0].id;
+
+    expect(streamer.getSubscribers(nodeId)).toEqual(['a']);
+
+    streamer.removeClient('a');
+    expect(streamer.getSubscribers(nodeId)).toEqual([]);
+  });
+});
+
+describe('GameLoop spice node streaming', () => {
+  let room: Room;
+  let gameLoop: GameLoop;
+  let socket: Socket;
+  let player: RoomPlayer;
+  let node: SpiceNode;
+
+  const spiceMessages = () =>
+    (socket.emit as ReturnType<typeof vi.fn>).mock.calls
+      .filter(([event]) => event === 'spice')
+      .map(([, payload]) => payload);
+
+  const advanceSeconds = (seconds: number) => {
+    const steps = Math.ceil(seconds * GAME_CONSTANTS.TICK_RATE);
+    for (let i = 0; i < steps; i++) {
+      vi.advanceTimersByTime(1000 / GAME_CONSTANTS.TICK_RATE);
+      (gameLoop as any).registry.update(1 / GAME_CONSTANTS.TICK_RATE);
+    }
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+
+    const repository = new InMemoryPlayerRepository();
+    room = new Room('spice-room', repository);
+    gameLoop = new GameLoop(room, 12345, repository);
+
+    socket = { id: 'socket-1', emit: vi.fn() } as unknown as Socket;
+    await room.addPlayer(socket, 'player1', 'Harvester');
+    player = room.getPlayer('player1')!;
+
+    node = (gameLoop as any).spiceManager
+      .getNodes()
+      .find((n: SpiceNode) => Math.abs(n.position.x) < 50 && Math.abs(n.position.z) < 50);
+    player.state.position = { x: node.position.x + 1, y: 1, z: node.position.z };
+    gameLoop.onPlayerJoin(player);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends nearby nodes with their supply and state on join', () => {
+    const [message] = spiceMessages();
+
+    expect(message.type).toBe('S_SPICE_NODES');
+    expect(message.nodes).toContainEqual(
+      expect.objectContaining({
+        id: node.id,
+        supply: ECONOMY_CONSTANTS.SPICE_NODE_MAX_SUPPLY,
+        state: SpiceNodeState.ACTIVE,
+      })
+    );
+    expect(message.nodes[0]).not.toHaveProperty('lastHarvestedBy');
+  });
+
+  it('pushes supply, depletion and respawn changes as they happen', () => {
+    const harvests = ECONOMY_CONSTANTS.SPICE_NODE_MAX_SUPPLY / ECONOMY_CONSTANTS.SPICE_HARVEST_AMOUNT;
+    for (let i = 0; i < harvests; i++) {
+      gameLoop.handleHarvestStart('player1', node.id);
+      advanceSeconds(ECONOMY_CONSTANTS.HARVEST_DURATION / 1000 + 0.1);
+    }
+
+    const updates = () => spiceMessages().filter(m => m.type === 'S_SPICE_NODE_UPDATE' && m.node.id === node.id);
+    expect(updates()[0]).toMatchObject({
+      change: 'harvested',
+      node: { supply: ECONOMY_CONSTANTS.SPICE_NODE_MAX_SUPPLY - ECONOMY_CONSTANTS.SPICE_HARVEST_AMOUNT },
+    });
+    expect(updates().at(-1)).toMatchObject({ change: 'depleted', node: { supply: 0, state: SpiceNodeState.DEPLETED } });
+
+    vi.advanceTimersByTime(ECONOMY_CONSTANTS.SPICE_NODE_RESPAWN);
+    (gameLoop as any).registry.update(1 / GAME_CONSTANTS.TICK_RATE);
+
+    expect(updates().at(-1)).toMatchObject({ change: 'respawned', node: { state: SpiceNodeState.ACTIVE } });
+  });
+
+  it('streams nodes out when the player walks away', () => {
+    const [initial] = spiceMessages();
+    player.state.position = { x: node.position.x + 400, y: 1, z: node.position.z };
+
+    advanceSeconds(1.1);
+
+    const removal = spiceMessages().find(m => m.type === 'S_SPICE_NODES' && m.removed.length > 0);
+    expect(removal.removed).toEqual(expect.arrayContaining(initial.nodes.map((n: SpiceNode) => n.id)));
+  });
+});
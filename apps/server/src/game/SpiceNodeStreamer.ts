@@ -0,0 +1,76 @@
+import { ECONOMY_CONSTANTS } from '@fremen/shared';
+import type { SpiceNode, Vector3 } from '@fremen/shared';
+import type { SpiceManager } from './SpiceManager';
+
+export interface SpiceNodeStreamUpdate {
+  entered: SpiceNode[];
+  exited: string[];
+}
+
+/**
+ * Per-client spice node streaming
+ *
+ * The world holds thousands of spice nodes, so each client only learns about
+ * the ones around it. Nodes are streamed in inside `range` and dropped once
+ * beyond `exitRange`; while a node is known, its supply and lifecycle changes
+ * are pushed to that client as they happen.
+ */
+export class SpiceNodeStreamer {
+  private readonly knownNodes: Map<string, Set<string>> = new Map();
+  private readonly exitRange: number;
+
+  constructor(
+    private readonly spiceManager: SpiceManager,
+    private readonly range: number = ECONOMY_CONSTANTS.SPICE_NODE_STREAM_RANGE,
+    exitRange?: number
+  ) {
+    this.exitRange = Math.max(range, exitRange ?? range * 1.1);
+  }
+
+  /**
+   * Recompute which nodes a client should know about around its position
+   */
+  updateClient(clientId: string, position: Vector3): SpiceNodeStreamUpdate {
+    const previous = this.knownNodes.get(clientId) ?? new Set<string>();
+    const next = new Set<string>();
+    const entered: SpiceNode[] = [];
+    const rangeSq = this.range * this.range;
+
+    for (const node of this.spiceManager.getNodesNearPosition(position, this.exitRange)) {
+      const dx = node.position.x - position.x;
+      const dz = node.position.z - position.z;
+      const inRange = dx * dx + dz * dz <= rangeSq;
+
+      if (!inRange && !previous.has(node.id)) {
+        continue;
+      }
+
+      next.add(node.id);
+      if (!previous.has(node.id)) {
+        entered.push(node);
+      }
+    }
+
+    const exited = Array.from(previous).filter(id => !next.has(id));
+    this.knownNodes.set(clientId, next);
+
+    return { entered, exited };
+  }
+
+  /**
+   * Clients that currently know about a node and should receive its changes
+   */
+  getSubscribers(nodeId: string): string[] {
+    const subscribers: string[] = [];
+    for (const [clientId, nodes] of this.knownNodes) {
+      if (nodes.has(nodeId)) {
+        subscribers.push(clientId);
+      }
+    }
+    return subscribers;
+  }
+
+  removeClient(clientId: string): void {
+    this.knownNodes.delete(clientId);
+  }
+}
@@ -49,6 +49,7 @@ describe('SystemRegistry', () => {
         deaths: 0,
         wormsRidden: 0,
         outpostsCaptured: 0,
+        corpsesRecovered: 0,
       },
       inventory: [],
     },
@@ -56,6 +57,9 @@ describe('SystemRegistry', () => {
     lastInputSeq: 0,
     connectedAt: Date.now(),
     thumperCount: 3,
+    resumeToken: 'resume-token',
+    resumed: false,
+    sandwalking: false,
   });
 
   it('updates systems in registration order', () => {
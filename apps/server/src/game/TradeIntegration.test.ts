@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Socket } from 'socket.io';
+import { GameLoop } from './GameLoop';
+import { Room } from './Room';
+import type { RoomPlayer } from './Room';
+import { InMemoryPlayerRepository } from './testing/InMemoryPlayerRepository';
+import { MERCHANT_PRICES, PlayerStateEnum } from '@fremen/shared';
+
+describe('VS3: Sietch merchant trading through the game loop', () => {
+  let room: Room;
+  let gameLoop: GameLoop;
+  let repository: InMemoryPlayerRepository;
+  let socket: Socket;
+  let player: RoomPlayer;
+
+  const tradeMessages = () =>
+    (socket.emit as ReturnType<typeof vi.fn>).mock.calls
+      .filter(([event]) => event === 'trade')
+      .map(([, payload]) => payload);
+
+  beforeEach(async () => {
+    repository = new InMemoryPlayerRepository();
+    room = new Room('trade-room', repository);
+    gameLoop = new GameLoop(room, 12345, repository);
+
+    socket = { id: 'socket-1', emit: vi.fn() } as unknown as Socket;
+    await room.addPlayer(socket, 'player1', 'Trader');
+    player = room.getPlayer('player1')!;
+    gameLoop.onPlayerJoin(player);
+
+    player.state.position = { x: 5, y: 1, z: 5 };
+    player.resources.spice = 100;
+  });
+
+  it('sends the catalog with buy and sell prices', () => {
+    gameLoop.handleCatalogRequest('player1');
+
+    const [catalog] = tradeMessages();
+    expect(catalog.type).toBe('S_CATALOG');
+    expect(catalog.safeZoneRadius).toBeGreaterThan(0);
+    expect(catalog.items).toContainEqual(
+      expect.objectContaining({
+        price: MERCHANT_PRICES['basic-stillsuit'],
+        sellPrice: MERCHANT_PRICES['basic-stillsuit'] / 2,
+      })
+    );
+  });
+
+  it('applies a purchase to resources and persists it', () => {
+    const result = gameLoop.handleTradeBuy('player1', 'basic-stillsuit');
+
+    expect(result.success).toBe(true);
+    expect(player.resources.spice).toBe(100 - MERCHANT_PRICES['basic-stillsuit']);
+    expect(player.resources.inventory).toContainEqual(expect.objectContaining({ type: 'STILLSUIT', quantity: 1 }));
+    expect(repository.getSnapshot('player1')?.resources?.spice).toBe(player.resources.spice);
+    expect(tradeMessages().at(-1)).toMatchObject({
+      type: 'S_TRADE_RESULT',
+      action: 'buy',
+      success: true,
+      spice: player.resources.spice,
+    });
+  });
+
+  it('credits half the price when selling', () => {
+    const startingInventory = player.resources.inventory;
+    gameLoop.handleTradeBuy('player1', 'basic-stillsuit');
+    const result = gameLoop.handleTradeSell('player1', 'basic-stillsuit');
+
+    expect(result.success).toBe(true);
+    expect(player.resources.spice).toBe(100 - MERCHANT_PRICES['basic-stillsuit'] / 2);
+    expect(player.resources.inventory).toEqual(startingInventory);
+  });
+
+  it('rejects trades outside the Sietch safe zone', () => {
+    player.state.position = { x: 200, y: 1, z: 200 };
+
+    const result = gameLoop.handleTradeBuy('player1', 'basic-stillsuit');
+
+    expect(result.success).toBe(false);
+    expect(player.resources.spice).toBe(100);
+    expect(tradeMessages().at(-1)).toMatchObject({ success: false, reason: 'Must be inside the Sietch to trade' });
+  });
+
+  it('rejects trades while mounted', () => {
+    player.state.state = PlayerStateEnum.RIDING;
+
+    expect(gameLoop.handleTradeBuy('player1', 'basic-stillsuit').success).toBe(false);
+  });
+
+  it('reports merchant errors such as insufficient spice', () => {
+    const result = gameLoop.handleTradeBuy('player1', 'advanced-stillsuit');
+
+    expect(result.success).toBe(false);
+    expect(result.reason).toContain('Insufficient spice');
+    expect(player.resources.spice).toBe(100);
+  });
+});
@@ -419,7 +419,8 @@ describe('VS3: Resource Loop Integration (End-to-End)', () => {
       const initialObjectives = player.resources.stats.objectivesCompleted;
 
       // Position worm at objective
-      const objective = (gameLoop as any).objectiveManager.getActiveObjective();
+      const objective = (gameLoop as any).objectiveManager.offerShepherdObjective('player1', { x: 300, y: 0, z: 300 });
+      (gameLoop as any).objectiveManager.accept('player1', objective.id);
       if (objective) {
         worm.controlPoints[0] = { ...objective.targetPosition, y: 0 };
 
@@ -628,7 +629,8 @@ describe('VS3: Resource Loop Integration (End-to-End)', () => {
 
       gameLoop.handleMountAttempt('player1', worm.id);
 
-      const objective = (gameLoop as any).objectiveManager.getActiveObjective();
+      const objective = (gameLoop as any).objectiveManager.offerShepherdObjective('player1', { x: 300, y: 0, z: 300 });
+      (gameLoop as any).objectiveManager.accept('player1', objective.id);
       if (objective) {
         worm.controlPoints[0] = { ...objective.targetPosition, y: 0 };
         (gameLoop as any).tick();
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Socket } from 'socket.io';
+import { GameLoop } from './GameLoop';
+import { Room } from './Room';
+import type { RoomPlayer } from './Room';
+import { InMemoryPlayerRepository } from './testing/InMemoryPlayerRepository';
+import { EQUIPMENT_CATALOG, WormAIState } from '@fremen/shared';
+
+describe('VS2: Worms drawn by player noise', () => {
+  let room: Room;
+  let gameLoop: GameLoop;
+  let player: RoomPlayer;
+
+  // Moving in place, always a short way off the patrolling home worm
+  const runInPlace = { x: 8, y: 0, z: 0 };
+  const walkInPlace = { x: 4, y: 0, z: 0 };
+
+  let noiseOrigin = { x: 0, y: 0, z: 0 };
+
+  const homeWorm = () => (gameLoop as any).wormAI.getWorm('worm-0');
+
+  const makeNoise = (velocity: { x: number; y: number; z: number }, seconds: number, until?: () => boolean) => {
+    for (let t = 0; t < seconds && !until?.(); t += 0.1) {
+      const head = homeWorm().controlPoints[0];
+      noiseOrigin = { x: head.x + 40, y: 0, z: head.z };
+      player.state.position = { ...noiseOrigin };
+      player.state.velocity = { ...velocity };
+      (gameLoop as any).registry.update(0.1);
+    }
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+
+    const repository = new InMemoryPlayerRepository();
+    room = new Room('noise-room', repository);
+    gameLoop = new GameLoop(room, 12345, repository);
+
+    const socket = { id: 'socket-1', emit: vi.fn() } as unknown as Socket;
+    await room.addPlayer(socket, 'player1', 'Runner');
+    player = room.getPlayer('player1')!;
+    gameLoop.onPlayerJoin(player);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends a nearby worm after a running player', () => {
+    makeNoise(runInPlace, 15, () => homeWorm().aiState !== WormAIState.PATROLLING);
+
+    const worm = homeWorm();
+    expect(worm.aiState).toBe(WormAIState.APPROACHING_NOISE);
+    expect(worm.targetPosition).toEqual(noiseOrigin);
+  });
+
+  it('lets a sandwalking player pass unnoticed', () => {
+    player.sandwalking = true;
+
+    makeNoise(walkInPlace, 10);
+
+    expect(homeWorm().aiState).toBe(WormAIState.PATROLLING);
+    expect((gameLoop as any).vibrationModel.getInterest('worm-0')).toBe(0);
+  });
+
+  it('builds interest more slowly for a player in a stillsuit', () => {
+    makeNoise(runInPlace, 1);
+    const unmuffled = (gameLoop as any).vibrationModel.getInterest('worm-0');
+
+    (gameLoop as any).vibrationModel.reset('worm-0');
+    player.resources.equipment = { body: EQUIPMENT_CATALOG['advanced-stillsuit'] };
+    (gameLoop as any).equipmentStatsCache.delete('player1');
+    makeNoise(runInPlace, 1);
+
+    expect((gameLoop as any).vibrationModel.getInterest('worm-0')).toBeLessThan(unmuffled);
+  });
+});
@@ -243,6 +243,30 @@ describe('VS3: Water Survival System', () => {
     });
   });
 
+  describe('Time of Day Heat', () => {
+    const walker: PlayerState = {
+      id: 'player1',
+      position: { x: 0, y: 0, z: 0 },
+      rotation: 0,
+      velocity: { x: 2, y: 0, z: 0 },
+      state: PlayerStateEnum.ACTIVE,
+    };
+
+    it('should deplete faster in the daytime heat', () => {
+      const newWater = waterSystem.calculateWaterDepletion(100, walker, 60, 0, 1.5);
+
+      // WALKING: -1.0/min * 1.5 = -1.5
+      expect(newWater).toBeCloseTo(98.5, 2);
+    });
+
+    it('should deplete slower at night, after the stillsuit', () => {
+      const newWater = waterSystem.calculateWaterDepletion(100, walker, 60, 0.5, 0.6);
+
+      // WALKING: -1.0/min * (1 - 0.5) * 0.6 = -0.3
+      expect(newWater).toBeCloseTo(99.7, 2);
+    });
+  });
+
   describe('Thirst Level Calculation', () => {
     it('should return HYDRATED when water is 100', () => {
       const level = waterSystem.getThirstLevel(100);
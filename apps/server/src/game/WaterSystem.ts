@@ -22,13 +22,15 @@ export class WaterSystem {
    * @param player - Player state
    * @param deltaTime - Time elapsed in seconds
    * @param stillsuitReduction - Water reduction percentage from stillsuit (0-1)
+   * @param heatMultiplier - Time-of-day multiplier on the depletion rate
    * @returns New water level clamped to 0-100
    */
   calculateWaterDepletion(
     currentWater: number,
     player: PlayerState,
     deltaTime: number,
-    stillsuitReduction: number = 0
+    stillsuitReduction: number = 0,
+    heatMultiplier: number = 1
   ): number {
     // Dead players don't lose water
     if (player.state === PlayerStateEnum.DEAD) {
@@ -47,7 +49,8 @@ export class WaterSystem {
     const baseRate = this.getDepletionRate(activity);
 
     // Apply stillsuit reduction
-    const effectiveRate = baseRate * (1 - Math.min(1, Math.max(0, stillsuitReduction)));
+    const effectiveRate =
+      baseRate * (1 - Math.min(1, Math.max(0, stillsuitReduction))) * Math.max(0, heatMultiplier);
 
     // Calculate depletion for this time period
     // deltaTime is in seconds, rate is per minute
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Socket } from 'socket.io';
+import { GameLoop } from './GameLoop';
+import { Room } from './Room';
+import type { RoomPlayer } from './Room';
+import { InMemoryPlayerRepository } from './testing/InMemoryPlayerRepository';
+import { EQUIPMENT_CATALOG, GAME_CONSTANTS, WEATHER_CONSTANTS } from '@fremen/shared';
+import type { StormState } from '@fremen/shared';
+
+describe('Sandstorms', () => {
+  let room: Room;
+  let gameLoop: GameLoop;
+  let socket: Socket;
+  let player: RoomPlayer;
+
+  const tick = (seconds: number) => {
+    for (let t = 0; t < seconds; t += 0.1) {
+      vi.advanceTimersByTime(100);
+      (gameLoop as any).registry.update(0.1);
+    }
+  };
+
+  /** A full-strength storm parked on top of `position` */
+  const stormAt = (position: { x: number; z: number }): StormState => {
+    const storm: StormState = (gameLoop as any).weatherManager.triggerStorm({ x: 0, y: 0, z: 0 }, 0);
+    storm.velocity = { x: 0, y: 0, z: 0 };
+    tick(WEATHER_CONSTANTS.STORM_FADE / 1000);
+    storm.position = { x: position.x, y: 0, z: position.z };
+    return storm;
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+
+    const repository = new InMemoryPlayerRepository();
+    room = new Room('storm-room', repository);
+    gameLoop = new GameLoop(room, 12345, repository);
+
+    socket = { id: 'socket-player1', emit: vi.fn() } as unknown as Socket;
+    await room.addPlayer(socket, 'player1', 'Walker');
+    player = room.getPlayer('player1')!;
+    gameLoop.onPlayerJoin(player);
+    player.state.position = { x: 0, y: 0, z: 0 };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('replicates storm fronts to every client', () => {
+    const storm = stormAt({ x: 400, z: 400 });
+    (gameLoop as any).broadcastState();
+
+    const frames = (socket.emit as ReturnType<typeof vi.fn>).mock.calls
+      .filter(([name]) => name === 'state' || name === 'snapshot');
+    const latest = frames[frames.length - 1][1];
+    const storms = latest.storms.map((s: any) => s.id);
+
+    expect(storms).toContain(storm.id);
+  });
+
+  it('wears down players without headgear', () => {
+    stormAt(player.state.position);
+    const before = player.health;
+
+    tick(5);
+
+    expect(player.health).toBeLessThan(before);
+  });
+
+  it('spares players wearing headgear', () => {
+    player.resources.equipment.head = EQUIPMENT_CATALOG['desert-hood'];
+    stormAt(player.state.position);
+    const before = player.health;
+
+    tick(5);
+
+    expect(player.health).toBe(before);
+  });
+
+  it('drains water faster inside a storm', () => {
+    const walk = () => {
+      player.resources.water = 100;
+      player.state.velocity = { x: 2, y: 0, z: 0 };
+      player.state.position = { x: 0, y: 0, z: 0 };
+      tick(5);
+      return 100 - player.resources.water;
+    };
+
+    const clear = walk();
+    stormAt({ x: 0, z: 0 });
+    const stormy = walk();
+
+    expect(stormy).toBeGreaterThan(clear * 1.5);
+  });
+
+  it('makes ridden worms harder to turn', () => {
+    const wormAI = (gameLoop as any).wormAI;
+    wormAI.mountWorm('worm-0', 'player1');
+    const worm = wormAI.getWorm('worm-0');
+
+    const turn = () => {
+      worm.heading = 0;
+      gameLoop.handleWormControl('worm-0', 1, 0);
+      return worm.heading;
+    };
+
+    const clear = turn();
+    const storm = stormAt(worm.controlPoints[0]);
+    // Wind along the worm's heading, so only handling differs
+    storm.velocity = { x: 0, y: 0, z: 1 };
+    storm.position = { ...worm.controlPoints[0] };
+
+    expect(turn()).toBeCloseTo(clear * WEATHER_CONSTANTS.STORM_STEER_SCALE);
+    expect(clear).toBeCloseTo(GAME_CONSTANTS.WORM_TURN_RATE / GAME_CONSTANTS.TICK_RATE);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { WEATHER_CONSTANTS } from '@fremen/shared';
+import { WeatherManager } from './WeatherManager';
+
+describe('WeatherManager', () => {
+  let now: number;
+  let weather: WeatherManager;
+
+  beforeEach(() => {
+    now = 0;
+    weather = new WeatherManager(12345, 1000, () => now);
+  });
+
+  const advance = (seconds: number) => {
+    now += seconds * 1000;
+    weather.update(seconds);
+  };
+
+  it('forms a front on the world edge once the interval has passed', () => {
+    advance(WEATHER_CONSTANTS.STORM_INTERVAL / 1000 - 1);
+    expect(weather.getStorms()).toEqual([]);
+
+    advance(1);
+
+    const [storm] = weather.getStorms();
+    // Already a step in from the edge after its first update
+    const fromCentre = Math.hypot(storm.position.x, storm.position.z);
+    expect(fromCentre).toBeLessThan(500);
+    expect(fromCentre).toBeGreaterThan(500 - WEATHER_CONSTANTS.STORM_SPEED * 2);
+    expect(Math.hypot(storm.velocity.x, storm.velocity.z)).toBeCloseTo(WEATHER_CONSTANTS.STORM_SPEED);
+  });
+
+  it('forms fronts in the same places for the same seed', () => {
+    const other = new WeatherManager(12345, 1000, () => now);
+
+    expect(weather.triggerStorm()).toEqual(other.triggerStorm());
+  });
+
+  it('drifts across the map', () => {
+    const storm = weather.triggerStorm({ x: 0, y: 0, z: 0 }, Math.PI / 2);
+
+    advance(10);
+
+    expect(storm.position.x).toBeCloseTo(WEATHER_CONSTANTS.STORM_SPEED * 10);
+    expect(storm.position.z).toBeCloseTo(0);
+  });
+
+  it('fades in, holds, and dies out', () => {
+    const storm = weather.triggerStorm({ x: 0, y: 0, z: 0 }, 0);
+
+    advance(WEATHER_CONSTANTS.STORM_FADE / 2000);
+    expect(storm.intensity).toBeCloseTo(0.5);
+
+    advance(WEATHER_CONSTANTS.STORM_FADE / 2000);
+    expect(storm.intensity).toBe(1);
+
+    advance((WEATHER_CONSTANTS.STORM_DURATION - WEATHER_CONSTANTS.STORM_FADE) / 1000);
+    expect(weather.getStorms()).toEqual([]);
+    expect(weather.getNextStormAt()).toBe(now + WEATHER_CONSTANTS.STORM_INTERVAL);
+  });
+
+  it('reports storm strength and wind direction at a position', () => {
+    weather.triggerStorm({ x: 0, y: 0, z: 0 }, Math.PI / 2);
+    advance(WEATHER_CONSTANTS.STORM_FADE / 1000);
+
+    const inside = weather.getConditions({ x: 80, y: 0, z: 0 });
+    expect(inside.strength).toBe(1);
+    expect(inside.windHeading).toBeCloseTo(Math.PI / 2);
+
+    expect(weather.getConditions({ x: 400, y: 0, z: 400 }).strength).toBe(0);
+  });
+});
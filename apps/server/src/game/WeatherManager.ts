@@ -0,0 +1,138 @@
+import { WEATHER_CONSTANTS, getStrongestStorm } from '@fremen/shared';
+import type { StormState, Vector3 } from '@fremen/shared';
+import { seededRandom } from '../utils/random.js';
+
+// Keeps storm tracks independent of other seeded world content
+const STORM_SEED_OFFSET = 0x27d4eb2f;
+
+type TimestampFn = () => number;
+
+interface StormFront {
+  state: StormState;
+  formedAt: number;
+  diesAt: number;
+}
+
+/** How hard the nearest storm hits a position, and which way its wind blows */
+export interface StormConditions {
+  /** 0 (clear) to 1 (core of a full-strength storm) */
+  strength: number;
+  /** Heading the wind blows towards, in the same convention as worm headings */
+  windHeading: number;
+}
+
+const CLEAR: StormConditions = { strength: 0, windHeading: 0 };
+
+/**
+ * Sandstorm fronts
+ *
+ * Every STORM_INTERVAL a front forms at a seeded point on the world edge and
+ * drifts across at STORM_SPEED towards the far side. It fades in and out
+ * over STORM_FADE and dies out after STORM_DURATION. Only one front runs at
+ * a time; the next is scheduled once the last one dies out.
+ */
+export class WeatherManager {
+  private readonly rng: () => number;
+  private readonly fronts = new Map<string, StormFront>();
+  private nextStormAt: number;
+  private stormCount = 0;
+
+  constructor(
+    seed: number,
+    private readonly worldSize: number = 1000,
+    private readonly now: TimestampFn = () => Date.now()
+  ) {
+    this.rng = seededRandom(seed ^ STORM_SEED_OFFSET);
+    this.nextStormAt = this.now() + WEATHER_CONSTANTS.STORM_INTERVAL;
+  }
+
+  getStorms(): StormState[] {
+    return Array.from(this.fronts.values(), front => front.state);
+  }
+
+  getNextStormAt(): number {
+    return this.nextStormAt;
+  }
+
+  getConditions(position: Vector3): StormConditions {
+    const strongest = getStrongestStorm(this.getStorms(), position);
+    if (!strongest) {
+      return CLEAR;
+    }
+
+    const { velocity } = strongest.storm;
+    return {
+      strength: strongest.strength,
+      windHeading: Math.atan2(velocity.x, velocity.z),
+    };
+  }
+
+  /**
+   * Form a front now instead of waiting for the schedule. Without a position
+   * it forms at a seeded point on the world edge heading across the map.
+   */
+  triggerStorm(position?: Vector3, heading?: number): StormState {
+    const edge = this.pickEdge();
+    const start = position ?? edge.position;
+    const direction = heading ?? edge.heading;
+    const now = this.now();
+
+    const state: StormState = {
+      id: `storm-${this.stormCount++}`,
+      position: { ...start },
+      velocity: {
+        x: Math.sin(direction) * WEATHER_CONSTANTS.STORM_SPEED,
+        y: 0,
+        z: Math.cos(direction) * WEATHER_CONSTANTS.STORM_SPEED,
+      },
+      radius: WEATHER_CONSTANTS.STORM_RADIUS,
+      intensity: 0,
+    };
+
+    this.fronts.set(state.id, {
+      state,
+      formedAt: now,
+      diesAt: now + WEATHER_CONSTANTS.STORM_DURATION,
+    });
+
+    console.log(`Sandstorm ${state.id} forming at (${start.x.toFixed(0)}, ${start.z.toFixed(0)})`);
+    return state;
+  }
+
+  update(deltaTime: number): void {
+    const now = this.now();
+
+    if (this.fronts.size === 0 && now >= this.nextStormAt) {
+      this.triggerStorm();
+    }
+
+    for (const [id, front] of this.fronts) {
+      if (now >= front.diesAt) {
+        this.fronts.delete(id);
+        this.nextStormAt = now + WEATHER_CONSTANTS.STORM_INTERVAL;
+        console.log(`Sandstorm ${id} died out`);
+        continue;
+      }
+
+      const { state } = front;
+      state.position = {
+        x: state.position.x + state.velocity.x * deltaTime,
+        y: 0,
+        z: state.position.z + state.velocity.z * deltaTime,
+      };
+
+      const fade = Math.min(now - front.formedAt, front.diesAt - now) / WEATHER_CONSTANTS.STORM_FADE;
+      state.intensity = Math.max(0, Math.min(1, fade));
+    }
+  }
+
+  private pickEdge(): { position: Vector3; heading: number } {
+    const half = this.worldSize / 2;
+    const angle = this.rng() * Math.PI * 2;
+    const position = { x: Math.sin(angle) * half, y: 0, z: Math.cos(angle) * half };
+
+    // Aim roughly through the middle of the map
+    const spread = (this.rng() - 0.5) * (Math.PI / 3);
+    return { position, heading: angle + Math.PI + spread };
+  }
+}
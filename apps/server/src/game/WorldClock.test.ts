@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { DAY_NIGHT_CONSTANTS } from '@fremen/shared';
+import { WorldClock } from './WorldClock';
+
+describe('WorldClock', () => {
+  const DAY = DAY_NIGHT_CONSTANTS.DAY_LENGTH;
+
+  function createClock(startTimeOfDay = 0.25) {
+    let now = 1000;
+    const clock = new WorldClock(() => now, startTimeOfDay);
+    return { clock, advance: (ms: number) => { now += ms; } };
+  }
+
+  it('should start at the configured time of day', () => {
+    const { clock } = createClock();
+
+    expect(clock.getWorldTime()).toEqual({ timeOfDay: 0.25, day: 0 });
+  });
+
+  it('should advance through the day and roll over at midnight', () => {
+    const { clock, advance } = createClock();
+
+    advance(DAY / 4);
+    expect(clock.getWorldTime().timeOfDay).toBeCloseTo(0.5);
+
+    advance(DAY / 2);
+    const time = clock.getWorldTime();
+    expect(time.timeOfDay).toBeCloseTo(0);
+    expect(time.day).toBe(1);
+  });
+
+  it('should be neutral at sunrise', () => {
+    const { clock } = createClock();
+
+    expect(clock.getWaterMultiplier()).toBeCloseTo(1);
+    expect(clock.getVisionScale()).toBeCloseTo(1);
+    expect(clock.getWormActivity()).toBeCloseTo(1);
+  });
+
+  it('should drain more water and slow worms at noon', () => {
+    const { clock } = createClock(0.5);
+
+    expect(clock.getWaterMultiplier()).toBeCloseTo(DAY_NIGHT_CONSTANTS.DAY_WATER_MULTIPLIER);
+    expect(clock.getVisionScale()).toBeCloseTo(1);
+    expect(clock.getWormActivity()).toBeCloseTo(DAY_NIGHT_CONSTANTS.DAY_WORM_ACTIVITY);
+  });
+
+  it('should drain less water, shorten sight and stir worms at midnight', () => {
+    const { clock } = createClock(0);
+
+    expect(clock.getWaterMultiplier()).toBeCloseTo(DAY_NIGHT_CONSTANTS.NIGHT_WATER_MULTIPLIER);
+    expect(clock.getVisionScale()).toBeCloseTo(DAY_NIGHT_CONSTANTS.NIGHT_VISION_SCALE);
+    expect(clock.getWormActivity()).toBeCloseTo(DAY_NIGHT_CONSTANTS.NIGHT_WORM_ACTIVITY);
+  });
+});
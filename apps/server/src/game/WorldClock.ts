@@ -0,0 +1,48 @@
+import { DAY_NIGHT_CONSTANTS, scaleByTimeOfDay } from '@fremen/shared';
+import type { WorldTime } from '@fremen/shared';
+
+type TimestampFn = () => number;
+
+/**
+ * Server-authoritative day/night clock
+ *
+ * Time of day advances with wall-clock time from the moment the world is
+ * created, one full cycle every DAY_LENGTH. Systems read their time-of-day
+ * multipliers from here, and clients receive the same time in every state
+ * update so lighting stays in step with gameplay.
+ */
+export class WorldClock {
+  private readonly startedAt: number;
+
+  constructor(
+    private readonly now: TimestampFn = () => Date.now(),
+    private readonly startTimeOfDay: number = DAY_NIGHT_CONSTANTS.START_TIME_OF_DAY
+  ) {
+    this.startedAt = this.now();
+  }
+
+  getWorldTime(): WorldTime {
+    const elapsedDays = Math.max(0, this.now() - this.startedAt) / DAY_NIGHT_CONSTANTS.DAY_LENGTH + this.startTimeOfDay;
+    const day = Math.floor(elapsedDays);
+    return { timeOfDay: elapsedDays - day, day };
+  }
+
+  /** Multiplier on water depletion: hotter days, cooler nights */
+  getWaterMultiplier(): number {
+    return this.scale(DAY_NIGHT_CONSTANTS.NIGHT_WATER_MULTIPLIER, DAY_NIGHT_CONSTANTS.DAY_WATER_MULTIPLIER);
+  }
+
+  /** Multiplier on trooper vision range; full range by day */
+  getVisionScale(): number {
+    return this.scale(DAY_NIGHT_CONSTANTS.NIGHT_VISION_SCALE, 1);
+  }
+
+  /** Multiplier on worm speed and hearing; worms are sluggish in the heat */
+  getWormActivity(): number {
+    return this.scale(DAY_NIGHT_CONSTANTS.NIGHT_WORM_ACTIVITY, DAY_NIGHT_CONSTANTS.DAY_WORM_ACTIVITY);
+  }
+
+  private scale(nightScale: number, dayScale: number): number {
+    return scaleByTimeOfDay(nightScale, dayScale, this.getWorldTime().timeOfDay);
+  }
+}
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { WormAI } from './sim/WormAI';
-import { WormAIState, GAME_CONSTANTS } from '@fremen/shared';
+import { WormAIState, GAME_CONSTANTS, WEATHER_CONSTANTS } from '@fremen/shared';
 
 describe('VS2: Worm Steering System', () => {
   let wormAI: WormAI;
@@ -8,6 +8,7 @@ describe('VS2: Worm Steering System', () => {
 
   beforeEach(() => {
     wormAI = new WormAI();
+    wormAI.spawnWorm('worm-0', { x: 50, y: 0, z: 50 });
   });
 
   describe('Steering Preconditions', () => {
@@ -460,6 +461,7 @@ describe('VS2: Worm Steering System', () => {
 
       // Reset and try at low speed
       const worms2 = new WormAI();
+      worms2.spawnWorm('worm-0', { x: 50, y: 0, z: 50 });
       worms2.mountWorm('worm-0', 'player1');
       const w2 = worms2.getWorms()[0];
       w2.speed = GAME_CONSTANTS.WORM_MIN_SPEED;
@@ -477,6 +479,34 @@ describe('VS2: Worm Steering System', () => {
     });
   });
 
+  describe('Steering in a Sandstorm', () => {
+    beforeEach(() => {
+      wormAI.mountWorm('worm-0', 'player1');
+      wormAI.getWorm('worm-0')!.heading = 0;
+    });
+
+    it('should turn more slowly inside a storm', () => {
+      // Wind along the current heading exerts no pull
+      wormAI.steerWorm('worm-0', 1.0, 0, DELTA_TIME, 1, 0);
+
+      expect(wormAI.getWorm('worm-0')!.heading).toBeCloseTo(
+        GAME_CONSTANTS.WORM_TURN_RATE * WEATHER_CONSTANTS.STORM_STEER_SCALE * DELTA_TIME
+      );
+    });
+
+    it('should be swung towards the wind without rider input', () => {
+      wormAI.steerWorm('worm-0', 0, 0, DELTA_TIME, 1, Math.PI / 2);
+
+      expect(wormAI.getWorm('worm-0')!.heading).toBeCloseTo(WEATHER_CONSTANTS.STORM_WIND_TURN_RATE * DELTA_TIME);
+    });
+
+    it('should handle normally in clear weather', () => {
+      wormAI.steerWorm('worm-0', 0, 0, DELTA_TIME, 0, Math.PI / 2);
+
+      expect(wormAI.getWorm('worm-0')!.heading).toBe(0);
+    });
+  });
+
   describe('Edge Cases and Robustness', () => {
     beforeEach(() => {
       wormAI.mountWorm('worm-0', 'player1');
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Socket } from 'socket.io';
+import { GameLoop } from './GameLoop';
+import { Room } from './Room';
+import type { RoomPlayer } from './Room';
+import { InMemoryPlayerRepository } from './testing/InMemoryPlayerRepository';
+import { PlayerStateEnum, WormAIState } from '@fremen/shared';
+
+describe('VS2: Worm strikes on thumpers and walkers', () => {
+  let room: Room;
+  let gameLoop: GameLoop;
+  let socket: Socket;
+  let player: RoomPlayer;
+
+  const strikeSite = { x: 70, y: 0, z: 50 };
+  // Out of the worm's reach but close enough to watch the strike
+  const lookout = { x: strikeSite.x - 100, y: 0, z: strikeSite.z };
+
+  const join = async (playerId: string, username: string) => {
+    const playerSocket = { id: `socket-${playerId}`, emit: vi.fn() } as unknown as Socket;
+    await room.addPlayer(playerSocket, playerId, username);
+    const joined = room.getPlayer(playerId)!;
+    gameLoop.onPlayerJoin(joined);
+    return { socket: playerSocket, player: joined };
+  };
+
+  const messages = (target: Socket, event: string) =>
+    (target.emit as ReturnType<typeof vi.fn>).mock.calls
+      .filter(([name]) => name === event)
+      .map(([, payload]) => payload);
+
+  const strikeEvents = (target: Socket) =>
+    messages(target, 'event').filter((e: any) => e.eventType === 'worm_strike');
+
+  const runUntilStrike = (maxSeconds = 10) => {
+    for (let t = 0; t < maxSeconds && strikeEvents(socket).length === 0; t += 0.1) {
+      (gameLoop as any).registry.update(0.1);
+      (gameLoop as any).broadcastState();
+    }
+  };
+
+  const deployThumperAt = (position: { x: number; y: number; z: number }) => {
+    player.state.position = { ...position };
+    expect(room.deployThumper(player.playerId)).toBe(true);
+    return room.getActiveThumpers().at(-1)!;
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+
+    const repository = new InMemoryPlayerRepository();
+    room = new Room('strike-room', repository);
+    gameLoop = new GameLoop(room, 12345, repository);
+    ({ socket, player } = await join('player1', 'Caller'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('consumes the thumper the worm was called to', () => {
+    const thumper = deployThumperAt(strikeSite);
+    player.state.position = { ...lookout };
+
+    runUntilStrike();
+
+    const [strike] = strikeEvents(socket);
+    expect(strike.data).toMatchObject({ wormId: 'worm-0', thumperId: thumper.id, victimIds: [] });
+    expect(room.getThumpers().find(t => t.id === thumper.id)).toBeUndefined();
+  });
+
+  it('swallows only the called thumper when another stands within reach', () => {
+    const bystanderThumper = deployThumperAt(strikeSite);
+    const calledThumper = deployThumperAt({ x: strikeSite.x + 5, y: 0, z: strikeSite.z });
+    player.state.position = { ...lookout };
+
+    runUntilStrike();
+
+    const [strike] = strikeEvents(socket);
+    expect(strike.data.thumperId).toBe(calledThumper.id);
+    expect(room.getThumpers().find(t => t.id === calledThumper.id)).toBeUndefined();
+    expect(room.getThumpers().find(t => t.id === bystanderThumper.id)).toBeDefined();
+  });
+
+  it('returns the worm to patrol after striking', () => {
+    deployThumperAt(strikeSite);
+    player.state.position = { ...lookout };
+
+    runUntilStrike();
+
+    expect((gameLoop as any).wormAI.getWorm('worm-0').aiState).toBe(WormAIState.PATROLLING);
+  });
+
+  it('kills walkers caught near the head through environment damage', () => {
+    deployThumperAt(strikeSite);
+    player.state.position = { x: strikeSite.x + 1, y: 0, z: strikeSite.z };
+
+    runUntilStrike();
+
+    const [strike] = strikeEvents(socket);
+    expect(strike.data.victimIds).toEqual(['player1']);
+
+    const deaths = messages(socket, 'combat').filter((m: any) => m.event.type === 'death');
+    expect(deaths).toHaveLength(1);
+    expect(deaths[0].event).toMatchObject({ targetId: 'player1', source: 'environment' });
+    expect(player.resources.stats.deaths).toBe(1);
+  });
+
+  it('spares walkers outside the strike radius', async () => {
+    const { player: bystander } = await join('player2', 'Bystander');
+    deployThumperAt(strikeSite);
+    player.state.position = { ...lookout };
+    bystander.state.position = { x: strikeSite.x + 40, y: 0, z: strikeSite.z };
+
+    runUntilStrike();
+
+    expect(strikeEvents(socket)).toHaveLength(1);
+    expect(bystander.resources.stats.deaths).toBe(0);
+  });
+
+  it('spares riders on another worm', async () => {
+    const { player: rider } = await join('player2', 'Rider');
+    rider.state.position = { x: strikeSite.x, y: 0, z: strikeSite.z };
+    rider.state.state = PlayerStateEnum.RIDING;
+    deployThumperAt(strikeSite);
+    player.state.position = { ...lookout };
+
+    runUntilStrike();
+
+    expect(strikeEvents(socket)[0].data.victimIds).toEqual([]);
+    expect(rider.resources.stats.deaths).toBe(0);
+  });
+
+  it('spares walkers standing on rock', async () => {
+    const { player: climber } = await join('player2', 'Climber');
+    climber.state.position = { x: strikeSite.x + 1, y: 0, z: strikeSite.z };
+    const wormAI = (gameLoop as any).wormAI;
+    const isBlocked = wormAI.isBlocked.bind(wormAI);
+    vi.spyOn(wormAI, 'isBlocked').mockImplementation((position: any) =>
+      position === climber.state.position || isBlocked(position)
+    );
+    deployThumperAt(strikeSite);
+    player.state.position = { ...lookout };
+
+    runUntilStrike();
+
+    expect(strikeEvents(socket)[0].data.victimIds).toEqual([]);
+    expect(climber.resources.stats.deaths).toBe(0);
+  });
+
+  it('sends the strike only to players who can see the worm', async () => {
+    const { socket: watcherSocket, player: watcher } = await join('player2', 'Watcher');
+    const { socket: farSocket, player: far } = await join('player3', 'Far');
+    deployThumperAt(strikeSite);
+    player.state.position = { ...lookout };
+    watcher.state.position = { x: strikeSite.x, y: 0, z: strikeSite.z + 50 };
+    far.state.position = { x: strikeSite.x + 2000, y: 0, z: strikeSite.z };
+
+    runUntilStrike();
+
+    expect(strikeEvents(watcherSocket)).toHaveLength(1);
+    expect(strikeEvents(farSocket)).toHaveLength(0);
+  });
+});
@@ -7,6 +7,10 @@ import { HarkonnenAI, HarkonnenState, type HarkonnenTrooper } from './HarkonnenA
 
 interface AIManagerOptions {
   now?: () => number;
+  /** Multiplier on trooper vision range, read every tick (e.g. from the world clock) */
+  visionScale?: () => number;
+  /** Multiplier on trooper vision and hearing at a position (e.g. inside a sandstorm) */
+  weatherScale?: (position: Vector3) => number;
 }
 
 export class AIManager implements GameSystem {
@@ -15,6 +19,7 @@ export class AIManager implements GameSystem {
   private readonly backfillTimers = new Map<string, number>();
   private spawnCounter = 0;
   private readonly now: () => number;
+  private readonly visionScale?: () => number;
 
   constructor(
     private readonly room: Room,
@@ -23,7 +28,11 @@ export class AIManager implements GameSystem {
     options: AIManagerOptions = {}
   ) {
     this.now = options.now ?? (() => Date.now());
+    this.visionScale = options.visionScale;
     this.ai = new HarkonnenAI();
+    if (options.weatherScale) {
+      this.ai.setWeatherScale(options.weatherScale);
+    }
     this.ai.setCombatHandler((attackerId, targetId, damage) => {
       this.combatSystem.handleAIFire(attackerId, targetId, damage);
     });
@@ -42,6 +51,9 @@ export class AIManager implements GameSystem {
       state: player.state.state,
     }));
 
+    if (this.visionScale) {
+      this.ai.setVisionScale(this.visionScale());
+    }
     this.ai.update(deltaTime, players);
     this.cleanupAssignments();
 
@@ -163,6 +163,42 @@ describe('VS4: Harkonnen AI System', () => {
       expect(trooper.state).toBe(HarkonnenState.PATROL);
     });
 
+    it('should see a shorter distance when vision is scaled down', () => {
+      const visionOnlyAI = new HarkonnenAI(undefined, new PerceptionModule(50, 90, 0));
+      const trooper = visionOnlyAI.spawnTrooper('trooper-1', { x: 0, y: 0, z: 0 }, []);
+      trooper.rotation = 0;
+
+      const players = [
+        { id: 'player-1', position: { x: 40, y: 0, z: 0 }, state: 'ACTIVE' }
+      ];
+
+      visionOnlyAI.setVisionScale(0.5);
+      visionOnlyAI.update(1, players);
+      expect(trooper.state).toBe(HarkonnenState.PATROL);
+
+      visionOnlyAI.setVisionScale(1);
+      visionOnlyAI.update(1, players);
+      expect(trooper.state).toBe(HarkonnenState.COMBAT);
+    });
+
+    it('should neither see nor hear as far inside a storm', () => {
+      const trooper = ai.spawnTrooper('trooper-1', { x: 0, y: 0, z: 0 }, []);
+      trooper.rotation = 0;
+
+      const players = [
+        { id: 'player-1', position: { x: 45, y: 0, z: 0 }, state: 'ACTIVE' }
+      ];
+
+      // Only the player stands in the storm; that is enough to hide them
+      ai.setWeatherScale(position => (position.x > 20 ? 0.4 : 1));
+      ai.update(1, players);
+      expect(trooper.state).toBe(HarkonnenState.PATROL);
+
+      ai.setWeatherScale(() => 1);
+      ai.update(1, players);
+      expect(trooper.state).toBe(HarkonnenState.COMBAT);
+    });
+
     it('should not detect dead players', () => {
       ai.spawnTrooper('trooper-1', { x: 0, y: 0, z: 0 }, []);
 
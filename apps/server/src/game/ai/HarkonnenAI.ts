@@ -126,6 +126,14 @@ export class HarkonnenAI {
     }
   }
 
+  setVisionScale(scale: number): void {
+    this.perception.setVisionScale(scale);
+  }
+
+  setWeatherScale(scaleAt: (position: Vector3) => number): void {
+    this.perception.setWeatherScale(scaleAt);
+  }
+
   setCombatHandler(handler: (attackerId: string, targetId: string, damage: number) => void): void {
     this.combatHandler = handler;
   }
@@ -9,12 +9,35 @@ export interface DetectionResult {
 }
 
 export class PerceptionModule {
+  private visionScale = 1;
+  private weatherScaleAt?: (position: Vector3) => number;
+
   constructor(
     private readonly visionRange = 50,
     private readonly visionAngle = 90,
     private readonly hearingRange = 100
   ) {}
 
+  /**
+   * Scale vision range for the current light, e.g. shorter sight at night.
+   * Hearing is unaffected.
+   */
+  setVisionScale(scale: number): void {
+    this.visionScale = Math.max(0, scale);
+  }
+
+  getVisionRange(): number {
+    return this.visionRange * this.visionScale;
+  }
+
+  /**
+   * Shrink vision and hearing where the weather closes in. The worse of the
+   * trooper's and the player's positions applies.
+   */
+  setWeatherScale(scaleAt: (position: Vector3) => number): void {
+    this.weatherScaleAt = scaleAt;
+  }
+
   detect(
     trooper: HarkonnenTrooper,
     players: Array<{ id: string; position: Vector3; state: string }>,
@@ -29,8 +52,9 @@ export class PerceptionModule {
       }
 
       const distance = getDistance(trooper.position, player.position);
+      const weather = this.getWeatherScale(trooper.position, player.position);
 
-      if (distance <= this.hearingRange) {
+      if (distance <= this.hearingRange * weather) {
         return {
           detected: true,
           playerId: player.id,
@@ -39,7 +63,7 @@ export class PerceptionModule {
         };
       }
 
-      if (distance > this.visionRange) {
+      if (distance > this.getVisionRange() * weather) {
         continue;
       }
 
@@ -59,4 +83,11 @@ export class PerceptionModule {
 
     return { detected: false };
   }
+
+  private getWeatherScale(from: Vector3, to: Vector3): number {
+    if (!this.weatherScaleAt) {
+      return 1;
+    }
+    return Math.max(0, Math.min(this.weatherScaleAt(from), this.weatherScaleAt(to)));
+  }
 }
@@ -0,0 +1,46 @@
+import { OBJECTIVE_CONSTANTS, ObjectiveType } from '@fremen/shared';
+import type { ObjectiveDefinition } from './ObjectiveDefinition';
+import { isInsideObjective } from './ObjectiveDefinition';
+
+/**
+ * Bring a load of spice back to the Sietch on foot. The spice is handed
+ * over when the objective completes, and the reward pays it back with a
+ * premium.
+ */
+export const deliverSpiceObjective: ObjectiveDefinition = {
+  type: ObjectiveType.DELIVER_SPICE,
+
+  spawn(_random, world) {
+    if (!world) {
+      return null;
+    }
+
+    const sietch = world.getSietch();
+    return {
+      targetPosition: { ...sietch.position },
+      radius: sietch.radius,
+      timeLimit: OBJECTIVE_CONSTANTS.DELIVER_TIME_LIMIT,
+      spiceRequired: OBJECTIVE_CONSTANTS.DELIVER_SPICE_AMOUNT,
+    };
+  },
+
+  track(objective, world) {
+    const required = objective.spiceRequired ?? OBJECTIVE_CONSTANTS.DELIVER_SPICE_AMOUNT;
+    let best = 0;
+
+    for (const participant of world.getParticipants()) {
+      if (!participant.alive) continue;
+      best = Math.max(best, participant.spice / required);
+      if (!participant.wormHead && participant.spice >= required && isInsideObjective(objective, participant.position)) {
+        return participant.playerId;
+      }
+    }
+
+    objective.progress = Math.min(1, best);
+    return null;
+  },
+
+  complete(objective, playerId, world) {
+    world.takeSpice(playerId, objective.spiceRequired ?? OBJECTIVE_CONSTANTS.DELIVER_SPICE_AMOUNT);
+  },
+};
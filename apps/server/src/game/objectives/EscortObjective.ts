@@ -0,0 +1,56 @@
+import { OBJECTIVE_CONSTANTS, ObjectiveType, type Vector3 } from '@fremen/shared';
+import type { ObjectiveDefinition } from './ObjectiveDefinition';
+import { isInsideObjective, randomPointAround } from './ObjectiveDefinition';
+
+/**
+ * Ride a worm through a chain of checkpoints leading out from the Sietch, in
+ * order. The target moves on to the next checkpoint each time a ridden worm
+ * reaches the current one.
+ */
+export const escortObjective: ObjectiveDefinition = {
+  type: ObjectiveType.ESCORT,
+
+  spawn(random, world) {
+    if (!world) {
+      return null;
+    }
+
+    const { ESCORT_CHECKPOINTS, ESCORT_LEG_MIN, ESCORT_LEG_MAX } = OBJECTIVE_CONSTANTS;
+    const legLength = () => ESCORT_LEG_MIN + random() * (ESCORT_LEG_MAX - ESCORT_LEG_MIN);
+
+    const checkpoints: Vector3[] = [];
+    let previous: Vector3 = world.getSietch().position;
+    for (let i = 0; i < ESCORT_CHECKPOINTS; i++) {
+      previous = randomPointAround(previous, legLength(), random);
+      checkpoints.push(previous);
+    }
+
+    return {
+      targetPosition: { ...checkpoints[0] },
+      radius: OBJECTIVE_CONSTANTS.ESCORT_CHECKPOINT_RADIUS,
+      timeLimit: OBJECTIVE_CONSTANTS.ESCORT_TIME_LIMIT,
+      checkpoints,
+      checkpointIndex: 0,
+    };
+  },
+
+  track(objective, world) {
+    const checkpoints = objective.checkpoints ?? [];
+    const index = objective.checkpointIndex ?? 0;
+
+    for (const participant of world.getParticipants()) {
+      if (!participant.wormHead || !isInsideObjective(objective, participant.wormHead)) continue;
+
+      const next = index + 1;
+      objective.checkpointIndex = next;
+      objective.progress = next / checkpoints.length;
+      if (next >= checkpoints.length) {
+        return participant.playerId;
+      }
+      objective.targetPosition = { ...checkpoints[next] };
+      return null;
+    }
+
+    return null;
+  },
+};
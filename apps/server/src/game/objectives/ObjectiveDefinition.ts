@@ -0,0 +1,52 @@
+import type { Objective, ObjectiveType, OutpostState, StormState, Vector3 } from '@fremen/shared';
+
+/** A player as objective tracking sees them */
+export interface ObjectiveParticipant {
+  playerId: string;
+  position: Vector3;
+  alive: boolean;
+  spice: number;
+  /** Head of the worm the player is riding, if any */
+  wormHead?: Vector3;
+}
+
+/** World state objective types read to place objectives and track progress */
+export interface ObjectiveWorld {
+  getParticipants(): ObjectiveParticipant[];
+  getSietch(): { position: Vector3; radius: number };
+  getOutposts(): OutpostState[];
+  isOutpostJammed(outpostId: string): boolean;
+  getStorms(): StormState[];
+  /** Remove spice from a player, false when they don't carry enough */
+  takeSpice(playerId: string, amount: number): boolean;
+}
+
+/** Everything about a new objective that its type decides */
+export type ObjectivePlacement = Omit<Objective, 'id' | 'type' | 'expiresAt' | 'status' | 'progress' | 'reward'>;
+
+export interface ObjectiveDefinition {
+  readonly type: ObjectiveType;
+  /** Place a new objective, or null when the world can't host one right now */
+  spawn(random: () => number, world?: ObjectiveWorld): ObjectivePlacement | null;
+  /** Advance progress; returns the player who completed the objective, if anyone did */
+  track(objective: Objective, world: ObjectiveWorld, deltaTime: number): string | null;
+  /** Settle anything completing costs, once the completing player is known */
+  complete?(objective: Objective, playerId: string, world: ObjectiveWorld): void;
+}
+
+/** Horizontal distance check against an objective's target area */
+export function isInsideObjective(objective: Objective, position: Vector3): boolean {
+  const dx = position.x - objective.targetPosition.x;
+  const dz = position.z - objective.targetPosition.z;
+  return Math.sqrt(dx * dx + dz * dz) <= objective.radius;
+}
+
+/** A point `distance` from `origin` in a random direction */
+export function randomPointAround(origin: Vector3, distance: number, random: () => number): Vector3 {
+  const angle = random() * Math.PI * 2;
+  return {
+    x: origin.x + Math.cos(angle) * distance,
+    y: 0,
+    z: origin.z + Math.sin(angle) * distance,
+  };
+}
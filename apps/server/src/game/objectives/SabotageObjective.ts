@@ -0,0 +1,45 @@
+import { OBJECTIVE_CONSTANTS, ObjectiveType, VS4_CONSTANTS } from '@fremen/shared';
+import type { ObjectiveDefinition } from './ObjectiveDefinition';
+import { isInsideObjective } from './ObjectiveDefinition';
+
+/**
+ * Jam a Harkonnen outpost with a thumper. Completes for whoever is on site
+ * when the jam takes hold.
+ */
+export const sabotageObjective: ObjectiveDefinition = {
+  type: ObjectiveType.SABOTAGE_OUTPOST,
+
+  spawn(random, world) {
+    if (!world) {
+      return null;
+    }
+
+    const targets = world.getOutposts().filter(outpost =>
+      outpost.controllingFaction === 'harkonnen' && !world.isOutpostJammed(outpost.id)
+    );
+    if (targets.length === 0) {
+      return null;
+    }
+
+    const outpost = targets[Math.floor(random() * targets.length)];
+    return {
+      targetPosition: { ...outpost.position },
+      radius: VS4_CONSTANTS.THUMPER_JAM_RADIUS,
+      timeLimit: OBJECTIVE_CONSTANTS.SABOTAGE_TIME_LIMIT,
+      targetId: outpost.id,
+    };
+  },
+
+  track(objective, world) {
+    if (!objective.targetId || !world.isOutpostJammed(objective.targetId)) {
+      return null;
+    }
+
+    for (const participant of world.getParticipants()) {
+      if (participant.alive && isInsideObjective(objective, participant.position)) {
+        return participant.playerId;
+      }
+    }
+    return null;
+  },
+};
@@ -0,0 +1,34 @@
+import { OBJECTIVE_CONSTANTS, ObjectiveType, type Vector3 } from '@fremen/shared';
+import type { ObjectiveDefinition, ObjectivePlacement } from './ObjectiveDefinition';
+import { isInsideObjective, randomPointAround } from './ObjectiveDefinition';
+
+export function placeShepherdObjective(targetPosition: Vector3): ObjectivePlacement {
+  return {
+    targetPosition,
+    radius: OBJECTIVE_CONSTANTS.SHEPHERD_RADIUS,
+    timeLimit: OBJECTIVE_CONSTANTS.SHEPHERD_TIME_LIMIT,
+  };
+}
+
+/**
+ * Steer a ridden worm into a marker. Needs nothing from the world, so it
+ * can always spawn.
+ */
+export const shepherdObjective: ObjectiveDefinition = {
+  type: ObjectiveType.SHEPHERD_WORM,
+
+  spawn(random) {
+    const { SHEPHERD_MIN_DISTANCE, SHEPHERD_MAX_DISTANCE } = OBJECTIVE_CONSTANTS;
+    const distance = SHEPHERD_MIN_DISTANCE + random() * (SHEPHERD_MAX_DISTANCE - SHEPHERD_MIN_DISTANCE);
+    return placeShepherdObjective(randomPointAround({ x: 0, y: 0, z: 0 }, distance, random));
+  },
+
+  track(objective, world) {
+    for (const participant of world.getParticipants()) {
+      if (participant.wormHead && isInsideObjective(objective, participant.wormHead)) {
+        return participant.playerId;
+      }
+    }
+    return null;
+  },
+};
@@ -0,0 +1,58 @@
+import { OBJECTIVE_CONSTANTS, ObjectiveType, getStrongestStorm } from '@fremen/shared';
+import type { ObjectiveDefinition } from './ObjectiveDefinition';
+
+/**
+ * Stay alive inside a sandstorm for a while. Only spawns while a storm is
+ * raging; the target follows that storm, but time in any storm counts and
+ * dying starts the clock over.
+ */
+export const surviveStormObjective: ObjectiveDefinition = {
+  type: ObjectiveType.SURVIVE_STORM,
+
+  spawn(random, world) {
+    const storms = world?.getStorms() ?? [];
+    if (storms.length === 0) {
+      return null;
+    }
+
+    const storm = storms[Math.floor(random() * storms.length)];
+    return {
+      targetPosition: { ...storm.position },
+      radius: storm.radius,
+      timeLimit: OBJECTIVE_CONSTANTS.SURVIVE_TIME_LIMIT,
+      targetId: storm.id,
+      surviveDuration: OBJECTIVE_CONSTANTS.SURVIVE_STORM_DURATION,
+      playerProgress: {},
+    };
+  },
+
+  track(objective, world, deltaTime) {
+    const storms = world.getStorms();
+    const target = storms.find(storm => storm.id === objective.targetId);
+    if (target) {
+      objective.targetPosition = { ...target.position };
+    }
+
+    const required = objective.surviveDuration ?? OBJECTIVE_CONSTANTS.SURVIVE_STORM_DURATION;
+    const elapsed = objective.playerProgress ?? (objective.playerProgress = {});
+    let best = 0;
+
+    for (const participant of world.getParticipants()) {
+      if (!participant.alive) {
+        delete elapsed[participant.playerId];
+        continue;
+      }
+      if (!getStrongestStorm(storms, participant.position)) continue;
+
+      const time = (elapsed[participant.playerId] ?? 0) + deltaTime * 1000;
+      elapsed[participant.playerId] = time;
+      if (time >= required) {
+        return participant.playerId;
+      }
+      best = Math.max(best, time / required);
+    }
+
+    objective.progress = Math.max(objective.progress, best);
+    return null;
+  },
+};
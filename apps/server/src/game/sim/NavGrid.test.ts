@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import type { SurfaceMap, TerrainGenerator, Vector3 } from '@fremen/shared';
+import { GAME_CONSTANTS } from '@fremen/shared';
+import { NavGrid } from './NavGrid';
+
+describe('NavGrid', () => {
+  const flat = { getHeight: () => 0 } as unknown as TerrainGenerator;
+  // Rock wall along x = 50..60 with a gap at z >= 100
+  const wall = { isRock: (x: number, z: number) => x >= 50 && x < 60 && z < 100 } as unknown as SurfaceMap;
+
+  const crossesRock = (grid: NavGrid, from: Vector3, path: Vector3[]) => {
+    let previous = from;
+    for (const waypoint of path) {
+      for (let t = 0; t <= 1; t += 0.05) {
+        const point = {
+          x: previous.x + (waypoint.x - previous.x) * t,
+          y: 0,
+          z: previous.z + (waypoint.z - previous.z) * t,
+        };
+        if (grid.isRock(point)) return true;
+      }
+      previous = waypoint;
+    }
+    return false;
+  };
+
+  it('should go straight across open sand', () => {
+    const grid = new NavGrid(flat);
+
+    const path = grid.findPath({ x: 5, y: 0, z: 5 }, { x: 95, y: 0, z: 5 });
+
+    expect(path).toEqual([{ x: 95, y: 0, z: 5 }]);
+  });
+
+  it('should route around rock through the gap', () => {
+    const grid = new NavGrid(flat, wall);
+    const from = { x: 20, y: 0, z: 20 };
+
+    const path = grid.findPath(from, { x: 90, y: 0, z: 20 })!;
+
+    expect(path).not.toBeNull();
+    expect(crossesRock(grid, from, path)).toBe(false);
+    expect(path.some(waypoint => waypoint.z >= 100)).toBe(true);
+    expect(grid.cellKey(path[path.length - 1])).toBe(grid.cellKey({ x: 90, y: 0, z: 20 }));
+  });
+
+  it('should detour around high ground when there is a cheap way round', () => {
+    // A dune ridge along x = 50..60 that is low at z >= 100
+    const ridge = {
+      getHeight: (x: number, z: number) => (x >= 50 && x < 60 && z < 100 ? 25 : 0),
+    } as unknown as TerrainGenerator;
+    const grid = new NavGrid(ridge);
+
+    const path = grid.findPath({ x: 20, y: 0, z: 20 }, { x: 90, y: 0, z: 20 })!;
+
+    expect(path.some(waypoint => waypoint.z >= 100)).toBe(true);
+  });
+
+  it('should cross high ground when it is the only way', () => {
+    const ridge = {
+      getHeight: (x: number) => (x >= 50 && x < 60 ? GAME_CONSTANTS.WORM_OBSTACLE_HEIGHT + 10 : 0),
+    } as unknown as TerrainGenerator;
+    const grid = new NavGrid(ridge);
+
+    expect(grid.findPath({ x: 20, y: 0, z: 20 }, { x: 90, y: 0, z: 20 })).not.toBeNull();
+  });
+
+  it('should give up when rock seals the goal off', () => {
+    const moat = {
+      isRock: (x: number, z: number) => Math.sqrt((x - 200) ** 2 + (z - 200) ** 2) > 30 &&
+        Math.sqrt((x - 200) ** 2 + (z - 200) ** 2) < 60,
+    } as unknown as SurfaceMap;
+    const grid = new NavGrid(flat, moat);
+
+    expect(grid.findPath({ x: 20, y: 0, z: 20 }, { x: 200, y: 0, z: 200 })).toBeNull();
+  });
+
+  it('should reuse the cached path between the same cells', () => {
+    const grid = new NavGrid(flat, wall);
+
+    const first = grid.findPath({ x: 20, y: 0, z: 20 }, { x: 90, y: 0, z: 20 });
+    const second = grid.findPath({ x: 21, y: 0, z: 22 }, { x: 92, y: 0, z: 24 });
+
+    expect(second).toBe(first);
+  });
+});
@@ -0,0 +1,215 @@
+import type { SurfaceMap, TerrainGenerator, Vector3 } from '@fremen/shared';
+import { GAME_CONSTANTS } from '@fremen/shared';
+
+// Extra cost per metre of height beyond WORM_OBSTACLE_HEIGHT
+const HEIGHT_PENALTY = 2;
+// Upper bound on cells expanded per search; a route that needs more is given up on
+const MAX_EXPANSIONS = 4000;
+const MAX_CACHED_PATHS = 256;
+
+const NEIGHBOURS: Array<[number, number, number]> = [
+  [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+  [1, 1, Math.SQRT2], [1, -1, Math.SQRT2], [-1, 1, Math.SQRT2], [-1, -1, Math.SQRT2],
+];
+
+interface OpenNode {
+  cx: number;
+  cz: number;
+  f: number;
+}
+
+/**
+ * Coarse navigation grid for worms.
+ *
+ * Cells are WORM_NAV_CELL_SIZE across and sampled lazily from the terrain.
+ * Rock is impassable; ground that rises or dips past WORM_OBSTACLE_HEIGHT is
+ * passable but costly, so routes skirt the terrain that hurts a worm when
+ * there is a reasonable way round. Paths are cached by start and goal cell.
+ */
+export class NavGrid {
+  private cells = new Map<string, number>();
+  private paths = new Map<string, Vector3[] | null>();
+
+  constructor(
+    private readonly terrain: TerrainGenerator,
+    private readonly surface?: SurfaceMap,
+    readonly cellSize: number = GAME_CONSTANTS.WORM_NAV_CELL_SIZE
+  ) {}
+
+  isRock(position: Vector3): boolean {
+    return this.surface?.isRock(position.x, position.z) ?? false;
+  }
+
+  isPassable(position: Vector3): boolean {
+    return Number.isFinite(this.cellCost(this.toCell(position.x), this.toCell(position.z)));
+  }
+
+  /** Cache key of the cell containing `position` */
+  cellKey(position: Vector3): string {
+    return this.key(this.toCell(position.x), this.toCell(position.z));
+  }
+
+  /**
+   * Waypoints from `from` to `to` through cell centres, ending on the goal
+   * cell and with straight runs collapsed. The start and goal cells are
+   * always entered. Null when the goal can't be reached within the search
+   * budget.
+   */
+  findPath(from: Vector3, to: Vector3): Vector3[] | null {
+    const sx = this.toCell(from.x);
+    const sz = this.toCell(from.z);
+    const gx = this.toCell(to.x);
+    const gz = this.toCell(to.z);
+
+    const pathKey = `${this.key(sx, sz)}>${this.key(gx, gz)}`;
+    const cached = this.paths.get(pathKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const path = this.search(sx, sz, gx, gz);
+    if (this.paths.size >= MAX_CACHED_PATHS) {
+      this.paths.clear();
+    }
+    this.paths.set(pathKey, path);
+    return path;
+  }
+
+  private search(sx: number, sz: number, gx: number, gz: number): Vector3[] | null {
+    const startKey = this.key(sx, sz);
+    const goalKey = this.key(gx, gz);
+    const heuristic = (cx: number, cz: number) => {
+      const dx = Math.abs(cx - gx);
+      const dz = Math.abs(cz - gz);
+      return Math.max(dx, dz) + (Math.SQRT2 - 1) * Math.min(dx, dz);
+    };
+
+    const open: OpenNode[] = [{ cx: sx, cz: sz, f: heuristic(sx, sz) }];
+    const costs = new Map<string, number>([[startKey, 0]]);
+    const cameFrom = new Map<string, string>();
+    const closed = new Set<string>();
+
+    let expansions = 0;
+    while (open.length > 0 && expansions < MAX_EXPANSIONS) {
+      const current = popNode(open);
+      const currentKey = this.key(current.cx, current.cz);
+      if (currentKey === goalKey) {
+        return this.buildPath(cameFrom, goalKey);
+      }
+      if (closed.has(currentKey)) continue;
+      closed.add(currentKey);
+      expansions++;
+
+      const currentCost = costs.get(currentKey)!;
+      for (const [dx, dz, step] of NEIGHBOURS) {
+        const nx = current.cx + dx;
+        const nz = current.cz + dz;
+        const neighbourKey = this.key(nx, nz);
+        if (closed.has(neighbourKey)) continue;
+
+        const cellCost = neighbourKey === goalKey ? 1 : this.cellCost(nx, nz);
+        if (!Number.isFinite(cellCost)) continue;
+
+        // No cutting diagonally across the corner of a rock cell
+        if (dx !== 0 && dz !== 0 && (
+          !Number.isFinite(this.cellCost(current.cx + dx, current.cz)) ||
+          !Number.isFinite(this.cellCost(current.cx, current.cz + dz)))) {
+          continue;
+        }
+
+        const cost = currentCost + step * cellCost;
+        if (cost < (costs.get(neighbourKey) ?? Infinity)) {
+          costs.set(neighbourKey, cost);
+          cameFrom.set(neighbourKey, currentKey);
+          pushNode(open, { cx: nx, cz: nz, f: cost + heuristic(nx, nz) });
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private buildPath(cameFrom: Map<string, string>, goalKey: string): Vector3[] {
+    const cells: Array<[number, number]> = [];
+    for (let key: string | undefined = goalKey; key !== undefined; key = cameFrom.get(key)) {
+      const [cx, cz] = key.split(',').map(Number);
+      cells.unshift([cx, cz]);
+    }
+
+    const waypoints: Vector3[] = [];
+    for (let i = 1; i < cells.length; i++) {
+      const next = cells[i + 1];
+      if (next) {
+        const [px, pz] = cells[i - 1];
+        const [cx, cz] = cells[i];
+        if (cx - px === next[0] - cx && cz - pz === next[1] - cz) continue;
+      }
+      waypoints.push(this.cellCentre(cells[i][0], cells[i][1]));
+    }
+    return waypoints;
+  }
+
+  private cellCost(cx: number, cz: number): number {
+    const key = this.key(cx, cz);
+    const cached = this.cells.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const centre = this.cellCentre(cx, cz);
+    let cost: number;
+    if (this.isRock(centre)) {
+      cost = Infinity;
+    } else {
+      const excess = Math.abs(this.terrain.getHeight(centre.x, centre.z)) - GAME_CONSTANTS.WORM_OBSTACLE_HEIGHT;
+      cost = 1 + Math.max(0, excess) * HEIGHT_PENALTY;
+    }
+
+    this.cells.set(key, cost);
+    return cost;
+  }
+
+  private cellCentre(cx: number, cz: number): Vector3 {
+    return { x: (cx + 0.5) * this.cellSize, y: 0, z: (cz + 0.5) * this.cellSize };
+  }
+
+  private toCell(coord: number): number {
+    return Math.floor(coord / this.cellSize);
+  }
+
+  private key(cx: number, cz: number): string {
+    return `${cx},${cz}`;
+  }
+}
+
+/** Binary min-heap on `f` */
+function pushNode(heap: OpenNode[], node: OpenNode): void {
+  heap.push(node);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent].f <= heap[i].f) break;
+    [heap[parent], heap[i]] = [heap[i], heap[parent]];
+    i = parent;
+  }
+}
+
+function popNode(heap: OpenNode[]): OpenNode {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < heap.length && heap[left].f < heap[smallest].f) smallest = left;
+      if (right < heap.length && heap[right].f < heap[smallest].f) smallest = right;
+      if (smallest === i) break;
+      [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+      i = smallest;
+    }
+  }
+  return top;
+}
@@ -48,6 +48,14 @@ describe('Physics', () => {
     expect(speed).toBeLessThanOrEqual(10);
   });
 
+  it('should validate and clamp against a per-player max speed', () => {
+    const velocity = { x: 6, y: 0, z: 0 };
+
+    expect(physics.validatePlayerSpeed(velocity, 5)).toBe(false);
+    expect(physics.validatePlayerSpeed(velocity, 12)).toBe(true);
+    expect(physics.clampVelocity(velocity, 5)).toEqual({ x: 5, y: 0, z: 0 });
+  });
+
   it('should return terrain height for any position', () => {
     const height = physics.getTerrainHeight(0, 0);
     
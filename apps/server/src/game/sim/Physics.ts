@@ -21,15 +21,15 @@ export class Physics {
     return newPosition;
   }
 
-  validatePlayerSpeed(velocity: Vector3): boolean {
+  validatePlayerSpeed(velocity: Vector3, maxSpeed: number = GAME_CONSTANTS.PLAYER_MAX_SPEED): boolean {
     const speed = Math.sqrt(velocity.x ** 2 + velocity.y ** 2 + velocity.z ** 2);
-    return speed <= GAME_CONSTANTS.PLAYER_MAX_SPEED * 1.1;
+    return speed <= maxSpeed * 1.1;
   }
 
-  clampVelocity(velocity: Vector3): Vector3 {
+  clampVelocity(velocity: Vector3, maxSpeed: number = GAME_CONSTANTS.PLAYER_MAX_SPEED): Vector3 {
     const speed = Math.sqrt(velocity.x ** 2 + velocity.y ** 2 + velocity.z ** 2);
-    if (speed > GAME_CONSTANTS.PLAYER_MAX_SPEED) {
-      const scale = GAME_CONSTANTS.PLAYER_MAX_SPEED / speed;
+    if (speed > maxSpeed) {
+      const scale = maxSpeed / speed;
       return {
         x: velocity.x * scale,
         y: velocity.y * scale,
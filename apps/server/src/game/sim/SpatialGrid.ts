@@ -0,0 +1,68 @@
+import type { Vector3 } from '@fremen/shared';
+
+/**
+ * Uniform XZ hash grid for coarse proximity queries.
+ *
+ * Rebuilt wholesale each tick; cell size should be close to the typical
+ * query radius so a lookup only touches a handful of cells.
+ */
+export class SpatialGrid<T extends { position: Vector3 }> {
+  private cells: Map<string, T[]> = new Map();
+
+  constructor(private readonly cellSize: number) {}
+
+  clear(): void {
+    this.cells.clear();
+  }
+
+  insert(item: T): void {
+    const key = this.cellKey(
+      Math.floor(item.position.x / this.cellSize),
+      Math.floor(item.position.z / this.cellSize)
+    );
+
+    const bucket = this.cells.get(key);
+    if (bucket) {
+      bucket.push(item);
+    } else {
+      this.cells.set(key, [item]);
+    }
+  }
+
+  rebuild(items: T[]): void {
+    this.clear();
+    for (const item of items) {
+      this.insert(item);
+    }
+  }
+
+  queryRadius(position: Vector3, radius: number): T[] {
+    const minX = Math.floor((position.x - radius) / this.cellSize);
+    const maxX = Math.floor((position.x + radius) / this.cellSize);
+    const minZ = Math.floor((position.z - radius) / this.cellSize);
+    const maxZ = Math.floor((position.z + radius) / this.cellSize);
+    const radiusSq = radius * radius;
+    const results: T[] = [];
+
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cz = minZ; cz <= maxZ; cz++) {
+        const bucket = this.cells.get(this.cellKey(cx, cz));
+        if (!bucket) continue;
+
+        for (const item of bucket) {
+          const dx = item.position.x - position.x;
+          const dz = item.position.z - position.z;
+          if (dx * dx + dz * dz <= radiusSq) {
+            results.push(item);
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private cellKey(cx: number, cz: number): string {
+    return `${cx},${cz}`;
+  }
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GAME_CONSTANTS, VIBRATION_CONSTANTS, WormAIState } from '@fremen/shared';
+import { WormAI } from './WormAI';
+import { VibrationModel, calculateNoise } from './Vibration';
+import type { NoiseActivity } from './Vibration';
+
+describe('calculateNoise', () => {
+  const quiet: NoiseActivity = {
+    moving: 'idle',
+    harvesting: false,
+    inCombat: false,
+    sandwalking: false,
+    noiseReduction: 0,
+  };
+
+  it('is silent when standing still', () => {
+    expect(calculateNoise(quiet)).toBe(0);
+  });
+
+  it('ranks running above walking', () => {
+    const walking = calculateNoise({ ...quiet, moving: 'walking' });
+    const running = calculateNoise({ ...quiet, moving: 'running' });
+
+    expect(walking).toBe(VIBRATION_CONSTANTS.NOISE_WALK);
+    expect(running).toBe(VIBRATION_CONSTANTS.NOISE_RUN);
+    expect(running).toBeGreaterThan(walking);
+  });
+
+  it('adds harvesting and combat on top of movement', () => {
+    const noise = calculateNoise({ ...quiet, moving: 'walking', harvesting: true, inCombat: true });
+
+    expect(noise).toBe(
+      VIBRATION_CONSTANTS.NOISE_WALK + VIBRATION_CONSTANTS.NOISE_HARVEST + VIBRATION_CONSTANTS.NOISE_COMBAT
+    );
+  });
+
+  it('muffles rhythmless walking but not running', () => {
+    expect(calculateNoise({ ...quiet, moving: 'walking', sandwalking: true }))
+      .toBeCloseTo(VIBRATION_CONSTANTS.NOISE_WALK * VIBRATION_CONSTANTS.SANDWALK_MULTIPLIER);
+    expect(calculateNoise({ ...quiet, moving: 'running', sandwalking: true }))
+      .toBe(VIBRATION_CONSTANTS.NOISE_RUN);
+  });
+
+  it('applies gear noise reduction to everything', () => {
+    const noise = calculateNoise({ ...quiet, moving: 'running', harvesting: true, noiseReduction: 0.5 });
+
+    expect(noise).toBeCloseTo((VIBRATION_CONSTANTS.NOISE_RUN + VIBRATION_CONSTANTS.NOISE_HARVEST) * 0.5);
+  });
+});
+
+describe('VibrationModel', () => {
+  let wormAI: WormAI;
+  let model: VibrationModel;
+
+  const near = { x: 60, y: 0, z: 50 };
+  const loud = (position = near) => [{ sourceId: 'player1', position, strength: VIBRATION_CONSTANTS.NOISE_COMBAT }];
+
+  beforeEach(() => {
+    wormAI = new WormAI();
+    wormAI.spawnWorm('worm-0', { x: 50, y: 0, z: 50 });
+    model = new VibrationModel();
+  });
+
+  it('builds interest gradually before approaching', () => {
+    model.update(wormAI, loud(), 0.1);
+
+    expect(model.getInterest('worm-0')).toBeGreaterThan(0);
+    expect(wormAI.getWorm('worm-0')!.aiState).toBe(WormAIState.PATROLLING);
+  });
+
+  it('approaches the loudest source once interest crosses the threshold', () => {
+    const sources = [
+      { sourceId: 'quiet', position: { x: 40, y: 0, z: 50 }, strength: VIBRATION_CONSTANTS.NOISE_WALK },
+      ...loud(),
+    ];
+
+    for (let i = 0; i < 50; i++) {
+      model.update(wormAI, sources, 0.1);
+    }
+
+    const worm = wormAI.getWorm('worm-0')!;
+    expect(model.getInterest('worm-0')).toBeGreaterThanOrEqual(VIBRATION_CONSTANTS.INTEREST_THRESHOLD);
+    expect(worm.aiState).toBe(WormAIState.APPROACHING_NOISE);
+    expect(worm.targetPosition).toEqual(near);
+  });
+
+  it('ignores noise beyond attraction range', () => {
+    const far = { x: 50 + GAME_CONSTANTS.WORM_ATTRACTION_RANGE + 1, y: 0, z: 50 };
+
+    for (let i = 0; i < 100; i++) {
+      model.update(wormAI, loud(far), 0.1);
+    }
+
+    expect(model.getInterest('worm-0')).toBe(0);
+    expect(wormAI.getWorm('worm-0')!.aiState).toBe(WormAIState.PATROLLING);
+  });
+
+  it('never overcomes decay with faint footsteps', () => {
+    const footsteps = [{ sourceId: 'player1', position: near, strength: VIBRATION_CONSTANTS.NOISE_WALK }];
+
+    for (let i = 0; i < 100; i++) {
+      model.update(wormAI, footsteps, 0.1);
+    }
+
+    expect(model.getInterest('worm-0')).toBe(0);
+  });
+
+  it('loses interest and returns to patrol once the noise stops', () => {
+    for (let i = 0; i < 50; i++) {
+      model.update(wormAI, loud(), 0.1);
+    }
+    expect(wormAI.getWorm('worm-0')!.aiState).toBe(WormAIState.APPROACHING_NOISE);
+
+    const secondsToForget = VIBRATION_CONSTANTS.INTEREST_MAX / VIBRATION_CONSTANTS.INTEREST_DECAY;
+    for (let t = 0; t <= secondsToForget; t += 0.5) {
+      model.update(wormAI, [], 0.5);
+    }
+
+    expect(model.getInterest('worm-0')).toBe(0);
+    expect(wormAI.getWorm('worm-0')!.aiState).toBe(WormAIState.PATROLLING);
+  });
+
+  it('does not pull a worm away from a thumper', () => {
+    const thumper = { x: 80, y: 0, z: 80 };
+    wormAI.setWormTarget('worm-0', thumper);
+
+    for (let i = 0; i < 50; i++) {
+      model.update(wormAI, loud(), 0.1);
+    }
+
+    const worm = wormAI.getWorm('worm-0')!;
+    expect(worm.aiState).toBe(WormAIState.APPROACHING_THUMPER);
+    expect(worm.targetPosition).toEqual(thumper);
+  });
+});
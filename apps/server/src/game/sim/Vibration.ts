@@ -0,0 +1,113 @@
+import type { Vector3 } from '@fremen/shared';
+import { GAME_CONSTANTS, VIBRATION_CONSTANTS, WormAIState } from '@fremen/shared';
+import type { WormAI } from './WormAI';
+
+/** Noise a player gives off this tick */
+export interface VibrationSource {
+  sourceId: string;
+  position: Vector3;
+  strength: number;
+}
+
+export interface NoiseActivity {
+  moving: 'idle' | 'walking' | 'running';
+  harvesting: boolean;
+  inCombat: boolean;
+  sandwalking: boolean;
+  noiseReduction: number;
+}
+
+/**
+ * Noise strength for a player's current activity. Rhythmless walking only
+ * helps at walking pace; gear muffles everything.
+ */
+export function calculateNoise(activity: NoiseActivity): number {
+  let movement = 0;
+  if (activity.moving === 'walking') {
+    movement = VIBRATION_CONSTANTS.NOISE_WALK;
+    if (activity.sandwalking) {
+      movement *= VIBRATION_CONSTANTS.SANDWALK_MULTIPLIER;
+    }
+  } else if (activity.moving === 'running') {
+    movement = VIBRATION_CONSTANTS.NOISE_RUN;
+  }
+
+  let strength = movement;
+  if (activity.harvesting) {
+    strength += VIBRATION_CONSTANTS.NOISE_HARVEST;
+  }
+  if (activity.inCombat) {
+    strength += VIBRATION_CONSTANTS.NOISE_COMBAT;
+  }
+
+  return strength * (1 - Math.min(1, Math.max(0, activity.noiseReduction)));
+}
+
+/**
+ * Worm interest built up from surface vibrations.
+ *
+ * Every worm that can hear a source gains interest in proportion to its
+ * strength, fading linearly to nothing at WORM_ATTRACTION_RANGE, and loses
+ * INTEREST_DECAY per second. Past INTEREST_THRESHOLD the worm approaches the
+ * loudest source it hears; once interest runs out it goes back to patrol.
+ */
+export class VibrationModel {
+  private interest = new Map<string, number>();
+
+  getInterest(wormId: string): number {
+    return this.interest.get(wormId) ?? 0;
+  }
+
+  reset(wormId: string): void {
+    this.interest.delete(wormId);
+  }
+
+  update(wormAI: WormAI, sources: VibrationSource[], deltaTime: number): void {
+    for (const worm of wormAI.getWorms()) {
+      if (worm.aiState === WormAIState.RIDDEN_BY) {
+        this.interest.delete(worm.id);
+        continue;
+      }
+
+      let heard = 0;
+      let loudest: VibrationSource | null = null;
+      let loudestLevel = 0;
+
+      for (const source of sources) {
+        const dist = wormAI.getHearingDistance(worm.id, source.position);
+        if (dist === null || source.strength <= 0) continue;
+
+        const level = source.strength * (1 - dist / GAME_CONSTANTS.WORM_ATTRACTION_RANGE);
+        heard += level;
+        if (level > loudestLevel) {
+          loudestLevel = level;
+          loudest = source;
+        }
+      }
+
+      const previous = this.getInterest(worm.id);
+      const next = Math.min(
+        VIBRATION_CONSTANTS.INTEREST_MAX,
+        Math.max(0, previous + (heard - VIBRATION_CONSTANTS.INTEREST_DECAY) * deltaTime)
+      );
+
+      if (next > 0) {
+        this.interest.set(worm.id, next);
+      } else {
+        this.interest.delete(worm.id);
+      }
+
+      if (loudest && next >= VIBRATION_CONSTANTS.INTEREST_THRESHOLD) {
+        wormAI.setNoiseTarget(worm.id, loudest.position);
+      } else if (next <= 0 && worm.aiState === WormAIState.APPROACHING_NOISE) {
+        wormAI.loseInterest(worm.id);
+      }
+    }
+
+    for (const wormId of this.interest.keys()) {
+      if (!wormAI.getWorm(wormId)) {
+        this.interest.delete(wormId);
+      }
+    }
+  }
+}
@@ -1,4 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
+import { GAME_CONSTANTS, WormAIState } from '@fremen/shared';
+import type { SurfaceMap, TerrainGenerator } from '@fremen/shared';
+import { NavGrid } from './NavGrid';
 import { WormAI } from './WormAI';
 
 describe('WormAI', () => {
@@ -6,9 +9,10 @@ describe('WormAI', () => {
 
   beforeEach(() => {
     wormAI = new WormAI();
+    wormAI.spawnWorm('worm-0', { x: 50, y: 0, z: 50 });
   });
 
-  it('should spawn initial worm', () => {
+  it('should spawn worm', () => {
     const worms = wormAI.getWorms();
     
     expect(worms).toHaveLength(1);
@@ -58,12 +62,43 @@ describe('WormAI', () => {
   });
 
   it('should find nearest worm when multiple worms exist', () => {
-    // WormAI always spawns with one worm, so we test the findNearestWorm works
-    const position = { x: 0, y: 0, z: 0 };
-    
-    const nearestId = wormAI.findNearestWorm(position);
-    
-    expect(nearestId).toBe('worm-0');
+    wormAI.spawnWorm('worm-1', { x: -100, y: 0, z: -100 });
+
+    expect(wormAI.findNearestWorm({ x: 0, y: 0, z: 0 })).toBe('worm-0');
+    expect(wormAI.findNearestWorm({ x: -90, y: 0, z: -90 })).toBe('worm-1');
+  });
+
+  it('should ignore worms beyond attraction range', () => {
+    const position = { x: 50 + GAME_CONSTANTS.WORM_ATTRACTION_RANGE + 10, y: 0, z: 50 };
+
+    expect(wormAI.findNearestWorm(position)).toBeNull();
+  });
+
+  it('should ignore worms whose territory does not cover the position', () => {
+    wormAI.spawnWorm('worm-1', { x: -100, y: 0, z: 0 }, {
+      id: 'territory-west',
+      center: { x: -100, y: 0, z: 0 },
+      radius: 80,
+    });
+
+    // Closer to worm-1, but outside its territory
+    expect(wormAI.findNearestWorm({ x: 0, y: 0, z: 0 })).toBe('worm-0');
+    expect(wormAI.findNearestWorm({ x: -90, y: 0, z: 0 })).toBe('worm-1');
+  });
+
+  it('should ignore ridden worms', () => {
+    wormAI.mountWorm('worm-0', 'player1');
+
+    expect(wormAI.findNearestWorm({ x: 50, y: 0, z: 50 })).toBeNull();
+  });
+
+  it('should patrol inside its territory', () => {
+    const territory = { id: 'territory-east', center: { x: 300, y: 0, z: 0 }, radius: 60 };
+    wormAI.spawnWorm('worm-1', { x: 300, y: 0, z: 0 }, territory);
+
+    const target = wormAI.getWorm('worm-1')!.targetPosition!;
+    const dist = Math.sqrt((target.x - 300) ** 2 + target.z ** 2);
+    expect(dist).toBeLessThanOrEqual(territory.radius);
   });
 
   it('should move worm towards target', () => {
@@ -93,4 +128,157 @@ describe('WormAI', () => {
     const worms = wormAI.getWorms();
     expect(worms[0].controlPoints.length).toBeLessThanOrEqual(12);
   });
+
+  it('should travel further and hear further when more active', () => {
+    const target = { x: 200, y: 0, z: 50 };
+    const travel = (activity: number) => {
+      const ai = new WormAI();
+      ai.spawnWorm('worm-0', { x: 50, y: 0, z: 50 });
+      ai.setWormTarget('worm-0', target);
+      ai.setActivity(activity);
+      const before = { ...ai.getWorm('worm-0')!.controlPoints[0] };
+      ai.update(1);
+      const after = ai.getWorm('worm-0')!.controlPoints[0];
+      return Math.hypot(after.x - before.x, after.z - before.z);
+    };
+
+    expect(travel(1.3)).toBeCloseTo(travel(1) * 1.3);
+
+    const edge = { x: 50 + GAME_CONSTANTS.WORM_ATTRACTION_RANGE + 10, y: 0, z: 50 };
+    wormAI.setActivity(1.3);
+    expect(wormAI.findNearestWorm(edge)).toBe('worm-0');
+    wormAI.setActivity(0.8);
+    expect(wormAI.findNearestWorm({ x: 50 + GAME_CONSTANTS.WORM_ATTRACTION_RANGE - 10, y: 0, z: 50 })).toBeNull();
+  });
+
+  it('should strike once it reaches an attracting target', () => {
+    const target = { x: 60, y: 0, z: 50 };
+    wormAI.setWormTarget('worm-0', target);
+    expect(wormAI.isStriking('worm-0')).toBe(false);
+
+    for (let i = 0; i < 30 && !wormAI.isStriking('worm-0'); i++) {
+      wormAI.update(0.1);
+    }
+    expect(wormAI.isStriking('worm-0')).toBe(true);
+
+    const strikePoint = wormAI.completeStrike('worm-0');
+    const worm = wormAI.getWorm('worm-0')!;
+    expect(strikePoint).toEqual(target);
+    expect(worm.controlPoints[0]).toEqual(target);
+    expect(worm.aiState).toBe(WormAIState.PATROLLING);
+    expect(wormAI.isStriking('worm-0')).toBe(false);
+  });
+
+  it('remembers which thumper called the worm until it strikes', () => {
+    wormAI.setWormTarget('worm-0', { x: 100, y: 0, z: 100 }, 'thumper-a');
+    wormAI.setWormTarget('worm-0', { x: 104, y: 0, z: 100 }, 'thumper-b');
+
+    expect(wormAI.getTargetThumper('worm-0')).toBe('thumper-b');
+
+    wormAI.completeStrike('worm-0');
+    expect(wormAI.getTargetThumper('worm-0')).toBeUndefined();
+  });
+});
+
+describe('WormAI on rock', () => {
+  // A rock shelf filling the strip 70 < x < 90, open north of z = 150
+  const shelf = { isRock: (x: number, z: number) => x > 70 && x < 90 && z < 150 } as unknown as SurfaceMap;
+  const flat = { getHeight: () => 0 } as unknown as TerrainGenerator;
+  let wormAI: WormAI;
+
+  beforeEach(() => {
+    wormAI = new WormAI(new NavGrid(flat, shelf));
+    wormAI.spawnWorm('worm-0', { x: 50, y: 0, z: 50 });
+  });
+
+  it('should report rock as blocked', () => {
+    expect(wormAI.isBlocked({ x: 80, y: 0, z: 0 })).toBe(true);
+    expect(wormAI.isBlocked({ x: 50, y: 0, z: 0 })).toBe(false);
+  });
+
+  it('should path around rock to reach a target beyond it', () => {
+    wormAI.setWormTarget('worm-0', { x: 120, y: 0, z: 50 });
+
+    for (let i = 0; i < 600 && !wormAI.isStriking('worm-0'); i++) {
+      wormAI.update(0.1);
+      for (const point of wormAI.getWorm('worm-0')!.controlPoints) {
+        expect(wormAI.isBlocked(point)).toBe(false);
+      }
+    }
+
+    expect(wormAI.isStriking('worm-0')).toBe(true);
+  });
+
+  it('should not hear vibrations made on rock', () => {
+    expect(wormAI.getHearingDistance('worm-0', { x: 75, y: 0, z: 50 })).toBeNull();
+    expect(wormAI.getHearingDistance('worm-0', { x: 65, y: 0, z: 50 })).toBeCloseTo(15);
+    expect(wormAI.findNearestWorm({ x: 75, y: 0, z: 50 })).toBeNull();
+  });
+
+  it('should stop a ridden worm at the edge of rock', () => {
+    wormAI.mountWorm('worm-0', 'player1');
+    const worm = wormAI.getWorm('worm-0')!;
+    worm.heading = Math.PI / 2;
+
+    for (let i = 0; i < 50; i++) {
+      wormAI.steerWorm('worm-0', 0, 1, 0.1);
+    }
+
+    expect(worm.controlPoints[0].x).toBeLessThanOrEqual(70);
+    expect(worm.speed).toBe(GAME_CONSTANTS.WORM_MIN_SPEED);
+  });
+});
+
+describe('WormAI safe spiral', () => {
+  let wormAI: WormAI;
+
+  const distanceFrom = (a: { x: number; z: number }, b: { x: number; z: number }) =>
+    Math.sqrt((a.x - b.x) ** 2 + (a.z - b.z) ** 2);
+
+  beforeEach(() => {
+    wormAI = new WormAI();
+    wormAI.spawnWorm('worm-0', { x: 50, y: 0, z: 50 });
+    wormAI.mountWorm('worm-0', 'player1');
+  });
+
+  it('should only spiral a ridden worm', () => {
+    wormAI.dismountWorm('worm-0');
+
+    expect(wormAI.startSafeSpiral('worm-0')).toBe(false);
+    expect(wormAI.getWorm('worm-0')!.aiState).toBe(WormAIState.PATROLLING);
+  });
+
+  it('should circle slowly near where the rider left', () => {
+    const center = { ...wormAI.getWorm('worm-0')!.controlPoints[0] };
+    expect(wormAI.startSafeSpiral('worm-0')).toBe(true);
+
+    for (let i = 0; i < 300; i++) {
+      wormAI.update(0.1);
+      const worm = wormAI.getWorm('worm-0')!;
+      expect(worm.aiState).toBe(WormAIState.SAFE_SPIRAL);
+      expect(worm.speed).toBe(GAME_CONSTANTS.WORM_MIN_SPEED);
+      expect(distanceFrom(worm.controlPoints[0], center)).toBeLessThan(GAME_CONSTANTS.WORM_SAFE_SPIRAL_RADIUS + 10);
+    }
+    expect(wormAI.getWorm('worm-0')!.riderId).toBe('player1');
+  });
+
+  it('should ignore thumpers and noise while waiting for its rider', () => {
+    wormAI.startSafeSpiral('worm-0');
+    const head = wormAI.getWorm('worm-0')!.controlPoints[0];
+
+    wormAI.setWormTarget('worm-0', { x: head.x + 20, y: 0, z: head.z });
+    wormAI.setNoiseTarget('worm-0', { x: head.x + 20, y: 0, z: head.z });
+
+    expect(wormAI.getWorm('worm-0')!.aiState).toBe(WormAIState.SAFE_SPIRAL);
+    expect(wormAI.findNearestWorm(head)).toBeNull();
+    expect(wormAI.mountWorm('worm-0', 'player2')).toBe(false);
+  });
+
+  it('should hand the worm back only to its own rider', () => {
+    wormAI.startSafeSpiral('worm-0');
+
+    expect(wormAI.resumeRide('worm-0', 'player2')).toBe(false);
+    expect(wormAI.resumeRide('worm-0', 'player1')).toBe(true);
+    expect(wormAI.getWorm('worm-0')!.aiState).toBe(WormAIState.RIDDEN_BY);
+  });
 });
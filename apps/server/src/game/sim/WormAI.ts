@@ -1,15 +1,65 @@
 import type { Vector3, WormState } from '@fremen/shared';
-import { WormAIState, GAME_CONSTANTS } from '@fremen/shared';
+import { WormAIState, GAME_CONSTANTS, WEATHER_CONSTANTS } from '@fremen/shared';
+import type { NavGrid } from './NavGrid';
+
+// How far ahead a worm feels for rock before committing to a heading
+const ROCK_LOOKAHEAD = 6;
+// Heading offsets tried, in order, when the way ahead is rock
+const DETOUR_OFFSETS = [
+  Math.PI / 6, -Math.PI / 6,
+  Math.PI / 3, -Math.PI / 3,
+  Math.PI / 2, -Math.PI / 2,
+  (2 * Math.PI) / 3, -(2 * Math.PI) / 3,
+];
+const PATROL_TARGET_ATTEMPTS = 8;
+// Arc covered by each leg of a safe spiral
+const SPIRAL_STEP = Math.PI / 3;
+
+/** Cached route towards the cell a worm is heading for */
+interface WormRoute {
+  goalKey: string;
+  waypoints: Vector3[];
+  index: number;
+}
+
+/** Circular patch of desert a worm patrols and defends. */
+export interface WormTerritory {
+  id: string;
+  center: Vector3;
+  radius: number;
+}
 
 export class WormAI {
   private worms: Map<string, WormState> = new Map();
   private patrolTargets: Map<string, Vector3> = new Map();
+  private territories: Map<string, WormTerritory> = new Map();
+  private routes: Map<string, WormRoute> = new Map();
+  private spirals: Map<string, { center: Vector3; angle: number }> = new Map();
+  // Thumper each worm was last called to
+  private thumperTargets: Map<string, string> = new Map();
+  private activity = 1;
+
+  /** Without a nav grid worms head straight for their targets over open sand */
+  constructor(private readonly nav?: NavGrid) {}
+
+  /** Worms never enter rock */
+  isBlocked(position: Vector3): boolean {
+    return this.nav?.isRock(position) ?? false;
+  }
 
-  constructor() {
-    this.spawnWorm('worm-0', { x: 50, y: 0, z: 50 });
+  /**
+   * Scale how far unridden worms travel and how far they hear, e.g. from
+   * the time of day. Ridden worms go at their rider's pace.
+   */
+  setActivity(level: number): void {
+    this.activity = Math.max(0, level);
   }
 
-  private spawnWorm(id: string, startPosition: Vector3) {
+  getActivity(): number {
+    return this.activity;
+  }
+
+  spawnWorm(id: string, startPosition: Vector3, territory?: WormTerritory) {
     const initialHeading = Math.random() * Math.PI * 2;
     const worm: WormState = {
       id,
@@ -20,9 +70,25 @@ export class WormAI {
       heading: initialHeading,
     };
     this.worms.set(id, worm);
+    if (territory) {
+      this.territories.set(id, territory);
+    }
     this.setRandomPatrolTarget(id);
   }
 
+  removeWorm(id: string): boolean {
+    this.patrolTargets.delete(id);
+    this.thumperTargets.delete(id);
+    this.territories.delete(id);
+    this.routes.delete(id);
+    this.spirals.delete(id);
+    return this.worms.delete(id);
+  }
+
+  getTerritory(wormId: string): WormTerritory | undefined {
+    return this.territories.get(wormId);
+  }
+
   private generateInitialControlPoints(start: Vector3): Vector3[] {
     const points: Vector3[] = [];
     const segmentCount = 10;
@@ -39,18 +105,98 @@ export class WormAI {
   }
 
   private setRandomPatrolTarget(wormId: string) {
-    const angle = Math.random() * Math.PI * 2;
-    const distance = 100 + Math.random() * 200;
-    
     const worm = this.worms.get(wormId);
     if (!worm) return;
 
-    const head = worm.controlPoints[0];
-    const target: Vector3 = {
-      x: head.x + Math.cos(angle) * distance,
+    // Territorial worms wander inside their own patch; strays roam freely
+    const territory = this.territories.get(wormId);
+    const origin = territory ? territory.center : worm.controlPoints[0];
+
+    let target: Vector3 = { ...origin, y: 0 };
+    for (let attempt = 0; attempt < PATROL_TARGET_ATTEMPTS; attempt++) {
+      const angle = Math.random() * Math.PI * 2;
+      const distance = territory
+        ? Math.sqrt(Math.random()) * territory.radius
+        : 100 + Math.random() * 200;
+
+      target = {
+        x: origin.x + Math.cos(angle) * distance,
+        y: 0,
+        z: origin.z + Math.sin(angle) * distance,
+      };
+      if (!this.isBlocked(target)) break;
+    }
+
+    this.patrolTargets.set(wormId, target);
+    worm.targetPosition = target;
+  }
+
+  /**
+   * Heading closest to `heading` whose next few metres are clear of rock,
+   * turning back if every detour is blocked.
+   */
+  private findOpenHeading(head: Vector3, heading: number): number {
+    const isOpen = (candidate: number) => [1, 2, 3].every(step => !this.isBlocked({
+      x: head.x + Math.sin(candidate) * ROCK_LOOKAHEAD * step / 3,
       y: 0,
-      z: head.z + Math.sin(angle) * distance,
-    };
+      z: head.z + Math.cos(candidate) * ROCK_LOOKAHEAD * step / 3,
+    }));
+
+    if (isOpen(heading)) {
+      return heading;
+    }
+    for (const offset of DETOUR_OFFSETS) {
+      if (isOpen(heading + offset)) {
+        return heading + offset;
+      }
+    }
+    return heading + Math.PI;
+  }
+
+  /**
+   * Next point to steer for on the way to `target`. Routes come from the nav
+   * grid and are kept until the target moves to another cell.
+   */
+  private nextWaypoint(wormId: string, head: Vector3, target: Vector3): Vector3 {
+    if (!this.nav) {
+      return target;
+    }
+
+    const goalKey = this.nav.cellKey(target);
+    let route = this.routes.get(wormId);
+    if (!route || route.goalKey !== goalKey) {
+      // The goal cell's centre is swapped for the target itself
+      const path = this.nav.findPath(head, target);
+      route = { goalKey, waypoints: path ? path.slice(0, -1) : [], index: 0 };
+      this.routes.set(wormId, route);
+    }
+
+    while (route.index < route.waypoints.length) {
+      const waypoint = route.waypoints[route.index];
+      const dist = Math.sqrt((waypoint.x - head.x) ** 2 + (waypoint.z - head.z) ** 2);
+      if (dist >= this.nav.cellSize / 2) {
+        return waypoint;
+      }
+      route.index++;
+    }
+    return target;
+  }
+
+  private setNextSpiralTarget(wormId: string) {
+    const worm = this.worms.get(wormId);
+    const spiral = this.spirals.get(wormId);
+    if (!worm || !spiral) return;
+
+    let target: Vector3 = { ...spiral.center };
+    for (let attempt = 0; attempt < PATROL_TARGET_ATTEMPTS; attempt++) {
+      spiral.angle += SPIRAL_STEP;
+      target = {
+        x: spiral.center.x + Math.sin(spiral.angle) * GAME_CONSTANTS.WORM_SAFE_SPIRAL_RADIUS,
+        y: 0,
+        z: spiral.center.z + Math.cos(spiral.angle) * GAME_CONSTANTS.WORM_SAFE_SPIRAL_RADIUS,
+      };
+      if (!this.isBlocked(target)) break;
+    }
 
     this.patrolTargets.set(wormId, target);
     worm.targetPosition = target;
@@ -70,7 +216,7 @@ export class WormAI {
       const dz = target.z - head.z;
       const distanceToTarget = Math.sqrt(dx * dx + dz * dz);
 
-      if (worm.aiState === WormAIState.APPROACHING_THUMPER) {
+      if (this.isApproaching(worm)) {
         if (distanceToTarget < GAME_CONSTANTS.WORM_APPROACH_SLOW_DISTANCE) {
           worm.speed = Math.max(GAME_CONSTANTS.WORM_MIN_SPEED, worm.speed * 0.95);
         }
@@ -78,6 +224,12 @@ export class WormAI {
         if (distanceToTarget < 5) {
           worm.speed = GAME_CONSTANTS.WORM_MIN_SPEED;
         }
+      } else if (worm.aiState === WormAIState.SAFE_SPIRAL) {
+        worm.speed = GAME_CONSTANTS.WORM_MIN_SPEED;
+        if (distanceToTarget < 20) {
+          this.setNextSpiralTarget(wormId);
+          continue;
+        }
       } else {
         if (distanceToTarget < 20) {
           this.setRandomPatrolTarget(wormId);
@@ -86,15 +238,14 @@ export class WormAI {
         }
       }
 
-      const dirX = dx / distanceToTarget;
-      const dirZ = dz / distanceToTarget;
-
-      worm.heading = Math.atan2(dirX, dirZ);
+      const waypoint = this.nextWaypoint(wormId, head, target);
+      worm.heading = this.findOpenHeading(head, Math.atan2(waypoint.x - head.x, waypoint.z - head.z));
 
+      const step = worm.speed * this.activity * deltaTime;
       const newHead: Vector3 = {
-        x: head.x + dirX * worm.speed * deltaTime,
+        x: head.x + Math.sin(worm.heading) * step,
         y: 0,
-        z: head.z + dirZ * worm.speed * deltaTime,
+        z: head.z + Math.cos(worm.heading) * step,
       };
 
       worm.controlPoints.unshift(newHead);
@@ -109,21 +260,61 @@ export class WormAI {
     return Array.from(this.worms.values());
   }
 
-  setWormTarget(wormId: string, target: Vector3) {
+  /** Call a worm to a thumper at `target`; `thumperId` names the thumper it will swallow */
+  setWormTarget(wormId: string, target: Vector3, thumperId?: string) {
     const worm = this.worms.get(wormId);
-    if (worm && worm.aiState !== WormAIState.RIDDEN_BY) {
+    if (worm && !this.isHeld(worm)) {
       worm.targetPosition = target;
       worm.aiState = WormAIState.APPROACHING_THUMPER;
       this.patrolTargets.set(wormId, target);
+      if (thumperId) {
+        this.thumperTargets.set(wormId, thumperId);
+      } else {
+        this.thumperTargets.delete(wormId);
+      }
+    }
+  }
+
+  /** The thumper a worm is answering, if it is answering one */
+  getTargetThumper(wormId: string): string | undefined {
+    const worm = this.worms.get(wormId);
+    if (!worm || worm.aiState !== WormAIState.APPROACHING_THUMPER) {
+      return undefined;
+    }
+    return this.thumperTargets.get(wormId);
+  }
+
+  /**
+   * Head for a noise source. Thumpers take priority, so a worm already
+   * answering one keeps going.
+   */
+  setNoiseTarget(wormId: string, target: Vector3) {
+    const worm = this.worms.get(wormId);
+    if (!worm || this.isHeld(worm) || worm.aiState === WormAIState.APPROACHING_THUMPER) {
+      return;
     }
+
+    worm.targetPosition = { ...target };
+    worm.aiState = WormAIState.APPROACHING_NOISE;
+    this.patrolTargets.set(wormId, worm.targetPosition);
+  }
+
+  /** Give up on a noise source that went quiet and resume patrolling */
+  loseInterest(wormId: string) {
+    const worm = this.worms.get(wormId);
+    if (!worm || worm.aiState !== WormAIState.APPROACHING_NOISE) return;
+
+    worm.aiState = WormAIState.PATROLLING;
+    this.setRandomPatrolTarget(wormId);
   }
 
   mountWorm(wormId: string, playerId: string): boolean {
     const worm = this.worms.get(wormId);
-    if (!worm || worm.aiState === WormAIState.RIDDEN_BY) {
+    if (!worm || this.isHeld(worm)) {
       return false;
     }
 
+    this.routes.delete(wormId);
     worm.aiState = WormAIState.RIDDEN_BY;
     worm.riderId = playerId;
     worm.speed = 15;
@@ -137,22 +328,104 @@ export class WormAI {
 
     worm.aiState = WormAIState.PATROLLING;
     worm.riderId = undefined;
+    this.spirals.delete(wormId);
     this.setRandomPatrolTarget(wormId);
     console.log(`Worm ${wormId} dismounted, returning to patrol`);
     return true;
   }
 
+  /**
+   * The rider dropped out: circle slowly around where they left, ignoring
+   * thumpers and noise, until they resume the ride or are dismounted.
+   */
+  startSafeSpiral(wormId: string): boolean {
+    const worm = this.worms.get(wormId);
+    if (!worm || worm.aiState !== WormAIState.RIDDEN_BY) {
+      return false;
+    }
+
+    worm.aiState = WormAIState.SAFE_SPIRAL;
+    worm.speed = GAME_CONSTANTS.WORM_MIN_SPEED;
+    this.spirals.set(wormId, { center: { ...worm.controlPoints[0] }, angle: worm.heading });
+    this.setNextSpiralTarget(wormId);
+    return true;
+  }
+
+  /** Hand a spiralling worm back to the rider it was waiting for */
+  resumeRide(wormId: string, playerId: string): boolean {
+    const worm = this.worms.get(wormId);
+    if (!worm || worm.aiState !== WormAIState.SAFE_SPIRAL || worm.riderId !== playerId) {
+      return false;
+    }
+
+    worm.aiState = WormAIState.RIDDEN_BY;
+    this.spirals.delete(wormId);
+    this.routes.delete(wormId);
+    return true;
+  }
+
+  /**
+   * True when an attracted worm's head has reached the vibration it was
+   * following and it breaks the surface.
+   */
+  isStriking(wormId: string): boolean {
+    const worm = this.worms.get(wormId);
+    if (!worm || !this.isApproaching(worm) || !worm.targetPosition) {
+      return false;
+    }
+
+    const head = worm.controlPoints[0];
+    const dx = worm.targetPosition.x - head.x;
+    const dz = worm.targetPosition.z - head.z;
+    return Math.sqrt(dx * dx + dz * dz) <= GAME_CONSTANTS.WORM_STRIKE_RADIUS;
+  }
+
+  /**
+   * Lunge the head onto the strike point, then send the worm back under the
+   * sand to patrol. Returns where the head broke the surface.
+   */
+  completeStrike(wormId: string): Vector3 | null {
+    const worm = this.worms.get(wormId);
+    if (!worm || this.isHeld(worm)) return null;
+
+    const strikePoint: Vector3 = { ...(worm.targetPosition ?? worm.controlPoints[0]), y: 0 };
+    worm.controlPoints.unshift({ ...strikePoint });
+    if (worm.controlPoints.length > 12) {
+      worm.controlPoints.pop();
+    }
+
+    worm.aiState = WormAIState.PATROLLING;
+    worm.speed = 15;
+    this.thumperTargets.delete(wormId);
+    this.setRandomPatrolTarget(wormId);
+    return strikePoint;
+  }
+
   getWorm(wormId: string): WormState | undefined {
     return this.worms.get(wormId);
   }
 
-  steerWorm(wormId: string, direction: number, speedIntent: number, deltaTime: number) {
+  /**
+   * Rider input for a ridden worm. Inside a storm (`storm` 0-1) the worm
+   * answers the hooks more slowly and the wind swings it towards
+   * `windHeading`.
+   */
+  steerWorm(
+    wormId: string,
+    direction: number,
+    speedIntent: number,
+    deltaTime: number,
+    storm: number = 0,
+    windHeading: number = 0
+  ) {
     const worm = this.worms.get(wormId);
     if (!worm || worm.aiState !== WormAIState.RIDDEN_BY) return;
 
-    const maxTurnRate = GAME_CONSTANTS.WORM_TURN_RATE * deltaTime;
+    const handling = 1 - storm * (1 - WEATHER_CONSTANTS.STORM_STEER_SCALE);
+    const maxTurnRate = GAME_CONSTANTS.WORM_TURN_RATE * handling * deltaTime;
     const targetHeadingChange = direction * maxTurnRate;
     worm.heading += targetHeadingChange;
+    worm.heading += Math.sin(windHeading - worm.heading) * WEATHER_CONSTANTS.STORM_WIND_TURN_RATE * storm * deltaTime;
 
     const targetSpeed = GAME_CONSTANTS.WORM_MIN_SPEED + 
       ((speedIntent + 1) / 2) * (GAME_CONSTANTS.WORM_MAX_SPEED - GAME_CONSTANTS.WORM_MIN_SPEED);
@@ -167,6 +440,12 @@ export class WormAI {
       z: head.z + Math.cos(worm.heading) * worm.speed * deltaTime,
     };
 
+    // A ridden worm balks at rock; the rider has to turn it away
+    if (this.isBlocked(newHead)) {
+      worm.speed = GAME_CONSTANTS.WORM_MIN_SPEED;
+      return;
+    }
+
     worm.controlPoints.unshift(newHead);
     
     if (worm.controlPoints.length > 12) {
@@ -174,17 +453,45 @@ export class WormAI {
     }
   }
 
+  /**
+   * Distance from a worm's head to a vibration at `position`, or null if the
+   * worm can't hear it: ridden, dead, beyond WORM_ATTRACTION_RANGE, outside
+   * its territory or made on rock.
+   */
+  getHearingDistance(wormId: string, position: Vector3): number | null {
+    const worm = this.worms.get(wormId);
+    if (!worm || this.isHeld(worm) || worm.health <= 0) {
+      return null;
+    }
+    if (this.isBlocked(position)) {
+      return null;
+    }
+
+    const territory = this.territories.get(wormId);
+    if (territory) {
+      const tx = territory.center.x - position.x;
+      const tz = territory.center.z - position.z;
+      if (Math.sqrt(tx * tx + tz * tz) > territory.radius) {
+        return null;
+      }
+    }
+
+    const head = worm.controlPoints[0];
+    const dx = head.x - position.x;
+    const dz = head.z - position.z;
+    const dist = Math.sqrt(dx * dx + dz * dz);
+
+    return dist <= GAME_CONSTANTS.WORM_ATTRACTION_RANGE * this.activity ? dist : null;
+  }
+
+  /** Nearest worm that can hear a vibration at `position` */
   findNearestWorm(position: Vector3): string | null {
     let nearestId: string | null = null;
     let nearestDist = Infinity;
 
-    for (const [id, worm] of this.worms) {
-      const head = worm.controlPoints[0];
-      const dx = head.x - position.x;
-      const dz = head.z - position.z;
-      const dist = Math.sqrt(dx * dx + dz * dz);
-
-      if (dist < nearestDist) {
+    for (const id of this.worms.keys()) {
+      const dist = this.getHearingDistance(id, position);
+      if (dist !== null && dist < nearestDist) {
         nearestDist = dist;
         nearestId = id;
       }
@@ -192,4 +499,13 @@ export class WormAI {
 
     return nearestId;
   }
+
+  /** Ridden, or circling for a rider who dropped off */
+  private isHeld(worm: WormState): boolean {
+    return worm.aiState === WormAIState.RIDDEN_BY || worm.aiState === WormAIState.SAFE_SPIRAL;
+  }
+
+  private isApproaching(worm: WormState): boolean {
+    return worm.aiState === WormAIState.APPROACHING_THUMPER || worm.aiState === WormAIState.APPROACHING_NOISE;
+  }
 }
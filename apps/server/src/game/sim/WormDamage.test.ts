@@ -12,6 +12,7 @@ describe('VS2: Worm Damage System', () => {
   beforeEach(() => {
     wormDamage = new WormDamage(SEED);
     wormAI = new WormAI();
+    wormAI.spawnWorm('worm-0', { x: 50, y: 0, z: 50 });
   });
 
   describe('Terrain Damage Detection', () => {
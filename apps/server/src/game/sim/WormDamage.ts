@@ -28,7 +28,7 @@ export class WormDamage {
     }
 
     const heightDiff = Math.abs(terrainHeight - head.y);
-    if (heightDiff > 5) {
+    if (heightDiff > GAME_CONSTANTS.WORM_OBSTACLE_HEIGHT) {
       const damage = 50;
       this.lastDamagePositions.set(worm.id, { ...head });
       console.log(`Worm ${worm.id} hit obstacle: ${damage} damage`);
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GAME_CONSTANTS, WormAIState } from '@fremen/shared';
+import { WormAI } from './WormAI';
+import { WormPopulationManager } from './WormPopulation';
+
+describe('WormPopulationManager', () => {
+  let wormAI: WormAI;
+  let population: WormPopulationManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    wormAI = new WormAI();
+    population = new WormPopulationManager(12345);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('scales territories with world size', () => {
+    const small = new WormPopulationManager(12345, 500);
+
+    expect(population.getTerritories()).toHaveLength(16);
+    expect(small.getTerritories()).toHaveLength(4);
+  });
+
+  it('lays out territories deterministically from the seed', () => {
+    const same = new WormPopulationManager(12345);
+    const other = new WormPopulationManager(999);
+
+    expect(same.getTerritories()).toEqual(population.getTerritories());
+    expect(other.getTerritories()).not.toEqual(population.getTerritories());
+  });
+
+  it('keeps the home worm next to the player spawn', () => {
+    population.update(wormAI, 0);
+
+    const worms = wormAI.getWorms();
+    expect(worms).toHaveLength(1);
+    expect(worms[0].id).toBe('worm-0');
+    expect(worms[0].controlPoints[0]).toEqual({ x: 50, y: 0, z: 50 });
+  });
+
+  it('grows the population with player count up to the cap', () => {
+    population.update(wormAI, 2);
+
+    const expected = GAME_CONSTANTS.WORM_POPULATION_BASE + 2 * GAME_CONSTANTS.WORM_POPULATION_PER_PLAYER;
+    expect(wormAI.getWorms()).toHaveLength(expected);
+    expect(population.getCap(100)).toBe(population.getTerritories().length);
+  });
+
+  it('spawns each worm inside its own territory', () => {
+    population.update(wormAI, 3);
+
+    const territoryIds = new Set<string>();
+    for (const worm of wormAI.getWorms()) {
+      const territory = wormAI.getTerritory(worm.id)!;
+      const head = worm.controlPoints[0];
+      const dist = Math.sqrt((head.x - territory.center.x) ** 2 + (head.z - territory.center.z) ** 2);
+      expect(dist).toBeLessThanOrEqual(territory.radius);
+      territoryIds.add(territory.id);
+    }
+    expect(territoryIds.size).toBe(wormAI.getWorms().length);
+  });
+
+  it('retires idle worms when players leave but never a ridden one', () => {
+    population.update(wormAI, 2);
+    const ridden = wormAI.getWorms()[wormAI.getWorms().length - 1];
+    wormAI.mountWorm(ridden.id, 'player1');
+
+    population.update(wormAI, 0);
+
+    const ids = wormAI.getWorms().map(worm => worm.id);
+    expect(ids).toContain(ridden.id);
+    expect(ids).toHaveLength(1);
+  });
+
+  it('respawns a dead worm after the respawn delay', () => {
+    // A single territory, so nothing else can fill in meanwhile
+    population = new WormPopulationManager(12345, GAME_CONSTANTS.WORM_TERRITORY_SIZE);
+    population.update(wormAI, 0);
+    wormAI.getWorm('worm-0')!.health = 0;
+
+    population.update(wormAI, 0);
+    expect(wormAI.getWorms()).toHaveLength(0);
+
+    vi.advanceTimersByTime(GAME_CONSTANTS.WORM_RESPAWN_DELAY - 1);
+    population.update(wormAI, 0);
+    expect(wormAI.getWorms()).toHaveLength(0);
+
+    vi.advanceTimersByTime(1);
+    population.update(wormAI, 0);
+    const worms = wormAI.getWorms();
+    expect(worms).toHaveLength(1);
+    expect(worms[0].id).not.toBe('worm-0');
+    expect(worms[0].health).toBe(GAME_CONSTANTS.WORM_INITIAL_HEALTH);
+    expect(worms[0].aiState).toBe(WormAIState.PATROLLING);
+  });
+
+  it('fills another territory while one waits to respawn', () => {
+    population.update(wormAI, 1);
+    wormAI.getWorm('worm-0')!.health = 0;
+
+    population.update(wormAI, 1);
+
+    const expected = GAME_CONSTANTS.WORM_POPULATION_BASE + GAME_CONSTANTS.WORM_POPULATION_PER_PLAYER;
+    expect(wormAI.getWorms()).toHaveLength(expected);
+    expect(wormAI.getWorm('worm-0')).toBeUndefined();
+  });
+});
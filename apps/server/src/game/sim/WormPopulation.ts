@@ -0,0 +1,161 @@
+import type { Vector3 } from '@fremen/shared';
+import { GAME_CONSTANTS, WormAIState } from '@fremen/shared';
+import { seededRandom } from '../../utils/random.js';
+import type { WormAI, WormTerritory } from './WormAI';
+
+// The first worm always lives next to the player spawn so there is
+// something to ride as soon as anyone joins.
+const HOME_POSITION: Vector3 = { x: 50, y: 0, z: 50 };
+const SPAWN_ATTEMPTS = 8;
+
+interface TerritorySlot {
+  territory: WormTerritory;
+  home: boolean;
+  wormId?: string;
+  respawnAt?: number;
+}
+
+/**
+ * Keeps the worm population in step with the room.
+ *
+ * The world is divided into a grid of WORM_TERRITORY_SIZE territories whose
+ * layout and fill order come from the world seed. Each territory holds at most
+ * one worm. The number of live worms is capped by player count, and a worm
+ * that dies leaves its territory empty for WORM_RESPAWN_DELAY.
+ */
+export class WormPopulationManager {
+  private slots: TerritorySlot[] = [];
+  private rng: () => number;
+  private nextWormNumber = 0;
+
+  constructor(seed: number = 42, worldSize: number = 1000) {
+    this.rng = seededRandom(seed);
+    this.generateTerritories(worldSize);
+  }
+
+  getTerritories(): WormTerritory[] {
+    return this.slots.map(slot => slot.territory);
+  }
+
+  /**
+   * Maximum number of live worms for a given player count, never more than
+   * there are territories.
+   */
+  getCap(playerCount: number): number {
+    const wanted = GAME_CONSTANTS.WORM_POPULATION_BASE + GAME_CONSTANTS.WORM_POPULATION_PER_PLAYER * playerCount;
+    return Math.min(this.slots.length, wanted);
+  }
+
+  /**
+   * Clear out dead worms, retire idle worms above the cap and spawn into
+   * empty territories until the cap is reached.
+   */
+  update(wormAI: WormAI, playerCount: number): void {
+    const now = Date.now();
+
+    for (const slot of this.slots) {
+      if (!slot.wormId) continue;
+
+      const worm = wormAI.getWorm(slot.wormId);
+      if (!worm) {
+        slot.wormId = undefined;
+      } else if (worm.health <= 0 && !worm.riderId) {
+        wormAI.removeWorm(worm.id);
+        slot.wormId = undefined;
+        slot.respawnAt = now + GAME_CONSTANTS.WORM_RESPAWN_DELAY;
+        console.log(`Worm ${worm.id} removed, territory ${slot.territory.id} respawns in ${GAME_CONSTANTS.WORM_RESPAWN_DELAY}ms`);
+      }
+    }
+
+    const cap = this.getCap(playerCount);
+    let alive = this.slots.filter(slot => slot.wormId).length;
+
+    // Retire from the back of the fill order so the home worm goes last
+    for (let i = this.slots.length - 1; i >= 0 && alive > cap; i--) {
+      const slot = this.slots[i];
+      const worm = slot.wormId ? wormAI.getWorm(slot.wormId) : undefined;
+      if (!worm || worm.aiState !== WormAIState.PATROLLING) continue;
+
+      wormAI.removeWorm(worm.id);
+      slot.wormId = undefined;
+      alive--;
+    }
+
+    for (const slot of this.slots) {
+      if (alive >= cap) break;
+      if (slot.wormId || (slot.respawnAt !== undefined && now < slot.respawnAt)) continue;
+
+      slot.wormId = `worm-${this.nextWormNumber++}`;
+      slot.respawnAt = undefined;
+      const position = slot.home ? { ...HOME_POSITION } : this.pickSpawnPosition(wormAI, slot.territory);
+      wormAI.spawnWorm(slot.wormId, position, slot.territory);
+      alive++;
+    }
+  }
+
+  private generateTerritories(worldSize: number): void {
+    const size = GAME_CONSTANTS.WORM_TERRITORY_SIZE;
+    const cellsPerSide = Math.max(1, Math.floor(worldSize / size));
+    const cellSize = worldSize / cellsPerSide;
+    // Reach a little past the cell corners so neighbouring territories overlap
+    const radius = cellSize * 0.75;
+
+    let home: TerritorySlot | undefined;
+    const others: TerritorySlot[] = [];
+
+    for (let row = 0; row < cellsPerSide; row++) {
+      for (let col = 0; col < cellsPerSide; col++) {
+        const minX = -worldSize / 2 + col * cellSize;
+        const minZ = -worldSize / 2 + row * cellSize;
+        const jitterX = (this.rng() - 0.5) * cellSize * 0.5;
+        const jitterZ = (this.rng() - 0.5) * cellSize * 0.5;
+
+        const containsHome =
+          HOME_POSITION.x >= minX && HOME_POSITION.x < minX + cellSize &&
+          HOME_POSITION.z >= minZ && HOME_POSITION.z < minZ + cellSize;
+
+        const slot: TerritorySlot = {
+          territory: {
+            id: `territory-${row}-${col}`,
+            center: containsHome
+              ? { ...HOME_POSITION }
+              : { x: minX + cellSize / 2 + jitterX, y: 0, z: minZ + cellSize / 2 + jitterZ },
+            radius,
+          },
+          home: containsHome && !home,
+        };
+
+        if (slot.home) {
+          home = slot;
+        } else {
+          others.push(slot);
+        }
+      }
+    }
+
+    // Seeded shuffle decides which territories fill up as players arrive
+    for (let i = others.length - 1; i > 0; i--) {
+      const j = Math.floor(this.rng() * (i + 1));
+      [others[i], others[j]] = [others[j], others[i]];
+    }
+
+    this.slots = home ? [home, ...others] : others;
+  }
+
+  private pickSpawnPosition(wormAI: WormAI, territory: WormTerritory): Vector3 {
+    // Surface on sand; a territory that is nearly all rock falls back to its centre
+    for (let attempt = 0; attempt < SPAWN_ATTEMPTS; attempt++) {
+      const angle = this.rng() * Math.PI * 2;
+      const distance = this.rng() * territory.radius * 0.5;
+      const position = {
+        x: territory.center.x + Math.cos(angle) * distance,
+        y: 0,
+        z: territory.center.z + Math.sin(angle) * distance,
+      };
+      if (!wormAI.isBlocked(position)) {
+        return position;
+      }
+    }
+    return { ...territory.center };
+  }
+}
@@ -1,5 +1,6 @@
 import { STARTING_RESOURCES, type PlayerResources, type Vector3 } from '@fremen/shared';
 import type { PlayerRepository, PlayerSnapshotUpdate } from '../PlayerRepository';
+import { cloneObjectiveBoard } from '../ObjectiveManager';
 
 function materializeTemplate(): PlayerResources {
   return {
@@ -18,6 +19,7 @@ function cloneResources(resources: PlayerResources): PlayerResources {
     equipment: { ...resources.equipment },
     stats: { ...resources.stats },
     inventory: resources.inventory ? [...resources.inventory] : [],
+    objectives: resources.objectives && cloneObjectiveBoard(resources.objectives),
   };
 }
 
@@ -50,6 +52,7 @@ export class InMemoryPlayerRepository implements PlayerRepository {
       equipment: update.resources?.equipment ? { ...update.resources.equipment } : current.equipment,
       stats: update.resources?.stats ? { ...update.resources.stats } : current.stats,
       inventory: update.resources?.inventory ? [...update.resources.inventory] : current.inventory,
+      objectives: update.resources?.objectives ? cloneObjectiveBoard(update.resources.objectives) : current.objectives,
     };
 
     this.store.set(playerId, merged);
@@ -67,6 +70,7 @@ export class InMemoryPlayerRepository implements PlayerRepository {
       equipment: finalState.resources?.equipment ? { ...finalState.resources.equipment } : current.equipment,
       stats: finalState.resources?.stats ? { ...finalState.resources.stats } : current.stats,
       inventory: finalState.resources?.inventory ? [...finalState.resources.inventory] : current.inventory,
+      objectives: finalState.resources?.objectives ? cloneObjectiveBoard(finalState.resources.objectives) : current.objectives,
     };
 
     this.store.set(playerId, merged);
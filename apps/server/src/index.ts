@@ -3,9 +3,11 @@ import { createServer } from 'http';
 import express from 'express';
 import cors from 'cors';
 import { GAME_CONSTANTS } from '@fremen/shared';
-import { generateToken, verifyToken } from './auth/jwt';
-import { Room } from './game/Room';
-import { GameLoop } from './game/GameLoop';
+import { generateToken } from './auth/jwt';
+import { AuthService } from './auth/AuthService';
+import type { AuthResult } from './auth/AuthService';
+import { createDbAccountRepository } from './auth/AccountRepository';
+import { RoomManager } from './game/RoomManager';
 import { RateLimiter } from './game/RateLimiter';
 import { createDbPlayerRepository } from './game/PlayerRepository';
 
@@ -31,9 +33,14 @@ app.get('/', (req, res) => {
     name: 'Fremen Game Server',
     version: '0.1.0',
     status: 'running',
-    players: mainRoom.getPlayerCount(),
+    players: roomManager.getTotalPlayerCount(),
     endpoints: {
       auth: '/auth/token',
+      register: '/auth/register',
+      login: '/auth/login',
+      refresh: '/auth/refresh',
+      rooms: '/rooms',
+      join: '/rooms/join',
       websocket: 'ws://localhost:3000',
     },
     client: 'http://localhost:5173',
@@ -45,21 +52,88 @@ app.get('/auth/token', (req, res) => {
   res.json({ token });
 });
 
-const WORLD_SEED = 12345;
+const authService = new AuthService(createDbAccountRepository());
+
+function sendAuthResult(res: express.Response, result: AuthResult) {
+  if (result.success) {
+    res.json(result.session);
+  } else {
+    res.status(result.status).json({ error: result.reason });
+  }
+}
+
+app.post('/auth/register', async (req, res) => {
+  const { username, password, guestToken } = req.body ?? {};
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    res.status(400).json({ error: 'username and password are required' });
+    return;
+  }
+
+  sendAuthResult(res, await authService.register(username, password, typeof guestToken === 'string' ? guestToken : undefined));
+});
+
+app.post('/auth/login', async (req, res) => {
+  const { username, password } = req.body ?? {};
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    res.status(400).json({ error: 'username and password are required' });
+    return;
+  }
+
+  sendAuthResult(res, await authService.login(username, password));
+});
+
+app.post('/auth/refresh', async (req, res) => {
+  const { refreshToken } = req.body ?? {};
+  if (typeof refreshToken !== 'string') {
+    res.status(400).json({ error: 'refreshToken is required' });
+    return;
+  }
+
+  sendAuthResult(res, await authService.refresh(refreshToken));
+});
+
+app.post('/auth/logout', async (req, res) => {
+  const { refreshToken } = req.body ?? {};
+  if (typeof refreshToken === 'string') {
+    await authService.logout(refreshToken);
+  }
+  res.status(204).end();
+});
+
+const ROOM_CLEANUP_INTERVAL = 30 * 1000;
 const playerRepository = createDbPlayerRepository();
-const mainRoom = new Room('main', playerRepository);
-const gameLoop = new GameLoop(mainRoom, WORLD_SEED, playerRepository);
+const roomManager = new RoomManager(playerRepository);
 const chatRateLimiter = new RateLimiter();
 
-gameLoop.start();
+setInterval(() => roomManager.cleanupIdleRooms(), ROOM_CLEANUP_INTERVAL);
+
+app.get('/rooms', (req, res) => {
+  res.json({ rooms: roomManager.listRooms() });
+});
+
+app.post('/rooms/join', async (req, res) => {
+  const payload = typeof req.body?.token === 'string' ? await authService.authenticate(req.body.token) : null;
+  if (!payload) {
+    res.status(401).json({ error: 'Invalid token' });
+    return;
+  }
+
+  const requestedRoomId = typeof req.body.roomId === 'string' ? req.body.roomId : undefined;
+  const managed = roomManager.reserve(payload.playerId, requestedRoomId);
+  res.json({
+    roomId: managed.roomId,
+    seed: managed.seed,
+    playerCount: managed.room.getPlayerCount(),
+  });
+});
 
-io.use((socket, next) => {
+io.use(async (socket, next) => {
   const token = socket.handshake.auth.token;
   if (!token) {
     return next(new Error('Authentication required'));
   }
 
-  const payload = verifyToken(token);
+  const payload = await authService.authenticate(token);
   if (!payload) {
     return next(new Error('Invalid token'));
   }
@@ -73,39 +147,34 @@ io.on('connection', async (socket) => {
   const { playerId, username } = socket.data;
   console.log(`Client connected: ${username} (${playerId})`);
 
-  const added = await mainRoom.addPlayer(socket, playerId, username);
-  if (!added) {
-    socket.emit('error', { message: 'Room is full' });
-    socket.disconnect();
-    return;
-  }
-
-  const joinedPlayer = mainRoom.getPlayer(playerId);
-  if (joinedPlayer) {
-    gameLoop.onPlayerJoin(joinedPlayer);
-  }
+  const resumeToken = typeof socket.handshake.auth.resumeToken === 'string'
+    ? socket.handshake.auth.resumeToken
+    : undefined;
+  const { managed, player: joinedPlayer } = await roomManager.join(socket, playerId, username, resumeToken);
+  const { room, gameLoop } = managed;
 
   socket.emit('welcome', {
     type: 'S_WELCOME',
     playerId,
-    seed: WORLD_SEED,
+    seed: managed.seed,
     timestamp: Date.now(),
+    resumeToken: joinedPlayer.resumeToken,
+    resumed: joinedPlayer.resumed,
   });
 
   socket.on('disconnect', () => {
     console.log(`Client disconnected: ${username} (${playerId})`);
-    gameLoop.onPlayerLeave(playerId);
-    void mainRoom.removePlayer(playerId);
+    void roomManager.leave(playerId, socket);
   });
 
   socket.on('input', (data) => {
-    let player = mainRoom.getPlayer(playerId);
+    let player = room.getPlayer(playerId);
     if (!player) return;
 
     player.lastInputSeq = data.seq;
 
     if (data.action?.type === 'deployThumper') {
-      const deployed = mainRoom.deployThumper(playerId);
+      const deployed = room.deployThumper(playerId);
       if (deployed) {
         socket.emit('thumperDeployed', { success: true });
       } else {
@@ -134,15 +203,16 @@ io.on('connection', async (socket) => {
       );
     } else {
       const { movement, rotation } = data;
-      const speed = GAME_CONSTANTS.PLAYER_MAX_SPEED;
-      
+      const speed = gameLoop.getEffectiveMaxSpeed(playerId);
+      player.sandwalking = data.sandwalk === true;
+
       const velocity = {
         x: movement.right * speed,
         y: 0,
         z: -movement.forward * speed,
       };
 
-      mainRoom.updatePlayerState(playerId, {
+      room.updatePlayerState(playerId, {
         velocity,
         rotation,
       });
@@ -162,8 +232,72 @@ io.on('connection', async (socket) => {
     }
   });
 
+  socket.on('ack', (data) => {
+    if (data?.type === 'C_STATE_ACK' && typeof data.seq === 'number') {
+      gameLoop.handleStateAck(playerId, data.seq);
+    }
+  });
+
+  socket.on('harvest', (data) => {
+    if (data?.type === 'C_HARVEST_START' && typeof data.nodeId === 'string') {
+      gameLoop.handleHarvestStart(playerId, data.nodeId);
+    } else if (data?.type === 'C_HARVEST_CANCEL') {
+      gameLoop.handleHarvestCancel(playerId);
+    }
+  });
+
+  socket.on('trade', (data) => {
+    if (data?.type === 'C_CATALOG_REQUEST') {
+      gameLoop.handleCatalogRequest(playerId);
+    } else if (data?.type === 'C_TRADE_BUY' && typeof data.itemId === 'string') {
+      gameLoop.handleTradeBuy(playerId, data.itemId);
+    } else if (data?.type === 'C_TRADE_SELL' && typeof data.itemId === 'string') {
+      gameLoop.handleTradeSell(playerId, data.itemId);
+    }
+  });
+
+  socket.on('oasis', (data) => {
+    if (data?.type === 'C_OASIS_REFILL') {
+      gameLoop.handleOasisRefill(playerId, typeof data.oasisId === 'string' ? data.oasisId : undefined);
+    }
+  });
+
+  socket.on('corpse', (data) => {
+    if (data?.type === 'C_CORPSE_RECOVER' && typeof data.corpseId === 'string') {
+      gameLoop.handleCorpseRecover(playerId, data.corpseId);
+    }
+  });
+
+  socket.on('equipment', (data) => {
+    if (data?.type === 'C_EQUIP' && typeof data.itemId === 'string') {
+      gameLoop.handleEquip(playerId, data.itemId);
+    } else if (data?.type === 'C_UNEQUIP' && typeof data.slot === 'string') {
+      gameLoop.handleUnequip(playerId, data.slot);
+    }
+  });
+
+  socket.on('objective', (data) => {
+    if (data?.type === 'C_OBJECTIVE_ACCEPT' && typeof data.objectiveId === 'string') {
+      gameLoop.handleObjectiveAccept(playerId, data.objectiveId);
+    } else if (data?.type === 'C_OBJECTIVE_ABANDON' && typeof data.objectiveId === 'string') {
+      gameLoop.handleObjectiveAbandon(playerId, data.objectiveId);
+    }
+  });
+
+  socket.on('party', (data) => {
+    if (data?.type === 'C_PARTY_INVITE' && typeof data.targetName === 'string') {
+      gameLoop.handlePartyInvite(playerId, data.targetName);
+    } else if (data?.type === 'C_PARTY_ACCEPT' && typeof data.inviterId === 'string') {
+      gameLoop.handlePartyAccept(playerId, data.inviterId);
+    } else if (data?.type === 'C_PARTY_LEAVE') {
+      gameLoop.handlePartyLeave(playerId);
+    } else if (data?.type === 'C_PARTY_KICK' && typeof data.targetId === 'string') {
+      gameLoop.handlePartyKick(playerId, data.targetId);
+    }
+  });
+
   socket.on('chat', (data) => {
-    const player = mainRoom.getPlayer(playerId);
+    const player = room.getPlayer(playerId);
     if (!player) return;
 
     if (!chatRateLimiter.check(playerId, 1, 2000)) {
@@ -175,19 +309,27 @@ io.on('connection', async (socket) => {
       return;
     }
 
+    const channel = data.channel === 'party' ? 'party' : 'global';
+    const recipients = channel === 'party' ? gameLoop.getPartyMembers(playerId) : room.getAllPlayers();
+    if (recipients.length === 0) {
+      socket.emit('error', { message: 'You are not in a party' });
+      return;
+    }
+
     const chatMessage = {
       type: 'S_CHAT',
       playerId,
       playerName: username,
       message: data.message,
       timestamp: Date.now(),
+      channel,
     };
 
-    for (const p of mainRoom.getAllPlayers()) {
+    for (const p of recipients) {
       p.socket.emit('chat', chatMessage);
     }
 
-    console.log(`Chat from ${username}: ${data.message}`);
+    console.log(`${channel === 'party' ? 'Party chat' : 'Chat'} from ${username}: ${data.message}`);
   });
 });
 
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { io as ioClient, Socket as ClientSocket } from 'socket.io-client';
+import { createServer, Server as HTTPServer } from 'http';
+import { Server as SocketIOServer } from 'socket.io';
+import { PlayerStateEnum } from '@fremen/shared';
+import { RoomManager } from './game/RoomManager';
+import { generateToken, verifyToken } from './auth/jwt';
+import { InMemoryPlayerRepository } from './game/testing/InMemoryPlayerRepository';
+
+describe('Reconnect Integration', () => {
+  let httpServer: HTTPServer;
+  let ioServer: SocketIOServer;
+  let roomManager: RoomManager;
+  let clientSocket: ClientSocket | undefined;
+  const PORT = 3002;
+
+  beforeAll(async () => {
+    httpServer = createServer();
+    ioServer = new SocketIOServer(httpServer, {
+      cors: { origin: '*' },
+    });
+
+    roomManager = new RoomManager(new InMemoryPlayerRepository(), { autoStart: false });
+
+    ioServer.use((socket, next) => {
+      const payload = verifyToken(socket.handshake.auth.token);
+      if (!payload) {
+        return next(new Error('Invalid token'));
+      }
+
+      socket.data.playerId = payload.playerId;
+      socket.data.username = payload.username;
+      next();
+    });
+
+    ioServer.on('connection', async (socket) => {
+      const { playerId, username } = socket.data;
+      const resumeToken = typeof socket.handshake.auth.resumeToken === 'string'
+        ? socket.handshake.auth.resumeToken
+        : undefined;
+      const { managed, player } = await roomManager.join(socket, playerId, username, resumeToken);
+
+      socket.emit('welcome', {
+        type: 'S_WELCOME',
+        playerId,
+        seed: managed.seed,
+        timestamp: Date.now(),
+        resumeToken: player.resumeToken,
+        resumed: player.resumed,
+      });
+
+      socket.on('disconnect', () => {
+        void roomManager.leave(playerId, socket);
+      });
+    });
+
+    await new Promise<void>((resolve) => {
+      httpServer.listen(PORT, resolve);
+    });
+  });
+
+  afterAll(async () => {
+    roomManager.shutdown();
+    ioServer.close();
+    httpServer.close();
+  });
+
+  afterEach(() => {
+    clientSocket?.disconnect();
+  });
+
+  /** Connect the way the client's NetworkManager does, re-reading the resume token on every attempt */
+  const connect = (token: string) => {
+    let resumeToken: string | null = null;
+    const socket = ioClient(`http://localhost:${PORT}`, {
+      auth: (cb) => cb({ token, resumeToken }),
+      reconnectionDelay: 50,
+      reconnectionDelayMax: 100,
+    });
+    socket.on('welcome', (data) => {
+      resumeToken = data.resumeToken;
+    });
+    return socket;
+  };
+
+  const nextWelcome = (socket: ClientSocket) =>
+    new Promise<{ resumed: boolean }>((resolve) => {
+      socket.once('welcome', resolve);
+    });
+
+  it('keeps a rider on their worm across an automatic reconnect', async () => {
+    clientSocket = connect(generateToken('rider', 'Rider'));
+    await nextWelcome(clientSocket);
+
+    const { room, gameLoop } = roomManager.getRoomForPlayer('rider')!;
+    const player = room.getPlayer('rider')!;
+    const worm = (gameLoop as any).wormAI.getWorm('worm-0');
+    const head = worm.controlPoints[0];
+    player.state.position = { x: head.x + 2, y: head.y, z: head.z };
+    expect(gameLoop.handleMountAttempt('rider', 'worm-0').success).toBe(true);
+
+    // Drop the transport without telling socket.io it was intentional
+    const welcome = nextWelcome(clientSocket);
+    clientSocket.io.engine.close();
+    const { resumed } = await welcome;
+
+    expect(resumed).toBe(true);
+    expect(room.getPlayer('rider')?.state.state).toBe(PlayerStateEnum.RIDING);
+    expect(worm.riderId).toBe('rider');
+  });
+});
@@ -3,8 +3,24 @@ import type {
   PlayerState,
   WormState,
   ThumperState,
+  StormState,
   DamageSource,
   OutpostState,
+  EntityDelta,
+  SpiceNode,
+  SpiceNodeChange,
+  SpiceBlowPhase,
+  MerchantItem,
+  InventoryItem,
+  Equipment,
+  ObjectiveReward,
+  ObjectiveType,
+  EquipmentSlot,
+  EquipmentStats,
+  Oasis,
+  CorpseMarker,
+  ThirstLevel,
+  WorldTime,
 } from '@fremen/shared';
 
 export interface C_INPUT {
@@ -24,6 +40,8 @@ export interface C_INPUT {
     direction: number;
     speedIntent: number;
   };
+  /** Walking without rhythm to muffle footsteps */
+  sandwalk?: boolean;
 }
 
 export interface S_WELCOME {
@@ -31,37 +49,134 @@ export interface S_WELCOME {
   playerId: string;
   seed: number;
   timestamp: number;
+  /** Present as `auth.resumeToken` when reconnecting to pick this session back up */
+  resumeToken: string;
+  /** True when this connection resumed a dropped session */
+  resumed: boolean;
 }
 
+export type ReplicatedEntityKind = 'player' | 'worm' | 'thumper' | 'outpost' | 'storm';
+
+export interface EntityRef {
+  kind: ReplicatedEntityKind;
+  id: string;
+}
+
+export interface ObjectiveSnapshot {
+  id: string;
+  type: string;
+  targetPosition: Vector3;
+  radius: number;
+  timeRemaining: number;
+  status: string;
+  /** 0..1 towards completion */
+  progress: number;
+  reward: ObjectiveReward;
+  /** Taken on failure */
+  penalty?: ObjectiveReward;
+  /** ESCORT: the full checkpoint route */
+  checkpoints?: Vector3[];
+}
+
+/**
+ * The receiving player's own survival resources. Private to that player, so
+ * it rides alongside the entity data rather than inside PlayerState.
+ */
+export interface PlayerResourceSnapshot {
+  water: number;
+  spice: number;
+  health: number;
+  maxHealth: number;
+  thirstLevel: ThirstLevel;
+  /** On-foot speed cap after thirst and equipment, used for client prediction */
+  maxSpeed: number;
+}
+
+/**
+ * Delta update relative to the last snapshot the client acknowledged.
+ * Entities that didn't change since `baselineSeq` are omitted entirely.
+ */
 export interface S_STATE {
   type: 'S_STATE';
+  seq: number;
+  baselineSeq: number;
+  timestamp: number;
+  lastProcessedInputSeq?: number;
+  players: EntityDelta<PlayerState>[];
+  worms: EntityDelta<WormState>[];
+  thumpers: EntityDelta<ThumperState>[];
+  outposts?: EntityDelta<OutpostState>[];
+  storms?: EntityDelta<StormState>[];
+  /** Entities that entered this client's interest range since `baselineSeq` */
+  spawned?: EntityRef[];
+  /** Entities that left this client's interest range since `baselineSeq` */
+  despawned?: EntityRef[];
+  /** Day/night clock, drives client lighting */
+  worldTime: WorldTime;
+  /** The receiving player's objective board */
+  objectives: ObjectiveSnapshot[];
+  /** The receiving player's party, if they're in one */
+  party?: PartySnapshot;
+  resources: PlayerResourceSnapshot;
+}
+
+/**
+ * Full keyframe, sent every SNAPSHOT_INTERVAL or whenever the client has no
+ * usable baseline.
+ */
+export interface S_SNAPSHOT {
+  type: 'S_SNAPSHOT';
+  seq: number;
   timestamp: number;
   lastProcessedInputSeq?: number;
   players: PlayerState[];
   worms: WormState[];
   thumpers: ThumperState[];
-  outposts?: OutpostState[];
-  objective?: {
-    id: string;
-    type: string;
-    targetPosition: Vector3;
-    radius: number;
-    timeRemaining: number;
-    status: string;
-  };
+  outposts: OutpostState[];
+  storms: StormState[];
+  worldTime: WorldTime;
+  /** The receiving player's objective board */
+  objectives: ObjectiveSnapshot[];
+  /** The receiving player's party, if they're in one */
+  party?: PartySnapshot;
+  resources: PlayerResourceSnapshot;
 }
 
-export interface S_SNAPSHOT {
-  type: 'S_SNAPSHOT';
+export interface C_STATE_ACK {
+  type: 'C_STATE_ACK';
+  seq: number;
+}
+
+/**
+ * Full world state rebuilt on the client from keyframes and deltas.
+ * `spawned`/`despawned` are relative to the previously decoded state.
+ */
+export interface WorldState {
+  seq: number;
   timestamp: number;
+  lastProcessedInputSeq?: number;
   players: PlayerState[];
   worms: WormState[];
   thumpers: ThumperState[];
+  outposts: OutpostState[];
+  storms: StormState[];
+  worldTime: WorldTime;
+  /** The receiving player's objective board */
+  objectives: ObjectiveSnapshot[];
+  /** The receiving player's party, if they're in one */
+  party?: PartySnapshot;
+  resources: PlayerResourceSnapshot;
+  spawned: EntityRef[];
+  despawned: EntityRef[];
 }
 
+export type ChatChannel = 'global' | 'party';
+
 export interface C_CHAT {
   type: 'C_CHAT';
   message: string;
+  /** Defaults to 'global' */
+  channel?: ChatChannel;
 }
 
 export interface S_CHAT {
@@ -70,14 +185,48 @@ export interface S_CHAT {
   playerName: string;
   message: string;
   timestamp: number;
+  channel?: ChatChannel;
 }
 
 export interface S_EVENT {
   type: 'S_EVENT';
-  eventType: 'damage' | 'collection' | 'worm_mounted';
+  eventType: 'damage' | 'collection' | 'worm_mounted' | 'worm_strike' | 'spice_blow' | 'objective';
   data: unknown;
 }
 
+/** Payload of an S_EVENT with eventType 'worm_strike' */
+export interface WormStrikeEventData {
+  wormId: string;
+  position: Vector3;
+  thumperId?: string;
+  victimIds: string[];
+}
+
+/**
+ * Payload of an S_EVENT with eventType 'spice_blow'. Sent as the blow is
+ * announced, erupts and decays; times are milliseconds from sending.
+ */
+export interface SpiceBlowEventData {
+  id: string;
+  phase: SpiceBlowPhase;
+  position: Vector3;
+  radius: number;
+  eruptsIn: number;
+  decaysIn: number;
+}
+
+/** Payload of an S_EVENT with eventType 'objective', sent to the board's owner */
+export interface ObjectiveEventData {
+  objectiveId: string;
+  objectiveType: ObjectiveType;
+  outcome: 'completed' | 'expired' | 'abandoned';
+  /** Player who completed it, or the owner when it failed */
+  playerId: string;
+  reward: ObjectiveReward;
+  /** What the failure cost the owner */
+  penalty?: ObjectiveReward;
+}
+
 export interface C_COMBAT_FIRE {
   type: 'C_COMBAT_FIRE';
   weaponId: string;
@@ -122,11 +271,261 @@ export interface S_COMBAT_EVENT {
   timestamp: number;
 }
 
-export type ClientMessage = C_INPUT | C_CHAT | C_COMBAT_FIRE;
+export interface C_HARVEST_START {
+  type: 'C_HARVEST_START';
+  nodeId: string;
+}
+
+export interface C_HARVEST_CANCEL {
+  type: 'C_HARVEST_CANCEL';
+}
+
+export interface S_HARVEST_PROGRESS {
+  type: 'S_HARVEST_PROGRESS';
+  nodeId: string;
+  progress: number;
+  timeRemaining: number;
+}
+
+export interface S_HARVEST_RESULT {
+  type: 'S_HARVEST_RESULT';
+  nodeId: string;
+  success: boolean;
+  amount: number;
+  spice: number;
+  reason?: string;
+}
+
+export type SpiceNodeSnapshot = Omit<SpiceNode, 'lastHarvestedBy'>;
+
+export interface S_SPICE_NODES {
+  type: 'S_SPICE_NODES';
+  nodes: SpiceNodeSnapshot[];
+  removed: string[];
+}
+
+export interface S_SPICE_NODE_UPDATE {
+  type: 'S_SPICE_NODE_UPDATE';
+  change: SpiceNodeChange;
+  node: SpiceNodeSnapshot;
+}
+
+export interface C_CATALOG_REQUEST {
+  type: 'C_CATALOG_REQUEST';
+}
+
+export interface C_TRADE_BUY {
+  type: 'C_TRADE_BUY';
+  itemId: string;
+}
+
+export interface C_TRADE_SELL {
+  type: 'C_TRADE_SELL';
+  itemId: string;
+}
+
+export interface MerchantCatalogEntry extends MerchantItem {
+  sellPrice: number;
+}
+
+export interface S_CATALOG {
+  type: 'S_CATALOG';
+  items: MerchantCatalogEntry[];
+  sietchPosition: Vector3;
+  safeZoneRadius: number;
+}
+
+export type TradeAction = 'buy' | 'sell';
+
+export interface S_TRADE_RESULT {
+  type: 'S_TRADE_RESULT';
+  action: TradeAction;
+  itemId: string;
+  success: boolean;
+  spice: number;
+  inventory: InventoryItem[];
+  reason?: string;
+}
+
+export interface C_EQUIP {
+  type: 'C_EQUIP';
+  itemId: string;
+}
+
+export interface C_UNEQUIP {
+  type: 'C_UNEQUIP';
+  slot: EquipmentSlot;
+}
+
+export interface S_INVENTORY {
+  type: 'S_INVENTORY';
+  equipment: Equipment;
+  inventory: InventoryItem[];
+  stats: EquipmentStats;
+}
+
+export type EquipAction = 'equip' | 'unequip';
+
+export interface S_EQUIP_RESULT {
+  type: 'S_EQUIP_RESULT';
+  action: EquipAction;
+  success: boolean;
+  equipment: Equipment;
+  inventory: InventoryItem[];
+  stats: EquipmentStats;
+  reason?: string;
+}
+
+export interface C_OASIS_REFILL {
+  type: 'C_OASIS_REFILL';
+  oasisId?: string;
+}
+
+export interface OasisSnapshot extends Omit<Oasis, 'activeCooldowns'> {
+  cooldownRemaining: number; // ms until this player can refill here again
+}
+
+export interface S_OASES {
+  type: 'S_OASES';
+  oases: OasisSnapshot[];
+}
+
+export interface S_OASIS_REFILL_RESULT {
+  type: 'S_OASIS_REFILL_RESULT';
+  oasisId: string | null;
+  success: boolean;
+  water: number;
+  cooldownRemaining: number;
+  reason?: string;
+}
+
+export interface C_CORPSE_RECOVER {
+  type: 'C_CORPSE_RECOVER';
+  corpseId: string;
+}
+
+export interface S_CORPSES {
+  type: 'S_CORPSES';
+  corpses: CorpseMarker[];
+}
+
+export interface S_CORPSE_RECOVER_RESULT {
+  type: 'S_CORPSE_RECOVER_RESULT';
+  corpseId: string;
+  success: boolean;
+  spiceRecovered: number;
+  spice: number;
+  reason?: string;
+}
+
+export interface C_OBJECTIVE_ACCEPT {
+  type: 'C_OBJECTIVE_ACCEPT';
+  objectiveId: string;
+}
+
+export interface C_OBJECTIVE_ABANDON {
+  type: 'C_OBJECTIVE_ABANDON';
+  objectiveId: string;
+}
+
+export type ObjectiveAction = 'accept' | 'abandon';
+
+export interface S_OBJECTIVE_RESULT {
+  type: 'S_OBJECTIVE_RESULT';
+  action: ObjectiveAction;
+  objectiveId: string;
+  success: boolean;
+  reason?: string;
+}
+
+export interface PartyMemberSnapshot {
+  playerId: string;
+  username: string;
+  position: Vector3;
+  alive: boolean;
+}
+
+export interface PartySnapshot {
+  id: string;
+  leaderId: string;
+  members: PartyMemberSnapshot[];
+}
+
+export interface C_PARTY_INVITE {
+  type: 'C_PARTY_INVITE';
+  targetName: string;
+}
+
+export interface C_PARTY_ACCEPT {
+  type: 'C_PARTY_ACCEPT';
+  inviterId: string;
+}
+
+export interface C_PARTY_LEAVE {
+  type: 'C_PARTY_LEAVE';
+}
+
+export interface C_PARTY_KICK {
+  type: 'C_PARTY_KICK';
+  targetId: string;
+}
+
+/** Sent to the invited player */
+export interface S_PARTY_INVITE {
+  type: 'S_PARTY_INVITE';
+  inviterId: string;
+  inviterName: string;
+  expiresAt: number;
+}
+
+export type PartyAction = 'invite' | 'accept' | 'leave' | 'kick';
+
+export interface S_PARTY_RESULT {
+  type: 'S_PARTY_RESULT';
+  action: PartyAction;
+  success: boolean;
+  reason?: string;
+}
+
+export type ClientMessage =
+  | C_INPUT
+  | C_CHAT
+  | C_COMBAT_FIRE
+  | C_HARVEST_START
+  | C_HARVEST_CANCEL
+  | C_STATE_ACK
+  | C_CATALOG_REQUEST
+  | C_TRADE_BUY
+  | C_TRADE_SELL
+  | C_EQUIP
+  | C_UNEQUIP
+  | C_OASIS_REFILL
+  | C_CORPSE_RECOVER
+  | C_OBJECTIVE_ACCEPT
+  | C_OBJECTIVE_ABANDON
+  | C_PARTY_INVITE
+  | C_PARTY_ACCEPT
+  | C_PARTY_LEAVE
+  | C_PARTY_KICK;
 export type ServerMessage =
   | S_WELCOME
   | S_STATE
   | S_SNAPSHOT
   | S_CHAT
   | S_EVENT
-  | S_COMBAT_EVENT;
+  | S_COMBAT_EVENT
+  | S_HARVEST_PROGRESS
+  | S_HARVEST_RESULT
+  | S_SPICE_NODES
+  | S_SPICE_NODE_UPDATE
+  | S_CATALOG
+  | S_TRADE_RESULT
+  | S_INVENTORY
+  | S_EQUIP_RESULT
+  | S_OASES
+  | S_OASIS_REFILL_RESULT
+  | S_CORPSES
+  | S_CORPSE_RECOVER_RESULT
+  | S_OBJECTIVE_RESULT
+  | S_PARTY_INVITE
+  | S_PARTY_RESULT;
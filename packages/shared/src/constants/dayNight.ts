@@ -0,0 +1,15 @@
+export const DAY_NIGHT_CONSTANTS = {
+  // Real milliseconds for one full day
+  DAY_LENGTH: 1200000,
+  // Time of day a new world starts at (sunrise)
+  START_TIME_OF_DAY: 0.25,
+  // Multipliers below are neutral at sunrise and sunset and peak at noon or midnight
+  // Water depletion multiplier in the noon heat and the night chill
+  DAY_WATER_MULTIPLIER: 1.5,
+  NIGHT_WATER_MULTIPLIER: 0.6,
+  // Trooper vision range multiplier in full darkness
+  NIGHT_VISION_SCALE: 0.5,
+  // Worm speed and hearing multiplier at noon and at midnight
+  DAY_WORM_ACTIVITY: 0.8,
+  NIGHT_WORM_ACTIVITY: 1.3,
+};
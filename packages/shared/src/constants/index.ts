@@ -13,7 +13,20 @@ export const GAME_CONSTANTS = {
   WORM_MAX_SPEED: 25,
   WORM_TURN_RATE: Math.PI / 4,
   WORM_INITIAL_HEALTH: 1000,
+  WORM_STRIKE_RADIUS: 8,
+  WORM_TERRITORY_SIZE: 250,
+  WORM_RESPAWN_DELAY: 60000,
+  WORM_POPULATION_BASE: 1,
+  WORM_POPULATION_PER_PLAYER: 2,
+  WORM_OBSTACLE_HEIGHT: 5,
+  WORM_NAV_CELL_SIZE: 10,
+  WORM_SAFE_SPIRAL_RADIUS: 30,
 };
 
 export { COMBAT_CONSTANTS } from './combat.js';
 export { VS4_CONSTANTS } from './vs4.js';
+export { VIBRATION_CONSTANTS } from './vibration.js';
+export { DAY_NIGHT_CONSTANTS } from './dayNight.js';
+export { WEATHER_CONSTANTS } from './weather.js';
+export { OBJECTIVE_CONSTANTS, OBJECTIVE_PENALTIES, OBJECTIVE_REWARDS } from './objectives.js';
+export { PARTY_CONSTANTS } from './party.js';
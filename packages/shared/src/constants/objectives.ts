@@ -0,0 +1,53 @@
+import { ObjectiveType, type ObjectiveReward } from '../types/objective.js';
+import { ECONOMY_CONSTANTS } from '../types/resources.js';
+
+export const OBJECTIVE_CONSTANTS = {
+  // Offers a fresh board starts with
+  BOARD_OFFERS: 3,
+  // Accepted objectives a player can work on at once
+  MAX_ACTIVE_OBJECTIVES: 2,
+  // Delay before a taken offer is replaced by a fresh one
+  ROTATION_COOLDOWN: 30000,
+
+  SHEPHERD_RADIUS: 20,
+  SHEPHERD_TIME_LIMIT: 180000,
+  SHEPHERD_MIN_DISTANCE: 200,
+  SHEPHERD_MAX_DISTANCE: 500,
+
+  DELIVER_SPICE_AMOUNT: 100,
+  DELIVER_TIME_LIMIT: 300000,
+
+  ESCORT_CHECKPOINTS: 3,
+  ESCORT_CHECKPOINT_RADIUS: 25,
+  // Distance between consecutive checkpoints
+  ESCORT_LEG_MIN: 120,
+  ESCORT_LEG_MAX: 180,
+  ESCORT_TIME_LIMIT: 300000,
+
+  SABOTAGE_TIME_LIMIT: 300000,
+
+  SURVIVE_STORM_DURATION: 60000,
+  SURVIVE_TIME_LIMIT: 180000,
+};
+
+/** Default reward per objective type; ObjectiveManager accepts overrides */
+export const OBJECTIVE_REWARDS: Record<ObjectiveType, ObjectiveReward> = {
+  [ObjectiveType.SHEPHERD_WORM]: {
+    spice: ECONOMY_CONSTANTS.OBJECTIVE_REWARD_SPICE,
+    water: ECONOMY_CONSTANTS.OBJECTIVE_REWARD_WATER,
+  },
+  // Pays back more spice than is handed over, so a delivery always comes out ahead
+  [ObjectiveType.DELIVER_SPICE]: { spice: OBJECTIVE_CONSTANTS.DELIVER_SPICE_AMOUNT + 40, water: 50 },
+  [ObjectiveType.ESCORT]: { spice: 120, water: 30 },
+  [ObjectiveType.SABOTAGE_OUTPOST]: { spice: 150, water: 20 },
+  [ObjectiveType.SURVIVE_STORM]: { spice: 80, water: 10 },
+};
+
+/**
+ * Default failure penalty per objective type. Types without an entry fail
+ * for free; ObjectiveManager accepts overrides.
+ */
+export const OBJECTIVE_PENALTIES: Partial<Record<ObjectiveType, ObjectiveReward>> = {
+  [ObjectiveType.ESCORT]: { spice: 30, water: 0 },
+  [ObjectiveType.SABOTAGE_OUTPOST]: { spice: 40, water: 0 },
+};
@@ -0,0 +1,6 @@
+export const PARTY_CONSTANTS = {
+  // Members including the leader
+  MAX_SIZE: 4,
+  // How long an invite can be accepted for (ms)
+  INVITE_TIMEOUT: 60000,
+};
@@ -0,0 +1,19 @@
+export const VIBRATION_CONSTANTS = {
+  // Noise strength emitted per second from a player's position
+  NOISE_WALK: 1,
+  NOISE_RUN: 4,
+  NOISE_HARVEST: 3,
+  NOISE_COMBAT: 8,
+  // An erupted spice blow, from the centre of the field
+  NOISE_SPICE_BLOW: 12,
+  // Seconds a shot keeps counting as combat noise
+  COMBAT_NOISE_WINDOW: 2,
+  // Emission multiplier for rhythmless walking (sandwalk)
+  SANDWALK_MULTIPLIER: 0.2,
+  // Movement input scale while sandwalking
+  SANDWALK_SPEED_SCALE: 0.5,
+  // Worm interest needed to start approaching, its ceiling and decay per second
+  INTEREST_THRESHOLD: 10,
+  INTEREST_MAX: 20,
+  INTEREST_DECAY: 2,
+};
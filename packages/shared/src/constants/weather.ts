@@ -0,0 +1,19 @@
+export const WEATHER_CONSTANTS = {
+  // Time between a storm dying out and the next front forming (ms)
+  STORM_INTERVAL: 600000,
+  // Lifetime of a front, including STORM_FADE at either end (ms)
+  STORM_DURATION: 240000,
+  STORM_FADE: 20000,
+  STORM_RADIUS: 150,
+  STORM_SPEED: 4, // m/s
+  // Full strength inside this fraction of the radius, fading to nothing at the edge
+  STORM_CORE: 0.6,
+  // Effects at full strength
+  STORM_WATER_MULTIPLIER: 2,
+  STORM_PERCEPTION_SCALE: 0.4,
+  STORM_DAMAGE_PER_SECOND: 1,
+  // Fraction of the usual turn rate a rider keeps
+  STORM_STEER_SCALE: 0.4,
+  // How hard the wind swings a ridden worm towards its own heading (rad/s)
+  STORM_WIND_TURN_RATE: 0.6,
+};
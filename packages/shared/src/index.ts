@@ -1,6 +1,10 @@
 export * from './types/index.js';
 export * from './constants/index.js';
 export * from './terrain/TerrainGenerator.js';
+export * from './terrain/SurfaceMap.js';
+export * from './replication/EntityDelta.js';
+export * from './time/WorldTime.js';
+export * from './weather/Storm.js';
 export * from './types/objective.js';
 export * from './types/resources.js';
 export { PlayerStateEnum, WormAIState } from './types/index.js';
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { diffEntity, applyEntityDelta } from './EntityDelta';
+
+interface TestEntity {
+  id: string;
+  position: { x: number; y: number; z: number };
+  health: number;
+  riderId?: string;
+  path?: number[];
+}
+
+describe('EntityDelta', () => {
+  const base: TestEntity = {
+    id: 'e1',
+    position: { x: 0, y: 0, z: 0 },
+    health: 100,
+    riderId: 'p1',
+    path: [1, 2, 3],
+  };
+
+  it('returns the full entity when there is no baseline', () => {
+    expect(diffEntity(undefined, base)).toEqual(base);
+  });
+
+  it('returns null when nothing changed', () => {
+    expect(diffEntity(base, { ...base, position: { ...base.position }, path: [1, 2, 3] })).toBeNull();
+  });
+
+  it('only includes changed fields', () => {
+    const delta = diffEntity(base, { ...base, health: 80 });
+
+    expect(delta).toEqual({ id: 'e1', health: 80 });
+  });
+
+  it('sends whole nested values when any part changes', () => {
+    const delta = diffEntity(base, { ...base, path: [1, 2, 4] });
+
+    expect(delta).toEqual({ id: 'e1', path: [1, 2, 4] });
+  });
+
+  it('marks removed optional fields with null', () => {
+    const current: TestEntity = { ...base };
+    delete current.riderId;
+
+    const delta = diffEntity(base, current);
+
+    expect(delta).toEqual({ id: 'e1', riderId: null });
+    expect(JSON.parse(JSON.stringify(delta))).toEqual({ id: 'e1', riderId: null });
+  });
+
+  it('round-trips through applyEntityDelta', () => {
+    const current: TestEntity = {
+      id: 'e1',
+      position: { x: 5, y: 0, z: -3 },
+      health: 100,
+      path: [1, 2, 3],
+    };
+
+    const delta = diffEntity(base, current)!;
+    const rebuilt = applyEntityDelta(base, JSON.parse(JSON.stringify(delta)));
+
+    expect(rebuilt).toEqual(current);
+    expect('riderId' in rebuilt).toBe(false);
+  });
+
+  it('builds a fresh entity from a full delta', () => {
+    expect(applyEntityDelta(undefined, diffEntity(undefined, base)!)).toEqual(base);
+  });
+});
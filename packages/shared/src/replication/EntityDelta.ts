@@ -0,0 +1,91 @@
+/**
+ * Field-level entity deltas for snapshot replication.
+ *
+ * A delta always carries the entity `id` plus every top-level field whose
+ * value differs from the baseline. Fields that were removed are sent as
+ * `null` because JSON transport drops `undefined`.
+ */
+export type EntityDelta<T extends { id: string }> = { id: string } & {
+  [K in keyof T]?: T[K] | null;
+};
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) {
+      if (!valuesEqual(a[i], b[i])) return false;
+    }
+    return true;
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  for (const key of keys) {
+    if (!valuesEqual(aRecord[key], bRecord[key])) return false;
+  }
+  return true;
+}
+
+/**
+ * Diff an entity against its baseline. Returns the full entity when there is
+ * no baseline and `null` when nothing changed.
+ */
+export function diffEntity<T extends { id: string }>(
+  baseline: T | undefined,
+  current: T
+): EntityDelta<T> | null {
+  if (!baseline) {
+    return { ...current } as EntityDelta<T>;
+  }
+
+  const delta: Record<string, unknown> = { id: current.id };
+  let changed = false;
+
+  const currentRecord = current as Record<string, unknown>;
+  const baselineRecord = baseline as Record<string, unknown>;
+
+  for (const key of Object.keys(currentRecord)) {
+    if (key === 'id' || currentRecord[key] === undefined) continue;
+    if (!valuesEqual(baselineRecord[key], currentRecord[key])) {
+      delta[key] = currentRecord[key];
+      changed = true;
+    }
+  }
+
+  for (const key of Object.keys(baselineRecord)) {
+    if (baselineRecord[key] !== undefined && currentRecord[key] === undefined) {
+      delta[key] = null;
+      changed = true;
+    }
+  }
+
+  return changed ? (delta as EntityDelta<T>) : null;
+}
+
+/**
+ * Rebuild an entity from its baseline and a delta produced by `diffEntity`.
+ */
+export function applyEntityDelta<T extends { id: string }>(
+  baseline: T | undefined,
+  delta: EntityDelta<T>
+): T {
+  const result: Record<string, unknown> = { ...(baseline ?? {}) };
+
+  for (const [key, value] of Object.entries(delta)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result as T;
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { SurfaceMap, SurfaceType } from './SurfaceMap';
+
+describe('SurfaceMap', () => {
+  const sample = (surface: SurfaceMap) => surface.generateSurfaceMap(-1000, -1000, 40, 40, 50);
+
+  it('should generate the same surface from the same seed', () => {
+    expect(sample(new SurfaceMap({ seed: 12345 }))).toEqual(sample(new SurfaceMap({ seed: 12345 })));
+  });
+
+  it('should generate different surfaces from different seeds', () => {
+    expect(sample(new SurfaceMap({ seed: 12345 }))).not.toEqual(sample(new SurfaceMap({ seed: 54321 })));
+  });
+
+  it('should contain sand, dunes and rock', () => {
+    const surfaces = new Set(sample(new SurfaceMap({ seed: 12345 })));
+
+    expect(surfaces).toContain(SurfaceType.SAND);
+    expect(surfaces).toContain(SurfaceType.DUNES);
+    expect(surfaces).toContain(SurfaceType.ROCK);
+  });
+
+  it('should keep the spawn point clear of rock', () => {
+    for (const seed of [1, 12345, 54321, 99999]) {
+      const surface = new SurfaceMap({ seed });
+      expect(surface.isRock(0, 0)).toBe(false);
+      expect(surface.getSurface(0, 0)).not.toBe(SurfaceType.ROCK);
+    }
+  });
+
+  it('should generate surface map with correct dimensions', () => {
+    const surface = new SurfaceMap({ seed: 12345 });
+
+    expect(surface.generateSurfaceMap(0, 0, 10, 8, 1)).toHaveLength(80);
+  });
+});
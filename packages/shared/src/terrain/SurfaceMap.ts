@@ -0,0 +1,89 @@
+import { createNoise2D } from 'simplex-noise';
+import { alea } from './random.js';
+import { TerrainGenerator } from './TerrainGenerator.js';
+
+export enum SurfaceType {
+  SAND = 'SAND',
+  DUNES = 'DUNES',
+  ROCK = 'ROCK',
+}
+
+export interface SurfaceConfig {
+  seed: number;
+  rockScale: number;
+  rockThreshold: number;
+  duneHeight: number;
+  spawnClearance: number;
+}
+
+export const DEFAULT_SURFACE_CONFIG: SurfaceConfig = {
+  seed: 12345,
+  rockScale: 0.004,
+  rockThreshold: 0.45,
+  duneHeight: 6,
+  spawnClearance: 250,
+};
+
+// Keeps the rock field independent of the heightfield noise for the same seed
+const ROCK_SEED_OFFSET = 0x9e3779b9;
+
+/**
+ * Surface layer over the heightmap.
+ *
+ * Rock shelves come from their own low-frequency noise field, dunes are the
+ * high ground of the heightmap and everything else is open sand. The basin
+ * around the spawn point is kept clear of rock so there are always worms to
+ * ride nearby.
+ */
+export class SurfaceMap {
+  private rockNoise: ReturnType<typeof createNoise2D>;
+  private config: SurfaceConfig;
+  private heights: TerrainGenerator;
+
+  constructor(config: Partial<SurfaceConfig> = {}, heights?: TerrainGenerator) {
+    this.config = { ...DEFAULT_SURFACE_CONFIG, ...config };
+    this.rockNoise = createNoise2D(alea(this.config.seed ^ ROCK_SEED_OFFSET));
+    this.heights = heights ?? new TerrainGenerator({ seed: this.config.seed });
+  }
+
+  getSurface(x: number, z: number): SurfaceType {
+    if (this.isRock(x, z)) {
+      return SurfaceType.ROCK;
+    }
+    if (this.heights.getHeight(x, z) > this.config.duneHeight) {
+      return SurfaceType.DUNES;
+    }
+    return SurfaceType.SAND;
+  }
+
+  isRock(x: number, z: number): boolean {
+    const frequency = this.config.rockScale;
+    const value =
+      this.rockNoise(x * frequency, z * frequency) * 0.7 +
+      this.rockNoise(x * frequency * 3, z * frequency * 3) * 0.3;
+
+    // Raise the bar towards the spawn point so no rock forms there
+    const distFromSpawn = Math.sqrt(x * x + z * z);
+    const clearance = Math.max(0, 1 - distFromSpawn / this.config.spawnClearance);
+
+    return value > this.config.rockThreshold + clearance;
+  }
+
+  generateSurfaceMap(
+    startX: number,
+    startZ: number,
+    width: number,
+    height: number,
+    resolution: number
+  ): SurfaceType[] {
+    const surfaces: SurfaceType[] = [];
+
+    for (let z = 0; z < height; z++) {
+      for (let x = 0; x < width; x++) {
+        surfaces.push(this.getSurface(startX + x * resolution, startZ + z * resolution));
+      }
+    }
+
+    return surfaces;
+  }
+}
@@ -1,4 +1,5 @@
 import { createNoise2D } from 'simplex-noise';
+import { alea } from './random.js';
 
 export interface TerrainConfig {
   seed: number;
@@ -24,16 +25,6 @@ export class TerrainGenerator {
 
   constructor(config: Partial<TerrainConfig> = {}) {
     this.config = { ...DEFAULT_TERRAIN_CONFIG, ...config };
-    
-    const alea = (seed: number) => {
-      let s = seed;
-      return () => {
-        s = Math.imul(s ^ (s >>> 16), 0x85ebca6b);
-        s = Math.imul(s ^ (s >>> 13), 0xc2b2ae35);
-        return ((s ^= s >>> 16) >>> 0) / 4294967296;
-      };
-    };
-
     this.noise2D = createNoise2D(alea(this.config.seed));
   }
 
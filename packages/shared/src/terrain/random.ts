@@ -0,0 +1,12 @@
+/**
+ * Small integer-hash PRNG used to seed the noise functions.
+ * Returns numbers in [0, 1).
+ */
+export function alea(seed: number): () => number {
+  let s = seed;
+  return () => {
+    s = Math.imul(s ^ (s >>> 16), 0x85ebca6b);
+    s = Math.imul(s ^ (s >>> 13), 0xc2b2ae35);
+    return ((s ^= s >>> 16) >>> 0) / 4294967296;
+  };
+}
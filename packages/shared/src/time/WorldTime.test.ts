@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { getDaylight, getSunElevation, scaleByTimeOfDay } from './WorldTime';
+
+describe('WorldTime', () => {
+  it('should put the sun highest at noon and lowest at midnight', () => {
+    expect(getSunElevation(0.5)).toBeCloseTo(1);
+    expect(getSunElevation(0)).toBeCloseTo(-1);
+    expect(getSunElevation(0.25)).toBeCloseTo(0);
+    expect(getSunElevation(0.75)).toBeCloseTo(0);
+  });
+
+  it('should have no daylight between sunset and sunrise', () => {
+    expect(getDaylight(0.5)).toBeCloseTo(1);
+    expect(getDaylight(0)).toBe(0);
+    expect(getDaylight(0.9)).toBe(0);
+    expect(getDaylight(0.4)).toBeGreaterThan(getDaylight(0.3));
+  });
+
+  it('should scale towards the day and night extremes', () => {
+    expect(scaleByTimeOfDay(0.6, 1.5, 0.5)).toBeCloseTo(1.5);
+    expect(scaleByTimeOfDay(0.6, 1.5, 0)).toBeCloseTo(0.6);
+    expect(scaleByTimeOfDay(0.6, 1.5, 0.25)).toBeCloseTo(1);
+    expect(scaleByTimeOfDay(0.6, 1.5, 0.75)).toBeCloseTo(1);
+  });
+});
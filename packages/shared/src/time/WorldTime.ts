@@ -0,0 +1,32 @@
+/** Server-authoritative time of day */
+export interface WorldTime {
+  /** Fraction of the current day: 0 = midnight, 0.25 = sunrise, 0.5 = noon, 0.75 = sunset */
+  timeOfDay: number;
+  /** Whole days elapsed since the world started */
+  day: number;
+}
+
+/**
+ * Height of the sun from -1 (midnight) through 0 (sunrise and sunset) to 1 (noon).
+ */
+export function getSunElevation(timeOfDay: number): number {
+  return Math.sin(2 * Math.PI * (timeOfDay - 0.25));
+}
+
+/**
+ * Strength of the sun from 0 (between sunset and sunrise) to 1 (noon).
+ */
+export function getDaylight(timeOfDay: number): number {
+  return Math.max(0, getSunElevation(timeOfDay));
+}
+
+/**
+ * Multiplier that is neutral at sunrise and sunset and eases towards
+ * `dayScale` at noon and `nightScale` at midnight.
+ */
+export function scaleByTimeOfDay(nightScale: number, dayScale: number, timeOfDay: number): number {
+  const elevation = getSunElevation(timeOfDay);
+  return elevation >= 0
+    ? 1 + (dayScale - 1) * elevation
+    : 1 + (nightScale - 1) * -elevation;
+}
@@ -13,6 +13,7 @@ export enum PlayerStateEnum {
 export enum WormAIState {
   PATROLLING = 'PATROLLING',
   APPROACHING_THUMPER = 'APPROACHING_THUMPER',
+  APPROACHING_NOISE = 'APPROACHING_NOISE',
   RIDDEN_BY = 'RIDDEN_BY',
   SAFE_SPIRAL = 'SAFE_SPIRAL',
 }
@@ -44,6 +45,17 @@ export interface ThumperState {
   expiresAt: number;
 }
 
+/** A moving sandstorm front */
+export interface StormState {
+  id: string;
+  position: Vector3;
+  /** Drift in m/s; also the direction the wind blows */
+  velocity: Vector3;
+  radius: number;
+  /** 0-1, ramps up as the front forms and down as it dies out */
+  intensity: number;
+}
+
 export type DamageSource = 'player' | 'ai' | 'environment';
 
 export interface HealthState {
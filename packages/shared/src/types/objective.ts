@@ -2,14 +2,25 @@ import type { Vector3 } from './index.js';
 
 export enum ObjectiveType {
   SHEPHERD_WORM = 'SHEPHERD_WORM',
+  DELIVER_SPICE = 'DELIVER_SPICE',
+  ESCORT = 'ESCORT',
+  SABOTAGE_OUTPOST = 'SABOTAGE_OUTPOST',
+  SURVIVE_STORM = 'SURVIVE_STORM',
 }
 
 export enum ObjectiveStatus {
+  /** On a board, waiting to be accepted */
+  OFFERED = 'OFFERED',
   ACTIVE = 'ACTIVE',
   COMPLETED = 'COMPLETED',
   FAILED = 'FAILED',
 }
 
+export interface ObjectiveReward {
+  spice: number;
+  water: number;
+}
+
 export interface Objective {
   id: string;
   type: ObjectiveType;
@@ -18,4 +29,29 @@ export interface Objective {
   timeLimit: number;
   expiresAt: number;
   status: ObjectiveStatus;
+  /** 0..1 towards completion */
+  progress: number;
+  reward: ObjectiveReward;
+  /** Taken from the owner if the objective fails */
+  penalty?: ObjectiveReward;
+  /** Outpost to sabotage or storm to survive */
+  targetId?: string;
+  /** ESCORT: route a ridden worm must pass through, in order */
+  checkpoints?: Vector3[];
+  checkpointIndex?: number;
+  /** DELIVER_SPICE: spice to hand over at the Sietch */
+  spiceRequired?: number;
+  /** SURVIVE_STORM: time to spend inside a storm (ms) */
+  surviveDuration?: number;
+  /** SURVIVE_STORM: time each player has spent inside so far (ms) */
+  playerProgress?: Record<string, number>;
+}
+
+/** A player's own objectives: offers to pick from and the ones they've accepted */
+export interface ObjectiveBoard {
+  objectives: Objective[];
+  /** Completed objectives by type */
+  completions: Partial<Record<ObjectiveType, number>>;
+  /** When fresh offers rotate in to replace ones taken off the board */
+  rotations?: number[];
 }
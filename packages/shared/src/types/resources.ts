@@ -1,4 +1,5 @@
 import type { Vector3 } from './index.js';
+import type { ObjectiveBoard } from './objective.js';
 
 // Equipment Types
 export enum EquipmentSlot {
@@ -33,6 +34,7 @@ export interface EquipmentStats {
   waterReduction?: number; // Percentage (0-1)
   speedBoost?: number;
   healthBoost?: number;
+  noiseReduction?: number; // Percentage (0-1) of movement noise muffled
 }
 
 export interface Equipment {
@@ -48,6 +50,7 @@ export interface PlayerResources {
   equipment: Equipment;
   stats: PlayerStats;
   inventory: InventoryItem[];
+  objectives?: ObjectiveBoard;
 }
 
 export interface InventoryItem {
@@ -64,6 +67,7 @@ export interface PlayerStats {
   deaths: number;
   wormsRidden: number;
   outpostsCaptured: number;
+  corpsesRecovered: number;
 }
 
 // Spice Nodes
@@ -83,6 +87,20 @@ export interface SpiceNode {
   lastHarvestedBy?: string; // playerId
 }
 
+export type SpiceNodeChange = 'harvested' | 'depleted' | 'respawned';
+
+// Spice blow world event
+export type SpiceBlowPhase = 'warning' | 'erupted' | 'decayed';
+
+export interface SpiceBlowState {
+  id: string;
+  position: Vector3;
+  radius: number;
+  phase: SpiceBlowPhase;
+  eruptsAt: number; // timestamp
+  decaysAt: number; // timestamp
+}
+
 // Oasis
 export interface Oasis {
   id: string;
@@ -178,6 +196,7 @@ export const STARTING_RESOURCES: Partial<PlayerResources> = {
     deaths: 0,
     wormsRidden: 0,
     outpostsCaptured: 0,
+    corpsesRecovered: 0,
   },
   inventory: [
     {
@@ -196,9 +215,10 @@ export const EQUIPMENT_CATALOG: Record<string, EquipmentItem> = {
     type: EquipmentType.STILLSUIT,
     tier: EquipmentTier.BASIC,
     name: 'Basic Stillsuit',
-    description: 'Standard desert survival suit. Reduces water loss by 25%.',
+    description: 'Standard desert survival suit. Reduces water loss by 25% and muffles footsteps by 10%.',
     stats: {
       waterReduction: 0.25,
+      noiseReduction: 0.1,
     },
   },
   'improved-stillsuit': {
@@ -206,9 +226,10 @@ export const EQUIPMENT_CATALOG: Record<string, EquipmentItem> = {
     type: EquipmentType.STILLSUIT,
     tier: EquipmentTier.IMPROVED,
     name: 'Improved Stillsuit',
-    description: 'Enhanced stillsuit with better reclamation. Reduces water loss by 50%.',
+    description: 'Enhanced stillsuit with better reclamation. Reduces water loss by 50% and muffles footsteps by 20%.',
     stats: {
       waterReduction: 0.50,
+      noiseReduction: 0.2,
     },
   },
   'advanced-stillsuit': {
@@ -216,11 +237,20 @@ export const EQUIPMENT_CATALOG: Record<string, EquipmentItem> = {
     type: EquipmentType.STILLSUIT,
     tier: EquipmentTier.ADVANCED,
     name: 'Advanced Stillsuit',
-    description: 'Fremen-quality stillsuit. Reduces water loss by 75%.',
+    description: 'Fremen-quality stillsuit. Reduces water loss by 75% and muffles footsteps by 35%.',
     stats: {
       waterReduction: 0.75,
+      noiseReduction: 0.35,
     },
   },
+  'desert-hood': {
+    id: 'desert-hood',
+    type: EquipmentType.HEADGEAR,
+    tier: EquipmentTier.BASIC,
+    name: 'Desert Hood',
+    description: 'Wrapped hood and sand mask. Keeps sandstorms from scouring your face and lungs.',
+    stats: {},
+  },
 };
 
 // Merchant Prices
@@ -228,6 +258,7 @@ export const MERCHANT_PRICES: Record<string, number> = {
   'basic-stillsuit': 50,
   'improved-stillsuit': 200,
   'advanced-stillsuit': 500,
+  'desert-hood': 40,
   'thumper': 20,
 };
 
@@ -237,11 +268,20 @@ export const ECONOMY_CONSTANTS = {
   OBJECTIVE_REWARD_WATER: 25,
   DEATH_SPICE_PENALTY: 0.20, // 20% of carried spice
   CORPSE_DURATION: 120000, // 2 minutes
+  CORPSE_RECOVERY_DISTANCE: 5, // meters
   HARVEST_DURATION: 3000, // 3 seconds
   HARVEST_DISTANCE: 3, // meters
+  HARVEST_MOVE_TOLERANCE: 0.5, // meters moved before a harvest is interrupted
   OASIS_REFILL_AMOUNT: 50,
   OASIS_COOLDOWN: 300000, // 5 minutes
   SPICE_NODE_RESPAWN: 600000, // 10 minutes
   SPICE_NODE_MAX_SUPPLY: 100,
   SPICE_HARVEST_AMOUNT: 10, // per harvest
+  SPICE_NODE_STREAM_RANGE: 60, // meters around a player that nodes are streamed
+  SPICE_BLOW_INTERVAL: 900000, // 15 minutes between blows
+  SPICE_BLOW_WARNING: 30000, // countdown before eruption
+  SPICE_BLOW_DURATION: 180000, // 3 minutes before the field decays
+  SPICE_BLOW_RADIUS: 25, // meters
+  SPICE_BLOW_NODE_COUNT: 40,
+  SPICE_BLOW_NODE_SUPPLY: 300,
 } as const;
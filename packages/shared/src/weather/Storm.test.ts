@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { WEATHER_CONSTANTS } from '../constants/weather';
+import type { StormState } from '../types/index';
+import { getStormStrength, getStrongestStorm } from './Storm';
+
+describe('Storm', () => {
+  const storm = (id: string, x: number, intensity = 1): StormState => ({
+    id,
+    position: { x, y: 0, z: 0 },
+    velocity: { x: 4, y: 0, z: 0 },
+    radius: 100,
+    intensity,
+  });
+
+  it('should be at full strength inside the core', () => {
+    expect(getStormStrength(storm('a', 0), { x: 0, y: 0, z: 0 })).toBe(1);
+    expect(getStormStrength(storm('a', 0), { x: 100 * WEATHER_CONSTANTS.STORM_CORE, y: 0, z: 0 })).toBe(1);
+  });
+
+  it('should fade towards the edge and vanish outside', () => {
+    const edge = getStormStrength(storm('a', 0), { x: 90, y: 0, z: 0 });
+    expect(edge).toBeGreaterThan(0);
+    expect(edge).toBeLessThan(1);
+    expect(getStormStrength(storm('a', 0), { x: 100, y: 0, z: 0 })).toBe(0);
+  });
+
+  it('should scale with intensity', () => {
+    expect(getStormStrength(storm('a', 0, 0.5), { x: 0, y: 0, z: 0 })).toBe(0.5);
+  });
+
+  it('should pick the storm hitting hardest', () => {
+    const storms = [storm('far', 80), storm('near', 10)];
+
+    expect(getStrongestStorm(storms, { x: 0, y: 0, z: 0 })?.storm.id).toBe('near');
+    expect(getStrongestStorm(storms, { x: -500, y: 0, z: 0 })).toBeNull();
+  });
+});
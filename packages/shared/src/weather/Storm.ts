@@ -0,0 +1,36 @@
+import { WEATHER_CONSTANTS } from '../constants/weather.js';
+import type { StormState, Vector3 } from '../types/index.js';
+
+/**
+ * Strength of a single storm at `position`, from 0 (outside) to its
+ * intensity (inside the core).
+ */
+export function getStormStrength(storm: StormState, position: Vector3): number {
+  const dx = position.x - storm.position.x;
+  const dz = position.z - storm.position.z;
+  const dist = Math.sqrt(dx * dx + dz * dz);
+  if (dist >= storm.radius) {
+    return 0;
+  }
+
+  const core = storm.radius * WEATHER_CONSTANTS.STORM_CORE;
+  const falloff = dist <= core ? 1 : 1 - (dist - core) / (storm.radius - core);
+  return storm.intensity * falloff;
+}
+
+/**
+ * The storm hitting `position` hardest, if any.
+ */
+export function getStrongestStorm(
+  storms: Iterable<StormState>,
+  position: Vector3
+): { storm: StormState; strength: number } | null {
+  let strongest: { storm: StormState; strength: number } | null = null;
+  for (const storm of storms) {
+    const strength = getStormStrength(storm, position);
+    if (strength > 0 && (!strongest || strength > strongest.strength)) {
+      strongest = { storm, strength };
+    }
+  }
+  return strongest;
+}